@@ -1,30 +1,60 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { AppMode, ProcessedFileInfo, PageNumberPosition, StandardPdfFonts, PageNumberOptions, ImageToPdfOptions } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AppMode, ProcessedFileInfo, PageNumberPosition, StandardPdfFonts, PageNumberOptions, FontInput, HeaderFooterOptions, HeaderFooterSlot, BatesOptions, PageNumberStyle, ImageToPdfOptions, SignaturePlacement, SignatureStampOptions, SignatureVerificationResult, CompressionLevel, WatermarkOptions, WatermarkLayout, PdfEncryptionAlgorithm, PdfPermissions, PdfToImagesOptions, PdfToTextOptions, WordToPdfOptions, TextToPdfOptions, PipelineStep, PdfRecipe, PdfMetadata, PdfFormField, TextFontOptions, RedactionArea, RedactionSearchOptions, RedactionSearchPreset, RedactionReport, BatchFileStatus, JobControl } from './types';
 import FileUpload from './components/FileUpload';
 import MultiFileUpload from './components/MultiFileUpload';
 import LoadingSpinner from './components/LoadingSpinner';
 import ActionButton from './components/ActionButton';
-import { convertDocxToPdf } from './services/fileConverterService';
-import { convertImagesToPdf } from './services/imageConverterService';
+import SignaturePad from './components/SignaturePad';
+import SignaturePlacer from './components/SignaturePlacer';
+import PdfPreviewer, { PdfPageView } from './components/PdfPreviewer';
+import PageOrganizer from './components/PageOrganizer';
+import PasswordPrompt from './components/PasswordPrompt';
+import PdfFormEditor from './components/PdfFormEditor';
+import RedactionAreaSelector from './components/RedactionAreaSelector';
+import PipelineBuilder from './components/PipelineBuilder';
+import BatchStatusList from './components/BatchStatusList';
+import PageRangeHint from './components/PageRangeHint';
+import FontPicker from './components/FontPicker';
+import { convertDocxToPdf, convertTextDocumentToPdf } from './services/fileConverterService';
+import { convertPdfToImages } from './services/pdfRenderService';
+import { convertPdfToText } from './services/pdfTextExtractionService';
+import { getPageDisplayTransform } from './services/pdfTextService';
+import { createZip, saveZip } from './services/zipService';
+import { runBatch } from './services/batchService';
+import { parsePageRanges, splitPageRangeSegments } from './services/pageRangeService';
+import { HEADER_FOOTER_SLOTS, formatBatesNumber } from './services/pdfHeaderFooterService';
+import { fetchFallbackFont } from './services/fontEmbeddingService';
 import {
-  mergePdfs,
-  extractPagesFromPdf,
-  splitPdf,
   SplitPdfOptions,
-  rotatePdfPages,
   RotatePdfOptions,
-  addPageNumbersToPdf,
-  compressPdf
+  OrganizePageItem
 } from './services/pdfManipulatorService';
+import {
+  mergePdfsInWorkers,
+  splitPdfInWorkers,
+  extractPagesInWorker,
+  rotatePdfPagesInWorker,
+  addPageNumbersInWorker,
+  addWatermarkInWorker,
+  addHeaderFooterInWorker,
+  organizePdfPagesInWorker,
+  convertImagesToPdfInWorker,
+  compressPdfInWorker,
+  isJobCancelled
+} from './services/pdfWorkerPool';
+import { readPdfFormFields, fillPdfForm, applyFormValues, formValuesToJson, formValuesToFdf, formValuesToXfdf, parseFormValuesFile } from './services/pdfFormService';
+import { readPdfMetadata, writePdfMetadata, stripPdfMetadata } from './services/pdfMetadataService';
+import { runPipeline, loadSavedRecipes, saveRecipe, deleteSavedRecipe, recipeToJson, parseRecipeJson } from './services/pdfPipelineService';
+import { redactPdf, findRedactionMatches, getDisplayedPageSizes } from './services/pdfRedactionService';
+import { protectPdf, isPdfEncrypted, decryptPdf, PdfPasswordError } from './services/pdfSecurityService';
+import { stampSignatureOnPdf, loadSigningCertificate, signPdfWithCertificate, verifyPdfSignatures } from './services/pdfSignerService';
 import { PDFDocument } from 'pdf-lib';
 
-// Extend Window interface for globally loaded libraries (Mammoth, html2canvas, jspdf)
+// Extend Window interface for globally loaded libraries (Mammoth)
 declare global {
   interface Window {
     mammoth: any;
-    html2canvas: any;
-    jspdf: any;
   }
 }
 
@@ -36,39 +66,219 @@ const ROUTES: Record<string, AppMode> = {
   '/tools': AppMode.SELECT,
   '/edit': AppMode.SELECT,
   '/word-to-pdf': AppMode.WORD_TO_PDF,
+  '/pipeline': AppMode.PIPELINE,
+  '/text-to-pdf': AppMode.TEXT_TO_PDF,
   '/merge-pdfs': AppMode.MERGE_PDFS,
   '/extract-pages': AppMode.EXTRACT_PAGES,
   '/split-pdf': AppMode.SPLIT_PDF,
   '/rotate-pdf': AppMode.ROTATE_PDF,
   '/add-page-numbers': AppMode.ADD_PAGE_NUMBERS,
+  '/header-footer': AppMode.HEADER_FOOTER,
   '/compress-pdf': AppMode.COMPRESS_PDF,
+  '/watermark-pdf': AppMode.WATERMARK_PDF,
+  '/protect-pdf': AppMode.PROTECT_PDF,
+  '/unlock-pdf': AppMode.UNLOCK_PDF,
+  '/edit-metadata': AppMode.EDIT_METADATA,
+  '/fill-pdf-form': AppMode.FILL_FORM,
+  '/redact-pdf': AppMode.REDACT_PDF,
+  '/organize-pdf': AppMode.ORGANIZE_PDF,
   '/images-to-pdf': AppMode.IMAGES_TO_PDF,
+  '/pdf-to-images': AppMode.PDF_TO_IMAGES,
+  '/pdf-to-text': AppMode.PDF_TO_TEXT,
+  '/sign-pdf': AppMode.SIGN_PDF,
+  '/verify-signatures': AppMode.VERIFY_SIGNATURES,
   '/privacy-policy': AppMode.PRIVACY_POLICY, // Added
   '/about-us': AppMode.ABOUT_US, // Added
 };
 
+// Formats a date for <input type="datetime-local">, which works in local time
+const toDateTimeLocalValue = (date: Date | null) => {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 19);
+};
+
+// Bottom-right area of the page, where signature lines usually are
+const DEFAULT_SIGNATURE_PLACEMENT: SignaturePlacement = { x: 0.55, y: 0.8, width: 0.3, height: 0.1 };
+
+const DEFAULT_WATERMARK_OPTIONS: WatermarkOptions = {
+  type: 'text',
+  text: 'CONFIDENTIAL',
+  font: StandardPdfFonts.HelveticaBold,
+  fontSize: 60,
+  colorHex: '#FF0000',
+  imageScale: 0.5,
+  opacity: 0.3,
+  rotation: 45,
+  layout: WatermarkLayout.Diagonal,
+  behindContent: false,
+  pageRange: '',
+};
+
+const DEFAULT_HEADER_FOOTER_OPTIONS: HeaderFooterOptions = {
+  slots: { topLeft: '', topCenter: '', topRight: '', bottomLeft: '', bottomCenter: 'Page %p of %t', bottomRight: '' },
+  font: StandardPdfFonts.Helvetica,
+  fontSize: 10,
+  colorHex: '#000000',
+  numberStyle: 'arabic',
+  startNumber: 1,
+  skipFirstPages: 0,
+  pageRange: '',
+  marginX: 36,
+  marginY: 24,
+};
+
+const DEFAULT_BATES_OPTIONS: BatesOptions = { prefix: '', suffix: '', startNumber: 1, digits: 6 };
+
+const HEADER_FOOTER_SLOT_LABELS: Record<HeaderFooterSlot, string> = {
+  topLeft: 'Top left',
+  topCenter: 'Top centre',
+  topRight: 'Top right',
+  bottomLeft: 'Bottom left',
+  bottomCenter: 'Bottom centre',
+  bottomRight: 'Bottom right',
+};
+
+const PAGE_NUMBER_STYLE_LABELS: Record<PageNumberStyle, string> = {
+  arabic: '1, 2, 3',
+  romanLower: 'i, ii, iii',
+  romanUpper: 'I, II, III',
+  alphaLower: 'a, b, c',
+  alphaUpper: 'A, B, C',
+};
+
+const DEFAULT_PDF_IMAGE_OPTIONS: PdfToImagesOptions = { format: 'png', dpi: 150, jpegQuality: 0.9, pageRange: '' };
+
+const DEFAULT_WORD_PDF_OPTIONS: WordToPdfOptions = { pageSize: 'document', fontFamily: 'sans' };
+
+const TEXT_FONT_CHOICES: { value: TextToPdfOptions['fontFamily']; label: string }[] = [
+  { value: 'sans', label: 'Helvetica' },
+  { value: 'serif', label: 'Times' },
+  { value: 'mono', label: 'Courier' },
+];
+
+const DEFAULT_TEXT_PDF_OPTIONS: TextToPdfOptions = {
+  pageSize: 'A4',
+  orientation: 'portrait',
+  margin: 72,
+  fontFamily: 'sans',
+  fontSize: 11,
+  header: '',
+  footer: 'Page {page} of {pages}',
+};
+
+const DEFAULT_PDF_TEXT_OPTIONS: PdfToTextOptions = { format: 'txt', pageRange: '' };
+
+const PDF_TEXT_OUTPUTS: Record<PdfToTextOptions['format'], { extension: string; mimeType: string }> = {
+  txt: { extension: 'txt', mimeType: 'text/plain' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+// Tools that can be applied to many files at once, with the default output name of each result
+const BATCH_NAME_TEMPLATES: Partial<Record<AppMode, string>> = {
+  [AppMode.ROTATE_PDF]: '{name}_rotated.pdf',
+  [AppMode.ADD_PAGE_NUMBERS]: '{name}_numbered.pdf',
+  [AppMode.HEADER_FOOTER]: '{name}_stamped.pdf',
+  [AppMode.COMPRESS_PDF]: '{name}_compressed.pdf',
+  [AppMode.WATERMARK_PDF]: '{name}_watermarked.pdf',
+};
+
+const SPLIT_MODE_LABELS: Record<SplitPdfOptions['mode'], string> = {
+  all: 'Split all pages',
+  ranges: 'Extract custom ranges',
+  everyNPages: 'Every N pages',
+  maxSize: 'By file size',
+  bookmarks: 'At each bookmark',
+  blankPages: 'At blank pages',
+};
+
+// What a tool produces for one input file
+type ToolOutput = { pdfBytes: Uint8Array } & Pick<ProcessedFileInfo, 'originalSize' | 'imageReport'>;
+
+const DEFAULT_PDF_PERMISSIONS: PdfPermissions = { printing: true, copying: true, editing: false, fillingForms: true };
+
 const App: React.FC = () => {
   const [appMode, setAppMode] = useState<AppMode>(AppMode.SELECT);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [jobProgress, setJobProgress] = useState<number | null>(null); // 0 to 1 for jobs that report progress
+  const jobAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [processedFilesInfo, setProcessedFilesInfo] = useState<ProcessedFileInfo[]>([]);
   const [currentFileNameBase, setCurrentFileNameBase] = useState<string>('');
 
   // Merge PDFs specific state
   const [filesToMerge, setFilesToMerge] = useState<File[]>([]);
+  const [mergePreserveBookmarks, setMergePreserveBookmarks] = useState<boolean>(true);
+  const [mergeBookmarkPerFile, setMergeBookmarkPerFile] = useState<boolean>(false);
+
+  // Pipeline specific state
+  const [pipelineFiles, setPipelineFiles] = useState<File[]>([]);
+  const [pipelineSteps, setPipelineSteps] = useState<PipelineStep[]>([]);
+  const [recipeName, setRecipeName] = useState<string>('');
+  const [savedRecipes, setSavedRecipes] = useState<PdfRecipe[]>(loadSavedRecipes);
+  const [recipeMessage, setRecipeMessage] = useState<string | null>(null);
+
+  // Organize PDF specific state
+  const [filesToOrganize, setFilesToOrganize] = useState<File[]>([]);
+  const [organizedPages, setOrganizedPages] = useState<OrganizePageItem[]>([]);
 
   // Images to PDF specific state
   const [imagesToConvert, setImagesToConvert] = useState<File[]>([]);
   const [imagePdfOptions, setImagePdfOptions] = useState<ImageToPdfOptions>({ pageSize: 'A4', orientation: 'portrait' });
 
+  // Word to PDF specific state
+  const [wordPdfOptions, setWordPdfOptions] = useState<WordToPdfOptions>(DEFAULT_WORD_PDF_OPTIONS);
+
+  // Text to PDF specific state
+  const [textPdfOptions, setTextPdfOptions] = useState<TextToPdfOptions>(DEFAULT_TEXT_PDF_OPTIONS);
+  const [textPdfImages, setTextPdfImages] = useState<File[]>([]);
+
+  // PDF to Images specific state
+  const [pdfImageOptions, setPdfImageOptions] = useState<PdfToImagesOptions>(DEFAULT_PDF_IMAGE_OPTIONS);
+  const [pdfTextOptions, setPdfTextOptions] = useState<PdfToTextOptions>(DEFAULT_PDF_TEXT_OPTIONS);
+  const [pdfImagesAsZip, setPdfImagesAsZip] = useState<boolean>(true);
+
+  // Edit Metadata specific state
+  const [pdfMetadata, setPdfMetadata] = useState<PdfMetadata | null>(null);
+
+  // Fill PDF Form specific state
+  const [formFields, setFormFields] = useState<PdfFormField[] | null>(null);
+  const [flattenForm, setFlattenForm] = useState<boolean>(false);
+  const [formImportMessage, setFormImportMessage] = useState<string | null>(null);
+
+  // Redact PDF specific state
+  const [redactPageSizes, setRedactPageSizes] = useState<{ width: number; height: number }[]>([]);
+  const [redactionAreas, setRedactionAreas] = useState<RedactionArea[]>([]);
+  const [redactSearchQuery, setRedactSearchQuery] = useState<string>('');
+  const [redactUseRegex, setRedactUseRegex] = useState<boolean>(false);
+  const [redactCaseSensitive, setRedactCaseSensitive] = useState<boolean>(false);
+  const [redactPresets, setRedactPresets] = useState<RedactionSearchPreset[]>([]);
+  const [redactionMatches, setRedactionMatches] = useState<RedactionArea[] | null>(null);
+  const [redactionReport, setRedactionReport] = useState<RedactionReport | null>(null);
+
+  // Download all results as ZIP
+  const [zipUseFolder, setZipUseFolder] = useState<boolean>(false);
+  const [zipFolderName, setZipFolderName] = useState<string>('');
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+
+  // Batch mode (Rotate, Page Numbers, Compress, Watermark)
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchNameTemplate, setBatchNameTemplate] = useState<string>('');
+  const [batchStatuses, setBatchStatuses] = useState<BatchFileStatus[]>([]);
+
 
   // Extract Pages specific state
   const [pageRangeInput, setPageRangeInput] = useState<string>('');
+  const [extractKeepOrder, setExtractKeepOrder] = useState<boolean>(false);
 
   // Split PDF specific state
-  const [splitOption, setSplitOption] = useState<'all' | 'ranges'>('all');
+  const [splitOption, setSplitOption] = useState<SplitPdfOptions['mode']>('all');
   const [splitRangesInput, setSplitRangesInput] = useState<string>('');
+  const [splitPagesPerFile, setSplitPagesPerFile] = useState<number>(10);
+  const [splitMaxSizeMb, setSplitMaxSizeMb] = useState<number>(10);
 
   // Rotate PDF specific state
   const [rotatePageNumbersInput, setRotatePageNumbersInput] = useState<string>('');
@@ -78,34 +288,150 @@ const App: React.FC = () => {
   const [pageNumberFormat, setPageNumberFormat] = useState<string>('%p / %t');
   const [pageNumberPosition, setPageNumberPosition] = useState<PageNumberPosition>(PageNumberPosition.BottomCenter);
   const [pageNumberFont, setPageNumberFont] = useState<StandardPdfFonts>(StandardPdfFonts.Helvetica);
+  const [pageNumberCustomFont, setPageNumberCustomFont] = useState<FontInput | undefined>(undefined);
   const [pageNumberFontSize, setPageNumberFontSize] = useState<number>(12);
   const [pageNumberFontColor, setPageNumberFontColor] = useState<string>('#000000');
 
+  // Header & Footer specific state
+  const [headerFooterOptions, setHeaderFooterOptions] = useState<HeaderFooterOptions>(DEFAULT_HEADER_FOOTER_OPTIONS);
+  const [nextBatesNumber, setNextBatesNumber] = useState<number | null>(null); // After a run with Bates numbering
+
+  // Fonts uploaded for drawn text, offered by every tool that draws text. Kept when switching tools
+  const [uploadedFonts, setUploadedFonts] = useState<FontInput[]>([]);
+
+  // Compress PDF specific state
+  const [compressionLevel, setCompressionLevel] = useState<CompressionLevel>(CompressionLevel.Recommended);
+
+  // Watermark PDF specific state
+  const [watermarkOptions, setWatermarkOptions] = useState<WatermarkOptions>(DEFAULT_WATERMARK_OPTIONS);
+
+  // Protect PDF specific state
+  const [protectUserPassword, setProtectUserPassword] = useState<string>('');
+  const [protectConfirmPassword, setProtectConfirmPassword] = useState<string>('');
+  const [protectOwnerPassword, setProtectOwnerPassword] = useState<string>('');
+  const [protectAlgorithm, setProtectAlgorithm] = useState<PdfEncryptionAlgorithm>(PdfEncryptionAlgorithm.AES256);
+  const [protectPermissions, setProtectPermissions] = useState<PdfPermissions>(DEFAULT_PDF_PERMISSIONS);
+
+  // Encrypted uploads (all modes) and Unlock PDF
+  const [passwordRequest, setPasswordRequest] = useState<{ fileName: string; error?: string; resolve: (password: string | null) => void } | null>(null);
+  const [currentFileWasEncrypted, setCurrentFileWasEncrypted] = useState<boolean>(false);
+  const unlockedFilesRef = useRef(new Map<File, File>()); // Decrypted copies, keyed by the uploaded file
+
+  // Sign PDF specific state
+  const [signatureDataUrl, setSignatureDataUrl] = useState<string | null>(null);
+  const [signatureAspectRatio, setSignatureAspectRatio] = useState<number>(3);
+  const [signPageSizes, setSignPageSizes] = useState<{ width: number; height: number }[]>([]);
+  const [signPageNumber, setSignPageNumber] = useState<number>(1);
+  const [signPlacement, setSignPlacement] = useState<SignaturePlacement>(DEFAULT_SIGNATURE_PLACEMENT);
+  const [addSignDate, setAddSignDate] = useState<boolean>(false);
+  const [signDateText, setSignDateText] = useState<string>('');
+  const [signDateFont, setSignDateFont] = useState<Pick<TextFontOptions, 'font' | 'customFont'>>({ font: StandardPdfFonts.Helvetica });
+  const [addInitials, setAddInitials] = useState<boolean>(false);
+  const [initialsDataUrl, setInitialsDataUrl] = useState<string | null>(null);
+  const [initialsPosition, setInitialsPosition] = useState<PageNumberPosition>(PageNumberPosition.BottomRight);
+  const [signMethod, setSignMethod] = useState<'visual' | 'certificate'>('visual');
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState<string>('');
+  const [signReason, setSignReason] = useState<string>('');
+  const [signLocation, setSignLocation] = useState<string>('');
+
+  // Verify Signatures specific state
+  const [verificationResults, setVerificationResults] = useState<SignatureVerificationResult[] | null>(null);
+
   // General state
   const [totalPagesInCurrentPdf, setTotalPagesInCurrentPdf] = useState<number | null>(null);
+  const [previewFileUrl, setPreviewFileUrl] = useState<string | null>(null); // Result file shown in the previewer
 
 
   const resetState = useCallback(() => {
+    jobAbortRef.current?.abort(); // Leaving the tool cancels its running job
+    jobAbortRef.current = null;
     setCurrentFile(null);
     setError(null);
     setProcessedFilesInfo([]);
     setCurrentFileNameBase('');
     setTotalPagesInCurrentPdf(null);
+    setPreviewFileUrl(null);
     
     setFilesToMerge([]);
+    setMergePreserveBookmarks(true);
+    setMergeBookmarkPerFile(false);
+    setPipelineFiles([]);
+    setPipelineSteps([]);
+    setRecipeName('');
+    setRecipeMessage(null);
+    setFilesToOrganize([]);
+    setOrganizedPages([]);
     setImagesToConvert([]);
     setImagePdfOptions({ pageSize: 'A4', orientation: 'portrait' });
+    setPdfImageOptions(DEFAULT_PDF_IMAGE_OPTIONS);
+    setPdfTextOptions(DEFAULT_PDF_TEXT_OPTIONS);
+    setWordPdfOptions(DEFAULT_WORD_PDF_OPTIONS);
+    setTextPdfOptions(DEFAULT_TEXT_PDF_OPTIONS);
+    setTextPdfImages([]);
+    setPdfImagesAsZip(true);
+    setPdfMetadata(null);
+    setFormFields(null);
+    setFlattenForm(false);
+    setFormImportMessage(null);
+    setRedactPageSizes([]);
+    setRedactionAreas([]);
+    setRedactSearchQuery('');
+    setRedactUseRegex(false);
+    setRedactCaseSensitive(false);
+    setRedactPresets([]);
+    setRedactionMatches(null);
+    setRedactionReport(null);
+    setZipUseFolder(false);
+    setZipFolderName('');
+    setBatchMode(false);
+    setBatchFiles([]);
+    setBatchNameTemplate('');
+    setBatchStatuses([]);
 
     setPageRangeInput('');
+    setExtractKeepOrder(false);
     setSplitOption('all');
     setSplitRangesInput('');
+    setSplitPagesPerFile(10);
+    setSplitMaxSizeMb(10);
     setRotatePageNumbersInput('');
     setRotationAngle(90);
     setPageNumberFormat('%p / %t');
     setPageNumberPosition(PageNumberPosition.BottomCenter);
     setPageNumberFont(StandardPdfFonts.Helvetica);
+    setPageNumberCustomFont(undefined);
     setPageNumberFontSize(12);
     setPageNumberFontColor('#000000');
+    setCompressionLevel(CompressionLevel.Recommended);
+    setWatermarkOptions(DEFAULT_WATERMARK_OPTIONS);
+    setHeaderFooterOptions(DEFAULT_HEADER_FOOTER_OPTIONS);
+    setNextBatesNumber(null);
+    setProtectUserPassword('');
+    setProtectConfirmPassword('');
+    setProtectOwnerPassword('');
+    setProtectAlgorithm(PdfEncryptionAlgorithm.AES256);
+    setProtectPermissions(DEFAULT_PDF_PERMISSIONS);
+    setCurrentFileWasEncrypted(false);
+    unlockedFilesRef.current.clear();
+
+    setSignatureDataUrl(null);
+    setSignatureAspectRatio(3);
+    setSignPageSizes([]);
+    setSignPageNumber(1);
+    setSignPlacement(DEFAULT_SIGNATURE_PLACEMENT);
+    setAddSignDate(false);
+    setSignDateText('');
+    setSignDateFont({ font: StandardPdfFonts.Helvetica });
+    setAddInitials(false);
+    setInitialsDataUrl(null);
+    setInitialsPosition(PageNumberPosition.BottomRight);
+    setSignMethod('visual');
+    setCertificateFile(null);
+    setCertificatePassword('');
+    setSignReason('');
+    setSignLocation('');
+    setVerificationResults(null);
   }, []);
   
   const navigateToMode = useCallback((mode: AppMode, explicitHash?: string) => {
@@ -161,55 +487,377 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileChange = (file: File | null) => {
+  const fetchPageSizes = async (file: File) => {
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+      // As displayed, after cropping and rotation, matching the placement preview
+      setSignPageSizes(pdfDoc.getPages().map(page => {
+        const { width, height } = getPageDisplayTransform(page);
+        return { width, height };
+      }));
+      setTotalPagesInCurrentPdf(pdfDoc.getPageCount());
+    } catch (e) {
+      console.error("Error reading page sizes:", e);
+      setSignPageSizes([]);
+    }
+  };
+
+  const fetchMetadata = async (file: File) => {
+    try {
+      setPdfMetadata(await readPdfMetadata(file));
+    } catch (e) {
+      console.error("Error reading metadata:", e);
+      setPdfMetadata(null);
+      setError('Could not read the metadata of this PDF.');
+    }
+  };
+
+  const fetchFormFields = async (file: File) => {
+    try {
+      setFormFields(await readPdfFormFields(file));
+    } catch (e) {
+      console.error("Error reading form fields:", e);
+      setFormFields(null);
+      setError('Could not read the form fields of this PDF.');
+    }
+  };
+
+  const fetchRedactPageSizes = async (file: File) => {
+    try {
+      setRedactPageSizes(await getDisplayedPageSizes(file));
+    } catch (e) {
+      console.error("Error reading page sizes:", e);
+      setRedactPageSizes([]);
+      setError('Could not read the pages of this PDF.');
+    }
+  };
+
+  const updatePdfMetadata = (changes: Partial<PdfMetadata>) =>
+    setPdfMetadata(prev => (prev ? { ...prev, ...changes } : prev));
+
+  // Pages (1-indexed) selected by a range input, for highlighting in the previewer. Empty while the input is incomplete.
+  // With perFile (Split), each comma-separated selection is read on its own.
+  const selectedPagesFromInput = (input: string, perFile = false): number[] => {
+    if (!totalPagesInCurrentPdf || !input.trim()) return [];
+    try {
+      const selections = perFile ? splitPageRangeSegments(input) : [input];
+      const pages = new Set(selections.flatMap(selection => parsePageRanges(selection, totalPagesInCurrentPdf)));
+      return Array.from(pages).sort((a, b) => a - b).map(index => index + 1);
+    } catch {
+      return [];
+    }
+  };
+
+  // Adds or removes a page from a range input, rewriting it in compact form (e.g. "1-3, 5")
+  const togglePageInRangeInput = (input: string, pageNumber: number): string => {
+    const selected = new Set(selectedPagesFromInput(input));
+    if (selected.has(pageNumber)) selected.delete(pageNumber); else selected.add(pageNumber);
+    const sorted = Array.from(selected).sort((a, b) => a - b);
+    const parts: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      const start = sorted[i];
+      while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+      parts.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+    }
+    return parts.join(', ');
+  };
+
+  const requestPassword = (fileName: string, error?: string) =>
+    new Promise<string | null>(resolve => setPasswordRequest({ fileName, error, resolve }));
+
+  /**
+   * Returns a decrypted copy of an encrypted PDF, asking for the password if needed, or the file
+   * itself if it isn't encrypted. Resolves to null if the user cancels the password prompt.
+   */
+  const unlockPdfIfEncrypted = async (file: File): Promise<File | null> => {
+    // Signatures cover the encrypted bytes, so verification needs the original file
+    if (file.type !== "application/pdf" || appMode === AppMode.VERIFY_SIGNATURES) return file;
+    const unlocked = unlockedFilesRef.current.get(file);
+    if (unlocked) return unlocked;
+    try {
+      if (!(await isPdfEncrypted(file))) return file;
+    } catch {
+      return file; // Let the selected tool report damaged files
+    }
+    let password = ''; // Files with only an owner password open without one
+    let attemptError: string | undefined;
+    for (;;) {
+      try {
+        const decrypted = new File([await decryptPdf(file, password)], file.name, { type: 'application/pdf' });
+        unlockedFilesRef.current.set(file, decrypted);
+        return decrypted;
+      } catch (err) {
+        if (!(err instanceof PdfPasswordError)) throw err;
+        if (password) attemptError = err.message;
+      }
+      const entered = await requestPassword(file.name, attemptError);
+      if (entered === null) return null;
+      password = entered;
+    }
+  };
+
+  const handlePasswordPromptClose = (password: string | null) => {
+    passwordRequest?.resolve(password);
+    setPasswordRequest(null);
+  };
+
+  const handleFileChange = async (selectedFile: File | null) => {
     setProcessedFilesInfo([]);
+    setPreviewFileUrl(null);
     setError(null);
     setTotalPagesInCurrentPdf(null);
+    setSignPageSizes([]);
+    setSignPageNumber(1);
+    setVerificationResults(null);
+    setPdfMetadata(null);
+    setFormFields(null);
+    setFormImportMessage(null);
+    setRedactPageSizes([]);
+    setRedactionAreas([]);
+    setRedactionMatches(null);
+    setRedactionReport(null);
+
+    let file = selectedFile;
+    if (selectedFile) {
+      try {
+        file = await unlockPdfIfEncrypted(selectedFile);
+        if (!file) setError(`${selectedFile.name} is password-protected and was not opened.`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not decrypt the PDF.');
+        file = null;
+      }
+    }
+    setCurrentFileWasEncrypted(!!file && file !== selectedFile);
 
     setCurrentFile(file);
     if (file) {
       setCurrentFileNameBase(file.name.substring(0, file.name.lastIndexOf('.')) || file.name);
       if (file.type === "application/pdf" && 
-          [AppMode.EXTRACT_PAGES, AppMode.SPLIT_PDF, AppMode.ROTATE_PDF, AppMode.ADD_PAGE_NUMBERS, AppMode.COMPRESS_PDF].includes(appMode)) {
+          [AppMode.EXTRACT_PAGES, AppMode.SPLIT_PDF, AppMode.ROTATE_PDF, AppMode.ADD_PAGE_NUMBERS, AppMode.HEADER_FOOTER, AppMode.COMPRESS_PDF, AppMode.WATERMARK_PDF, AppMode.PDF_TO_IMAGES, AppMode.PDF_TO_TEXT].includes(appMode)) {
         fetchTotalPages(file);
       }
+      if (file.type === "application/pdf" && appMode === AppMode.SIGN_PDF) {
+        fetchPageSizes(file);
+      }
+      if (file.type === "application/pdf" && appMode === AppMode.EDIT_METADATA) {
+        fetchMetadata(file);
+      }
+      if (file.type === "application/pdf" && appMode === AppMode.FILL_FORM) {
+        fetchFormFields(file);
+      }
+      if (file.type === "application/pdf" && appMode === AppMode.REDACT_PDF) {
+        fetchRedactPageSizes(file);
+      }
     } else {
       setCurrentFileNameBase('');
     }
   };
+
+  // Starts a job that reports progress and can be cancelled from the spinner
+  const startJob = (): JobControl => {
+    const controller = new AbortController();
+    jobAbortRef.current = controller;
+    setJobProgress(0);
+    return { signal: controller.signal, onProgress: setJobProgress };
+  };
+
+  useEffect(() => {
+    if (!isProcessing) {
+      jobAbortRef.current = null;
+      setJobProgress(null);
+    }
+  }, [isProcessing]);
+
+  // No message when the job was cancelled by leaving the tool
+  const jobErrorMessage = (err: unknown, fallback: string) => {
+    if (isJobCancelled(err)) return jobAbortRef.current ? 'Cancelled. Nothing was changed.' : null;
+    return err instanceof Error ? err.message : fallback;
+  };
+
+  // Wraps a MultiFileUpload handler so encrypted PDFs are unlocked before use
+  const handlePdfFilesChange = (setFiles: (files: File[]) => void) => async (files: File[]) => {
+    const usableFiles: File[] = [];
+    const skippedNames: string[] = [];
+    for (const file of files) {
+      try {
+        const unlocked = await unlockPdfIfEncrypted(file);
+        if (unlocked) usableFiles.push(unlocked);
+        else skippedNames.push(file.name);
+      } catch (err) {
+        console.error(`Error decrypting ${file.name}:`, err);
+        skippedNames.push(file.name);
+      }
+    }
+    setError(skippedNames.length > 0 ? `Skipped password-protected file(s): ${skippedNames.join(', ')}` : null);
+    setFiles(usableFiles);
+  };
   
   const handleWordToPdf = async () => {
     if (!currentFile) { setError('Please upload a .docx file first.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const pdfBlob = await convertDocxToPdf(currentFile);
+      const pdfBytes = await convertDocxToPdf(currentFile, { ...wordPdfOptions, fallbackFont: await fetchFallbackFont() });
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `${currentFileNameBase}_converted.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Conversion error.');
     } finally { setIsProcessing(false); }
   };
     
+  const handleTextToPdf = async () => {
+    if (!currentFile) { setError('Please upload a Markdown, HTML or text file first.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const pdfBytes = await convertTextDocumentToPdf(currentFile, { ...textPdfOptions, fallbackFont: await fetchFallbackFont() }, textPdfImages);
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Conversion error.');
+    } finally { setIsProcessing(false); }
+  };
+
   const handleImagesToPdf = async () => {
     if (imagesToConvert.length === 0) { setError('Please upload at least one image file.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const pdfBytes = await convertImagesToPdf(imagesToConvert, imagePdfOptions);
+      const pdfBytes = await convertImagesToPdfInWorker(imagesToConvert, imagePdfOptions, startJob());
       const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `images_converted.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Image to PDF conversion error.');
+      setError(jobErrorMessage(err, 'Image to PDF conversion error.'));
     } finally { setIsProcessing(false); }
   };
 
+  const handlePdfToImages = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const images = await convertPdfToImages(currentFile, pdfImageOptions, startJob());
+      if (pdfImagesAsZip) {
+        const zip = await createZip(images.map(image => ({ name: image.name, data: image.blob })));
+        setProcessedFilesInfo([{ name: `${currentFileNameBase}_images.zip`, url: URL.createObjectURL(zip) }]);
+      } else {
+        setProcessedFilesInfo(images.map(image => ({ name: image.name, url: URL.createObjectURL(image.blob) })));
+      }
+    } catch (err) {
+      setError(jobErrorMessage(err, 'PDF to image conversion error.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  const handlePdfToText = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const text = await convertPdfToText(currentFile, pdfTextOptions);
+      const { extension, mimeType } = PDF_TEXT_OUTPUTS[pdfTextOptions.format];
+      const textBlob = new Blob([text], { type: mimeType });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}.${extension}`, url: URL.createObjectURL(textBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'PDF to text conversion error.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleDownloadAllAsZip = async () => {
+    const zipBaseName = currentFileNameBase || 'lovpdf_results';
+    const rootFolder = zipUseFolder ? (zipFolderName.trim() || zipBaseName).replace(/[\\/:*?"<>|]+/g, '_') : '';
+    setIsZipping(true); setError(null);
+    try {
+      // Blob URLs resolve to the same in-memory Blobs, so this does not copy the file data
+      const entries = await Promise.all(processedFilesInfo.map(async fileInfo => ({
+        name: rootFolder ? `${rootFolder}/${fileInfo.name}` : fileInfo.name,
+        data: await (await fetch(fileInfo.url)).blob(),
+      })));
+      await saveZip(entries, `${zipBaseName}.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the ZIP file.');
+    } finally { setIsZipping(false); }
+  };
+
   const handleMergePdfs = async () => {
     if (filesToMerge.length < 2) { setError('Upload at least two PDFs.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const mergedPdfBytes = await mergePdfs(filesToMerge);
+      const mergedPdfBytes = await mergePdfsInWorkers(filesToMerge, { preserveBookmarks: mergePreserveBookmarks, bookmarkPerFile: mergeBookmarkPerFile }, startJob());
       const pdfBlob = new Blob([mergedPdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `merged_document.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Merging error.');
+      setError(jobErrorMessage(err, 'Merging error.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleRunPipeline = async () => {
+    if (pipelineFiles.length === 0) { setError('Please upload at least one PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const pdfBytes = await runPipeline(pipelineFiles, pipelineSteps, await fetchFallbackFont(), uploadedFonts);
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      const baseName = recipeName.trim() || pipelineFiles[0].name.replace(/\.pdf$/i, '');
+      setProcessedFilesInfo([{ name: `${baseName.replace(/[\\/:*?"<>|]/g, '_')}_processed.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Pipeline error.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleSaveRecipe = () => {
+    setError(null); setRecipeMessage(null);
+    try {
+      setSavedRecipes(saveRecipe({ name: recipeName, steps: pipelineSteps }));
+      setRecipeMessage(`Saved the recipe "${recipeName.trim()}" in this browser.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the recipe.');
+    }
+  };
+
+  const handleLoadRecipe = (recipe: PdfRecipe) => {
+    setPipelineSteps(recipe.steps);
+    setRecipeName(recipe.name);
+    setRecipeMessage(`Loaded the recipe "${recipe.name}".`);
+    setError(null);
+  };
+
+  const handleDeleteRecipe = (name: string) => {
+    if (!window.confirm(`Delete the saved recipe "${name}"?`)) return;
+    setError(null);
+    try {
+      setSavedRecipes(deleteSavedRecipe(name));
+      setRecipeMessage(`Deleted the recipe "${name}".`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the recipe.');
+    }
+  };
+
+  const handleImportRecipe = async (file: File) => {
+    setError(null); setRecipeMessage(null);
+    try {
+      handleLoadRecipe(parseRecipeJson(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the recipe.');
+    }
+  };
+
+  const handleExportRecipe = () => {
+    if (pipelineSteps.length === 0) { setError('Add at least one step before exporting the recipe.'); return; }
+    const name = recipeName.trim() || 'recipe';
+    const url = URL.createObjectURL(new Blob([recipeToJson({ name, steps: pipelineSteps })], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[\\/:*?"<>|]/g, '_')}.lovpdf-recipe.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const handleOrganizePdf = async () => {
+    if (organizedPages.length === 0) { setError('There are no pages to export.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const organizedPdfBytes = await organizePdfPagesInWorker(organizedPages, startJob());
+      const pdfBlob = new Blob([organizedPdfBytes], { type: 'application/pdf' });
+      const firstFile = filesToOrganize[0];
+      const baseName = filesToOrganize.length === 1 && firstFile ? (firstFile.name.substring(0, firstFile.name.lastIndexOf('.')) || firstFile.name) : 'organized_document';
+      setProcessedFilesInfo([{ name: `${baseName}_organized.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(jobErrorMessage(err, 'Error organizing pages.'));
     } finally { setIsProcessing(false); }
   };
 
@@ -218,11 +866,11 @@ const App: React.FC = () => {
     if (!pageRangeInput.trim()) { setError('Enter page ranges.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const extractedPdfBytes = await extractPagesFromPdf(currentFile, pageRangeInput);
+      const extractedPdfBytes = await extractPagesInWorker(currentFile, pageRangeInput, extractKeepOrder, startJob());
       const pdfBlob = new Blob([extractedPdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `${currentFileNameBase}_extracted.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Extraction error. Check page range format (e.g., 1-3, 5, 7).');
+      setError(jobErrorMessage(err, 'Extraction error. Check page range format (e.g., 1-3, 5, 7).'));
     } finally { setIsProcessing(false); }
   };
 
@@ -231,15 +879,129 @@ const App: React.FC = () => {
     if (splitOption === 'ranges' && !splitRangesInput.trim()) { setError('Enter page ranges for splitting.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const options: SplitPdfOptions = { mode: splitOption, rangesStr: splitRangesInput };
-      const splitBlobs = await splitPdf(currentFile, options);
+      const options: SplitPdfOptions = {
+        mode: splitOption,
+        rangesStr: splitRangesInput,
+        pagesPerFile: splitPagesPerFile,
+        maxBytes: Math.round(splitMaxSizeMb * 1024 * 1024),
+      };
+      const splitBlobs = await splitPdfInWorkers(currentFile, options, startJob());
       const newProcessedFiles: ProcessedFileInfo[] = splitBlobs.map((item, index) => ({
         name: item.filename || `${currentFileNameBase}_split_${index + 1}.pdf`,
         url: URL.createObjectURL(item.blob)
       }));
       setProcessedFilesInfo(newProcessedFiles);
+      const oversized = splitBlobs.filter(item => item.oversized).map(item => item.filename);
+      if (oversized.length > 0) {
+        setError(`Some pages are larger than ${splitMaxSizeMb} MB on their own, so these files are over the limit: ${oversized.join(', ')}`);
+      }
+    } catch (err) {
+      setError(jobErrorMessage(err, 'Splitting error.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  // Per-file operations of the tools that support batch mode, using the current options
+  const rotateFile = async (file: File, control: JobControl): Promise<ToolOutput> => {
+    const options: RotatePdfOptions = { pageRangesStr: rotatePageNumbersInput, angle: rotationAngle };
+    return { pdfBytes: await rotatePdfPagesInWorker(file, options, control) };
+  };
+
+  const addPageNumbersToFile = async (file: File, control: JobControl): Promise<ToolOutput> => {
+    const options: PageNumberOptions = {
+      format: pageNumberFormat,
+      position: pageNumberPosition,
+      font: pageNumberFont,
+      customFont: pageNumberCustomFont,
+      fallbackFont: await fetchFallbackFont(),
+      fontSize: pageNumberFontSize,
+      colorHex: pageNumberFontColor,
+    };
+    return { pdfBytes: await addPageNumbersInWorker(file, options, control) };
+  };
+
+  const watermarkFile = async (file: File, control: JobControl): Promise<ToolOutput> => {
+    const options: WatermarkOptions = { ...watermarkOptions, fallbackFont: await fetchFallbackFont() };
+    return { pdfBytes: await addWatermarkInWorker(file, options, control) };
+  };
+
+  // Bates numbers continue from one file to the next, in the order the files are processed
+  const createHeaderFooterProcessor = () => {
+    let batesStart = headerFooterOptions.bates?.startNumber ?? 1;
+    return async (file: File, control: JobControl): Promise<ToolOutput> => {
+      const { bates } = headerFooterOptions;
+      const options: HeaderFooterOptions = {
+        ...headerFooterOptions,
+        fallbackFont: await fetchFallbackFont(),
+        bates: bates && { ...bates, startNumber: batesStart },
+      };
+      const { pdfBytes, nextBatesNumber: next } = await addHeaderFooterInWorker(file, options, control);
+      if (next !== undefined) {
+        batesStart = next;
+        setNextBatesNumber(next);
+      }
+      return { pdfBytes };
+    };
+  };
+
+  const compressFile = async (file: File, control: JobControl): Promise<ToolOutput> => {
+    const { pdfBytes, images } = await compressPdfInWorker(file, compressionLevel, control);
+    return { pdfBytes, originalSize: file.size, imageReport: images };
+  };
+
+  const getBatchProcessor = (mode: AppMode): ((file: File, control: JobControl) => Promise<ToolOutput>) | null => {
+    switch (mode) {
+      case AppMode.ROTATE_PDF: return rotateFile;
+      case AppMode.ADD_PAGE_NUMBERS: return addPageNumbersToFile;
+      case AppMode.HEADER_FOOTER: return createHeaderFooterProcessor();
+      case AppMode.WATERMARK_PDF: return watermarkFile;
+      case AppMode.COMPRESS_PDF: return compressFile;
+      default: return null;
+    }
+  };
+
+  const handleBatchModeChange = (enabled: boolean) => {
+    setBatchMode(enabled);
+    setBatchStatuses([]);
+    setProcessedFilesInfo([]);
+    setError(null);
+    // The single-file upload and its preview don't apply to a batch
+    setCurrentFile(null);
+    setCurrentFileNameBase('');
+    setTotalPagesInCurrentPdf(null);
+  };
+
+  const handleRunBatch = async () => {
+    const processFile = getBatchProcessor(appMode);
+    const nameTemplate = batchNameTemplate.trim() || BATCH_NAME_TEMPLATES[appMode];
+    if (!processFile || !nameTemplate) return;
+    if (batchFiles.length === 0) { setError('Please upload at least one PDF.'); return; }
+    if (appMode === AppMode.ROTATE_PDF && !rotatePageNumbersInput.trim()) { setError('Enter page numbers to rotate.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]); setBatchStatuses([]); setNextBatesNumber(null);
+    try {
+      const { signal, onProgress } = startJob();
+      // Each file takes an equal share of the progress bar
+      const results = await runBatch(batchFiles, nameTemplate, (file, index) => processFile(file, {
+        signal,
+        onProgress: fraction => onProgress?.((index + fraction) / batchFiles.length),
+      }), setBatchStatuses, signal);
+      if (signal?.aborted && !jobAbortRef.current) return; // The user left the tool
+      const processedFiles: ProcessedFileInfo[] = [];
+      for (const { outputName, output } of results) {
+        if (!output) continue;
+        const pdfBlob = new Blob([output.pdfBytes], { type: 'application/pdf' });
+        processedFiles.push({
+          name: outputName,
+          url: URL.createObjectURL(pdfBlob),
+          originalSize: output.originalSize,
+          processedSize: output.originalSize !== undefined ? pdfBlob.size : undefined,
+          imageReport: output.imageReport,
+        });
+      }
+      setProcessedFilesInfo(processedFiles);
+      if (signal?.aborted) setError(`Cancelled. ${processedFiles.length} of ${batchFiles.length} files were processed.`);
+      else if (processedFiles.length === 0) setError('None of the files could be processed. See the list below for the reasons.');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Splitting error.');
+      setError(err instanceof Error ? err.message : 'Batch processing error.');
     } finally { setIsProcessing(false); }
   };
 
@@ -248,12 +1010,11 @@ const App: React.FC = () => {
     if (!rotatePageNumbersInput.trim()) { setError('Enter page numbers to rotate.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const options: RotatePdfOptions = { pageRangesStr: rotatePageNumbersInput, angle: rotationAngle };
-      const rotatedPdfBytes = await rotatePdfPages(currentFile, options);
+      const { pdfBytes: rotatedPdfBytes } = await rotateFile(currentFile, startJob());
       const pdfBlob = new Blob([rotatedPdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `${currentFileNameBase}_rotated.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Rotation error.');
+      setError(jobErrorMessage(err, 'Rotation error.'));
     } finally { setIsProcessing(false); }
   };
 
@@ -261,18 +1022,197 @@ const App: React.FC = () => {
     if (!currentFile) { setError('Please upload a PDF.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const options: PageNumberOptions = {
-        format: pageNumberFormat,
-        position: pageNumberPosition,
-        font: pageNumberFont,
-        fontSize: pageNumberFontSize,
-        colorHex: pageNumberFontColor,
-      };
-      const numberedPdfBytes = await addPageNumbersToPdf(currentFile, options);
+      const { pdfBytes: numberedPdfBytes } = await addPageNumbersToFile(currentFile, startJob());
       const pdfBlob = new Blob([numberedPdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ name: `${currentFileNameBase}_numbered.pdf`, url: URL.createObjectURL(pdfBlob) }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error adding page numbers.');
+      setError(jobErrorMessage(err, 'Error adding page numbers.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleAddHeaderFooter = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]); setNextBatesNumber(null);
+    try {
+      const { pdfBytes: stampedPdfBytes } = await createHeaderFooterProcessor()(currentFile, startJob());
+      const pdfBlob = new Blob([stampedPdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_stamped.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(jobErrorMessage(err, 'Error adding headers and footers.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleFontUpload = (font: FontInput) => {
+    setUploadedFonts(prev => [...prev, font]);
+  };
+
+  const updateHeaderFooterOptions = (changes: Partial<HeaderFooterOptions>) => {
+    setHeaderFooterOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateBatesOptions = (changes: Partial<BatesOptions>) => {
+    setHeaderFooterOptions(prev => ({ ...prev, bates: { ...(prev.bates ?? DEFAULT_BATES_OPTIONS), ...changes } }));
+  };
+
+  // Turning Bates numbering on puts the number bottom right unless a slot already shows it
+  const handleBatesToggle = (enabled: boolean) => {
+    setHeaderFooterOptions(prev => {
+      if (!enabled) return { ...prev, bates: undefined };
+      const shown = HEADER_FOOTER_SLOTS.some(slot => prev.slots[slot].includes('{bates}'));
+      const slots = shown || prev.slots.bottomRight.trim() ? prev.slots : { ...prev.slots, bottomRight: '{bates}' };
+      return { ...prev, slots, bates: prev.bates ?? DEFAULT_BATES_OPTIONS };
+    });
+  };
+
+  const handleWatermarkPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const { pdfBytes: watermarkedPdfBytes } = await watermarkFile(currentFile, startJob());
+      const pdfBlob = new Blob([watermarkedPdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_watermarked.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(jobErrorMessage(err, 'Error adding watermark.'));
+    } finally { setIsProcessing(false); }
+  };
+
+  const updateWatermarkOptions = (changes: Partial<WatermarkOptions>) => {
+    setWatermarkOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleProtectPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    if (protectUserPassword !== protectConfirmPassword) { setError('The passwords do not match.'); return; }
+    const allPermitted = Object.values(protectPermissions).every(Boolean);
+    if (!protectUserPassword && !protectOwnerPassword && allPermitted) {
+      setError('Please enter a password or restrict at least one permission.'); return;
+    }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const protectedPdfBytes = await protectPdf(currentFile, {
+        userPassword: protectUserPassword,
+        ownerPassword: protectOwnerPassword,
+        algorithm: protectAlgorithm,
+        permissions: protectPermissions,
+      });
+      const pdfBlob = new Blob([protectedPdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_protected.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error protecting PDF.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleUnlockPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    if (!currentFileWasEncrypted) { setError('This PDF is not password-protected.'); return; }
+    setError(null);
+    // The upload was already decrypted with the password the user entered
+    setProcessedFilesInfo([{ name: `${currentFileNameBase}_unlocked.pdf`, url: URL.createObjectURL(currentFile) }]);
+  };
+
+  const handleEditMetadata = async () => {
+    if (!currentFile || !pdfMetadata) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const pdfBytes = await writePdfMetadata(currentFile, {
+        ...pdfMetadata,
+        custom: pdfMetadata.custom.map(entry => ({ key: entry.key.trim(), value: entry.value })),
+      });
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_metadata.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error updating metadata.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleStripMetadata = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const pdfBytes = await stripPdfMetadata(currentFile);
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_no_metadata.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error removing metadata.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleFillForm = async () => {
+    if (!currentFile || !formFields) { setError('Please upload a PDF.'); return; }
+    if (formFields.length === 0) { setError('This PDF has no fillable form fields.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const values = Object.fromEntries(formFields.map(field => [field.name, field.value]));
+      const pdfBytes = await fillPdfForm(currentFile, values, flattenForm);
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_${flattenForm ? 'flattened' : 'filled'}.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error filling the form.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleImportFormValues = async (file: File) => {
+    if (!formFields) return;
+    setError(null); setFormImportMessage(null);
+    try {
+      const { fields, unmatched } = applyFormValues(formFields, await parseFormValuesFile(file));
+      setFormFields(fields);
+      setFormImportMessage(unmatched.length > 0
+        ? `Imported ${file.name}. ${unmatched.length} value(s) matched no field: ${unmatched.join(', ')}`
+        : `Imported ${file.name}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the form values.');
+    }
+  };
+
+  const handleExportFormValues = (format: 'json' | 'fdf' | 'xfdf') => {
+    if (!formFields || !currentFile) return;
+    const blob = format === 'json'
+      ? new Blob([formValuesToJson(formFields)], { type: 'application/json' })
+      : format === 'fdf'
+        ? new Blob([formValuesToFdf(formFields, currentFile.name)], { type: 'application/vnd.fdf' })
+        : new Blob([formValuesToXfdf(formFields, currentFile.name)], { type: 'application/vnd.adobe.xfdf' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentFileNameBase}_values.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const redactionSearchOptions = (): RedactionSearchOptions | undefined =>
+    redactSearchQuery.trim() || redactPresets.length > 0
+      ? { query: redactSearchQuery, useRegex: redactUseRegex, caseSensitive: redactCaseSensitive, presets: redactPresets }
+      : undefined;
+
+  const updateRedactionSearch = (update: () => void) => {
+    update();
+    setRedactionMatches(null); // Stale once the search changes
+  };
+
+  const handleFindRedactionMatches = async () => {
+    const search = redactionSearchOptions();
+    if (!currentFile || !search) return;
+    setIsProcessing(true); setError(null);
+    try {
+      setRedactionMatches(await findRedactionMatches(currentFile, search));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error searching the PDF.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleRedactPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    const search = redactionSearchOptions();
+    if (redactionAreas.length === 0 && !search) { setError('Mark areas on the pages or enter something to search for.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]); setRedactionReport(null);
+    try {
+      const { pdfBytes, report } = await redactPdf(currentFile, { areas: redactionAreas, search });
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_redacted.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+      setRedactionReport(report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error redacting the PDF.');
     } finally { setIsProcessing(false); }
   };
 
@@ -280,30 +1220,146 @@ const App: React.FC = () => {
     if (!currentFile) { setError('Please upload a PDF.'); return; }
     setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
     try {
-      const originalSize = currentFile.size;
-      const compressedPdfBytes = await compressPdf(currentFile);
-      const pdfBlob = new Blob([compressedPdfBytes], { type: 'application/pdf' });
+      const { pdfBytes, originalSize, imageReport } = await compressFile(currentFile, startJob());
+      const pdfBlob = new Blob([pdfBytes], { type: 'application/pdf' });
       setProcessedFilesInfo([{ 
         name: `${currentFileNameBase}_compressed.pdf`, 
         url: URL.createObjectURL(pdfBlob),
         originalSize: originalSize,
-        processedSize: pdfBlob.size
+        processedSize: pdfBlob.size,
+        imageReport: imageReport
       }]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Compression error.');
+      setError(jobErrorMessage(err, 'Compression error.'));
     } finally { setIsProcessing(false); }
   };
   
+  const handleSignatureChange = useCallback((dataUrl: string | null) => {
+    setSignatureDataUrl(dataUrl);
+    if (!dataUrl) return;
+    const img = new Image();
+    img.onload = () => {
+      if (img.naturalWidth > 0 && img.naturalHeight > 0) setSignatureAspectRatio(img.naturalWidth / img.naturalHeight);
+    };
+    img.src = dataUrl;
+  }, []);
+
+  // Keep the signature box at the image aspect ratio when the signature or the target page changes
+  useEffect(() => {
+    const pageSize = signPageSizes[signPageNumber - 1];
+    if (!pageSize) return;
+    setSignPlacement(prev => {
+      const height = (prev.width * pageSize.width) / signatureAspectRatio / pageSize.height;
+      return { ...prev, height, y: Math.min(prev.y, Math.max(0, 1 - height)) };
+    });
+  }, [signatureAspectRatio, signPageSizes, signPageNumber]);
+
+  const handleSignPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    if (!signatureDataUrl) { setError('Please draw, type or upload your signature.'); return; }
+    if (addInitials && !initialsDataUrl) { setError('Please provide your initials, or untick "Add initials".'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const options: SignatureStampOptions = {
+        signatureDataUrl,
+        pageIndex: signPageNumber - 1,
+        placement: signPlacement,
+        date: addSignDate ? { ...signDateFont, text: signDateText, fontSize: 10, fallbackFont: await fetchFallbackFont() } : undefined,
+        initials: addInitials && initialsDataUrl ? { imageDataUrl: initialsDataUrl, position: initialsPosition, width: 40, skipSignaturePage: true } : undefined,
+      };
+      const signedPdfBytes = await stampSignatureOnPdf(currentFile, options);
+      const pdfBlob = new Blob([signedPdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_signed.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error signing PDF.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleDigitalSignPdf = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    if (!certificateFile) { setError('Please select your .p12/.pfx certificate.'); return; }
+    setIsProcessing(true); setError(null); setProcessedFilesInfo([]);
+    try {
+      const credentials = await loadSigningCertificate(certificateFile, certificatePassword);
+      const signedPdfBytes = await signPdfWithCertificate(currentFile, credentials, { reason: signReason, location: signLocation });
+      const pdfBlob = new Blob([signedPdfBytes], { type: 'application/pdf' });
+      setProcessedFilesInfo([{ name: `${currentFileNameBase}_signed.pdf`, url: URL.createObjectURL(pdfBlob) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error signing PDF with certificate.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const handleVerifySignatures = async () => {
+    if (!currentFile) { setError('Please upload a PDF.'); return; }
+    setIsProcessing(true); setError(null); setVerificationResults(null);
+    try {
+      setVerificationResults(await verifyPdfSignatures(currentFile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error verifying signatures.');
+    } finally { setIsProcessing(false); }
+  };
+
+  const renderVerificationResults = (results: SignatureVerificationResult[]) => {
+    if (results.length === 0) {
+      return <p className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">This PDF contains no digital signatures.</p>;
+    }
+    return (
+      <div className="space-y-3">
+        {results.map((result, index) => {
+          const isValid = !result.error && result.integrityValid && result.signatureValid && result.coversWholeDocument;
+          return (
+            <div key={index} className={`p-4 rounded-lg border ${isValid ? 'bg-green-50 border-green-300' : 'bg-yellow-50 border-yellow-300'}`}>
+              <h4 className={`font-semibold ${isValid ? 'text-green-800' : 'text-yellow-800'}`}>
+                {result.fieldName || `Signature ${index + 1}`}: {isValid ? 'Valid' : 'Problems found'}
+              </h4>
+              <ul className="mt-2 text-sm text-gray-700 space-y-0.5">
+                <li><strong>Signer:</strong> {result.signerName}{result.issuerName && ` (issued by ${result.issuerName}${result.selfSigned ? ', self-signed' : ''})`}</li>
+                {result.signingTime && <li><strong>Signed at:</strong> {result.signingTime.toLocaleString()}</li>}
+                {result.reason && <li><strong>Reason:</strong> {result.reason}</li>}
+                {result.location && <li><strong>Location:</strong> {result.location}</li>}
+                <li><strong>Type:</strong> {result.subFilter}</li>
+                {result.error ? (
+                  <li className="text-red-700"><strong>Error:</strong> {result.error}</li>
+                ) : (
+                  <>
+                    <li><strong>Signed content intact:</strong> {result.integrityValid && result.signatureValid ? 'Yes' : 'No, the signed content or signature does not match'}</li>
+                    <li><strong>Modified after signing:</strong> {result.coversWholeDocument ? 'No' : 'Yes, content was added after this signature'}</li>
+                    {result.certificateValidAtSigning !== undefined && <li><strong>Certificate valid at signing time:</strong> {result.certificateValidAtSigning ? 'Yes' : 'No'}</li>}
+                  </>
+                )}
+              </ul>
+            </div>
+          );
+        })}
+        <p className="text-xs text-gray-500">Certificates are checked for consistency and validity dates only, not against trusted certificate authorities.</p>
+      </div>
+    );
+  };
+
   const renderSelectMode = () => {
     const tools = [
       { mode: AppMode.WORD_TO_PDF, label: "Word to PDF", icon: "M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9zM9 18H7v-2h2v2zm0-4H7v-2h2v2zm0-4H7V8h2v2zm10-3.75L14.75 2H10v5h9V6.25z" },
+      { mode: AppMode.TEXT_TO_PDF, label: "Text to PDF", icon: "M14 3H7a2 2 0 00-2 2v14a2 2 0 002 2h10a2 2 0 002-2V8l-5-5zm0 0v5h5M9 13h6m-6 4h6m-6-8h1" },
       { mode: AppMode.IMAGES_TO_PDF, label: "Images to PDF", icon: "M4 5h16v10H4V5zm0 12h16v2H4v-2zm8-10a3 3 0 100 6 3 3 0 000-6zM4 3a2 2 0 00-2 2v14a2 2 0 002 2h16a2 2 0 002-2V5a2 2 0 00-2-2H4zm13 8l-3-3-6 6h12l-3-3z" },
+      { mode: AppMode.PDF_TO_IMAGES, label: "PDF to Images", icon: "M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" },
+      { mode: AppMode.PDF_TO_TEXT, label: "PDF to Text", icon: "M9 12h6m-6 4h6m-6-8h2m3-5H7a2 2 0 00-2 2v14a2 2 0 002 2h10a2 2 0 002-2V8l-5-5zm0 0v5h5" },
+      { mode: AppMode.PIPELINE, label: "PDF Pipeline", icon: "M4 6h4v4H4V6zm12 0h4v4h-4V6zM10 16h4v4h-4v-4zM8 8h8M18 10v3a1 1 0 01-1 1h-4v2M6 10v3a1 1 0 001 1h4" },
       { mode: AppMode.MERGE_PDFS, label: "Merge PDFs", icon: "M10 3v4a1 1 0 001 1h4M5 10V4a1 1 0 011-1h12a1 1 0 011 1v4M5 10v10a1 1 0 001 1h12a1 1 0 001-1V10M5 10h14" },
       { mode: AppMode.EXTRACT_PAGES, label: "Extract PDF Pages", icon: "M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" },
+      { mode: AppMode.ORGANIZE_PDF, label: "Organize PDF", icon: "M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" },
       { mode: AppMode.SPLIT_PDF, label: "Split PDF", icon: "M12 6v6m0 0v6m0-6h6m-6 0H6 M6 6l6-4 6 4 M6 18l6 4 6-4" },
       { mode: AppMode.ROTATE_PDF, label: "Rotate PDF", icon: "M15 3H9m6 0v6M9 3v6m0-6H3m6 0h6M3 9h6m0 0v6M3 9V3m6 6h6m0 0v6M9 15H3m6 0v6M9 21h6m0 0v-6m0 6h6m-6 0H9" },
       { mode: AppMode.ADD_PAGE_NUMBERS, label: "Add Page Numbers", icon: "M3 5h12M9 3v2m0 16v2m-6-9h12M3 12h2M13 12h2m-4 0h2M3 12a9 9 0 0118 0 9 9 0 01-18 0z" },
+      { mode: AppMode.HEADER_FOOTER, label: "Header, Footer & Bates", icon: "M6 2h12a2 2 0 012 2v16a2 2 0 01-2 2H6a2 2 0 01-2-2V4a2 2 0 012-2zm2 4h8M8 18h8M10 10h4M10 14h4" },
       { mode: AppMode.COMPRESS_PDF, label: "Compress PDF", icon: "M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 1v4m0 0h-4m4 0l-5-5" },
+      { mode: AppMode.WATERMARK_PDF, label: "Watermark PDF", icon: "M12 3c-3 4.5-6 7.9-6 11a6 6 0 0012 0c0-3.1-3-6.5-6-11zm-3 11.5a3 3 0 003 3" },
+      { mode: AppMode.PROTECT_PDF, label: "Protect PDF", icon: "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" },
+      { mode: AppMode.UNLOCK_PDF, label: "Unlock PDF", icon: "M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" },
+      { mode: AppMode.FILL_FORM, label: "Fill PDF Form", icon: "M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" },
+      { mode: AppMode.REDACT_PDF, label: "Redact PDF", icon: "M3 5h18v4H3V5zm0 6h10v4H3v-4zm0 6h18v2H3v-2zm12-6h6v4h-6v-4z" },
+      { mode: AppMode.EDIT_METADATA, label: "Edit Metadata", icon: "M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" },
+      { mode: AppMode.SIGN_PDF, label: "Sign PDF", icon: "M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" },
+      { mode: AppMode.VERIFY_SIGNATURES, label: "Verify Signatures", icon: "M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" },
     ];
     return (
       <div className="text-center space-y-8">
@@ -325,20 +1381,44 @@ const App: React.FC = () => {
     );
   };
   
-  const renderCommonFileUpload = (acceptedType: string, title: string, onAction: () => Promise<void>, actionText: string, children?: React.ReactNode) => (
-    <div className="space-y-6">
-      <h2 className="text-3xl font-semibold text-gray-700">{title}</h2>
-      <FileUpload onFileChange={handleFileChange} accept={acceptedType} />
-      {currentFile && <p className="text-sm text-gray-600">Selected: {currentFile.name} { (totalPagesInCurrentPdf && fileNeedsTotalPages(appMode)) && `(${totalPagesInCurrentPdf} pages)`}</p>}
-      {children}
-      <ActionButton onClick={onAction} disabled={!currentFile || isProcessing} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">
-        {actionText}
-      </ActionButton>
-    </div>
-  );
+  const renderCommonFileUpload = (acceptedType: string, title: string, onAction: () => Promise<void>, actionText: string, children?: React.ReactNode) => {
+    const defaultNameTemplate = BATCH_NAME_TEMPLATES[appMode];
+    const inBatch = batchMode && !!defaultNameTemplate;
+    return (
+      <div className="space-y-6">
+        <h2 className="text-3xl font-semibold text-gray-700">{title}</h2>
+        {defaultNameTemplate && (
+          <label className="flex items-center">
+            <input type="checkbox" checked={batchMode} onChange={e => handleBatchModeChange(e.target.checked)} className="radio-style"/>
+            <span className="ml-2 text-sm">Batch mode: apply the same options to many files</span>
+          </label>
+        )}
+        {inBatch ? (
+          <>
+            <MultiFileUpload onFilesChange={handlePdfFilesChange(files => { setBatchFiles(files); setBatchStatuses([]); })} accept={acceptedType} />
+            <div>
+              <label htmlFor="batchNameTemplate" className="label-style">Output file names:</label>
+              <input type="text" id="batchNameTemplate" value={batchNameTemplate} onChange={e => setBatchNameTemplate(e.target.value)} placeholder={defaultNameTemplate} className="input-style"/>
+              <p className="mt-1 text-xs text-gray-500">{'{name}'} is the original file name, {'{index}'} its position in the list and {'{date}'} today's date. Leave empty for {defaultNameTemplate}.</p>
+            </div>
+          </>
+        ) : (
+          <>
+            <FileUpload onFileChange={handleFileChange} accept={acceptedType} />
+            {currentFile && <p className="text-sm text-gray-600">Selected: {currentFile.name} { (totalPagesInCurrentPdf && fileNeedsTotalPages(appMode)) && `(${totalPagesInCurrentPdf} pages)`}</p>}
+          </>
+        )}
+        {children}
+        {inBatch && batchStatuses.length > 0 && <BatchStatusList statuses={batchStatuses} />}
+        <ActionButton onClick={inBatch ? handleRunBatch : onAction} disabled={(inBatch ? batchFiles.length === 0 : !currentFile) || isProcessing} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">
+          {inBatch ? `${actionText} (${batchFiles.length} ${batchFiles.length === 1 ? 'file' : 'files'})` : actionText}
+        </ActionButton>
+      </div>
+    );
+  };
 
   const fileNeedsTotalPages = (mode: AppMode) => {
-    return [AppMode.EXTRACT_PAGES, AppMode.SPLIT_PDF, AppMode.ROTATE_PDF, AppMode.ADD_PAGE_NUMBERS, AppMode.COMPRESS_PDF].includes(mode);
+    return [AppMode.EXTRACT_PAGES, AppMode.SPLIT_PDF, AppMode.ROTATE_PDF, AppMode.ADD_PAGE_NUMBERS, AppMode.HEADER_FOOTER, AppMode.COMPRESS_PDF, AppMode.WATERMARK_PDF, AppMode.PDF_TO_IMAGES, AppMode.PDF_TO_TEXT, AppMode.SIGN_PDF].includes(mode);
   }
 
   const renderPrivacyPolicy = () => (
@@ -393,12 +1473,83 @@ const App: React.FC = () => {
   );
 
   const renderContent = () => {
-    if (isProcessing) return <LoadingSpinner />;
+    if (isProcessing) {
+      return (
+        <>
+          <LoadingSpinner progress={jobProgress} onCancel={jobProgress !== null ? () => jobAbortRef.current?.abort() : undefined} />
+          {batchStatuses.length > 0 && <BatchStatusList statuses={batchStatuses} />}
+        </>
+      );
+    }
 
     switch (appMode) {
       case AppMode.WORD_TO_PDF:
-        return renderCommonFileUpload(".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document", "Word to PDF Converter", handleWordToPdf, "Convert to PDF");
+        return renderCommonFileUpload(".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document", "Word to PDF Converter", handleWordToPdf, "Convert to PDF", (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="wordPageSize" className="label-style">Page size:</label>
+              <select id="wordPageSize" value={wordPdfOptions.pageSize} onChange={e => setWordPdfOptions({ ...wordPdfOptions, pageSize: e.target.value as WordToPdfOptions['pageSize'] })} className="select-style">
+                <option value="document">As set in the document</option>
+                <option value="A4">A4</option>
+                <option value="Letter">Letter</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Margins, orientation and page breaks are taken from the document. Headers and footers are not converted.</p>
+            </div>
+            <FontPicker id="wordFont" font={wordPdfOptions.fontFamily ?? 'sans'} customFont={wordPdfOptions.customFont} uploadedFonts={uploadedFonts} choices={TEXT_FONT_CHOICES} onChange={({ font, customFont }) => setWordPdfOptions({ ...wordPdfOptions, fontFamily: font, customFont })} onUpload={handleFontUpload} />
+          </div>
+        ));
       
+      case AppMode.TEXT_TO_PDF:
+        return renderCommonFileUpload(".md,.markdown,.html,.htm,.txt", "Text to PDF Converter", handleTextToPdf, "Convert to PDF", (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="textPageSize" className="label-style">Page size:</label>
+                <select id="textPageSize" value={textPdfOptions.pageSize} onChange={e => setTextPdfOptions({ ...textPdfOptions, pageSize: e.target.value as TextToPdfOptions['pageSize'] })} className="select-style">
+                  <option value="A4">A4</option>
+                  <option value="Letter">Letter</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="textOrientation" className="label-style">Orientation:</label>
+                <select id="textOrientation" value={textPdfOptions.orientation} onChange={e => setTextPdfOptions({ ...textPdfOptions, orientation: e.target.value as TextToPdfOptions['orientation'] })} className="select-style">
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="textMargin" className="label-style">Margins:</label>
+                <select id="textMargin" value={textPdfOptions.margin} onChange={e => setTextPdfOptions({ ...textPdfOptions, margin: Number(e.target.value) })} className="select-style">
+                  <option value={36}>Narrow (0.5 in)</option>
+                  <option value={72}>Normal (1 in)</option>
+                  <option value={108}>Wide (1.5 in)</option>
+                </select>
+              </div>
+              <FontPicker id="textFontFamily" font={textPdfOptions.fontFamily} customFont={textPdfOptions.customFont} uploadedFonts={uploadedFonts} choices={TEXT_FONT_CHOICES} onChange={({ font, customFont }) => setTextPdfOptions({ ...textPdfOptions, fontFamily: font, customFont })} onUpload={handleFontUpload} />
+              <div>
+                <label htmlFor="textFontSize" className="label-style">Font size (pt):</label>
+                <input type="number" id="textFontSize" min="6" max="24" value={textPdfOptions.fontSize} onChange={e => setTextPdfOptions({ ...textPdfOptions, fontSize: Math.min(Math.max(Number(e.target.value) || 11, 6), 24) })} className="input-style" />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="textHeader" className="label-style">Header:</label>
+                <input type="text" id="textHeader" value={textPdfOptions.header} onChange={e => setTextPdfOptions({ ...textPdfOptions, header: e.target.value })} className="input-style" placeholder="None" />
+              </div>
+              <div>
+                <label htmlFor="textFooter" className="label-style">Footer:</label>
+                <input type="text" id="textFooter" value={textPdfOptions.footer} onChange={e => setTextPdfOptions({ ...textPdfOptions, footer: e.target.value })} className="input-style" placeholder="None" />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Use {'{page}'} and {'{pages}'} in the header or footer for the page number and page count.</p>
+            <div>
+              <p className="label-style">Images (optional):</p>
+              <MultiFileUpload onFilesChange={setTextPdfImages} accept="image/*" />
+              <p className="text-xs text-gray-500 mt-1">Add the images your document links to with relative paths, such as images/diagram.png; they are matched by file name. Images with web or data URLs are loaded directly.</p>
+            </div>
+          </div>
+        ));
+
       case AppMode.IMAGES_TO_PDF:
         return (
           <div className="space-y-6">
@@ -410,21 +1561,143 @@ const App: React.FC = () => {
           </div>
         );
 
+      case AppMode.PDF_TO_IMAGES:
+        return renderCommonFileUpload(".pdf,application/pdf", "PDF to Images", handlePdfToImages, "Convert to Images & Download", (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="label-style">Image format:</label>
+                <div className="flex items-center space-x-4 mt-1">
+                  <label className="flex items-center"><input type="radio" name="imageFormat" value="png" checked={pdfImageOptions.format === 'png'} onChange={() => setPdfImageOptions(prev => ({ ...prev, format: 'png' }))} className="radio-style"/><span className="ml-2 text-sm">PNG</span></label>
+                  <label className="flex items-center"><input type="radio" name="imageFormat" value="jpeg" checked={pdfImageOptions.format === 'jpeg'} onChange={() => setPdfImageOptions(prev => ({ ...prev, format: 'jpeg' }))} className="radio-style"/><span className="ml-2 text-sm">JPEG</span></label>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="imageDpi" className="label-style">Resolution:</label>
+                <select id="imageDpi" value={pdfImageOptions.dpi} onChange={e => setPdfImageOptions(prev => ({ ...prev, dpi: parseInt(e.target.value) }))} className="select-style">
+                  <option value="72">72 DPI (screen, smallest)</option>
+                  <option value="150">150 DPI (slides)</option>
+                  <option value="300">300 DPI (print)</option>
+                  <option value="600">600 DPI (high detail, large files)</option>
+                </select>
+              </div>
+              {pdfImageOptions.format === 'jpeg' && (
+                <div><label htmlFor="imageQuality" className="label-style">JPEG quality ({Math.round(pdfImageOptions.jpegQuality * 100)}%):</label><input type="range" id="imageQuality" min="30" max="100" value={Math.round(pdfImageOptions.jpegQuality * 100)} onChange={e => setPdfImageOptions(prev => ({ ...prev, jpegQuality: parseInt(e.target.value) / 100 }))} className="w-full accent-red-600"/></div>
+              )}
+              <div>
+                <label className="label-style">Download as:</label>
+                <div className="flex items-center space-x-4 mt-1">
+                  <label className="flex items-center"><input type="radio" name="imagesOutput" checked={pdfImagesAsZip} onChange={() => setPdfImagesAsZip(true)} className="radio-style"/><span className="ml-2 text-sm">One ZIP file</span></label>
+                  <label className="flex items-center"><input type="radio" name="imagesOutput" checked={!pdfImagesAsZip} onChange={() => setPdfImagesAsZip(false)} className="radio-style"/><span className="ml-2 text-sm">Separate images</span></label>
+                </div>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="imagePages" className="block text-sm font-medium text-gray-700">Pages to convert (leave empty for all pages):</label>
+              <input type="text" id="imagePages" value={pdfImageOptions.pageRange} onChange={e => setPdfImageOptions(prev => ({ ...prev, pageRange: e.target.value }))} placeholder="e.g., 1, 3-5, 7" className="mt-1 block w-full input-style"/>
+            </div>
+            <PdfPreviewer source={currentFile} selectedPages={selectedPagesFromInput(pdfImageOptions.pageRange)} onPageClick={page => setPdfImageOptions(prev => ({ ...prev, pageRange: togglePageInRangeInput(prev.pageRange, page) }))} />
+          </div>
+        ));
+
+      case AppMode.PDF_TO_TEXT:
+        return renderCommonFileUpload(".pdf,application/pdf", "PDF to Text", handlePdfToText, "Extract Text & Download", (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="textFormat" className="label-style">Output format:</label>
+              <select id="textFormat" value={pdfTextOptions.format} onChange={e => setPdfTextOptions(prev => ({ ...prev, format: e.target.value as PdfToTextOptions['format'] }))} className="select-style">
+                <option value="txt">Plain text (.txt)</option>
+                <option value="markdown">Markdown with headings and lists (.md)</option>
+                <option value="json">JSON with text blocks and positions (.json)</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="textPages" className="block text-sm font-medium text-gray-700">Pages to extract (leave empty for all pages):</label>
+              <input type="text" id="textPages" value={pdfTextOptions.pageRange} onChange={e => setPdfTextOptions(prev => ({ ...prev, pageRange: e.target.value }))} placeholder="e.g., 1, 3-5, 7" className="mt-1 block w-full input-style"/>
+            </div>
+            <p className="text-xs text-gray-500">Text is read from the PDF in your browser. Scanned pages contain images rather than text, so they come out empty.</p>
+            <PdfPreviewer source={currentFile} selectedPages={selectedPagesFromInput(pdfTextOptions.pageRange)} onPageClick={page => setPdfTextOptions(prev => ({ ...prev, pageRange: togglePageInRangeInput(prev.pageRange, page) }))} />
+          </div>
+        ));
+
       case AppMode.MERGE_PDFS:
         return (
           <div className="space-y-6">
             <h2 className="text-3xl font-semibold text-gray-700">Merge PDFs</h2>
-            <MultiFileUpload onFilesChange={setFilesToMerge} accept=".pdf,application/pdf" />
+            <MultiFileUpload onFilesChange={handlePdfFilesChange(setFilesToMerge)} accept=".pdf,application/pdf" />
+            <div className="space-y-2">
+              <label className="flex items-center"><input type="checkbox" checked={mergePreserveBookmarks} onChange={e => setMergePreserveBookmarks(e.target.checked)} className="radio-style"/><span className="ml-2 text-sm">Keep the bookmarks of each file</span></label>
+              <label className="flex items-center"><input type="checkbox" checked={mergeBookmarkPerFile} onChange={e => setMergeBookmarkPerFile(e.target.checked)} className="radio-style"/><span className="ml-2 text-sm">Add a bookmark for each file, named after it</span></label>
+            </div>
             <ActionButton onClick={handleMergePdfs} disabled={filesToMerge.length < 2 || isProcessing} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">
               Merge PDFs
             </ActionButton>
           </div>
         );
+      case AppMode.PIPELINE:
+        return (
+          <div className="space-y-6">
+            <h2 className="text-3xl font-semibold text-gray-700">PDF Pipeline</h2>
+            <p className="text-sm text-gray-600">Chain several operations and run them in one go, without downloading and re-uploading in between. Save the chain as a recipe to reuse it, or export it to share with others.</p>
+            <MultiFileUpload onFilesChange={handlePdfFilesChange(setPipelineFiles)} accept=".pdf,application/pdf" />
+            <div className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="flex-grow">
+                  <label htmlFor="recipeName" className="label-style">Recipe name:</label>
+                  <input type="text" id="recipeName" value={recipeName} onChange={e => setRecipeName(e.target.value)} placeholder="e.g. Client report" className="input-style"/>
+                </div>
+                <ActionButton onClick={handleSaveRecipe} disabled={!recipeName.trim() || pipelineSteps.length === 0} className="bg-gray-700 hover:bg-gray-800">Save recipe</ActionButton>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="cursor-pointer text-red-600 hover:text-red-800 hover:underline">
+                  Import recipe (JSON)
+                  <input type="file" accept=".json,application/json" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportRecipe(file); }} className="hidden"/>
+                </label>
+                <span className="text-gray-400">|</span>
+                <button type="button" onClick={handleExportRecipe} disabled={pipelineSteps.length === 0} className="text-red-600 hover:text-red-800 hover:underline disabled:text-gray-400 disabled:no-underline">Export recipe</button>
+              </div>
+              {savedRecipes.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Saved recipes:</p>
+                  <ul className="flex flex-wrap gap-2">
+                    {savedRecipes.map(recipe => (
+                      <li key={recipe.name} className="flex items-center rounded-full border border-gray-300 bg-white text-sm">
+                        <button type="button" onClick={() => handleLoadRecipe(recipe)} className="pl-3 pr-2 py-1 hover:text-red-700" title={`${recipe.steps.length} step(s)`}>{recipe.name}</button>
+                        <button type="button" onClick={() => handleDeleteRecipe(recipe.name)} className="pr-3 pl-1 py-1 text-gray-400 hover:text-red-700" aria-label={`Delete ${recipe.name}`} title="Delete">✕</button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {recipeMessage && <p className="text-xs text-gray-600 break-words">{recipeMessage}</p>}
+            </div>
+            <PipelineBuilder steps={pipelineSteps} onChange={setPipelineSteps} uploadedFonts={uploadedFonts} onFontUpload={handleFontUpload} />
+            <ActionButton onClick={handleRunPipeline} disabled={pipelineFiles.length === 0 || pipelineSteps.length === 0 || isProcessing} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">
+              Run Pipeline
+            </ActionButton>
+          </div>
+        );
+      case AppMode.ORGANIZE_PDF:
+        return (
+          <div className="space-y-6">
+            <h2 className="text-3xl font-semibold text-gray-700">Organize PDF</h2>
+            <MultiFileUpload onFilesChange={handlePdfFilesChange(setFilesToOrganize)} accept=".pdf,application/pdf" />
+            <PageOrganizer files={filesToOrganize} onPagesChange={setOrganizedPages} />
+            <ActionButton onClick={handleOrganizePdf} disabled={organizedPages.length === 0 || isProcessing} className="w-full sm:w-auto bg-red-600 hover:bg-red-700">
+              Export PDF
+            </ActionButton>
+          </div>
+        );
       case AppMode.EXTRACT_PAGES:
         return renderCommonFileUpload(".pdf,application/pdf", "Extract PDF Pages", handleExtractPages, "Extract Pages & Download", (
           <div>
-            <label htmlFor="pageRange" className="block text-sm font-medium text-gray-700">Pages/ranges to extract (e.g., 1, 3-5, 8):</label>
-            <input type="text" id="pageRange" value={pageRangeInput} onChange={(e) => setPageRangeInput(e.target.value)} placeholder="e.g., 1-3, 5, 7-9" className="mt-1 block w-full input-style"/>
+            <label htmlFor="pageRange" className="block text-sm font-medium text-gray-700">Pages/ranges to extract (e.g., 1, 3-5, 8-, odd, !2):</label>
+            <input type="text" id="pageRange" value={pageRangeInput} onChange={(e) => setPageRangeInput(e.target.value)} placeholder="e.g., 1-3, 5, 7-last" className="mt-1 block w-full input-style"/>
+            <PageRangeHint input={pageRangeInput} totalPages={totalPagesInCurrentPdf} keepOrder={extractKeepOrder} />
+            <label className="flex items-center mt-2"><input type="checkbox" checked={extractKeepOrder} onChange={e => setExtractKeepOrder(e.target.checked)} className="radio-style"/><span className="ml-2 text-sm">Keep the order I typed (e.g. 10-1 reverses; pages may repeat)</span></label>
+            <div className="mt-4">
+              <PdfPreviewer source={currentFile} selectedPages={selectedPagesFromInput(pageRangeInput)} onPageClick={page => setPageRangeInput(prev => togglePageInRangeInput(prev, page))} />
+            </div>
           </div>
         ));
       case AppMode.SPLIT_PDF:
@@ -432,26 +1705,51 @@ const App: React.FC = () => {
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Split Option:</label>
-              <div className="flex items-center space-x-4">
-                <label className="flex items-center"><input type="radio" name="splitOpt" value="all" checked={splitOption === 'all'} onChange={() => setSplitOption('all')} className="radio-style"/><span className="ml-2 text-sm">Split all pages</span></label>
-                <label className="flex items-center"><input type="radio" name="splitOpt" value="ranges" checked={splitOption === 'ranges'} onChange={() => setSplitOption('ranges')} className="radio-style"/><span className="ml-2 text-sm">Extract custom ranges</span></label>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                {(Object.keys(SPLIT_MODE_LABELS) as SplitPdfOptions['mode'][]).map(mode => (
+                  <label key={mode} className="flex items-center"><input type="radio" name="splitOpt" value={mode} checked={splitOption === mode} onChange={() => setSplitOption(mode)} className="radio-style"/><span className="ml-2 text-sm">{SPLIT_MODE_LABELS[mode]}</span></label>
+                ))}
               </div>
             </div>
+            {splitOption === 'everyNPages' && (
+              <div>
+                <label htmlFor="splitPagesPerFile" className="block text-sm font-medium text-gray-700">Pages per file:</label>
+                <input type="number" id="splitPagesPerFile" min="1" value={splitPagesPerFile} onChange={e => setSplitPagesPerFile(parseInt(e.target.value) || 1)} className="mt-1 block w-32 input-style"/>
+                {totalPagesInCurrentPdf && <p className="mt-1 text-xs text-gray-600">This makes {Math.ceil(totalPagesInCurrentPdf / splitPagesPerFile)} files.</p>}
+              </div>
+            )}
+            {splitOption === 'maxSize' && (
+              <div>
+                <label htmlFor="splitMaxSize" className="block text-sm font-medium text-gray-700">Maximum size per file (MB):</label>
+                <input type="number" id="splitMaxSize" min="0.1" step="0.1" value={splitMaxSizeMb} onChange={e => setSplitMaxSizeMb(parseFloat(e.target.value) || 1)} className="mt-1 block w-32 input-style"/>
+                <p className="mt-1 text-xs text-gray-600">Consecutive pages are packed into files below this size, e.g. for email attachment limits. A single page larger than this gets a file of its own.</p>
+              </div>
+            )}
+            {splitOption === 'bookmarks' && (
+              <p className="text-xs text-gray-600">A new file starts at each top-level bookmark and is named after it.</p>
+            )}
+            {splitOption === 'blankPages' && (
+              <p className="text-xs text-gray-600">Blank pages, such as separator sheets from a scanner, end one file and start the next. They are left out of the results.</p>
+            )}
             {splitOption === 'ranges' && (
               <div>
-                <label htmlFor="splitRanges" className="block text-sm font-medium text-gray-700">Ranges (e.g., 1-2, 3, 4-5):</label>
+                <label htmlFor="splitRanges" className="block text-sm font-medium text-gray-700">Ranges, one file per comma (e.g., 1-2, 3, 4-last !7):</label>
                 <input type="text" id="splitRanges" value={splitRangesInput} onChange={(e) => setSplitRangesInput(e.target.value)} placeholder="e.g., 1-2, 3, 4-5 creates 3 files" className="mt-1 block w-full input-style"/>
+                <PageRangeHint input={splitRangesInput} totalPages={totalPagesInCurrentPdf} perFile />
               </div>
             )}
+            <PdfPreviewer source={currentFile} selectedPages={splitOption === 'ranges' ? selectedPagesFromInput(splitRangesInput, true) : undefined} />
           </div>
         ));
       case AppMode.ROTATE_PDF:
         return renderCommonFileUpload(".pdf,application/pdf", "Rotate PDF Pages", handleRotatePdf, "Rotate Pages & Download", (
           <div className="space-y-4">
             <div>
-              <label htmlFor="rotatePages" className="block text-sm font-medium text-gray-700">Page numbers/ranges to rotate (e.g., 1, 3-5):</label>
+              <label htmlFor="rotatePages" className="block text-sm font-medium text-gray-700">Page numbers/ranges to rotate (e.g., 1, 3-5, even, !1):</label>
               <input type="text" id="rotatePages" value={rotatePageNumbersInput} onChange={(e) => setRotatePageNumbersInput(e.target.value)} placeholder="e.g., 1, 3-5, 7" className="mt-1 block w-full input-style"/>
+              <PageRangeHint input={rotatePageNumbersInput} totalPages={totalPagesInCurrentPdf} />
             </div>
+            <PdfPreviewer source={currentFile} selectedPages={selectedPagesFromInput(rotatePageNumbersInput)} onPageClick={page => setRotatePageNumbersInput(prev => togglePageInRangeInput(prev, page))} />
             <div>
               <label htmlFor="rotationAngle" className="block text-sm font-medium text-gray-700">Rotation Angle (clockwise):</label>
               <select id="rotationAngle" value={rotationAngle} onChange={(e) => setRotationAngle(parseInt(e.target.value) as 90|180|270)} className="mt-1 block w-full select-style">
@@ -467,13 +1765,402 @@ const App: React.FC = () => {
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div><label htmlFor="pnFormat" className="label-style">Format (%p: current, %t: total):</label><input type="text" id="pnFormat" value={pageNumberFormat} onChange={e => setPageNumberFormat(e.target.value)} className="input-style"/></div>
             <div><label htmlFor="pnPos" className="label-style">Position:</label><select id="pnPos" value={pageNumberPosition} onChange={e => setPageNumberPosition(e.target.value as PageNumberPosition)} className="select-style">{Object.values(PageNumberPosition).map(p => <option key={p} value={p}>{p.replace(/([A-Z])/g, ' $1').trim()}</option>)}</select></div>
-            <div><label htmlFor="pnFont" className="label-style">Font:</label><select id="pnFont" value={pageNumberFont} onChange={e => setPageNumberFont(e.target.value as StandardPdfFonts)} className="select-style">{Object.values(StandardPdfFonts).map(f => <option key={f} value={f}>{f.replace(/([A-Z])/g, ' $1').trim()}</option>)}</select></div>
+            <FontPicker id="pnFont" font={pageNumberFont} customFont={pageNumberCustomFont} uploadedFonts={uploadedFonts} onChange={({ font, customFont }) => { setPageNumberFont(font); setPageNumberCustomFont(customFont); }} onUpload={handleFontUpload} />
             <div><label htmlFor="pnSize" className="label-style">Font Size (pt):</label><input type="number" id="pnSize" min="1" value={pageNumberFontSize} onChange={e => setPageNumberFontSize(parseInt(e.target.value) || 12)} className="input-style"/></div>
             <div><label htmlFor="pnColor" className="label-style">Font Color (hex):</label><input type="text" id="pnColor" value={pageNumberFontColor} onChange={e => setPageNumberFontColor(e.target.value)} placeholder="#000000" className="input-style"/></div>
           </div>
         ));
+      case AppMode.HEADER_FOOTER: {
+        const bates = headerFooterOptions.bates;
+        return renderCommonFileUpload(".pdf,application/pdf", "Add Headers, Footers & Bates Numbers", handleAddHeaderFooter, "Stamp Pages & Download", (
+          <div className="space-y-4">
+            <div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {HEADER_FOOTER_SLOTS.map(slot => (
+                  <div key={slot}>
+                    <label htmlFor={`hf-${slot}`} className="label-style">{HEADER_FOOTER_SLOT_LABELS[slot]}:</label>
+                    <input type="text" id={`hf-${slot}`} value={headerFooterOptions.slots[slot]} onChange={e => updateHeaderFooterOptions({ slots: { ...headerFooterOptions.slots, [slot]: e.target.value } })} className="input-style"/>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">%p is the page number, %t the last page number, {'{date}'} today's date, {'{filename}'} the file name and {'{bates}'} the Bates number.</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div><label htmlFor="hfStyle" className="label-style">Numbering:</label><select id="hfStyle" value={headerFooterOptions.numberStyle} onChange={e => updateHeaderFooterOptions({ numberStyle: e.target.value as PageNumberStyle })} className="select-style">{(Object.keys(PAGE_NUMBER_STYLE_LABELS) as PageNumberStyle[]).map(style => <option key={style} value={style}>{PAGE_NUMBER_STYLE_LABELS[style]}</option>)}</select></div>
+              <div><label htmlFor="hfStart" className="label-style">First page number:</label><input type="number" id="hfStart" value={headerFooterOptions.startNumber} onChange={e => updateHeaderFooterOptions({ startNumber: parseInt(e.target.value) || 0 })} className="input-style"/></div>
+              <div><label htmlFor="hfSkip" className="label-style">Skip first pages:</label><input type="number" id="hfSkip" min="0" value={headerFooterOptions.skipFirstPages} onChange={e => updateHeaderFooterOptions({ skipFirstPages: Math.max(0, parseInt(e.target.value) || 0) })} className="input-style"/></div>
+            </div>
+            <div>
+              <label htmlFor="hfRange" className="label-style">Pages (empty for all):</label>
+              <input type="text" id="hfRange" value={headerFooterOptions.pageRange} onChange={e => updateHeaderFooterOptions({ pageRange: e.target.value })} placeholder="e.g., 2-, !5" className="input-style"/>
+              <PageRangeHint input={headerFooterOptions.pageRange} totalPages={totalPagesInCurrentPdf} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FontPicker id="hfFont" font={headerFooterOptions.font} customFont={headerFooterOptions.customFont} uploadedFonts={uploadedFonts} onChange={updateHeaderFooterOptions} onUpload={handleFontUpload} />
+              <div><label htmlFor="hfSize" className="label-style">Font Size (pt):</label><input type="number" id="hfSize" min="1" value={headerFooterOptions.fontSize} onChange={e => updateHeaderFooterOptions({ fontSize: parseFloat(e.target.value) || 10 })} className="input-style"/></div>
+              <div><label htmlFor="hfColor" className="label-style">Font Color (hex):</label><input type="text" id="hfColor" value={headerFooterOptions.colorHex} onChange={e => updateHeaderFooterOptions({ colorHex: e.target.value })} placeholder="#000000" className="input-style"/></div>
+              <div><label htmlFor="hfMarginX" className="label-style">Side margin (pt):</label><input type="number" id="hfMarginX" min="0" value={headerFooterOptions.marginX} onChange={e => updateHeaderFooterOptions({ marginX: Math.max(0, parseFloat(e.target.value) || 0) })} className="input-style"/></div>
+              <div><label htmlFor="hfMarginY" className="label-style">Top/bottom margin (pt):</label><input type="number" id="hfMarginY" min="0" value={headerFooterOptions.marginY} onChange={e => updateHeaderFooterOptions({ marginY: Math.max(0, parseFloat(e.target.value) || 0) })} className="input-style"/></div>
+            </div>
+            <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+              <label className="flex items-center"><input type="checkbox" checked={!!bates} onChange={e => handleBatesToggle(e.target.checked)} className="radio-style"/><span className="ml-2 text-sm font-medium">Bates numbering</span></label>
+              {bates && (
+                <>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <div><label htmlFor="batesPrefix" className="label-style">Prefix:</label><input type="text" id="batesPrefix" value={bates.prefix} onChange={e => updateBatesOptions({ prefix: e.target.value })} placeholder="e.g., ACME" className="input-style"/></div>
+                    <div><label htmlFor="batesStart" className="label-style">First number:</label><input type="number" id="batesStart" min="0" value={bates.startNumber} onChange={e => updateBatesOptions({ startNumber: Math.max(0, parseInt(e.target.value) || 0) })} className="input-style"/></div>
+                    <div><label htmlFor="batesDigits" className="label-style">Digits:</label><input type="number" id="batesDigits" min="1" max="20" value={bates.digits} onChange={e => updateBatesOptions({ digits: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })} className="input-style"/></div>
+                    <div><label htmlFor="batesSuffix" className="label-style">Suffix:</label><input type="text" id="batesSuffix" value={bates.suffix} onChange={e => updateBatesOptions({ suffix: e.target.value })} className="input-style"/></div>
+                  </div>
+                  <p className="text-xs text-gray-500">The first stamped page gets {formatBatesNumber(bates.startNumber, bates)}. In batch mode the numbers continue from file to file in list order.</p>
+                  {nextBatesNumber !== null && (
+                    <p className="text-sm text-gray-700">
+                      The next Bates number is {formatBatesNumber(nextBatesNumber, bates)}.{' '}
+                      <button type="button" onClick={() => updateBatesOptions({ startNumber: nextBatesNumber })} className="text-red-500 hover:text-red-700 hover:underline">Continue from there</button>
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+            <PdfPreviewer source={currentFile} selectedPages={headerFooterOptions.pageRange.trim() ? selectedPagesFromInput(headerFooterOptions.pageRange) : undefined} />
+          </div>
+        ));
+      }
       case AppMode.COMPRESS_PDF:
-        return renderCommonFileUpload(".pdf,application/pdf", "Compress PDF", handleCompressPdf, "Compress PDF & Download");
+        return renderCommonFileUpload(".pdf,application/pdf", "Compress PDF", handleCompressPdf, "Compress PDF & Download", (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Compression level:</label>
+            <div className="space-y-1">
+              {[
+                { level: CompressionLevel.Extreme, description: 'Smallest file, lower image quality (72 dpi)' },
+                { level: CompressionLevel.Recommended, description: 'Good quality, good compression (144 dpi)' },
+                { level: CompressionLevel.Low, description: 'High quality, less compression (220 dpi)' },
+              ].map(({ level, description }) => (
+                <label key={level} className="flex items-center">
+                  <input type="radio" name="compressionLevel" value={level} checked={compressionLevel === level} onChange={() => setCompressionLevel(level)} className="radio-style"/>
+                  <span className="ml-2 text-sm"><span className="font-medium">{level}</span> – {description}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ));
+      case AppMode.WATERMARK_PDF:
+        return renderCommonFileUpload(".pdf,application/pdf", "Add Watermark to PDF", handleWatermarkPdf, "Add Watermark & Download", (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Watermark type:</label>
+              <div className="flex items-center space-x-4">
+                <label className="flex items-center"><input type="radio" name="watermarkType" value="text" checked={watermarkOptions.type === 'text'} onChange={() => updateWatermarkOptions({ type: 'text' })} className="radio-style"/><span className="ml-2 text-sm">Text</span></label>
+                <label className="flex items-center"><input type="radio" name="watermarkType" value="image" checked={watermarkOptions.type === 'image'} onChange={() => updateWatermarkOptions({ type: 'image' })} className="radio-style"/><span className="ml-2 text-sm">Image</span></label>
+              </div>
+            </div>
+            {watermarkOptions.type === 'text' ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label htmlFor="wmText" className="label-style">Text:</label>
+                  <input type="text" id="wmText" value={watermarkOptions.text} onChange={e => updateWatermarkOptions({ text: e.target.value })} className="input-style"/>
+                  <div className="mt-1 space-x-2">
+                    {['CONFIDENTIAL', 'DRAFT', 'COPY', 'APPROVED'].map(preset => (
+                      <button key={preset} type="button" onClick={() => updateWatermarkOptions({ text: preset })} className="text-xs text-red-500 hover:text-red-700 hover:underline">{preset}</button>
+                    ))}
+                  </div>
+                </div>
+                <FontPicker id="wmFont" font={watermarkOptions.font} customFont={watermarkOptions.customFont} uploadedFonts={uploadedFonts} onChange={updateWatermarkOptions} onUpload={handleFontUpload} />
+                <div><label htmlFor="wmSize" className="label-style">Font Size (pt):</label><input type="number" id="wmSize" min="1" value={watermarkOptions.fontSize} onChange={e => updateWatermarkOptions({ fontSize: parseInt(e.target.value) || 60 })} className="input-style"/></div>
+                <div><label htmlFor="wmColor" className="label-style">Color (hex):</label><input type="text" id="wmColor" value={watermarkOptions.colorHex} onChange={e => updateWatermarkOptions({ colorHex: e.target.value })} placeholder="#FF0000" className="input-style"/></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div><label htmlFor="wmImage" className="label-style">Image (PNG or JPEG):</label><input type="file" id="wmImage" accept="image/png,image/jpeg" onChange={e => updateWatermarkOptions({ imageFile: e.target.files && e.target.files[0] ? e.target.files[0] : undefined })} className="mt-1 block w-full text-sm text-gray-700"/></div>
+                <div><label htmlFor="wmScale" className="label-style">Image width ({Math.round(watermarkOptions.imageScale * 100)}% of page):</label><input type="range" id="wmScale" min="5" max="100" value={Math.round(watermarkOptions.imageScale * 100)} onChange={e => updateWatermarkOptions({ imageScale: parseInt(e.target.value) / 100 })} className="w-full accent-red-600"/></div>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div><label htmlFor="wmLayout" className="label-style">Position:</label><select id="wmLayout" value={watermarkOptions.layout} onChange={e => updateWatermarkOptions({ layout: e.target.value as WatermarkLayout })} className="select-style">{Object.values(WatermarkLayout).map(l => <option key={l} value={l}>{l}</option>)}</select></div>
+              <div><label htmlFor="wmRotation" className="label-style">Rotation (degrees):</label><input type="number" id="wmRotation" min="-360" max="360" value={watermarkOptions.rotation} disabled={watermarkOptions.layout === WatermarkLayout.Diagonal} onChange={e => updateWatermarkOptions({ rotation: parseInt(e.target.value) || 0 })} className="input-style disabled:bg-gray-100"/></div>
+              <div><label htmlFor="wmOpacity" className="label-style">Opacity ({Math.round(watermarkOptions.opacity * 100)}%):</label><input type="range" id="wmOpacity" min="5" max="100" value={Math.round(watermarkOptions.opacity * 100)} onChange={e => updateWatermarkOptions({ opacity: parseInt(e.target.value) / 100 })} className="w-full accent-red-600"/></div>
+              <div>
+                <label className="label-style">Layer:</label>
+                <div className="flex items-center space-x-4 mt-1">
+                  <label className="flex items-center"><input type="radio" name="wmLayer" checked={!watermarkOptions.behindContent} onChange={() => updateWatermarkOptions({ behindContent: false })} className="radio-style"/><span className="ml-2 text-sm">Above content</span></label>
+                  <label className="flex items-center"><input type="radio" name="wmLayer" checked={watermarkOptions.behindContent} onChange={() => updateWatermarkOptions({ behindContent: true })} className="radio-style"/><span className="ml-2 text-sm">Behind content</span></label>
+                </div>
+              </div>
+            </div>
+            {watermarkOptions.behindContent && <p className="text-xs text-gray-500">Pages with an opaque background (e.g. scans) will hide a watermark placed behind the content.</p>}
+            <div>
+              <label htmlFor="wmPages" className="block text-sm font-medium text-gray-700">Pages to watermark (leave empty for all pages):</label>
+              <input type="text" id="wmPages" value={watermarkOptions.pageRange} onChange={e => updateWatermarkOptions({ pageRange: e.target.value })} placeholder="e.g., 1, 3-5, 7" className="mt-1 block w-full input-style"/>
+            </div>
+            <PdfPreviewer source={currentFile} selectedPages={selectedPagesFromInput(watermarkOptions.pageRange)} onPageClick={page => updateWatermarkOptions({ pageRange: togglePageInRangeInput(watermarkOptions.pageRange, page) })} />
+          </div>
+        ));
+      case AppMode.PROTECT_PDF:
+        return renderCommonFileUpload(".pdf,application/pdf", "Protect PDF", handleProtectPdf, "Protect PDF & Download", (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div><label htmlFor="protectUserPw" className="label-style">Password to open:</label><input type="password" id="protectUserPw" autoComplete="new-password" value={protectUserPassword} onChange={e => setProtectUserPassword(e.target.value)} className="input-style"/></div>
+              <div><label htmlFor="protectConfirmPw" className="label-style">Confirm password:</label><input type="password" id="protectConfirmPw" autoComplete="new-password" value={protectConfirmPassword} onChange={e => setProtectConfirmPassword(e.target.value)} className="input-style"/></div>
+              <div><label htmlFor="protectOwnerPw" className="label-style">Owner password (optional):</label><input type="password" id="protectOwnerPw" autoComplete="new-password" value={protectOwnerPassword} onChange={e => setProtectOwnerPassword(e.target.value)} className="input-style"/></div>
+              <div><label htmlFor="protectAlgorithm" className="label-style">Encryption:</label><select id="protectAlgorithm" value={protectAlgorithm} onChange={e => setProtectAlgorithm(e.target.value as PdfEncryptionAlgorithm)} className="select-style">{Object.values(PdfEncryptionAlgorithm).map(a => <option key={a} value={a}>{a}{a === PdfEncryptionAlgorithm.RC4_128 ? ' (legacy readers only)' : a === PdfEncryptionAlgorithm.AES256 ? ' (recommended)' : ''}</option>)}</select></div>
+            </div>
+            <p className="text-xs text-gray-500">The owner password lifts the restrictions below. If you leave it empty, a random one is used so the restrictions can't be removed.</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Allow:</label>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['printing', 'Printing'],
+                  ['copying', 'Copying text and images'],
+                  ['editing', 'Editing and page changes'],
+                  ['fillingForms', 'Filling in forms'],
+                ] as [keyof PdfPermissions, string][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center"><input type="checkbox" checked={protectPermissions[key]} onChange={e => setProtectPermissions(prev => ({ ...prev, [key]: e.target.checked }))} className="radio-style"/><span className="ml-2 text-sm">{label}</span></label>
+                ))}
+              </div>
+            </div>
+          </div>
+        ));
+      case AppMode.UNLOCK_PDF:
+        return renderCommonFileUpload(".pdf,application/pdf", "Unlock PDF", handleUnlockPdf, "Unlock PDF & Download", (
+          currentFile ? (
+            <p className={`text-sm ${currentFileWasEncrypted ? 'text-green-700' : 'text-gray-600'}`}>
+              {currentFileWasEncrypted
+                ? 'The PDF was decrypted. The download has no password or permission restrictions.'
+                : 'This PDF is not password-protected, so there is nothing to unlock.'}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600">Upload a password-protected PDF. You'll be asked for its password, then you can save a copy without it.</p>
+          )
+        ));
+      case AppMode.FILL_FORM:
+        return renderCommonFileUpload(".pdf,application/pdf", "Fill PDF Form", handleFillForm, flattenForm ? "Fill, Flatten & Download" : "Fill Form & Download", (
+          formFields && (
+            <div className="space-y-4">
+              {formFields.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="cursor-pointer text-red-600 hover:text-red-800 hover:underline">
+                    Import values (JSON, FDF, XFDF)
+                    <input type="file" accept=".json,.fdf,.xfdf,application/json,application/vnd.fdf,application/vnd.adobe.xfdf" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleImportFormValues(file); }} className="hidden"/>
+                  </label>
+                  <span className="text-gray-400">|</span>
+                  <span className="text-gray-600">Export values:</span>
+                  {(['json', 'fdf', 'xfdf'] as const).map(format => (
+                    <button key={format} type="button" onClick={() => handleExportFormValues(format)} className="text-red-600 hover:text-red-800 hover:underline uppercase">{format}</button>
+                  ))}
+                </div>
+              )}
+              {formImportMessage && <p className="text-xs text-gray-600 break-words">{formImportMessage}</p>}
+              <PdfFormEditor fields={formFields} onChange={setFormFields} />
+              {formFields.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">After filling:</label>
+                  <div className="flex items-center space-x-4">
+                    <label className="flex items-center"><input type="radio" name="formOutput" checked={!flattenForm} onChange={() => setFlattenForm(false)} className="radio-style"/><span className="ml-2 text-sm">Keep fields editable</span></label>
+                    <label className="flex items-center"><input type="radio" name="formOutput" checked={flattenForm} onChange={() => setFlattenForm(true)} className="radio-style"/><span className="ml-2 text-sm">Flatten into static content</span></label>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        ));
+      case AppMode.REDACT_PDF: {
+        const presetLabels: { preset: RedactionSearchPreset; label: string }[] = [
+          { preset: RedactionSearchPreset.Email, label: 'Email addresses' },
+          { preset: RedactionSearchPreset.Iban, label: 'IBANs' },
+          { preset: RedactionSearchPreset.AccountNumber, label: 'Account and card numbers' },
+        ];
+        const hasSearch = !!redactSearchQuery.trim() || redactPresets.length > 0;
+        return renderCommonFileUpload(".pdf,application/pdf", "Redact PDF", handleRedactPdf, "Redact & Download", (
+          currentFile && redactPageSizes.length > 0 && (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                Text, image pixels and annotations under the redacted areas are removed from the file, not just covered, and the result is checked to make sure they can no longer be extracted.
+              </p>
+              <RedactionAreaSelector
+                file={currentFile}
+                pageSizes={redactPageSizes}
+                areas={redactionAreas}
+                onAreasChange={setRedactionAreas}
+                matches={redactionMatches ?? undefined}
+              />
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="redactSearch" className="label-style">Also redact every occurrence of:</label>
+                  <input type="text" id="redactSearch" value={redactSearchQuery} onChange={e => updateRedactionSearch(() => setRedactSearchQuery(e.target.value))} placeholder={redactUseRegex ? 'e.g., \\bACC-\\d{6}\\b' : 'e.g., a name or reference number'} className="input-style"/>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  <label className="flex items-center"><input type="checkbox" checked={redactUseRegex} onChange={e => updateRedactionSearch(() => setRedactUseRegex(e.target.checked))} className="radio-style"/><span className="ml-2 text-sm">Regular expression</span></label>
+                  <label className="flex items-center"><input type="checkbox" checked={redactCaseSensitive} onChange={e => updateRedactionSearch(() => setRedactCaseSensitive(e.target.checked))} className="radio-style"/><span className="ml-2 text-sm">Match case</span></label>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {presetLabels.map(({ preset, label }) => (
+                    <label key={preset} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={redactPresets.includes(preset)}
+                        onChange={e => updateRedactionSearch(() => setRedactPresets(prev => (e.target.checked ? [...prev, preset] : prev.filter(p => p !== preset))))}
+                        className="radio-style"
+                      />
+                      <span className="ml-2 text-sm">{label}</span>
+                    </label>
+                  ))}
+                </div>
+                {hasSearch && (
+                  <div className="flex items-center gap-3">
+                    <button type="button" onClick={handleFindRedactionMatches} disabled={isProcessing} className="text-sm text-red-600 hover:text-red-800 hover:underline disabled:opacity-50">Find matches</button>
+                    {redactionMatches && <span className="text-sm text-gray-600">{redactionMatches.length} match area(s) found and highlighted.</span>}
+                  </div>
+                )}
+              </div>
+              {redactionReport && (
+                <div className={`p-4 rounded-md text-sm ${redactionReport.problems.length > 0 ? 'bg-yellow-50 border border-yellow-300' : 'bg-green-50 border border-green-300'}`}>
+                  <p className="font-medium mb-1">
+                    {redactionReport.problems.length > 0 ? 'Redaction finished, but verification found problems:' : 'Verified: the redacted content can no longer be extracted.'}
+                  </p>
+                  {redactionReport.problems.length > 0 && (
+                    <ul className="list-disc list-inside mb-2">{redactionReport.problems.map((problem, i) => <li key={i}>{problem}</li>)}</ul>
+                  )}
+                  <p className="text-gray-700">
+                    {redactionReport.areasRedacted} area(s) redacted{redactionReport.matchesFound > 0 ? ` (${redactionReport.matchesFound} search match(es))` : ''}: {redactionReport.charactersRemoved} character(s) removed, {redactionReport.imagesRedacted} image(s) redacted, {redactionReport.imagesRemoved} image(s) or graphic(s) removed entirely, {redactionReport.annotationsRemoved} annotation(s) removed.
+                  </p>
+                </div>
+              )}
+            </div>
+          )
+        ));
+      }
+      case AppMode.EDIT_METADATA: {
+        const textFields: { field: 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer'; label: string; placeholder?: string }[] = [
+          { field: 'title', label: 'Title' },
+          { field: 'author', label: 'Author' },
+          { field: 'subject', label: 'Subject' },
+          { field: 'keywords', label: 'Keywords', placeholder: 'e.g., report, 2024, finance' },
+          { field: 'creator', label: 'Creator (application)' },
+          { field: 'producer', label: 'Producer' },
+        ];
+        return renderCommonFileUpload(".pdf,application/pdf", "Edit Metadata", handleEditMetadata, "Save Metadata & Download", (
+          pdfMetadata && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {textFields.map(({ field, label, placeholder }) => (
+                  <div key={field}>
+                    <label htmlFor={`metadata-${field}`} className="label-style">{label}:</label>
+                    <input type="text" id={`metadata-${field}`} value={pdfMetadata[field]} onChange={e => updatePdfMetadata({ [field]: e.target.value })} placeholder={placeholder} className="input-style"/>
+                  </div>
+                ))}
+                <div>
+                  <label htmlFor="metadataCreationDate" className="label-style">Created:</label>
+                  <input type="datetime-local" step="1" id="metadataCreationDate" value={toDateTimeLocalValue(pdfMetadata.creationDate)} onChange={e => updatePdfMetadata({ creationDate: e.target.value ? new Date(e.target.value) : null })} className="input-style"/>
+                </div>
+                <div>
+                  <label htmlFor="metadataModificationDate" className="label-style">Modified:</label>
+                  <div className="flex items-center space-x-2">
+                    <input type="datetime-local" step="1" id="metadataModificationDate" value={toDateTimeLocalValue(pdfMetadata.modificationDate)} onChange={e => updatePdfMetadata({ modificationDate: e.target.value ? new Date(e.target.value) : null })} className="input-style"/>
+                    <button type="button" onClick={() => updatePdfMetadata({ modificationDate: new Date() })} className="mt-1 text-xs text-red-600 hover:text-red-800 hover:underline whitespace-nowrap">Now</button>
+                  </div>
+                </div>
+              </div>
+              <div>
+                <label className="label-style">Custom properties:</label>
+                {pdfMetadata.custom.length === 0 && <p className="text-xs text-gray-500 mt-1">None.</p>}
+                {pdfMetadata.custom.map((entry, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input type="text" value={entry.key} onChange={e => updatePdfMetadata({ custom: pdfMetadata.custom.map((item, i) => i === index ? { ...item, key: e.target.value } : item) })} placeholder="Name" aria-label="Property name" className="input-style"/>
+                    <input type="text" value={entry.value} onChange={e => updatePdfMetadata({ custom: pdfMetadata.custom.map((item, i) => i === index ? { ...item, value: e.target.value } : item) })} placeholder="Value" aria-label="Property value" className="input-style"/>
+                    <button type="button" onClick={() => updatePdfMetadata({ custom: pdfMetadata.custom.filter((_, i) => i !== index) })} className="mt-1 text-sm text-gray-500 hover:text-red-700" aria-label="Remove property">&times;</button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => updatePdfMetadata({ custom: [...pdfMetadata.custom, { key: '', value: '' }] })} className="mt-2 text-sm text-red-600 hover:text-red-800 hover:underline">+ Add property</button>
+              </div>
+              <p className="text-xs text-gray-500">Empty fields are removed. The XMP metadata is rewritten to match, and no Producer is added unless you enter one.</p>
+              <div className="pt-3 border-t border-gray-200 flex flex-wrap items-center gap-3">
+                <button type="button" onClick={handleStripMetadata} disabled={isProcessing} className="px-4 py-2 text-sm rounded-lg border border-red-600 text-red-600 hover:bg-red-50 disabled:opacity-50">Strip All Metadata & Download</button>
+                <span className="text-xs text-gray-500">Removes the document information, all XMP metadata and application data.</span>
+              </div>
+            </div>
+          )
+        ));
+      }
+      case AppMode.SIGN_PDF: {
+        const signPageSize = signPageSizes[signPageNumber - 1];
+        const signMethodSelector = (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Signature type:</label>
+            <div className="flex items-center space-x-4">
+              <label className="flex items-center"><input type="radio" name="signMethod" value="visual" checked={signMethod === 'visual'} onChange={() => { setSignMethod('visual'); setSignatureDataUrl(null); setInitialsDataUrl(null); }} className="radio-style"/><span className="ml-2 text-sm">Draw, type or upload</span></label>
+              <label className="flex items-center"><input type="radio" name="signMethod" value="certificate" checked={signMethod === 'certificate'} onChange={() => setSignMethod('certificate')} className="radio-style"/><span className="ml-2 text-sm">Digital certificate (.p12/.pfx)</span></label>
+            </div>
+          </div>
+        );
+        if (signMethod === 'certificate') {
+          return renderCommonFileUpload(".pdf,application/pdf", "Sign PDF", handleDigitalSignPdf, "Sign with Certificate & Download", (
+            <div className="space-y-4">
+              {signMethodSelector}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div><label htmlFor="certFile" className="label-style">Certificate (.p12/.pfx):</label><input type="file" id="certFile" accept=".p12,.pfx,application/x-pkcs12" onChange={e => setCertificateFile(e.target.files && e.target.files[0] ? e.target.files[0] : null)} className="mt-1 block w-full text-sm text-gray-700"/></div>
+                <div><label htmlFor="certPassword" className="label-style">Certificate password:</label><input type="password" id="certPassword" value={certificatePassword} onChange={e => setCertificatePassword(e.target.value)} autoComplete="off" className="input-style"/></div>
+                <div><label htmlFor="signReason" className="label-style">Reason (optional):</label><input type="text" id="signReason" value={signReason} onChange={e => setSignReason(e.target.value)} placeholder="e.g., I approve this document" className="input-style"/></div>
+                <div><label htmlFor="signLocation" className="label-style">Location (optional):</label><input type="text" id="signLocation" value={signLocation} onChange={e => setSignLocation(e.target.value)} className="input-style"/></div>
+              </div>
+              <p className="text-xs text-gray-500">Your certificate and password never leave your browser. Signing rewrites the file, so existing signatures in it will no longer validate.</p>
+            </div>
+          ));
+        }
+        return renderCommonFileUpload(".pdf,application/pdf", "Sign PDF", handleSignPdf, "Sign PDF & Download", (
+          <div className="space-y-6">
+            {signMethodSelector}
+            <div>
+              <h3 className="text-lg font-medium text-gray-700 mb-2">1. Create your signature</h3>
+              <SignaturePad onSignatureChange={handleSignatureChange} />
+            </div>
+            {currentFile && (
+              <div className="space-y-3">
+                <h3 className="text-lg font-medium text-gray-700">2. Place it on the page</h3>
+                <div className="max-w-xs">
+                  <label htmlFor="signPage" className="label-style">Page:</label>
+                  <input type="number" id="signPage" min="1" max={signPageSizes.length || undefined} value={signPageNumber} onChange={e => setSignPageNumber(Math.min(Math.max(parseInt(e.target.value) || 1, 1), signPageSizes.length || 1))} className="input-style"/>
+                </div>
+                {signatureDataUrl && signPageSize ? (
+                  <>
+                    <SignaturePlacer
+                      pageWidth={signPageSize.width}
+                      pageHeight={signPageSize.height}
+                      signatureDataUrl={signatureDataUrl}
+                      signatureAspectRatio={signatureAspectRatio}
+                      placement={signPlacement}
+                      onPlacementChange={setSignPlacement}
+                      background={<PdfPageView source={currentFile} pageNumber={signPageNumber} className="absolute inset-0 pointer-events-none" />}
+                    />
+                    <p className="text-xs text-gray-500 text-center">Drag the signature to move it, drag the red handle to resize it.</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">Create a signature above to place it on page {signPageNumber}.</p>
+                )}
+              </div>
+            )}
+            <div className="space-y-3">
+              <h3 className="text-lg font-medium text-gray-700">3. Extras</h3>
+              <label className="flex items-center"><input type="checkbox" checked={addSignDate} onChange={e => { setAddSignDate(e.target.checked); if (e.target.checked && !signDateText) setSignDateText(new Date().toLocaleDateString()); }} className="radio-style"/><span className="ml-2 text-sm">Add date under the signature</span></label>
+              {addSignDate && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div><label htmlFor="signDate" className="label-style">Date text:</label><input type="text" id="signDate" value={signDateText} onChange={e => setSignDateText(e.target.value)} className="input-style"/></div>
+                  <FontPicker id="signDateFont" font={signDateFont.font} customFont={signDateFont.customFont} uploadedFonts={uploadedFonts} onChange={setSignDateFont} onUpload={handleFontUpload} />
+                </div>
+              )}
+              <label className="flex items-center"><input type="checkbox" checked={addInitials} onChange={e => setAddInitials(e.target.checked)} className="radio-style"/><span className="ml-2 text-sm">Add initials to all other pages</span></label>
+              {addInitials && (
+                <div className="space-y-3 pl-6">
+                  <SignaturePad onSignatureChange={setInitialsDataUrl} placeholderText="AB" />
+                  <div className="max-w-xs"><label htmlFor="initialsPos" className="label-style">Initials position:</label><select id="initialsPos" value={initialsPosition} onChange={e => setInitialsPosition(e.target.value as PageNumberPosition)} className="select-style">{Object.values(PageNumberPosition).map(p => <option key={p} value={p}>{p.replace(/([A-Z])/g, ' $1').trim()}</option>)}</select></div>
+                </div>
+              )}
+            </div>
+          </div>
+        ));
+      }
+      case AppMode.VERIFY_SIGNATURES:
+        return renderCommonFileUpload(".pdf,application/pdf", "Verify PDF Signatures", handleVerifySignatures, "Check Signatures",
+          verificationResults && renderVerificationResults(verificationResults));
       case AppMode.PRIVACY_POLICY:
         return renderPrivacyPolicy();
       case AppMode.ABOUT_US:
@@ -521,6 +2208,32 @@ const App: React.FC = () => {
         {processedFilesInfo.length > 0 && appMode !== AppMode.SELECT && !isProcessing && (
           <div className="my-6 p-4 bg-green-50 border border-green-300 rounded-lg shadow">
             <h3 className="text-lg font-semibold text-green-800 mb-3">Processing Successful!</h3>
+            {processedFilesInfo.length > 1 && (
+              <div className="mb-4 pb-3 border-b border-green-200 flex flex-wrap items-center gap-3">
+                <button
+                  type="button"
+                  onClick={handleDownloadAllAsZip}
+                  disabled={isZipping}
+                  className="px-4 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  {isZipping ? 'Creating ZIP...' : `Download all as ZIP (${processedFilesInfo.length} files)`}
+                </button>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" checked={zipUseFolder} onChange={e => setZipUseFolder(e.target.checked)} className="radio-style"/>
+                  <span className="ml-2">Put files in a folder</span>
+                </label>
+                {zipUseFolder && (
+                  <input
+                    type="text"
+                    value={zipFolderName}
+                    onChange={e => setZipFolderName(e.target.value)}
+                    placeholder={currentFileNameBase || 'lovpdf_results'}
+                    className="input-style max-w-xs"
+                    aria-label="Folder name"
+                  />
+                )}
+              </div>
+            )}
             {processedFilesInfo.map((fileInfo, index) => (
               <div key={index} className="mb-2">
                 <a
@@ -531,18 +2244,56 @@ const App: React.FC = () => {
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                   Download: {fileInfo.name}
                 </a>
+                {fileInfo.name.toLowerCase().endsWith('.pdf') && (
+                  <button
+                    type="button"
+                    onClick={() => setPreviewFileUrl(previewFileUrl === fileInfo.url ? null : fileInfo.url)}
+                    className="ml-7 text-xs text-gray-600 hover:text-red-700 hover:underline"
+                  >
+                    {previewFileUrl === fileInfo.url ? 'Hide preview' : 'Preview'}
+                  </button>
+                )}
                 {appMode === AppMode.COMPRESS_PDF && fileInfo.originalSize && fileInfo.processedSize && (
                      <p className="text-xs text-gray-600 ml-7">
                         Original: {(fileInfo.originalSize / 1024).toFixed(2)} KB, Compressed: {(fileInfo.processedSize / 1024).toFixed(2)} KB 
                         (Reduced by {((1 - fileInfo.processedSize / fileInfo.originalSize) * 100).toFixed(1)}%)
                      </p>
                 )}
+                {fileInfo.imageReport && fileInfo.imageReport.length > 0 && (
+                  <details className="ml-7 text-xs text-gray-600">
+                    <summary className="cursor-pointer hover:text-red-700">Images ({fileInfo.imageReport.length})</summary>
+                    <ul className="mt-1 space-y-0.5">
+                      {fileInfo.imageReport.map(image => (
+                        <li key={image.name}>
+                          <span className="font-medium">{image.name}</span>: {image.originalWidth}×{image.originalHeight}
+                          {image.effectiveDpi !== undefined && ` @ ${image.effectiveDpi} dpi`}, {(image.originalBytes / 1024).toFixed(1)} KB
+                          {image.skippedReason
+                            ? <span className="text-gray-500"> – unchanged ({image.skippedReason})</span>
+                            : <> → {image.newWidth}×{image.newHeight}, {(image.newBytes / 1024).toFixed(1)} KB</>}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
             ))}
+            {previewFileUrl && (
+              <div className="mt-4">
+                <PdfPreviewer source={previewFileUrl} title={`Preview of ${processedFilesInfo.find(f => f.url === previewFileUrl)?.name || 'result'}`} />
+              </div>
+            )}
           </div>
         )}
         {renderContent()}
       </div>
+      {passwordRequest && (
+        <PasswordPrompt
+          fileName={passwordRequest.fileName}
+          error={passwordRequest.error}
+          onSubmit={handlePasswordPromptClose}
+          onCancel={() => handlePasswordPromptClose(null)}
+        />
+      )}
        <footer className="mt-12 text-center text-sm text-gray-600 space-y-1 px-4">
         <p>
           <a href="#/privacy-policy" className="hover:underline text-red-600 hover:text-red-800">Privacy Policy</a> | 
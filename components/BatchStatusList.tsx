@@ -0,0 +1,40 @@
+import React from 'react';
+import { BatchFileStatus } from '../types';
+
+interface BatchStatusListProps {
+  statuses: BatchFileStatus[];
+}
+
+const STATE_LABELS: Record<BatchFileStatus['state'], { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'text-gray-500' },
+  processing: { label: 'Processing...', className: 'text-red-600 font-medium' },
+  done: { label: 'Done', className: 'text-green-700' },
+  failed: { label: 'Failed', className: 'text-red-700 font-medium' },
+};
+
+const BatchStatusList: React.FC<BatchStatusListProps> = ({ statuses }) => {
+  const finished = statuses.filter(status => status.state === 'done' || status.state === 'failed').length;
+  const failed = statuses.filter(status => status.state === 'failed').length;
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg bg-white text-left">
+      <p className="text-sm font-medium text-gray-700 mb-2" aria-live="polite">
+        {finished} of {statuses.length} files processed{failed > 0 && `, ${failed} failed`}
+      </p>
+      <div className="h-2 mb-3 rounded bg-gray-200 overflow-hidden">
+        <div className="h-full bg-red-600 transition-all" style={{ width: `${(finished / statuses.length) * 100}%` }} />
+      </div>
+      <ul className="space-y-1 text-sm">
+        {statuses.map((status, index) => (
+          <li key={index} className="flex flex-wrap justify-between gap-x-4">
+            <span className="text-gray-700 break-all">{status.name}{status.state === 'done' && status.outputName && <span className="text-gray-500"> → {status.outputName}</span>}</span>
+            <span className={STATE_LABELS[status.state].className}>{STATE_LABELS[status.state].label}</span>
+            {status.error && <span className="w-full text-xs text-red-700">{status.error}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchStatusList;
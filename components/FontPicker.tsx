@@ -0,0 +1,60 @@
+import React from 'react';
+import { FontInput, StandardPdfFonts } from '../types';
+
+interface FontChoice<T extends string> {
+  value: T;
+  label: string;
+}
+
+interface FontPickerProps<T extends string> {
+  id: string;
+  font: T;
+  customFont?: FontInput;
+  uploadedFonts: FontInput[]; // Shared by every tool, so a font is uploaded once per session
+  onChange: (changes: { font: T; customFont?: FontInput }) => void;
+  onUpload: (font: FontInput) => void;
+  choices?: FontChoice<T>[]; // The built-in fonts; defaults to the standard PDF fonts
+}
+
+const UPLOADED_PREFIX = 'uploaded:';
+
+const STANDARD_FONT_CHOICES: FontChoice<StandardPdfFonts>[] = Object.values(StandardPdfFonts).map(f => ({ value: f, label: f.replace(/([A-Z])/g, ' $1').trim() }));
+
+// Font choice for drawn text: a built-in font or an uploaded TrueType/OpenType font
+function FontPicker<T extends string = StandardPdfFonts>({ id, font, customFont, uploadedFonts, onChange, onUpload, choices }: FontPickerProps<T>) {
+  const builtIn: FontChoice<string>[] = choices ?? STANDARD_FONT_CHOICES;
+  const value = customFont ? `${UPLOADED_PREFIX}${uploadedFonts.indexOf(customFont)}` : font;
+
+  const handleSelect = (selected: string) => {
+    if (selected.startsWith(UPLOADED_PREFIX)) {
+      onChange({ font, customFont: uploadedFonts[Number(selected.slice(UPLOADED_PREFIX.length))] });
+    } else {
+      onChange({ font: selected as T, customFont: undefined });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be chosen again
+    if (!file) return;
+    const uploaded: FontInput = { name: file.name, data: await file.arrayBuffer() };
+    onUpload(uploaded);
+    onChange({ font, customFont: uploaded });
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className="label-style">Font:</label>
+      <select id={id} value={value} onChange={e => handleSelect(e.target.value)} className="select-style">
+        {builtIn.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+        {uploadedFonts.map((uploaded, index) => <option key={index} value={`${UPLOADED_PREFIX}${index}`}>{uploaded.name}</option>)}
+      </select>
+      <label className="mt-1 inline-block text-xs text-red-500 hover:text-red-700 hover:underline cursor-pointer">
+        Upload a font (.ttf, .otf)
+        <input type="file" accept=".ttf,.otf,font/ttf,font/otf" onChange={handleFileChange} className="hidden"/>
+      </label>
+    </div>
+  );
+}
+
+export default FontPicker;
@@ -1,12 +1,31 @@
 import React from 'react';
 
-const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  progress?: number | null; // 0 to 1; shows a progress bar when set
+  onCancel?: () => void; // Shows a Cancel button when set
+}
+
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress, onCancel }) => {
+  const percent = progress != null ? Math.round(Math.min(1, Math.max(0, progress)) * 100) : null;
   return (
     <div className="flex flex-col items-center justify-center space-y-3 py-10">
       <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-red-600"></div>
       <p className="text-gray-700 text-lg">Processing with love, please wait...</p>
+      {percent !== null && (
+        <div className="w-full max-w-sm">
+          <div className="h-2 rounded bg-gray-200 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+            <div className="h-full bg-red-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="mt-1 text-sm text-gray-600 text-center">{percent < 100 ? `${percent}%` : 'Finishing...'}</p>
+        </div>
+      )}
+      {onCancel && (
+        <button type="button" onClick={onCancel} className="px-4 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
 
-export default LoadingSpinner;
\ No newline at end of file
+export default LoadingSpinner;
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { LazyPageCanvas } from './PdfPreviewer';
+import { loadPdfForRendering } from '../services/pdfRenderService';
+import { OrganizePageItem } from '../services/pdfManipulatorService';
+
+interface PageOrganizerProps {
+  files: File[]; // Source PDFs, e.g. from MultiFileUpload
+  onPagesChange: (pages: OrganizePageItem[]) => void;
+}
+
+interface OrganizerTile extends OrganizePageItem {
+  id: number;
+}
+
+const TILE_WIDTH = 110;
+
+let nextTileId = 1;
+
+const PageOrganizer: React.FC<PageOrganizerProps> = ({ files, onPagesChange }) => {
+  const [docs, setDocs] = useState<Map<File, PDFDocumentProxy>>(new Map());
+  const [tiles, setTiles] = useState<OrganizerTile[]>([]);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const docsRef = useRef(docs);
+  docsRef.current = docs;
+
+  // Load newly added files and drop pages of removed ones, keeping the user's arrangement
+  useEffect(() => {
+    let cancelled = false;
+    const syncFiles = async () => {
+      const current = docsRef.current;
+      const nextDocs = new Map<File, PDFDocumentProxy>();
+      const addedTiles: OrganizerTile[] = [];
+      const errors: string[] = [];
+      for (const file of files) {
+        const existing = current.get(file);
+        if (existing) { nextDocs.set(file, existing); continue; }
+        try {
+          const pdf = await loadPdfForRendering(file);
+          if (cancelled) { pdf.destroy(); return; }
+          nextDocs.set(file, pdf);
+          for (let i = 0; i < pdf.numPages; i++) {
+            addedTiles.push({ id: nextTileId++, file, pageIndex: i, rotation: 0 });
+          }
+        } catch (e) {
+          console.error(`Error loading ${file.name}:`, e);
+          errors.push(`Could not read ${file.name}. It may be damaged or password-protected.`);
+        }
+      }
+      if (cancelled) return;
+      current.forEach((pdf, file) => { if (!nextDocs.has(file)) pdf.destroy(); });
+      setDocs(nextDocs);
+      setLoadErrors(errors);
+      setTiles(prev => [...prev.filter(tile => nextDocs.has(tile.file)), ...addedTiles]);
+    };
+    syncFiles();
+    return () => { cancelled = true; };
+  }, [files]);
+
+  useEffect(() => () => docsRef.current.forEach(pdf => pdf.destroy()), []);
+
+  useEffect(() => {
+    onPagesChange(tiles.map(({ file, pageIndex, rotation }) => ({ file, pageIndex, rotation })));
+  }, [tiles, onPagesChange]);
+
+  const rotateTile = (index: number, delta: 90 | -90) => {
+    setTiles(prev => prev.map((tile, i) => (
+      i === index ? { ...tile, rotation: ((tile.rotation + delta + 360) % 360) as OrganizerTile['rotation'] } : tile
+    )));
+  };
+
+  const duplicateTile = (index: number) => {
+    setTiles(prev => [...prev.slice(0, index + 1), { ...prev[index], id: nextTileId++ }, ...prev.slice(index + 1)]);
+  };
+
+  const deleteTile = (index: number) => {
+    setTiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveTile = (from: number, to: number) => {
+    setTiles(prev => {
+      const updated = [...prev];
+      const [moved] = updated.splice(from, 1);
+      updated.splice(to > from ? to - 1 : to, 0, moved);
+      return updated;
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) moveTile(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const resetPages = () => {
+    const resetTiles: OrganizerTile[] = [];
+    files.forEach(file => {
+      const pdf = docs.get(file);
+      if (!pdf) return;
+      for (let i = 0; i < pdf.numPages; i++) resetTiles.push({ id: nextTileId++, file, pageIndex: i, rotation: 0 });
+    });
+    setTiles(resetTiles);
+  };
+
+  if (files.length === 0) return null;
+
+  const fileLabel = (file: File) => (files.length > 1 ? `${files.indexOf(file) + 1}:` : '');
+  const tileButton = "p-1 rounded bg-white border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-400";
+
+  return (
+    <div className="space-y-2">
+      {loadErrors.map(message => <p key={message} className="text-sm text-red-600">{message}</p>)}
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium text-gray-800">Pages ({tiles.length})</h4>
+        <button type="button" onClick={resetPages} className="text-xs text-red-500 hover:text-red-700 hover:underline">Reset</button>
+      </div>
+      <p className="text-xs text-gray-500">Drag pages to reorder them. Use the buttons under each page to rotate, duplicate or delete it.</p>
+      <div className="flex flex-wrap gap-2 p-2 bg-gray-50 rounded-lg border border-gray-200 max-h-[32rem] overflow-y-auto">
+        {tiles.map((tile, index) => {
+          const pdf = docs.get(tile.file);
+          if (!pdf) return null;
+          return (
+            <div
+              key={tile.id}
+              draggable
+              onDragStart={e => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={e => { e.preventDefault(); setDropIndex(index); }}
+              onDragLeave={() => setDropIndex(prev => (prev === index ? null : prev))}
+              onDrop={e => handleDrop(e, index)}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+              className={`flex flex-col items-center p-2 rounded-lg border-2 bg-white cursor-move transition-colors
+                          ${dropIndex === index && dragIndex !== index ? 'border-red-500' : 'border-transparent'} ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
+              <div className="flex items-center justify-center overflow-hidden" style={{ width: TILE_WIDTH * 1.3, height: TILE_WIDTH * 1.3 }}>
+                <div style={{ transform: `rotate(${tile.rotation}deg)`, transition: 'transform 0.2s' }}>
+                  <LazyPageCanvas pdf={pdf} pageNumber={tile.pageIndex + 1} width={TILE_WIDTH * 0.9} />
+                </div>
+              </div>
+              <span className="mt-1 text-xs text-gray-600 truncate max-w-full" title={tile.file.name}>
+                {fileLabel(tile.file)} p.{tile.pageIndex + 1}
+              </span>
+              <div className="flex space-x-1 mt-1">
+                <button type="button" className={tileButton} onClick={() => rotateTile(index, -90)} aria-label="Rotate left" title="Rotate left">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+                </button>
+                <button type="button" className={tileButton} onClick={() => rotateTile(index, 90)} aria-label="Rotate right" title="Rotate right">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg>
+                </button>
+                <button type="button" className={tileButton} onClick={() => duplicateTile(index)} aria-label="Duplicate page" title="Duplicate">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                </button>
+                <button type="button" className={tileButton} onClick={() => deleteTile(index)} aria-label="Delete page" title="Delete">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {/* Drop target after the last page */}
+        <div
+          onDragOver={e => { e.preventDefault(); setDropIndex(tiles.length); }}
+          onDrop={e => handleDrop(e, tiles.length)}
+          className={`w-8 self-stretch rounded ${dropIndex === tiles.length ? 'bg-red-200' : ''}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PageOrganizer;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { formatPageRuns, parsePageRanges, splitPageRangeSegments } from '../services/pageRangeService';
+
+interface PageRangeHintProps {
+  input: string;
+  totalPages: number | null; // Nothing is shown until the page count is known
+  keepOrder?: boolean;
+  perFile?: boolean; // Split: each comma-separated selection makes its own file
+}
+
+const MAX_RUNS_SHOWN = 12;
+
+const describePages = (pageIndices: number[]) => {
+  const runs = formatPageRuns(pageIndices);
+  const shown = runs.slice(0, MAX_RUNS_SHOWN).join(', ');
+  return runs.length > MAX_RUNS_SHOWN ? `${shown}, ...` : shown;
+};
+
+// Live feedback under a page range input: the pages it selects, or what is wrong with it
+const PageRangeHint: React.FC<PageRangeHintProps> = ({ input, totalPages, keepOrder = false, perFile = false }) => {
+  if (!totalPages || !input.trim()) return null;
+
+  let message: string;
+  try {
+    if (perFile) {
+      const files = splitPageRangeSegments(input)
+        .map(segment => parsePageRanges(segment, totalPages))
+        .filter(pages => pages.length > 0);
+      message = files.length === 0
+        ? 'This selects no pages.'
+        : `This makes ${files.length} ${files.length === 1 ? 'file' : 'files'}: ${files.map(describePages).join(' | ')}`;
+    } else {
+      const pages = parsePageRanges(input, totalPages, { keepOrder });
+      message = pages.length === 0
+        ? 'This selects no pages.'
+        : `This selects ${pages.length} ${pages.length === 1 ? 'page' : 'pages'}: ${describePages(pages)}`;
+    }
+  } catch (err) {
+    return <p className="mt-1 text-xs text-red-600" aria-live="polite">{err instanceof Error ? err.message : String(err)}</p>;
+  }
+  return <p className="mt-1 text-xs text-gray-600" aria-live="polite">{message}</p>;
+};
+
+export default PageRangeHint;
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PasswordPromptProps {
+  fileName: string;
+  error?: string; // e.g. "Incorrect password." after a failed attempt
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PasswordPrompt: React.FC<PasswordPromptProps> = ({ fileName, error, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Clear and refocus the field for each new file
+  useEffect(() => {
+    setPassword('');
+    inputRef.current?.focus();
+  }, [fileName]);
+
+  // Clear it on submit too, so a retry after a wrong password starts empty even if the error text repeats
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+    setPassword('');
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black bg-opacity-70 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="password-prompt-title"
+      onKeyDown={e => { if (e.key === 'Escape') onCancel(); }}
+    >
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-xl p-6 space-y-4">
+        <h3 id="password-prompt-title" className="text-lg font-semibold text-gray-800">Password required</h3>
+        <p className="text-sm text-gray-600 break-words"><span className="font-medium">{fileName}</span> is password-protected. Enter its password to open it.</p>
+        <input
+          ref={inputRef}
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className="input-style"
+          aria-label="Password"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100">Cancel</button>
+          <button type="submit" className="px-4 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700">Unlock</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordPrompt;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { PdfFormField, PdfFormValue } from '../types';
+
+interface PdfFormEditorProps {
+  fields: PdfFormField[];
+  onChange: (fields: PdfFormField[]) => void;
+}
+
+const PdfFormEditor: React.FC<PdfFormEditorProps> = ({ fields, onChange }) => {
+  const setValue = (name: string, value: PdfFormValue) =>
+    onChange(fields.map(field => (field.name === name ? { ...field, value } : field)));
+
+  const renderInput = (field: PdfFormField, id: string) => {
+    const disabled = field.readOnly;
+    switch (field.type) {
+      case 'text':
+        return field.multiline ? (
+          <textarea id={id} value={field.value as string} onChange={e => setValue(field.name, e.target.value)} maxLength={field.maxLength} disabled={disabled} rows={3} className="input-style"/>
+        ) : (
+          <input type="text" id={id} value={field.value as string} onChange={e => setValue(field.name, e.target.value)} maxLength={field.maxLength} disabled={disabled} className="input-style"/>
+        );
+      case 'checkbox':
+        return (
+          <label className="flex items-center mt-1">
+            <input type="checkbox" id={id} checked={field.value as boolean} onChange={e => setValue(field.name, e.target.checked)} disabled={disabled} className="radio-style"/>
+            <span className="ml-2 text-sm text-gray-600">Checked</span>
+          </label>
+        );
+      case 'radio':
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1">
+            {field.options?.map(option => (
+              <label key={option} className="flex items-center">
+                <input type="radio" name={id} checked={field.value === option} onChange={() => setValue(field.name, option)} disabled={disabled} className="radio-style"/>
+                <span className="ml-2 text-sm">{option}</span>
+              </label>
+            ))}
+            {!disabled && field.value !== '' && (
+              <button type="button" onClick={() => setValue(field.name, '')} className="text-xs text-gray-500 hover:text-red-700 hover:underline">Clear</button>
+            )}
+          </div>
+        );
+      case 'dropdown':
+      case 'list': {
+        const selected = field.value as string[];
+        if (field.multiSelect) {
+          return (
+            <select id={id} multiple value={selected} onChange={e => setValue(field.name, Array.from(e.target.selectedOptions, option => option.value))} disabled={disabled} className="select-style">
+              {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          );
+        }
+        if (field.editable) {
+          // Editable dropdowns accept any text; the options are offered as suggestions
+          return (
+            <>
+              <input type="text" id={id} list={`${id}-options`} value={selected[0] ?? ''} onChange={e => setValue(field.name, e.target.value ? [e.target.value] : [])} disabled={disabled} className="input-style"/>
+              <datalist id={`${id}-options`}>{field.options?.map(option => <option key={option} value={option}/>)}</datalist>
+            </>
+          );
+        }
+        return (
+          <select id={id} value={selected[0] ?? ''} onChange={e => setValue(field.name, e.target.value ? [e.target.value] : [])} disabled={disabled} className="select-style">
+            <option value="">(none)</option>
+            {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      }
+      case 'signature':
+        return <p className="text-xs text-gray-500 mt-1">Signature field. Use the Sign PDF tool to sign it; it is kept when flattening.</p>;
+    }
+  };
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-gray-600">This PDF has no fillable form fields.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map((field, index) => {
+        const id = `form-field-${index}`;
+        return (
+          <div key={field.name} className={field.type === 'text' && field.multiline ? 'sm:col-span-2' : undefined}>
+            <label htmlFor={id} className="label-style break-words">
+              {field.name}{field.readOnly && <span className="ml-1 text-xs font-normal text-gray-500">(read-only)</span>}
+            </label>
+            {renderInput(field, id)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PdfFormEditor;
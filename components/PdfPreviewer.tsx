@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfForRendering, renderPageToCanvas, PdfSource } from '../services/pdfRenderService';
+
+interface PdfPreviewerProps {
+  source: PdfSource | null;
+  selectedPages?: number[]; // 1-indexed pages to highlight, e.g. the current page range
+  onPageClick?: (pageNumber: number) => void; // When set, clicking a thumbnail selects it instead of opening the viewer
+  title?: string;
+}
+
+const THUMBNAIL_WIDTH = 120;
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const VIEWER_BASE_WIDTH = 600;
+
+// Loads a PDF.js document for the source and destroys it when the source changes or the component unmounts.
+const usePdfDocument = (source: PdfSource | null) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPdf(null);
+    setLoadError(null);
+    if (!source) return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    loadPdfForRendering(source)
+      .then(doc => {
+        if (cancelled) { doc.destroy(); return; }
+        loaded = doc;
+        setPdf(doc);
+      })
+      .catch(e => {
+        console.error("Error loading PDF preview:", e);
+        if (!cancelled) setLoadError('Preview is not available for this file.');
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [source]);
+
+  return { pdf, loadError };
+};
+
+// Renders cancelled by an effect cleanup are expected, not errors
+const reportRenderError = (e: unknown, pageNumber: number, signal: AbortSignal) => {
+  if (!signal.aborted) console.error(`Error rendering page ${pageNumber}:`, e);
+};
+
+interface LazyPageCanvasProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  width?: number; // in CSS pixels
+}
+
+/**
+ * Renders a page thumbnail lazily, once it scrolls into view, so large documents stay responsive.
+ */
+export const LazyPageCanvas: React.FC<LazyPageCanvasProps> = ({ pdf, pageNumber, width = THUMBNAIL_WIDTH }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible || !canvasRef.current) return;
+    const controller = new AbortController();
+    renderPageToCanvas(pdf, pageNumber, canvasRef.current, width, controller.signal)
+      .catch(e => reportRenderError(e, pageNumber, controller.signal));
+    return () => controller.abort();
+  }, [isVisible, pdf, pageNumber, width]);
+
+  return (
+    <div ref={containerRef} className="bg-white shadow flex items-center justify-center" style={{ minWidth: width, minHeight: width * 1.3 }}>
+      <canvas ref={canvasRef} />
+    </div>
+  );
+};
+
+interface PdfThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+const PdfThumbnail: React.FC<PdfThumbnailProps> = ({ pdf, pageNumber, isSelected, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`flex flex-col items-center p-2 rounded-lg border-2 transition-colors ${isSelected ? 'border-red-500 bg-red-50' : 'border-transparent hover:border-gray-300'}`}
+    aria-label={`Page ${pageNumber}`}
+    aria-pressed={isSelected}
+  >
+    <LazyPageCanvas pdf={pdf} pageNumber={pageNumber} />
+    <span className={`mt-1 text-xs ${isSelected ? 'text-red-700 font-semibold' : 'text-gray-600'}`}>{pageNumber}</span>
+  </button>
+);
+
+interface PdfPageViewerProps {
+  pdf: PDFDocumentProxy;
+  initialPage: number;
+  onClose: () => void;
+}
+
+const PdfPageViewer: React.FC<PdfPageViewerProps> = ({ pdf, initialPage, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pageNumber, setPageNumber] = useState(initialPage);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_LEVELS.indexOf(1));
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    // Flipping pages or zooming cancels the render in progress, so a slow page can't finish last
+    const controller = new AbortController();
+    renderPageToCanvas(pdf, pageNumber, canvasRef.current, VIEWER_BASE_WIDTH * zoom, controller.signal)
+      .catch(e => reportRenderError(e, pageNumber, controller.signal));
+    return () => controller.abort();
+  }, [pdf, pageNumber, zoom]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowRight') setPageNumber(p => Math.min(p + 1, pdf.numPages));
+      if (e.key === 'ArrowLeft') setPageNumber(p => Math.max(p - 1, 1));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [pdf, onClose]);
+
+  const toolbarButton = "px-3 py-1 rounded-md bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-70 flex flex-col" role="dialog" aria-modal="true" aria-label="Page viewer">
+      <div className="flex flex-wrap items-center justify-center gap-2 p-3 bg-gray-100 shadow">
+        <button type="button" className={toolbarButton} onClick={() => setPageNumber(p => p - 1)} disabled={pageNumber <= 1}>Previous</button>
+        <span className="text-sm text-gray-700">Page {pageNumber} of {pdf.numPages}</span>
+        <button type="button" className={toolbarButton} onClick={() => setPageNumber(p => p + 1)} disabled={pageNumber >= pdf.numPages}>Next</button>
+        <span className="mx-2 h-5 border-l border-gray-300" />
+        <button type="button" className={toolbarButton} onClick={() => setZoomIndex(i => i - 1)} disabled={zoomIndex <= 0} aria-label="Zoom out">-</button>
+        <span className="text-sm text-gray-700 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button type="button" className={toolbarButton} onClick={() => setZoomIndex(i => i + 1)} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} aria-label="Zoom in">+</button>
+        <span className="mx-2 h-5 border-l border-gray-300" />
+        <button type="button" className={`${toolbarButton} text-red-600`} onClick={onClose}>Close</button>
+      </div>
+      <div className="flex-1 overflow-auto p-4" onClick={e => { if (e.target === e.currentTarget) onClose(); }}>
+        <canvas ref={canvasRef} className="mx-auto shadow-2xl bg-white" />
+      </div>
+    </div>
+  );
+};
+
+interface PdfPageViewProps {
+  source: PdfSource;
+  pageNumber: number;
+  className?: string;
+}
+
+/**
+ * A single page rendered to fill its container, e.g. as the background for placing a signature.
+ */
+export const PdfPageView: React.FC<PdfPageViewProps> = ({ source, pageNumber, className }) => {
+  const { pdf } = usePdfDocument(source);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas || pageNumber < 1 || pageNumber > pdf.numPages) return;
+    const width = canvas.parentElement?.clientWidth || VIEWER_BASE_WIDTH;
+    const controller = new AbortController();
+    renderPageToCanvas(pdf, pageNumber, canvas, width, controller.signal)
+      .then(() => {
+        canvas.style.width = '100%';
+        canvas.style.height = '100%';
+      })
+      .catch(e => reportRenderError(e, pageNumber, controller.signal));
+    return () => controller.abort();
+  }, [pdf, pageNumber]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+const PdfPreviewer: React.FC<PdfPreviewerProps> = ({ source, selectedPages, onPageClick, title }) => {
+  const { pdf, loadError } = usePdfDocument(source);
+  const [viewerPage, setViewerPage] = useState<number | null>(null);
+
+  useEffect(() => { setViewerPage(null); }, [pdf]);
+
+  if (!source) return null;
+  if (loadError) return <p className="text-sm text-gray-500">{loadError}</p>;
+  if (!pdf) return <p className="text-sm text-gray-500">Loading preview...</p>;
+
+  const selected = new Set(selectedPages || []);
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium text-gray-800">{title || 'Preview'} ({pdf.numPages} {pdf.numPages === 1 ? 'page' : 'pages'})</h4>
+        {onPageClick && (
+          <button type="button" onClick={() => setViewerPage(1)} className="text-xs text-red-500 hover:text-red-700 hover:underline">Open viewer</button>
+        )}
+      </div>
+      {onPageClick && <p className="text-xs text-gray-500">Click a page to add it to or remove it from the selection.</p>}
+      <div className="flex flex-wrap gap-2 max-h-96 overflow-y-auto p-2 bg-gray-50 rounded-lg border border-gray-200">
+        {pageNumbers.map(pageNumber => (
+          <PdfThumbnail
+            key={pageNumber}
+            pdf={pdf}
+            pageNumber={pageNumber}
+            isSelected={selected.has(pageNumber)}
+            onClick={() => (onPageClick ? onPageClick(pageNumber) : setViewerPage(pageNumber))}
+          />
+        ))}
+      </div>
+      {viewerPage !== null && <PdfPageViewer pdf={pdf} initialPage={viewerPage} onClose={() => setViewerPage(null)} />}
+    </div>
+  );
+};
+
+export default PdfPreviewer;
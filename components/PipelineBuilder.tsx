@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { CompressionLevel, FontInput, PageNumberPosition, PipelineStep, PipelineStepType, WatermarkLayout } from '../types';
+import { PIPELINE_STEP_LABELS, createPipelineStep, describePipelineStep } from '../services/pdfPipelineService';
+import FontPicker from './FontPicker';
+
+interface PipelineBuilderProps {
+  steps: PipelineStep[];
+  onChange: (steps: PipelineStep[]) => void;
+  uploadedFonts: FontInput[];
+  onFontUpload: (font: FontInput) => void;
+}
+
+const spacedWords = (value: string) => value.replace(/([A-Z])/g, ' $1').trim();
+
+const PipelineBuilder: React.FC<PipelineBuilderProps> = ({ steps, onChange, uploadedFonts, onFontUpload }) => {
+  const [newStepType, setNewStepType] = useState<PipelineStepType>('rotate');
+
+  const updateStep = (index: number, changes: Partial<PipelineStep>) =>
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } as PipelineStep : step)));
+
+  const moveStep = (index: number, offset: number) => {
+    const moved = [...steps];
+    const [step] = moved.splice(index, 1);
+    moved.splice(index + offset, 0, step);
+    onChange(moved);
+  };
+
+  const addStep = () => {
+    const step = createPipelineStep(newStepType);
+    onChange(step.type === 'merge' ? [step, ...steps] : [...steps, step]); // Merging only works as the first step
+  };
+
+  const renderSettings = (step: PipelineStep, index: number) => {
+    const id = (name: string) => `pipeline-${index}-${name}`;
+    const update = (changes: Partial<PipelineStep>) => updateStep(index, changes);
+    const fontPicker = (fontStep: Extract<PipelineStep, { type: 'pageNumbers' | 'watermark' }>) => (
+      <FontPicker
+        id={id('font')}
+        font={fontStep.font}
+        customFont={uploadedFonts.find(font => font.name === fontStep.customFontName)}
+        uploadedFonts={uploadedFonts}
+        onChange={({ font, customFont }) => update({ font, customFontName: customFont?.name ?? '' })}
+        onUpload={onFontUpload}
+      />
+    );
+    switch (step.type) {
+      case 'merge':
+        return (
+          <div className="space-y-1">
+            <label className="flex items-center"><input type="checkbox" checked={step.preserveBookmarks} onChange={e => update({ preserveBookmarks: e.target.checked })} className="radio-style"/><span className="ml-2 text-sm">Keep the bookmarks of each file</span></label>
+            <label className="flex items-center"><input type="checkbox" checked={step.bookmarkPerFile} onChange={e => update({ bookmarkPerFile: e.target.checked })} className="radio-style"/><span className="ml-2 text-sm">Add a bookmark for each file, named after it</span></label>
+          </div>
+        );
+      case 'extractPages':
+        return (
+          <div>
+            <label htmlFor={id('pages')} className="label-style">Pages to keep (e.g., 1-3, 5):</label>
+            <input type="text" id={id('pages')} value={step.pageRange} onChange={e => update({ pageRange: e.target.value })} className="input-style"/>
+          </div>
+        );
+      case 'rotate':
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor={id('pages')} className="label-style">Pages to rotate (e.g., 2-3):</label>
+              <input type="text" id={id('pages')} value={step.pageRange} onChange={e => update({ pageRange: e.target.value })} className="input-style"/>
+            </div>
+            <div>
+              <label htmlFor={id('angle')} className="label-style">Angle (clockwise):</label>
+              <select id={id('angle')} value={step.angle} onChange={e => update({ angle: Number(e.target.value) as 90 | 180 | 270 })} className="select-style">
+                <option value={90}>90°</option>
+                <option value={180}>180°</option>
+                <option value={270}>270°</option>
+              </select>
+            </div>
+          </div>
+        );
+      case 'pageNumbers':
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div><label htmlFor={id('format')} className="label-style">Format (%p: current, %t: total):</label><input type="text" id={id('format')} value={step.format} onChange={e => update({ format: e.target.value })} className="input-style"/></div>
+            <div><label htmlFor={id('position')} className="label-style">Position:</label><select id={id('position')} value={step.position} onChange={e => update({ position: e.target.value as PageNumberPosition })} className="select-style">{Object.values(PageNumberPosition).map(p => <option key={p} value={p}>{spacedWords(p)}</option>)}</select></div>
+            {fontPicker(step)}
+            <div><label htmlFor={id('size')} className="label-style">Font Size (pt):</label><input type="number" id={id('size')} min="1" value={step.fontSize} onChange={e => update({ fontSize: parseInt(e.target.value) || 12 })} className="input-style"/></div>
+            <div><label htmlFor={id('color')} className="label-style">Font Color (hex):</label><input type="text" id={id('color')} value={step.colorHex} onChange={e => update({ colorHex: e.target.value })} placeholder="#000000" className="input-style"/></div>
+          </div>
+        );
+      case 'watermark':
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2"><label htmlFor={id('text')} className="label-style">Watermark text:</label><input type="text" id={id('text')} value={step.text} onChange={e => update({ text: e.target.value })} className="input-style"/></div>
+            {fontPicker(step)}
+            <div><label htmlFor={id('size')} className="label-style">Font Size (pt):</label><input type="number" id={id('size')} min="1" value={step.fontSize} onChange={e => update({ fontSize: parseInt(e.target.value) || 60 })} className="input-style"/></div>
+            <div><label htmlFor={id('color')} className="label-style">Color (hex):</label><input type="text" id={id('color')} value={step.colorHex} onChange={e => update({ colorHex: e.target.value })} placeholder="#FF0000" className="input-style"/></div>
+            <div><label htmlFor={id('opacity')} className="label-style">Opacity: {Math.round(step.opacity * 100)}%</label><input type="range" id={id('opacity')} min="0.05" max="1" step="0.05" value={step.opacity} onChange={e => update({ opacity: Number(e.target.value) })} className="w-full"/></div>
+            <div><label htmlFor={id('layout')} className="label-style">Layout:</label><select id={id('layout')} value={step.layout} onChange={e => update({ layout: e.target.value as WatermarkLayout })} className="select-style">{Object.values(WatermarkLayout).map(l => <option key={l} value={l}>{l}</option>)}</select></div>
+            {step.layout !== WatermarkLayout.Diagonal && (
+              <div><label htmlFor={id('rotation')} className="label-style">Rotation (degrees):</label><input type="number" id={id('rotation')} value={step.rotation} onChange={e => update({ rotation: Number(e.target.value) || 0 })} className="input-style"/></div>
+            )}
+            <div><label htmlFor={id('pages')} className="label-style">Pages (empty for all):</label><input type="text" id={id('pages')} value={step.pageRange} onChange={e => update({ pageRange: e.target.value })} className="input-style"/></div>
+            <label className="flex items-center sm:col-span-2"><input type="checkbox" checked={step.behindContent} onChange={e => update({ behindContent: e.target.checked })} className="radio-style"/><span className="ml-2 text-sm">Place behind the page content</span></label>
+          </div>
+        );
+      case 'compress':
+        return (
+          <div>
+            <label htmlFor={id('level')} className="label-style">Compression level:</label>
+            <select id={id('level')} value={step.level} onChange={e => update({ level: e.target.value as CompressionLevel })} className="select-style">
+              {Object.values(CompressionLevel).map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </div>
+        );
+    }
+  };
+
+  const stepButton = "px-2 py-1 text-xs rounded border border-gray-300 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-4">
+      {steps.length === 0 && <p className="text-sm text-gray-600">No steps yet. Add the operations to run, in order.</p>}
+      <ol className="space-y-3">
+        {steps.map((step, index) => (
+          <li key={index} className="p-4 border border-gray-200 rounded-lg bg-white space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-700">{index + 1}. {PIPELINE_STEP_LABELS[step.type]}</p>
+                <p className="text-xs text-gray-500 truncate">{describePipelineStep(step)}</p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button type="button" className={stepButton} onClick={() => moveStep(index, -1)} disabled={index === 0 || step.type === 'merge' || steps[index - 1].type === 'merge'} aria-label="Move up" title="Move up">↑</button>
+                <button type="button" className={stepButton} onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1 || step.type === 'merge'} aria-label="Move down" title="Move down">↓</button>
+                <button type="button" className={`${stepButton} hover:text-red-700`} onClick={() => onChange(steps.filter((_, i) => i !== index))} aria-label="Remove step" title="Remove">✕</button>
+              </div>
+            </div>
+            {renderSettings(step, index)}
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label htmlFor="pipeline-new-step" className="label-style">Add a step:</label>
+          <select id="pipeline-new-step" value={newStepType} onChange={e => setNewStepType(e.target.value as PipelineStepType)} className="select-style">
+            {(Object.keys(PIPELINE_STEP_LABELS) as PipelineStepType[]).map(type => (
+              <option key={type} value={type} disabled={type === 'merge' && steps.some(step => step.type === 'merge')}>{PIPELINE_STEP_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <button type="button" onClick={addStep} disabled={newStepType === 'merge' && steps.some(step => step.type === 'merge')} className="px-4 py-2 text-sm rounded-md bg-gray-700 text-white hover:bg-gray-800 disabled:opacity-40">Add</button>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBuilder;
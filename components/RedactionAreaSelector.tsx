@@ -0,0 +1,123 @@
+import React, { useRef, useState } from 'react';
+import { RedactionArea } from '../types';
+import { PdfPageView } from './PdfPreviewer';
+import { clamp } from './SignaturePlacer';
+
+interface RedactionAreaSelectorProps {
+  file: File;
+  pageSizes: { width: number; height: number }[]; // As displayed, in points
+  areas: RedactionArea[];
+  onAreasChange: (areas: RedactionArea[]) => void;
+  matches?: RedactionArea[]; // Search matches, shown for review but not editable here
+}
+
+type DrawState = { startX: number; startY: number };
+
+const MIN_SIZE_FRACTION = 0.005;
+
+/**
+ * Shows one page at a time on which areas to redact are drawn by dragging. Coordinates are fractions
+ * of the displayed page with the origin at the top-left, like SignaturePlacer.
+ */
+const RedactionAreaSelector: React.FC<RedactionAreaSelectorProps> = ({ file, pageSizes, areas, onAreasChange, matches = [] }) => {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [draft, setDraft] = useState<RedactionArea | null>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const drawRef = useRef<DrawState | null>(null);
+  const pageSize = pageSizes[pageIndex];
+
+  const pointerFraction = (e: React.PointerEvent) => {
+    const rect = pageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pageRef.current) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointerFraction(e);
+    drawRef.current = { startX: x, startY: y };
+    setDraft({ pageIndex, x, y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const draw = drawRef.current;
+    if (!draw) return;
+    const { x, y } = pointerFraction(e);
+    setDraft({
+      pageIndex,
+      x: Math.min(draw.startX, x),
+      y: Math.min(draw.startY, y),
+      width: Math.abs(x - draw.startX),
+      height: Math.abs(y - draw.startY),
+    });
+  };
+
+  const endDraw = () => {
+    if (draft && draft.width >= MIN_SIZE_FRACTION && draft.height >= MIN_SIZE_FRACTION) onAreasChange([...areas, draft]);
+    drawRef.current = null;
+    setDraft(null);
+  };
+
+  const removeArea = (area: RedactionArea) => onAreasChange(areas.filter(a => a !== area));
+
+  const boxStyle = (area: RedactionArea): React.CSSProperties => ({
+    left: `${area.x * 100}%`,
+    top: `${area.y * 100}%`,
+    width: `${area.width * 100}%`,
+    height: `${area.height * 100}%`,
+  });
+
+  if (!pageSize) return null;
+  const pageAreas = areas.filter(area => area.pageIndex === pageIndex);
+  const pageMatches = matches.filter(area => area.pageIndex === pageIndex);
+  const toolbarButton = "px-3 py-1 rounded-md bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-3">
+        <button type="button" className={toolbarButton} onClick={() => setPageIndex(i => i - 1)} disabled={pageIndex <= 0}>Previous</button>
+        <span className="text-sm text-gray-700">Page {pageIndex + 1} of {pageSizes.length}</span>
+        <button type="button" className={toolbarButton} onClick={() => setPageIndex(i => i + 1)} disabled={pageIndex >= pageSizes.length - 1}>Next</button>
+        {pageAreas.length > 0 && (
+          <button type="button" className={`${toolbarButton} text-red-600`} onClick={() => onAreasChange(areas.filter(area => area.pageIndex !== pageIndex))}>
+            Clear page
+          </button>
+        )}
+      </div>
+      <div
+        ref={pageRef}
+        className="relative w-full max-w-md mx-auto bg-white border border-gray-300 shadow-md overflow-hidden select-none cursor-crosshair touch-none"
+        style={{ aspectRatio: `${pageSize.width} / ${pageSize.height}` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDraw}
+        onPointerCancel={endDraw}
+      >
+        <PdfPageView source={file} pageNumber={pageIndex + 1} className="absolute inset-0 w-full h-full pointer-events-none"/>
+        {pageMatches.map((area, i) => (
+          <div key={`match-${i}`} className="absolute bg-yellow-300 bg-opacity-50 border border-yellow-500 pointer-events-none" style={boxStyle(area)}/>
+        ))}
+        {pageAreas.map((area, i) => (
+          <div key={`area-${i}`} className="absolute bg-black bg-opacity-60 border border-red-500" style={boxStyle(area)}>
+            <button
+              type="button"
+              className="absolute -right-2 -top-2 w-4 h-4 leading-4 text-xs text-center text-white bg-red-600 rounded-full"
+              onPointerDown={e => e.stopPropagation()}
+              onClick={() => removeArea(area)}
+              aria-label="Remove this area"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {draft && <div className="absolute border-2 border-dashed border-red-500 pointer-events-none" style={boxStyle(draft)}/>}
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-2">
+        Drag on the page to mark an area. {areas.length} area(s) marked{matches.length > 0 ? `, ${matches.length} search match(es) highlighted` : ''}.
+      </p>
+    </div>
+  );
+};
+
+export default RedactionAreaSelector;
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+
+interface SignaturePadProps {
+  onSignatureChange: (dataUrl: string | null) => void;
+  placeholderText?: string; // Suggested text for the "Type" tab, e.g. initials
+}
+
+type SignatureInputMode = 'draw' | 'type' | 'upload';
+
+// Script fonts are loaded from Google Fonts in index.html
+const SCRIPT_FONTS = ['Dancing Script', 'Great Vibes', 'Caveat'];
+const INK_COLORS = [
+  { label: 'Black', value: '#000000' },
+  { label: 'Blue', value: '#1d3fbb' },
+];
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 200;
+
+// Crops the transparent border around the ink so the signature can be placed precisely.
+const trimCanvasToDataUrl = (canvas: HTMLCanvasElement): string | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { width, height } = canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null; // Nothing drawn
+
+  const padding = 4;
+  minX = Math.max(0, minX - padding);
+  minY = Math.max(0, minY - padding);
+  maxX = Math.min(width - 1, maxX + padding);
+  maxY = Math.min(height - 1, maxY + padding);
+
+  const trimmed = document.createElement('canvas');
+  trimmed.width = maxX - minX + 1;
+  trimmed.height = maxY - minY + 1;
+  trimmed.getContext('2d')?.drawImage(canvas, minX, minY, trimmed.width, trimmed.height, 0, 0, trimmed.width, trimmed.height);
+  return trimmed.toDataURL('image/png');
+};
+
+const SignaturePad: React.FC<SignaturePadProps> = ({ onSignatureChange, placeholderText = 'Your Name' }) => {
+  const idPrefix = useId(); // Several pads can be on screen at once (signature and initials)
+  const [inputMode, setInputMode] = useState<SignatureInputMode>('draw');
+  const [inkColor, setInkColor] = useState<string>(INK_COLORS[0].value);
+  const [typedText, setTypedText] = useState<string>('');
+  const [typedFont, setTypedFont] = useState<string>(SCRIPT_FONTS[0]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const drawCanvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const emitSignature = useCallback((dataUrl: string | null) => {
+    setPreviewUrl(dataUrl);
+    onSignatureChange(dataUrl);
+  }, [onSignatureChange]);
+
+  const clearDrawing = () => {
+    const canvas = drawCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    emitSignature(null);
+  };
+
+  const switchMode = (mode: SignatureInputMode) => {
+    setInputMode(mode);
+    setUploadError(null);
+    emitSignature(null);
+  };
+
+  const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    lastPointRef.current = getCanvasPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current || !lastPointRef.current) return;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const point = getCanvasPoint(e);
+    ctx.strokeStyle = inkColor;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+    emitSignature(trimCanvasToDataUrl(e.currentTarget));
+  };
+
+  // Render typed text in the chosen script font whenever it changes
+  useEffect(() => {
+    if (inputMode !== 'type') return;
+    let cancelled = false;
+    const renderTyped = async () => {
+      const text = typedText.trim();
+      if (!text) { emitSignature(null); return; }
+      const fontSpec = `72px "${typedFont}"`;
+      try {
+        await document.fonts.load(fontSpec, text);
+      } catch (e) {
+        console.warn(`Could not load font ${typedFont}, falling back to default.`, e);
+      }
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.font = fontSpec;
+      canvas.width = Math.ceil(ctx.measureText(text).width) + 40;
+      canvas.height = 120;
+      ctx.font = fontSpec; // Resizing the canvas resets the context state
+      ctx.fillStyle = inkColor;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(text, 20, canvas.height / 2);
+      emitSignature(trimCanvasToDataUrl(canvas));
+    };
+    renderTyped();
+    return () => { cancelled = true; };
+  }, [inputMode, typedText, typedFont, inkColor, emitSignature]);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setUploadError(null);
+    const file = e.target.files && e.target.files[0];
+    if (!file) { emitSignature(null); return; }
+    const img = document.createElement('img');
+    const objectUrl = URL.createObjectURL(file);
+    img.onload = () => {
+      // Re-encode through a canvas so the signer service only has to handle PNG
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      URL.revokeObjectURL(objectUrl);
+      emitSignature(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      setUploadError(`Could not load image: ${file.name}`);
+      emitSignature(null);
+    };
+    img.src = objectUrl;
+  };
+
+  const tabClass = (mode: SignatureInputMode) =>
+    `px-4 py-2 text-sm font-medium rounded-t-lg border-b-2 transition-colors ${inputMode === mode ? 'border-red-600 text-red-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2 border-b border-gray-200" role="tablist">
+        <button type="button" role="tab" aria-selected={inputMode === 'draw'} className={tabClass('draw')} onClick={() => switchMode('draw')}>Draw</button>
+        <button type="button" role="tab" aria-selected={inputMode === 'type'} className={tabClass('type')} onClick={() => switchMode('type')}>Type</button>
+        <button type="button" role="tab" aria-selected={inputMode === 'upload'} className={tabClass('upload')} onClick={() => switchMode('upload')}>Upload</button>
+      </div>
+
+      {inputMode !== 'upload' && (
+        <div className="flex items-center space-x-3 text-sm text-gray-700">
+          <span>Ink:</span>
+          {INK_COLORS.map(color => (
+            <label key={color.value} className="flex items-center">
+              <input type="radio" name={`${idPrefix}-ink`} value={color.value} checked={inkColor === color.value} onChange={() => setInkColor(color.value)} className="radio-style"/>
+              <span className="ml-1">{color.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {inputMode === 'draw' && (
+        <div>
+          <canvas
+            ref={drawCanvasRef}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="w-full bg-white border-2 border-dashed border-gray-300 rounded-lg cursor-crosshair touch-none"
+            aria-label="Signature drawing area"
+          />
+          <div className="flex justify-between items-center mt-1">
+            <p className="text-xs text-gray-500">Sign above with your mouse, pen or finger.</p>
+            <button type="button" onClick={clearDrawing} className="text-xs text-red-500 hover:text-red-700 hover:underline">Clear</button>
+          </div>
+        </div>
+      )}
+
+      {inputMode === 'type' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div><label htmlFor={`${idPrefix}-sigTyped`} className="label-style">Text:</label><input type="text" id={`${idPrefix}-sigTyped`} value={typedText} onChange={e => setTypedText(e.target.value)} placeholder={placeholderText} className="input-style"/></div>
+          <div><label htmlFor={`${idPrefix}-sigFont`} className="label-style">Font:</label><select id={`${idPrefix}-sigFont`} value={typedFont} onChange={e => setTypedFont(e.target.value)} className="select-style">{SCRIPT_FONTS.map(f => <option key={f} value={f}>{f}</option>)}</select></div>
+        </div>
+      )}
+
+      {inputMode === 'upload' && (
+        <div>
+          <label htmlFor={`${idPrefix}-sigUpload`} className="label-style">Signature image (PNG or JPEG, transparent PNG works best):</label>
+          <input type="file" id={`${idPrefix}-sigUpload`} accept="image/png, image/jpeg" onChange={handleUpload} className="mt-1 block w-full text-sm text-gray-700"/>
+          {uploadError && <p className="text-xs text-red-600 mt-1">{uploadError}</p>}
+        </div>
+      )}
+
+      {previewUrl && inputMode !== 'draw' && (
+        <div className="p-3 bg-white border border-gray-200 rounded-lg">
+          <img src={previewUrl} alt="Signature preview" className="max-h-20 mx-auto"/>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignaturePad;
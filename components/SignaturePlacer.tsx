@@ -0,0 +1,100 @@
+import React, { useRef } from 'react';
+import { SignaturePlacement } from '../types';
+
+interface SignaturePlacerProps {
+  pageWidth: number; // in points
+  pageHeight: number; // in points
+  signatureDataUrl: string;
+  signatureAspectRatio: number; // width / height of the signature image
+  placement: SignaturePlacement;
+  onPlacementChange: (placement: SignaturePlacement) => void;
+  background?: React.ReactNode; // e.g. a rendered page, drawn under the signature
+}
+
+type DragState = {
+  kind: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startPlacement: SignaturePlacement;
+};
+
+const MIN_WIDTH_FRACTION = 0.05;
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Shows a scaled outline of a PDF page on which the signature can be dragged and resized.
+ * All coordinates are fractions of the page size so they are independent of the on-screen scale.
+ */
+const SignaturePlacer: React.FC<SignaturePlacerProps> = ({
+  pageWidth, pageHeight, signatureDataUrl, signatureAspectRatio, placement, onPlacementChange, background,
+}) => {
+  const pageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const startDrag = (kind: DragState['kind']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, startPlacement: placement };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const pageEl = pageRef.current;
+    if (!drag || !pageEl) return;
+    const rect = pageEl.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const start = drag.startPlacement;
+
+    if (drag.kind === 'move') {
+      onPlacementChange({
+        ...start,
+        x: clamp(start.x + dx, 0, 1 - start.width),
+        y: clamp(start.y + dy, 0, 1 - start.height),
+      });
+    } else {
+      // Keep the image aspect ratio; height as a page fraction depends on the page aspect ratio too
+      const width = clamp(start.width + dx, MIN_WIDTH_FRACTION, 1 - start.x);
+      const height = (width * pageWidth) / signatureAspectRatio / pageHeight;
+      if (start.y + height > 1) return;
+      onPlacementChange({ ...start, width, height });
+    }
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div
+      ref={pageRef}
+      className="relative w-full max-w-md mx-auto bg-white border border-gray-300 shadow-md overflow-hidden select-none"
+      style={{ aspectRatio: `${pageWidth} / ${pageHeight}` }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      {background}
+      <div
+        className="absolute border-2 border-dashed border-red-500 cursor-move touch-none"
+        style={{
+          left: `${placement.x * 100}%`,
+          top: `${placement.y * 100}%`,
+          width: `${placement.width * 100}%`,
+          height: `${placement.height * 100}%`,
+        }}
+        onPointerDown={startDrag('move')}
+        aria-label="Drag to move the signature"
+      >
+        <img src={signatureDataUrl} alt="Signature" className="w-full h-full pointer-events-none" draggable={false}/>
+        <div
+          className="absolute -right-2 -bottom-2 w-4 h-4 bg-red-600 rounded-full cursor-nwse-resize touch-none"
+          onPointerDown={startDrag('resize')}
+          aria-label="Drag to resize the signature"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePlacer;
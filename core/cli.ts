@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { parseArgs, ParseArgsConfig } from 'node:util';
+import {
+  CompressionLevel,
+  ImageInput,
+  ImageToPdfOptions,
+  PageNumberPosition,
+  SplitPdfOptions,
+  StandardPdfFonts,
+  addPageNumbersToPdf,
+  compressPdf,
+  convertImagesToPdf,
+  extractPagesFromPdf,
+  FontInput,
+  loadFallbackFont,
+  mergePdfs,
+  rotatePdfPages,
+  splitPdf,
+} from './index';
+
+// Command line front end for the core library. Exit codes: 0 on success, 1 when processing
+// fails, 2 when the command line itself is wrong.
+
+const USAGE = `Usage: lovpdf <command> [options] <input...>
+
+Commands:
+  merge <a.pdf> <b.pdf>...   Merge PDFs in the given order
+      --no-bookmarks           Drop the bookmarks of the input files
+      --bookmark-per-file      Add a bookmark for each file, named after it
+  extract <in.pdf>           Copy pages into a new PDF
+      --pages <ranges>         Pages to keep, e.g. "1-3, 5", "odd" or "1-20 !7-9" (required)
+      --keep-order             Keep pages in the order given, e.g. "10-1" reverses; pages may repeat
+  split <in.pdf>             Split into several PDFs, written to the -o directory
+      --ranges <ranges>        One PDF per range, e.g. "1-2, 3, 4-5" (default: one per page)
+      --every <n>              One PDF per n pages
+      --max-size <size>        PDFs under this size, e.g. 10MB or 500kB
+      --bookmarks              One PDF per top-level bookmark, named after it
+      --blank-pages            Split at blank separator pages, which are left out
+  rotate <in.pdf>            Rotate pages clockwise
+      --pages <ranges>         Pages to rotate (required)
+      --angle <90|180|270>     Default 90
+  number <in.pdf>            Add page numbers
+      --format <text>          %p is the page number, %t the page count (default "%p / %t")
+      --position <position>    top-left, top-center, top-right, bottom-left,
+                               bottom-center (default) or bottom-right
+      --font <font>            helvetica (default), helvetica-bold, times-roman,
+                               times-roman-bold or courier
+      --font-file <path>       A .ttf or .otf font to use instead, e.g. for CJK text
+      --size <points>          Default 12
+      --color <#rrggbb>        Default #000000
+  compress <in.pdf>          Downsample and re-encode images, drop unused objects
+      --level <level>          extreme, recommended (default) or low
+  images2pdf <img>...        Put JPEG and PNG images on pages, one per page
+      --page-size <size>       a4 (default) or letter
+      --orientation <o>        portrait (default) or landscape
+
+Options:
+  -o, --output <path>        Output file, or "-" for stdout (the default).
+                             For split, the directory to write the parts to (default ".")
+  -h, --help                 Show this help
+
+An input of "-" is read from stdin.`;
+
+class UsageError extends Error {}
+
+const COMMON_OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  help: { type: 'boolean', short: 'h' },
+} satisfies ParseArgsConfig['options'];
+
+const COMMAND_OPTIONS = {
+  merge: { 'no-bookmarks': { type: 'boolean' }, 'bookmark-per-file': { type: 'boolean' } },
+  extract: { pages: { type: 'string' }, 'keep-order': { type: 'boolean' } },
+  split: {
+    ranges: { type: 'string' },
+    every: { type: 'string' },
+    'max-size': { type: 'string' },
+    bookmarks: { type: 'boolean' },
+    'blank-pages': { type: 'boolean' },
+  },
+  rotate: { pages: { type: 'string' }, angle: { type: 'string', default: '90' } },
+  number: {
+    format: { type: 'string', default: '%p / %t' },
+    position: { type: 'string', default: 'bottom-center' },
+    font: { type: 'string', default: 'helvetica' },
+    'font-file': { type: 'string' },
+    size: { type: 'string', default: '12' },
+    color: { type: 'string', default: '#000000' },
+  },
+  compress: { level: { type: 'string', default: 'recommended' } },
+  images2pdf: { 'page-size': { type: 'string', default: 'a4' }, orientation: { type: 'string', default: 'portrait' } },
+} satisfies Record<string, ParseArgsConfig['options']>;
+
+type Command = keyof typeof COMMAND_OPTIONS;
+
+// Images are recognised by their first bytes, so stdin works as well as misnamed files
+const IMAGE_SIGNATURES: { type: string; bytes: number[] }[] = [
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+];
+
+const detectImageType = (data: Uint8Array): string | undefined =>
+  IMAGE_SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => data[i] === byte))?.type;
+
+// Matches "bottom-center", "BottomCenter" and "bottom_center" alike
+const normalizeChoice = (value: string) => value.toLowerCase().replace(/[\s_-]/g, '');
+
+const parseChoice = <T extends string>(option: string, value: string, choices: Record<string, T>): T => {
+  const wanted = normalizeChoice(value);
+  const match = Object.entries(choices).find(([key, choice]) => normalizeChoice(key) === wanted || normalizeChoice(choice) === wanted);
+  if (!match) throw new UsageError(`Invalid --${option} "${value}".`);
+  return match[1];
+};
+
+const parseNumber = (option: string, value: string): number => {
+  const number = Number(value);
+  if (!value.trim() || !Number.isFinite(number) || number <= 0) throw new UsageError(`--${option} must be a positive number.`);
+  return number;
+};
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, kb: 1024, m: 1024 * 1024, mb: 1024 * 1024, g: 1024 ** 3, gb: 1024 ** 3 };
+
+// "10MB", "500 kB" or a plain number of bytes
+const parseSize = (option: string, value: string): number => {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+  const unit = match && SIZE_UNITS[match[2]];
+  if (!match || !unit || Number(match[1]) <= 0) throw new UsageError(`--${option} must be a size such as 10MB or 500kB.`);
+  return Math.round(Number(match[1]) * unit);
+};
+
+const requireOption = (option: string, value: string | undefined): string => {
+  if (!value?.trim()) throw new UsageError(`--${option} is required.`);
+  return value;
+};
+
+const readStdin = async (): Promise<Uint8Array> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const readInput = async (path: string): Promise<Uint8Array> => {
+  try {
+    return path === '-' ? await readStdin() : await readFile(path);
+  } catch (err) {
+    throw new Error(`Could not read ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+const readFontFile = async (path: string): Promise<FontInput> => {
+  try {
+    return { name: basename(path), data: await readFile(path) };
+  } catch (err) {
+    throw new Error(`Could not read ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+const inputName = (path: string) => (path === '-' ? 'stdin.pdf' : basename(path));
+
+const writeOutput = async (output: string | undefined, bytes: Uint8Array) => {
+  if (output && output !== '-') {
+    await writeFile(output, bytes);
+    return;
+  }
+  if (process.stdout.isTTY) throw new UsageError('Refusing to write PDF data to a terminal. Use -o <file> or redirect stdout.');
+  await new Promise<void>((resolve, reject) => process.stdout.write(bytes, err => (err ? reject(err) : resolve())));
+};
+
+const formatSize = (bytes: number) => (bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} kB`);
+
+const run = async (args: string[]) => {
+  const [command, ...rest] = args;
+  if (!command || command === '-h' || command === '--help') {
+    console.log(USAGE);
+    return;
+  }
+  if (!Object.keys(COMMAND_OPTIONS).includes(command)) throw new UsageError(`Unknown command "${command}".`);
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: { ...COMMON_OPTIONS, ...COMMAND_OPTIONS[command as Command] },
+      allowPositionals: true,
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals: inputs } = parsed;
+  const option = (name: string) => (values as Record<string, string | boolean | undefined>)[name];
+  const stringOption = (name: string) => option(name) as string | undefined;
+  const output = stringOption('output');
+
+  if (option('help')) {
+    console.log(USAGE);
+    return;
+  }
+  if (inputs.length === 0) throw new UsageError(`${command} needs at least one input file.`);
+  if (command !== 'merge' && command !== 'images2pdf' && inputs.length > 1) throw new UsageError(`${command} takes a single input file.`);
+  if (inputs.filter(input => input === '-').length > 1) throw new UsageError('Only one input can be read from stdin.');
+
+  switch (command as Command) {
+    case 'merge': {
+      if (inputs.length < 2) throw new UsageError('merge needs at least two input files.');
+      const pdfs = await Promise.all(inputs.map(async path => ({ name: inputName(path), data: await readInput(path) })));
+      const options = { preserveBookmarks: !option('no-bookmarks'), bookmarkPerFile: !!option('bookmark-per-file') };
+      await writeOutput(output, await mergePdfs(pdfs, options));
+      break;
+    }
+    case 'extract': {
+      const pages = requireOption('pages', stringOption('pages'));
+      await writeOutput(output, await extractPagesFromPdf(await readInput(inputs[0]), pages, !!option('keep-order')));
+      break;
+    }
+    case 'split': {
+      if (output === '-') throw new UsageError('split writes several files; give a directory with -o.');
+      const modes: SplitPdfOptions[] = [];
+      if (stringOption('ranges') !== undefined) modes.push({ mode: 'ranges', rangesStr: stringOption('ranges') });
+      if (stringOption('every') !== undefined) {
+        const pagesPerFile = parseNumber('every', stringOption('every')!);
+        if (!Number.isInteger(pagesPerFile)) throw new UsageError('--every must be a whole number.');
+        modes.push({ mode: 'everyNPages', pagesPerFile });
+      }
+      if (stringOption('max-size') !== undefined) modes.push({ mode: 'maxSize', maxBytes: parseSize('max-size', stringOption('max-size')!) });
+      if (option('bookmarks')) modes.push({ mode: 'bookmarks' });
+      if (option('blank-pages')) modes.push({ mode: 'blankPages' });
+      if (modes.length > 1) throw new UsageError('Choose one of --ranges, --every, --max-size, --bookmarks and --blank-pages.');
+      const parts = await splitPdf({ name: inputName(inputs[0]), data: await readInput(inputs[0]) }, modes[0] ?? { mode: 'all' });
+      const directory = output ?? '.';
+      await mkdir(directory, { recursive: true });
+      for (const part of parts) {
+        await writeFile(join(directory, part.filename), part.pdfBytes);
+        console.error(join(directory, part.filename));
+      }
+      const oversized = parts.filter(part => part.oversized);
+      if (oversized.length > 0) {
+        // The parts are still written, but the limit wasn't met
+        console.error(`lovpdf: over --max-size, as a single page is larger on its own: ${oversized.map(part => part.filename).join(', ')}`);
+        process.exitCode = 1;
+      }
+      break;
+    }
+    case 'rotate': {
+      const pages = requireOption('pages', stringOption('pages'));
+      const angle = Number(stringOption('angle'));
+      if (angle !== 90 && angle !== 180 && angle !== 270) throw new UsageError('--angle must be 90, 180 or 270.');
+      await writeOutput(output, await rotatePdfPages(await readInput(inputs[0]), { pageRangesStr: pages, angle }));
+      break;
+    }
+    case 'number': {
+      const colorHex = stringOption('color')!;
+      if (!/^#?[0-9a-f]{6}$/i.test(colorHex)) throw new UsageError('--color must be a hex colour such as #336699.');
+      const fontFile = stringOption('font-file');
+      const options = {
+        format: stringOption('format')!,
+        position: parseChoice('position', stringOption('position')!, PageNumberPosition),
+        font: parseChoice('font', stringOption('font')!, StandardPdfFonts),
+        customFont: fontFile ? await readFontFile(fontFile) : undefined,
+        fallbackFont: await loadFallbackFont().catch(() => undefined), // Missing when run from source
+        fontSize: parseNumber('size', stringOption('size')!),
+        colorHex: colorHex.startsWith('#') ? colorHex : `#${colorHex}`,
+      };
+      await writeOutput(output, await addPageNumbersToPdf(await readInput(inputs[0]), options));
+      break;
+    }
+    case 'compress': {
+      const level = parseChoice('level', stringOption('level')!, CompressionLevel);
+      const original = await readInput(inputs[0]);
+      const { pdfBytes, images } = await compressPdf(original, level);
+      await writeOutput(output, pdfBytes);
+      const saved = Math.round((1 - pdfBytes.length / original.length) * 100);
+      const recompressed = images.filter(image => !image.skippedReason).length;
+      console.error(`${formatSize(original.length)} -> ${formatSize(pdfBytes.length)} (${saved}% smaller), ${recompressed} of ${images.length} images re-encoded.`);
+      break;
+    }
+    case 'images2pdf': {
+      const options: ImageToPdfOptions = {
+        pageSize: parseChoice('page-size', stringOption('page-size')!, { A4: 'A4', Letter: 'Letter' } as const),
+        orientation: parseChoice('orientation', stringOption('orientation')!, { portrait: 'portrait', landscape: 'landscape' } as const),
+      };
+      const images: ImageInput[] = await Promise.all(inputs.map(async path => {
+        const data = await readInput(path);
+        const type = detectImageType(data);
+        if (!type) throw new UsageError(`${path === '-' ? 'stdin' : path} is not a JPEG or PNG image.`);
+        return { name: path === '-' ? 'stdin' : basename(path), type, data };
+      }));
+      await writeOutput(output, await convertImagesToPdf(images, options));
+      break;
+    }
+  }
+};
+
+run(process.argv.slice(2)).catch(err => {
+  console.error(`lovpdf: ${err instanceof Error ? err.message : err}`);
+  if (err instanceof UsageError) console.error('Run "lovpdf --help" for usage.');
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+});
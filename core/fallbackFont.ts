@@ -0,0 +1,15 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { FALLBACK_FONT_FILE } from '../services/fontEmbeddingService';
+import { FontInput } from '../types';
+
+/**
+ * Reads the fallback font that ships with the package (DejaVu Sans for Latin, Greek and Cyrillic),
+ * to pass as fallbackFont so text the standard fonts can't show still gets drawn.
+ */
+export const loadFallbackFont = async (): Promise<FontInput> => {
+  // The build copies the font next to the bundled scripts (see vite.core.config.ts)
+  const path = join(dirname(fileURLToPath(import.meta.url)), FALLBACK_FONT_FILE);
+  return { name: FALLBACK_FONT_FILE, data: await readFile(path) };
+};
@@ -0,0 +1,55 @@
+// Public entry of the lovpdf package: the PDF operations of the app, working on bytes
+// so they run in Node as well as in the browser.
+
+export {
+  mergePdfs,
+  extractPagesFromPdf,
+  planPdfSplit,
+  splitPdf,
+  rotatePdfPages,
+  organizePdfPages,
+  addPageNumbersToPdf,
+  addWatermarkToPdf,
+} from '../services/pdfManipulatorService';
+export type {
+  PdfInput,
+  MergePdfOptions,
+  SplitPdfOptions,
+  PdfSplitPart,
+  RotatePdfOptions,
+  OrganizeDocumentPage,
+} from '../services/pdfManipulatorService';
+
+export { parsePageRanges, splitPageRangeSegments, formatPageRuns } from '../services/pageRangeService';
+export type { PageRangeOptions } from '../services/pageRangeService';
+
+export {
+  addHeaderFooterToPdf,
+  formatPageNumber,
+  formatBatesNumber,
+  HEADER_FOOTER_SLOTS,
+} from '../services/pdfHeaderFooterService';
+
+export { embedTextFont, FALLBACK_FONT_FILE } from '../services/fontEmbeddingService';
+export { loadFallbackFont } from './fallbackFont';
+
+export { compressPdf, COMPRESSION_PRESETS } from '../services/pdfCompressionService';
+export type { CompressPdfResult } from '../services/pdfCompressionService';
+
+export { convertImagesToPdf } from '../services/imageConverterService';
+export type { ImageInput } from '../services/imageConverterService';
+
+export { CompressionLevel, PageNumberPosition, StandardPdfFonts, WatermarkLayout } from '../types';
+export type {
+  BatesOptions,
+  FontInput,
+  HeaderFooterOptions,
+  HeaderFooterSlot,
+  ImageCompressionInfo,
+  ImageToPdfOptions,
+  PageNumberOptions,
+  PageNumberStyle,
+  ProgressCallback,
+  TextFontOptions,
+  WatermarkOptions,
+} from '../types';
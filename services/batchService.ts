@@ -0,0 +1,86 @@
+import { BatchFileStatus } from '../types';
+
+// Applies one operation to many files in turn. A file that fails is recorded and skipped, so one
+// bad file does not abort the rest of the batch.
+
+export interface BatchResult<T> {
+  file: File;
+  outputName: string;
+  output?: T;
+  error?: string;
+}
+
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]+/g;
+
+const fileNameBase = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || fileName;
+
+/**
+ * Builds an output file name from a template such as "{name}_numbered.pdf".
+ * Supported placeholders: {name} (input name without extension), {index} (1-based position
+ * in the batch) and {date} (YYYY-MM-DD). ".pdf" is appended when the template has no extension.
+ */
+export const applyFileNameTemplate = (template: string, fileName: string, index: number, extension = 'pdf'): string => {
+  const date = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  // Replacer functions, so a "$&" in a file name isn't read as a replacement pattern
+  const name = template
+    .replace(/\{name\}/g, () => fileNameBase(fileName))
+    .replace(/\{index\}/g, () => String(index + 1))
+    .replace(/\{date\}/g, () => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`)
+    .replace(INVALID_FILENAME_CHARS, '_')
+    .trim();
+  if (!name || name === `.${extension}`) return `${fileNameBase(fileName)}.${extension}`;
+  return name.toLowerCase().endsWith(`.${extension}`) ? name : `${name}.${extension}`;
+};
+
+// Adds " (2)", " (3)"... so that results with the same name don't overwrite each other
+const makeUnique = (name: string, usedNames: Set<string>): string => {
+  let unique = name;
+  for (let n = 2; usedNames.has(unique.toLowerCase()); n++) unique = name.replace(/(\.[^.]+)?$/, ` (${n})$1`);
+  usedNames.add(unique.toLowerCase());
+  return unique;
+};
+
+/**
+ * Runs the operation on each file in order and reports every status change.
+ * Cancelling through the signal marks the unfinished files as failed and keeps the finished ones.
+ * @returns One result per file, with either the output or the error message.
+ */
+export const runBatch = async <T>(
+  files: File[],
+  nameTemplate: string,
+  processFile: (file: File, index: number) => Promise<T>,
+  onStatusChange: (statuses: BatchFileStatus[]) => void,
+  signal?: AbortSignal,
+): Promise<BatchResult<T>[]> => {
+  if (files.length === 0) throw new Error("Please upload at least one PDF.");
+  const usedNames = new Set<string>();
+  const results: BatchResult<T>[] = files.map((file, index) => ({
+    file,
+    outputName: makeUnique(applyFileNameTemplate(nameTemplate, file.name, index), usedNames),
+  }));
+  const statuses: BatchFileStatus[] = files.map((file, index) => ({ name: file.name, state: 'pending', outputName: results[index].outputName }));
+  const update = (index: number, changes: Partial<BatchFileStatus>) => {
+    statuses[index] = { ...statuses[index], ...changes };
+    onStatusChange([...statuses]);
+  };
+  onStatusChange([...statuses]);
+
+  for (const [index, result] of results.entries()) {
+    if (signal?.aborted) {
+      result.error = "Cancelled.";
+      update(index, { state: 'failed', error: result.error });
+      continue;
+    }
+    update(index, { state: 'processing' });
+    try {
+      result.output = await processFile(result.file, index);
+      update(index, { state: 'done' });
+    } catch (err) {
+      if (!signal?.aborted) console.error(`Batch: error processing ${result.file.name}:`, err);
+      result.error = signal?.aborted ? "Cancelled." : err instanceof Error ? err.message : String(err);
+      update(index, { state: 'failed', error: result.error });
+    }
+  }
+  return results;
+};
@@ -1,68 +1,122 @@
+import { PageSizes } from 'pdf-lib';
+import { TextToPdfOptions, WordToPdfOptions } from '../types';
+import { HtmlPageSetup, renderHtmlToPdf } from './htmlLayoutService';
+import { markdownToHtml } from './markdownService';
+import { readZipEntry } from './zipService';
 
-export const convertDocxToPdf = async (file: File): Promise<Blob> => {
-  if (!window.mammoth || !window.html2canvas || !window.jspdf) {
-    throw new Error('Required libraries (Mammoth, html2canvas, jsPDF) not loaded.');
-  }
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const TWIPS_PER_POINT = 20;
+const DEFAULT_MARGIN = 72; // Word's "Normal" margins of 1 inch
+
+// Maps Word page breaks and title styles, which mammoth drops by default
+const STYLE_MAP = [
+  "br[type='page'] => hr.page-break",
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
 
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      if (!event.target || !event.target.result) {
-        reject(new Error('Failed to read file.'));
-        return;
-      }
-      try {
-        const arrayBuffer = event.target.result as ArrayBuffer;
-        const result = await window.mammoth.convertToHtml({ arrayBuffer: arrayBuffer });
-        const html = result.value; // The generated HTML
+/**
+ * Reads the page size and margins of the document's last section, which Word stores as
+ * the sectPr at the end of the body of word/document.xml.
+ */
+const readDocxPageSetup = async (docxBytes: Uint8Array): Promise<HtmlPageSetup | undefined> => {
+  const documentXml = await readZipEntry(docxBytes, 'word/document.xml');
+  if (!documentXml) return undefined;
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+  const body = xml.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  const section = body && Array.from(body.children).filter(el => el.localName === 'sectPr').pop();
+  if (!section) return undefined;
 
-        // Use a hidden div to render the HTML for html2canvas
-        const renderer = document.getElementById('html-renderer');
-        if (!renderer) {
-          reject(new Error('HTML renderer element not found.'));
-          return;
-        }
-        renderer.innerHTML = html;
-        // Add some basic styling to the renderer to mimic a document page
-        renderer.style.padding = '2cm'; // A4-like padding
-        renderer.style.backgroundColor = 'white';
-        renderer.style.color = 'black';
-        renderer.style.width = '21cm'; // Approximate A4 width
-        renderer.style.minHeight = '29.7cm'; // Approximate A4 height
-        renderer.style.boxSizing = 'border-box';
+  const child = (name: string) => section.getElementsByTagNameNS(WORD_NAMESPACE, name)[0];
+  const points = (el: Element | undefined, attribute: string) => {
+    const value = parseFloat(el?.getAttributeNS(WORD_NAMESPACE, attribute) ?? '');
+    return isNaN(value) ? undefined : Math.abs(value) / TWIPS_PER_POINT; // Negative top and bottom margins let text overlap headers
+  };
+  const size = child('pgSz');
+  const margin = child('pgMar');
+  return {
+    width: points(size, 'w') ?? PageSizes.A4[0],
+    height: points(size, 'h') ?? PageSizes.A4[1],
+    margins: {
+      top: points(margin, 'top') ?? DEFAULT_MARGIN,
+      right: points(margin, 'right') ?? DEFAULT_MARGIN,
+      bottom: points(margin, 'bottom') ?? DEFAULT_MARGIN,
+      left: points(margin, 'left') ?? DEFAULT_MARGIN,
+    },
+  };
+};
 
-        // Wait for images to load, if any (simple delay, could be improved)
-        await new Promise(r => setTimeout(r, 500)); 
+/**
+ * Converts a DOCX file to a paginated PDF with selectable text. Page size, orientation and
+ * margins come from the document unless a page size is chosen; headers, footers and text
+ * boxes are not converted.
+ */
+export const convertDocxToPdf = async (file: File, options: WordToPdfOptions = { pageSize: 'document' }): Promise<Uint8Array> => {
+  if (!window.mammoth) {
+    throw new Error('Required library (Mammoth) not loaded.');
+  }
+  const docxBytes = new Uint8Array(await file.arrayBuffer());
 
+  let html: string;
+  let documentSetup: HtmlPageSetup | undefined;
+  try {
+    const result = await window.mammoth.convertToHtml({ arrayBuffer: docxBytes.buffer }, { styleMap: STYLE_MAP, ignoreEmptyParagraphs: false });
+    html = result.value;
+    documentSetup = await readDocxPageSetup(docxBytes);
+  } catch (err) {
+    console.error("Conversion error:", err);
+    throw new Error('Error during DOCX to PDF conversion. The DOCX file might be corrupted or in an unsupported format.');
+  }
 
-        const canvas = await window.html2canvas(renderer, {
-            scale: 2, // Improve quality
-            useCORS: true, // If HTML contains external images
-            logging: false, 
-        });
-        
-        renderer.innerHTML = ''; // Clean up
+  const page: HtmlPageSetup = documentSetup ?? { width: PageSizes.A4[0], height: PageSizes.A4[1], margins: { top: DEFAULT_MARGIN, right: DEFAULT_MARGIN, bottom: DEFAULT_MARGIN, left: DEFAULT_MARGIN } };
+  if (options.pageSize !== 'document') {
+    const [width, height] = PageSizes[options.pageSize];
+    const landscape = page.width > page.height;
+    page.width = landscape ? height : width;
+    page.height = landscape ? width : height;
+  }
+  return renderHtmlToPdf(html, {
+    page,
+    fontFamily: options.fontFamily,
+    title: file.name.replace(/\.docx$/i, ''),
+    customFont: options.customFont,
+    fallbackFont: options.fallbackFont,
+  });
+};
 
-        const imgData = canvas.toDataURL('image/png');
-        
-        const { jsPDF } = window.jspdf;
-        // A4 dimensions in points: 595.28 x 841.89
-        // Use canvas dimensions directly to avoid cropping issues if content is larger than A4.
-        const pdf = new jsPDF({
-            orientation: canvas.width > canvas.height ? 'l' : 'p', // landscape or portrait
-            unit: 'px', // use pixels
-            format: [canvas.width, canvas.height] // set pdf size to canvas size
-        });
+// Keeps the text as it is, with form feeds starting new pages
+const plainTextToHtml = (text: string) =>
+  text
+    .split('\f')
+    .map(page => `<div style="white-space: pre-wrap">${page.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>`)
+    .join('<hr class="page-break">');
 
-        pdf.addImage(imgData, 'PNG', 0, 0, canvas.width, canvas.height);
-        resolve(pdf.output('blob'));
+/**
+ * Converts a Markdown (.md, .markdown), HTML (.html, .htm) or plain text file to a paginated PDF.
+ * Images with relative sources are taken from imageFiles, matched by file name.
+ */
+export const convertTextDocumentToPdf = async (file: File, options: TextToPdfOptions, imageFiles: File[] = []): Promise<Uint8Array> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const text = await file.text();
+  const html = extension === 'md' || extension === 'markdown' ? markdownToHtml(text)
+    : extension === 'html' || extension === 'htm' ? text
+    : plainTextToHtml(text);
 
-      } catch (err) {
-        console.error("Conversion error:", err);
-        reject(new Error('Error during DOCX to PDF conversion. The DOCX file might be corrupted or in an unsupported format.'));
-      }
-    };
-    reader.onerror = () => reject(new Error('Error reading file.'));
-    reader.readAsArrayBuffer(file);
+  const [width, height] = PageSizes[options.pageSize];
+  const landscape = options.orientation === 'landscape';
+  return renderHtmlToPdf(html, {
+    page: {
+      width: landscape ? height : width,
+      height: landscape ? width : height,
+      margins: { top: options.margin, right: options.margin, bottom: options.margin, left: options.margin },
+    },
+    fontFamily: options.fontFamily,
+    fontSize: options.fontSize,
+    title: file.name.replace(/\.[^.]+$/, ''),
+    header: options.header,
+    footer: options.footer,
+    imageFiles,
+    customFont: options.customFont,
+    fallbackFont: options.fallbackFont,
   });
 };
@@ -0,0 +1,93 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import { FontInput, StandardPdfFonts, TextFontOptions } from '../types';
+
+// Fonts for stamped text: page numbers, headers and footers, watermarks and signature dates.
+// Uploaded fonts and the fallback font are embedded as subsets, with only the glyphs drawn.
+
+const STANDARD_FONTS: Record<StandardPdfFonts, StandardFonts> = {
+  [StandardPdfFonts.Helvetica]: StandardFonts.Helvetica,
+  [StandardPdfFonts.HelveticaBold]: StandardFonts.HelveticaBold,
+  [StandardPdfFonts.TimesRoman]: StandardFonts.TimesRoman,
+  [StandardPdfFonts.TimesRomanBold]: StandardFonts.TimesRomanBold,
+  [StandardPdfFonts.Courier]: StandardFonts.Courier,
+};
+
+// DejaVu Sans cut down to Latin, Greek, Cyrillic and common symbols, in public/ (see its license there)
+export const FALLBACK_FONT_FILE = 'DejaVuSans-Subset.ttf';
+
+const MAX_CHARACTERS_NAMED = 5;
+
+const missingCharacters = (characterSet: number[], text: string): string[] => {
+  const available = new Set(characterSet);
+  const missing = new Set<string>();
+  for (const character of text) {
+    if (!available.has(character.codePointAt(0)!)) missing.add(character);
+  }
+  return Array.from(missing);
+};
+
+// Names the first few characters, for error messages
+export const describeCharacters = (characters: string[]) => {
+  const named = characters.slice(0, MAX_CHARACTERS_NAMED).map(character => `"${character}"`).join(', ');
+  return characters.length > MAX_CHARACTERS_NAMED ? `${named} and ${characters.length - MAX_CHARACTERS_NAMED} more` : named;
+};
+
+/**
+ * Embeds a TrueType or OpenType font as a subset, with only the glyphs drawn.
+ * @throws Error if the file is not a font fontkit can read.
+ */
+export const embedFontFile = async (pdfDoc: PDFDocument, font: FontInput): Promise<PDFFont> => {
+  pdfDoc.registerFontkit(fontkit);
+  try {
+    return await pdfDoc.embedFont(font.data, { subset: true });
+  } catch {
+    throw new Error(`Couldn't read the font "${font.name}". Please use a TrueType (.ttf) or OpenType (.otf) font.`);
+  }
+};
+
+/**
+ * Embeds the font to draw the given text with: the custom font if set, otherwise the standard font,
+ * or the fallback font when the text has characters the standard font can't show.
+ * @param text Everything that will be drawn with the font, to check it has every character.
+ * @throws Error naming the characters missing from the font.
+ */
+export const embedTextFont = async (pdfDoc: PDFDocument, options: TextFontOptions, text: string): Promise<PDFFont> => {
+  if (options.customFont) {
+    const font = await embedFontFile(pdfDoc, options.customFont);
+    const missing = missingCharacters(font.getCharacterSet(), text);
+    if (missing.length > 0) {
+      throw new Error(`The font "${options.customFont.name}" has no ${describeCharacters(missing)}. Please choose a font that covers the text.`);
+    }
+    return font;
+  }
+
+  const standardFont = await pdfDoc.embedFont(STANDARD_FONTS[options.font] ?? StandardFonts.Helvetica);
+  const missing = missingCharacters(standardFont.getCharacterSet(), text);
+  if (missing.length === 0) return standardFont;
+  if (options.fallbackFont) {
+    const font = await embedFontFile(pdfDoc, options.fallbackFont);
+    if (missingCharacters(font.getCharacterSet(), text).length === 0) return font;
+  }
+  throw new Error(`The built-in fonts can't show ${describeCharacters(missing)}. Please choose a TrueType or OpenType font that has these characters.`);
+};
+
+let fallbackFontRequest: Promise<FontInput | undefined> | null = null;
+
+/**
+ * Downloads the fallback font from the app's public folder, once. Resolves to undefined if it
+ * can't be loaded, so text the standard fonts can show still works offline.
+ */
+export const fetchFallbackFont = (): Promise<FontInput | undefined> => {
+  fallbackFontRequest ??= fetch(`${import.meta.env.BASE_URL}fonts/${FALLBACK_FONT_FILE}`)
+    .then(async response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return { name: FALLBACK_FONT_FILE, data: await response.arrayBuffer() };
+    })
+    .catch(err => {
+      console.warn('Could not load the fallback font:', err);
+      fallbackFontRequest = null; // Try again next time
+      return undefined;
+    });
+  return fallbackFontRequest;
+};
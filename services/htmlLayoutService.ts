@@ -0,0 +1,1113 @@
+import { Color, PDFDocument, PDFFont, PDFImage, PDFPage, PDFString, StandardFonts, grayscale, rgb } from 'pdf-lib';
+import { FontInput } from '../types';
+import { describeCharacters, embedFontFile } from './fontEmbeddingService';
+import { canvasToPng, createCanvas, get2dContext } from './pdfCompressionService';
+
+// Lays out HTML, such as mammoth's output for Word files or converted Markdown, on real pages with selectable
+// text in the standard PDF fonts, or an uploaded font, with a fallback font for characters they lack. Understands headings, paragraphs, inline formatting, links, lists, tables,
+// images, block quotes, preformatted text, rules and page breaks; other elements contribute their text.
+// Style sheets are ignored, only inline styles are read.
+
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface HtmlPageSetup {
+  width: number; // In points
+  height: number;
+  margins: PageMargins;
+}
+
+export interface HtmlToPdfOptions {
+  page: HtmlPageSetup;
+  fontFamily?: 'sans' | 'serif' | 'mono'; // Body text; defaults to sans
+  fontSize?: number; // Body text in points; defaults to 11
+  title?: string; // Document title shown by PDF viewers, if the HTML has no <title>
+  header?: string; // Centred in the top margin of every page; {page} and {pages} become the page number and count
+  footer?: string; // Centred in the bottom margin, with the same placeholders
+  imageFiles?: File[]; // Images that relative sources refer to, matched by file name
+  customFont?: FontInput; // Used instead of the standard fonts for the body font family, embedded with just the glyphs drawn
+  fallbackFont?: FontInput; // For characters the other fonts lack, e.g. Greek or Cyrillic
+}
+
+type FontFamily = 'sans' | 'serif' | 'mono';
+type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+interface TextStyle {
+  family: FontFamily;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  size: number;
+  color: Color;
+  rise: number; // Baseline shift of superscripts (positive) and subscripts (negative)
+  link?: string;
+}
+
+type Inline =
+  | { kind: 'text'; text: string; style: TextStyle }
+  | { kind: 'image'; src: string; alt: string; width?: number; height?: number; style: TextStyle } // Sizes in CSS pixels
+  | { kind: 'break' };
+
+interface ParagraphBlock {
+  kind: 'paragraph';
+  inlines: Inline[];
+  style: TextStyle; // Sets the minimum line height and the look of the list marker
+  indent: number;
+  rightIndent: number;
+  align: TextAlign;
+  preformatted: boolean;
+  background?: Color;
+  quoteRules: number[]; // Offsets of the bars drawn left of block quotes
+  marker?: string; // List bullet or number, hung left of the indent
+  spaceBefore: number;
+  spaceAfter: number;
+  keepWithNext: boolean;
+}
+
+interface TableCell {
+  blocks: Block[];
+  colSpan: number;
+  rowSpan: number;
+}
+
+interface TableBlock {
+  kind: 'table';
+  rows: TableCell[][];
+  indent: number;
+  spaceBefore: number;
+  spaceAfter: number;
+}
+
+interface RuleBlock {
+  kind: 'rule';
+  indent: number;
+  spaceBefore: number;
+  spaceAfter: number;
+}
+
+type Block = ParagraphBlock | TableBlock | RuleBlock | { kind: 'pageBreak' };
+
+interface BlockContext {
+  style: TextStyle;
+  indent: number;
+  align: TextAlign;
+  listLevel: number;
+  quoteRules: number[];
+  preformatted: boolean; // Inside <pre> or white-space: pre, so spaces and line breaks are kept
+  baseSize: number;
+  paragraphSpacing: number; // Space after paragraphs that are not wrapped in <p>, e.g. list items
+  images: Set<string>; // Sources of all images found, loaded before layout
+}
+
+const LINE_HEIGHT = 1.2;
+const ASCENT = 0.9; // Parts of the line height above and below the baseline, in font sizes
+const DESCENT = LINE_HEIGHT - ASCENT;
+const PARAGRAPH_SPACING = 0.7; // In body font sizes, close to Word's 8pt after 11pt paragraphs
+const HEADING_SCALES = [1.6, 1.3, 1.15, 1, 1, 1];
+const LIST_INDENT = 18;
+const MARKER_GAP = 5;
+const QUOTE_INDENT = 18;
+const PRE_PADDING = 4;
+const CELL_PADDING = 4;
+const PX_TO_PT = 0.75; // CSS pixels are 1/96 inch
+const BULLETS = ['\u2022', '\u2013', '\u00b7']; // Bullet, en dash and middle dot, which WinAnsi has
+const LINK_COLOR = rgb(0.02, 0.39, 0.76);
+const RULE_COLOR = grayscale(0.6);
+const TABLE_BORDER_COLOR = grayscale(0.4);
+const PRE_BACKGROUND = grayscale(0.95);
+const PAGE_MARK_SCALE = 0.8; // Header and footer size relative to the body text
+const PAGE_MARK_COLOR = grayscale(0.4);
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'CENTER', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION',
+  'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+  'SUMMARY', 'TABLE', 'UL',
+]);
+const SKIPPED_TAGS = new Set(['BUTTON', 'CANVAS', 'HEAD', 'IFRAME', 'LINK', 'META', 'NOSCRIPT', 'OBJECT', 'SCRIPT', 'SELECT', 'STYLE', 'SVG', 'TEMPLATE', 'TEXTAREA', 'TITLE']);
+
+// --- Parsing HTML into blocks ---
+
+const cssOf = (el: Element): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  for (const declaration of (el.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) declarations[declaration.slice(0, colon).trim().toLowerCase()] = declaration.slice(colon + 1).trim().toLowerCase();
+  }
+  return declarations;
+};
+
+const parseCssColor = (value: string | undefined): Color | undefined => {
+  const hex = value?.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return rgb(parseInt(digits.slice(0, 2), 16) / 255, parseInt(digits.slice(2, 4), 16) / 255, parseInt(digits.slice(4, 6), 16) / 255);
+  }
+  const channels = value?.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  return channels ? rgb(Number(channels[1]) / 255, Number(channels[2]) / 255, Number(channels[3]) / 255) : undefined;
+};
+
+const alignOf = (el: Element, css: Record<string, string>): TextAlign | undefined => {
+  if (el.tagName.toUpperCase() === 'CENTER') return 'center';
+  const value = css['text-align'] ?? el.getAttribute('align')?.toLowerCase();
+  return value === 'left' || value === 'center' || value === 'right' || value === 'justify' ? value : undefined;
+};
+
+// Page breaks come from CSS, or from <hr class="page-break">, which is what Word page breaks are mapped to
+const pageBreaksOf = (el: Element, css: Record<string, string>) => ({
+  before: /always|page/.test(css['page-break-before'] ?? css['break-before'] ?? ''),
+  after: /always|page/.test(css['page-break-after'] ?? css['break-after'] ?? ''),
+  only: el.tagName.toUpperCase() === 'HR' && el.classList.contains('page-break'),
+});
+
+const styleForElement = (el: Element, style: TextStyle): TextStyle => {
+  const next = { ...style };
+  switch (el.tagName.toUpperCase()) {
+    case 'B': case 'STRONG': next.bold = true; break;
+    case 'I': case 'EM': case 'CITE': case 'DFN': case 'VAR': case 'ADDRESS': next.italic = true; break;
+    case 'U': case 'INS': next.underline = true; break;
+    case 'S': case 'STRIKE': case 'DEL': next.strike = true; break;
+    case 'CODE': case 'KBD': case 'SAMP': case 'TT': case 'PRE': next.family = 'mono'; break;
+    case 'SMALL': next.size = style.size * 0.85; break;
+    case 'SUP': next.size = style.size * 0.7; next.rise = style.rise + style.size * 0.35; break;
+    case 'SUB': next.size = style.size * 0.7; next.rise = style.rise - style.size * 0.15; break;
+    case 'A': {
+      const href = el.getAttribute('href');
+      if (href && /^[a-z][a-z0-9+.-]*:/i.test(href)) { // Links within the document are not kept
+        next.link = href;
+        next.color = LINK_COLOR;
+        next.underline = true;
+      }
+      break;
+    }
+  }
+  const css = cssOf(el);
+  if (/bold|[6-9]00/.test(css['font-weight'] ?? '')) next.bold = true;
+  if (/italic|oblique/.test(css['font-style'] ?? '')) next.italic = true;
+  const decoration = css['text-decoration'] ?? css['text-decoration-line'] ?? '';
+  if (decoration.includes('underline')) next.underline = true;
+  if (decoration.includes('line-through')) next.strike = true;
+  if (/monospace|courier/.test(css['font-family'] ?? '')) next.family = 'mono';
+  next.color = parseCssColor(css.color) ?? next.color;
+  return next;
+};
+
+const collectInlines = (node: Node, style: TextStyle, ctx: BlockContext, out: Inline[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    out.push({ kind: 'text', text: node.nodeValue ?? '', style });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const el = node as Element;
+  const tag = el.tagName.toUpperCase();
+  if (SKIPPED_TAGS.has(tag)) return;
+  if (tag === 'BR') {
+    out.push({ kind: 'break' });
+  } else if (tag === 'IMG') {
+    const src = el.getAttribute('src');
+    if (!src) return;
+    ctx.images.add(src);
+    out.push({
+      kind: 'image',
+      src,
+      alt: el.getAttribute('alt') ?? '',
+      width: parseFloat(el.getAttribute('width') ?? '') || undefined,
+      height: parseFloat(el.getAttribute('height') ?? '') || undefined,
+      style,
+    });
+  } else if (tag === 'INPUT') {
+    if (el.getAttribute('type') === 'checkbox') out.push({ kind: 'text', text: el.hasAttribute('checked') ? '[x] ' : '[ ] ', style });
+  } else {
+    const childStyle = styleForElement(el, style);
+    el.childNodes.forEach(child => collectInlines(child, childStyle, ctx, out));
+  }
+};
+
+const inlinesOf = (el: Element, style: TextStyle, ctx: BlockContext): Inline[] => {
+  const inlines: Inline[] = [];
+  el.childNodes.forEach(child => collectInlines(child, style, ctx, inlines));
+  return inlines;
+};
+
+const paragraph = (inlines: Inline[], ctx: BlockContext, spaceAfter = ctx.paragraphSpacing): ParagraphBlock => ({
+  kind: 'paragraph',
+  inlines,
+  style: ctx.style,
+  indent: ctx.indent,
+  rightIndent: 0,
+  align: ctx.align,
+  preformatted: ctx.preformatted,
+  quoteRules: ctx.quoteRules,
+  spaceBefore: 0,
+  spaceAfter,
+  keepWithNext: false,
+});
+
+const toRoman = (n: number) => {
+  const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+  let roman = '';
+  for (const [value, numeral] of numerals) {
+    for (; n >= value; n -= value) roman += numeral;
+  }
+  return roman;
+};
+
+const toLetters = (n: number) => {
+  let letters = '';
+  for (; n > 0; n = Math.floor(n / 26)) {
+    n--;
+    letters = String.fromCharCode(97 + (n % 26)) + letters;
+  }
+  return letters;
+};
+
+const formatListNumber = (n: number, type: string) => {
+  switch (type) {
+    case 'a': return toLetters(n);
+    case 'A': return toLetters(n).toUpperCase();
+    case 'i': return toRoman(n);
+    case 'I': return toRoman(n).toUpperCase();
+    default: return String(n);
+  }
+};
+
+const parseList = (list: Element, ctx: BlockContext): Block[] => {
+  const ordered = list.tagName.toUpperCase() === 'OL';
+  const type = list.getAttribute('type') ?? '1';
+  let number = parseInt(list.getAttribute('start') ?? '', 10);
+  if (isNaN(number)) number = 1;
+  const itemContext: BlockContext = { ...ctx, indent: ctx.indent + LIST_INDENT, listLevel: ctx.listLevel + 1, paragraphSpacing: ctx.baseSize * 0.15 };
+  const blocks: Block[] = [];
+  for (const item of Array.from(list.children)) {
+    const tag = item.tagName.toUpperCase();
+    if (tag === 'UL' || tag === 'OL') { // Invalid but common: a nested list directly inside a list
+      blocks.push(...parseList(item, itemContext));
+      continue;
+    }
+    if (tag !== 'LI') continue;
+    const value = parseInt(item.getAttribute('value') ?? '', 10);
+    if (!isNaN(value)) number = value;
+    const itemBlocks = parseBlocks(item, itemContext);
+    let first = itemBlocks[0];
+    if (first?.kind !== 'paragraph') itemBlocks.unshift(first = paragraph([], itemContext));
+    first.marker = ordered ? `${formatListNumber(number, type)}.` : BULLETS[ctx.listLevel % BULLETS.length];
+    blocks.push(...itemBlocks);
+    number++;
+  }
+  const last = blocks[blocks.length - 1];
+  if (last && last.kind !== 'pageBreak') last.spaceAfter = Math.max(last.spaceAfter, ctx.paragraphSpacing);
+  return blocks;
+};
+
+const parseTable = (table: Element, ctx: BlockContext): Block[] => {
+  const blocks: Block[] = [];
+  const rows: TableCell[][] = [];
+  const rowElements = (el: Element) => Array.from(el.children).filter(child => child.tagName.toUpperCase() === 'TR');
+  for (const child of Array.from(table.children)) {
+    const tag = child.tagName.toUpperCase();
+    if (tag === 'CAPTION') {
+      blocks.push(paragraph(inlinesOf(child, ctx.style, ctx), { ...ctx, align: 'center' }, ctx.baseSize * 0.3));
+      continue;
+    }
+    const trs = tag === 'TR' ? [child] : ['THEAD', 'TBODY', 'TFOOT'].includes(tag) ? rowElements(child) : [];
+    for (const tr of trs) {
+      rows.push(Array.from(tr.children).filter(cell => ['TD', 'TH'].includes(cell.tagName.toUpperCase())).map(cell => {
+        const header = cell.tagName.toUpperCase() === 'TH';
+        const cellContext: BlockContext = {
+          ...ctx,
+          style: header ? { ...ctx.style, bold: true } : ctx.style,
+          indent: 0,
+          align: alignOf(cell, cssOf(cell)) ?? (header ? 'center' : 'left'),
+          listLevel: 0,
+          quoteRules: [],
+        };
+        return {
+          blocks: parseBlocks(cell, cellContext),
+          colSpan: Math.max(parseInt(cell.getAttribute('colspan') ?? '', 10) || 1, 1),
+          rowSpan: Math.max(parseInt(cell.getAttribute('rowspan') ?? '', 10) || 1, 1),
+        };
+      }));
+    }
+  }
+  if (rows.length > 0) blocks.push({ kind: 'table', rows, indent: ctx.indent, spaceBefore: 0, spaceAfter: ctx.baseSize * PARAGRAPH_SPACING });
+  return blocks;
+};
+
+const parseBlock = (el: Element, ctx: BlockContext): Block[] => {
+  const tag = el.tagName.toUpperCase();
+  const css = cssOf(el);
+  const breaks = pageBreaksOf(el, css);
+  if (breaks.only) return [{ kind: 'pageBreak' }];
+  const whiteSpace = css['white-space'];
+  const inner: BlockContext = {
+    ...ctx,
+    style: styleForElement(el, ctx.style),
+    align: alignOf(el, css) ?? ctx.align,
+    preformatted: tag === 'PRE' || (whiteSpace ? whiteSpace.startsWith('pre') : ctx.preformatted),
+  };
+  const spacing = ctx.baseSize * PARAGRAPH_SPACING;
+  let blocks: Block[];
+  if (tag === 'HR') {
+    blocks = [{ kind: 'rule', indent: ctx.indent, spaceBefore: spacing, spaceAfter: spacing }];
+  } else if (/^H[1-6]$/.test(tag)) {
+    const size = ctx.baseSize * HEADING_SCALES[Number(tag[1]) - 1];
+    const style = { ...inner.style, bold: true, size };
+    blocks = [{ ...paragraph(inlinesOf(el, style, inner), { ...inner, style }, size * 0.3), spaceBefore: size * 0.8, keepWithNext: true }];
+  } else if (tag === 'P') {
+    blocks = [paragraph(inlinesOf(el, inner.style, inner), inner, spacing)];
+  } else if (tag === 'PRE') {
+    blocks = [{
+      ...paragraph(inlinesOf(el, inner.style, inner), inner, spacing),
+      background: PRE_BACKGROUND,
+      indent: ctx.indent + PRE_PADDING,
+      rightIndent: PRE_PADDING,
+    }];
+  } else if (tag === 'UL' || tag === 'OL') {
+    blocks = parseList(el, inner);
+  } else if (tag === 'TABLE') {
+    blocks = parseTable(el, inner);
+  } else if (tag === 'BLOCKQUOTE') {
+    blocks = parseBlocks(el, { ...inner, indent: ctx.indent + QUOTE_INDENT, quoteRules: [...ctx.quoteRules, ctx.indent + 4] });
+  } else if (tag === 'DD') {
+    blocks = parseBlocks(el, { ...inner, indent: ctx.indent + LIST_INDENT });
+  } else {
+    blocks = parseBlocks(el, inner);
+  }
+  return [...(breaks.before ? [{ kind: 'pageBreak' as const }] : []), ...blocks, ...(breaks.after ? [{ kind: 'pageBreak' as const }] : [])];
+};
+
+// Parses the children of an element; runs of text between block elements become paragraphs of their own
+const parseBlocks = (container: Element, ctx: BlockContext): Block[] => {
+  const blocks: Block[] = [];
+  let inlines: Inline[] = [];
+  const flush = () => {
+    if (inlines.some(inline => inline.kind === 'image' || (inline.kind === 'text' && /\S/.test(inline.text)))) blocks.push(paragraph(inlines, ctx));
+    inlines = [];
+  };
+  container.childNodes.forEach(child => {
+    if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((child as Element).tagName.toUpperCase())) {
+      flush();
+      blocks.push(...parseBlock(child as Element, ctx));
+    } else {
+      collectInlines(child, ctx.style, ctx, inlines);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+// --- Layout ---
+
+interface EmbeddedFont {
+  font: PDFFont;
+  characters: Set<number>;
+}
+
+interface LayoutContext {
+  pdfDoc: PDFDocument;
+  fonts: Map<StandardFonts, EmbeddedFont>;
+  bodyFamily: FontFamily;
+  customFont?: EmbeddedFont;
+  fallbackFont?: EmbeddedFont;
+  missingCharacters: Set<string>; // Characters no font has, reported once the whole document is laid out
+  images: Map<string, PDFImage>;
+  maxImageHeight: number;
+  baseSize: number;
+}
+
+// A slice of laid-out content, such as one line of a paragraph or one table row
+interface FlowItem {
+  height: number;
+  spaceBefore: number; // Dropped at the top of a page or table cell
+  keepWithNext?: boolean;
+  pageBreak?: boolean;
+  draw: (page: PDFPage, x: number, top: number) => void; // top is measured down from the top of the page
+  split?: (room: number) => [FlowItem, FlowItem] | undefined; // Undefined if no part fits in room
+}
+
+interface TextAtom {
+  kind: 'text';
+  text: string;
+  font: PDFFont;
+  style: TextStyle;
+  width: number;
+  space: boolean;
+}
+
+interface ImageAtom {
+  kind: 'image';
+  image: PDFImage;
+  style: TextStyle;
+  width: number;
+  height: number;
+}
+
+type Atom = TextAtom | ImageAtom | { kind: 'break' };
+
+interface Line {
+  atoms: { atom: TextAtom | ImageAtom; x: number }[];
+  width: number; // Without trailing spaces
+  above: number; // Height above the baseline
+  below: number;
+  last: boolean; // Ends the paragraph or a forced line break, so it is never justified
+}
+
+interface WidthRange {
+  min: number;
+  max: number;
+}
+
+const FONT_VARIANTS: Record<FontFamily, StandardFonts[]> = { // Regular, bold, italic, bold italic
+  sans: [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique],
+  serif: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic],
+  mono: [StandardFonts.Courier, StandardFonts.CourierBold, StandardFonts.CourierOblique, StandardFonts.CourierBoldOblique],
+};
+
+// Stand-ins for common characters that the standard fonts lack, used if the fallback font lacks them too
+const SUBSTITUTES: Record<string, string> = {
+  '\u2010': '-', '\u2011': '-', '\u2212': '-', '\u2002': ' ', '\u2003': ' ', '\u2007': ' ', '\u2009': ' ', '\u202f': ' ',
+  '\u2190': '<-', '\u2192': '->', '\u2264': '<=', '\u2265': '>=', '\u2260': '!=', '\u2610': '[ ]', '\u2611': '[x]', '\u2612': '[x]',
+};
+const INVISIBLE_CHARACTERS = /[\u0000-\u001f\u007f\u00ad\u200b-\u200d\u2060\ufeff]/g;
+
+const fontFor = (ctx: LayoutContext, style: TextStyle): EmbeddedFont => {
+  if (ctx.customFont && style.family === ctx.bodyFamily) return ctx.customFont;
+  const name = FONT_VARIANTS[style.family][(style.bold ? 1 : 0) + (style.italic ? 2 : 0)];
+  let entry = ctx.fonts.get(name);
+  if (!entry) {
+    const font = ctx.pdfDoc.embedStandardFont(name);
+    entry = { font, characters: new Set(font.getCharacterSet()) };
+    ctx.fonts.set(name, entry);
+  }
+  return entry;
+};
+
+interface TextRun {
+  text: string;
+  font: PDFFont;
+}
+
+// Splits text into runs of the style's font and of the fallback font, for the characters the first lacks
+const toTextRuns = (text: string, style: TextStyle, ctx: LayoutContext): TextRun[] => {
+  const primary = fontFor(ctx, style);
+  const has = (font: EmbeddedFont | undefined, chars: string) => !!font && Array.from(chars).every(c => font.characters.has(c.codePointAt(0)!));
+  const runs: TextRun[] = [];
+  for (const char of text.replace(INVISIBLE_CHARACTERS, '')) {
+    const substitute = SUBSTITUTES[char];
+    const [font, drawn] = has(primary, char) ? [primary, char]
+      : has(ctx.fallbackFont, char) ? [ctx.fallbackFont!, char]
+      : substitute && has(primary, substitute) ? [primary, substitute]
+      : [undefined, char];
+    if (!font) {
+      ctx.missingCharacters.add(char);
+      continue;
+    }
+    const last = runs[runs.length - 1];
+    if (last?.font === font.font) last.text += drawn;
+    else runs.push({ text: drawn, font: font.font });
+  }
+  return runs;
+};
+
+const widthOfRuns = (runs: TextRun[], size: number) => runs.reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0);
+
+const drawRuns = (page: PDFPage, runs: TextRun[], x: number, y: number, size: number, color: Color) => {
+  for (const run of runs) {
+    page.drawText(run.text, { x, y, size, font: run.font, color });
+    x += run.font.widthOfTextAtSize(run.text, size);
+  }
+};
+
+const toAtoms = (block: ParagraphBlock, width: number, ctx: LayoutContext): Atom[] => {
+  const atoms: Atom[] = [];
+  const pushText = (text: string, style: TextStyle) => {
+    for (let token of text.split(/( +)/)) {
+      if (!token) continue;
+      const space = token.startsWith(' ');
+      if (space && !block.preformatted) {
+        const previous = atoms[atoms.length - 1];
+        if (!previous || previous.kind === 'break' || (previous.kind === 'text' && previous.space)) continue; // Collapsed
+        token = ' ';
+      }
+      for (const { text: runText, font } of toTextRuns(token, style, ctx)) {
+        atoms.push({ kind: 'text', text: runText, font, style, width: font.widthOfTextAtSize(runText, style.size), space });
+      }
+    }
+  };
+
+  for (const inline of block.inlines) {
+    if (inline.kind === 'break') {
+      atoms.push(inline);
+    } else if (inline.kind === 'image') {
+      const image = ctx.images.get(inline.src);
+      if (!image) {
+        if (inline.alt) pushText(`[${inline.alt}]`, inline.style);
+        continue;
+      }
+      // Missing dimensions follow the image's aspect ratio, with pixels taken at 96 DPI
+      const imageWidth = (inline.width ?? (inline.height ? inline.height * image.width / image.height : image.width)) * PX_TO_PT;
+      const imageHeight = (inline.height ?? (inline.width ? inline.width * image.height / image.width : image.height)) * PX_TO_PT;
+      const scale = Math.min(1, width / imageWidth, ctx.maxImageHeight / imageHeight);
+      atoms.push({ kind: 'image', image, style: inline.style, width: imageWidth * scale, height: imageHeight * scale });
+    } else if (block.preformatted) {
+      inline.text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n').forEach((line, i) => {
+        if (i > 0) atoms.push({ kind: 'break' });
+        pushText(line, inline.style);
+      });
+    } else {
+      pushText(inline.text.replace(/[ \t\n\r\f]+/g, ' '), inline.style);
+    }
+  }
+  while (atoms[atoms.length - 1]?.kind === 'break') atoms.pop(); // A trailing <br> adds no line, as in browsers
+  return atoms;
+};
+
+const measureLine = (atoms: (TextAtom | ImageAtom)[], strut: TextStyle, last: boolean): Line => {
+  let x = 0;
+  const placed = atoms.map(atom => {
+    const item = { atom, x };
+    x += atom.width;
+    return item;
+  });
+  while (placed.length > 0) {
+    const { atom } = placed[placed.length - 1];
+    if (atom.kind !== 'text' || !atom.space) break;
+    placed.pop();
+  }
+  let above = strut.size * ASCENT;
+  let below = strut.size * DESCENT;
+  for (const { atom } of placed) {
+    if (atom.kind === 'image') {
+      above = Math.max(above, atom.height);
+    } else {
+      above = Math.max(above, atom.style.size * ASCENT + Math.max(atom.style.rise, 0));
+      below = Math.max(below, atom.style.size * DESCENT - Math.min(atom.style.rise, 0));
+    }
+  }
+  const end = placed[placed.length - 1];
+  return { atoms: placed, width: end ? end.x + end.atom.width : 0, above, below, last };
+};
+
+const isSpace = (atom: Atom) => atom.kind === 'text' && atom.space;
+
+// Breaks atoms into lines at spaces; words wider than a line are broken between characters
+const breakLines = (atoms: Atom[], width: number, strut: TextStyle): Line[] => {
+  const limit = width + 0.01; // Tolerates rounding in widths that were computed to fit exactly
+  const lines: Line[] = [];
+  let current: (TextAtom | ImageAtom)[] = [];
+  let currentWidth = 0;
+  let spaces: TextAtom[] = [];
+  const endLine = (last: boolean) => {
+    lines.push(measureLine(current, strut, last));
+    current = [];
+    currentWidth = 0;
+    spaces = [];
+  };
+  const append = (atom: TextAtom | ImageAtom) => {
+    current.push(atom);
+    currentWidth += atom.width;
+  };
+
+  for (let i = 0; i < atoms.length;) {
+    const atom = atoms[i];
+    if (atom.kind === 'break') {
+      endLine(true);
+      i++;
+      continue;
+    }
+    if (atom.kind === 'text' && atom.space) {
+      spaces.push(atom);
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < atoms.length && atoms[end].kind !== 'break' && !isSpace(atoms[end])) end++;
+    const word = atoms.slice(i, end) as (TextAtom | ImageAtom)[];
+    const wordWidth = word.reduce((sum, a) => sum + a.width, 0);
+    const spaceWidth = spaces.reduce((sum, a) => sum + a.width, 0);
+    if (current.length > 0 && currentWidth + spaceWidth + wordWidth > limit) endLine(false);
+    else spaces.forEach(append);
+    spaces = [];
+
+    if (currentWidth + wordWidth <= limit) {
+      word.forEach(append);
+    } else {
+      for (const part of word) {
+        if (part.kind === 'image' || currentWidth + part.width <= limit) {
+          if (current.length > 0 && currentWidth + part.width > limit) endLine(false);
+          append(part);
+          continue;
+        }
+        let chars = Array.from(part.text);
+        while (chars.length > 0) {
+          let fit = 0;
+          let fitWidth = 0;
+          while (fit < chars.length) {
+            const charWidth = part.font.widthOfTextAtSize(chars[fit], part.style.size);
+            if (currentWidth + fitWidth + charWidth > limit) break;
+            fitWidth += charWidth;
+            fit++;
+          }
+          if (fit === 0 && current.length > 0) {
+            endLine(false);
+            continue;
+          }
+          fit = Math.max(fit, 1);
+          const text = chars.slice(0, fit).join('');
+          append({ ...part, text, width: part.font.widthOfTextAtSize(text, part.style.size) });
+          chars = chars.slice(fit);
+          if (chars.length > 0) endLine(false);
+        }
+      }
+    }
+    i = end;
+  }
+  if (current.length > 0 || lines.length === 0) endLine(true);
+  return lines;
+};
+
+const addLinkAnnotation = (page: PDFPage, uri: string, rect: [number, number, number, number]) => {
+  const context = page.doc.context;
+  const annotation = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: rect,
+    Border: [0, 0, 0],
+    A: { Type: 'Action', S: 'URI', URI: PDFString.of(uri) },
+  });
+  page.node.addAnnot(context.register(annotation));
+};
+
+const drawLine = (page: PDFPage, block: ParagraphBlock, line: Line, first: boolean, ctx: LayoutContext, x: number, left: number, width: number, top: number) => {
+  const pageHeight = page.getHeight();
+  const height = line.above + line.below;
+  const baseline = pageHeight - top - line.above;
+  if (block.background) {
+    page.drawRectangle({ x: left - PRE_PADDING, y: pageHeight - top - height, width: width + 2 * PRE_PADDING, height, color: block.background });
+  }
+  for (const offset of block.quoteRules) {
+    page.drawLine({ start: { x: x + offset, y: pageHeight - top }, end: { x: x + offset, y: pageHeight - top - height }, thickness: 2, color: RULE_COLOR });
+  }
+  if (first && block.marker) {
+    const runs = toTextRuns(block.marker, block.style, ctx);
+    const size = block.style.size;
+    drawRuns(page, runs, left - MARKER_GAP - widthOfRuns(runs, size), baseline, size, block.style.color);
+  }
+
+  const free = width - line.width;
+  let offset = block.align === 'center' ? free / 2 : block.align === 'right' ? free : 0;
+  let extraPerSpace = 0;
+  if (block.align === 'justify' && !line.last) {
+    const gaps = line.atoms.filter(({ atom }) => isSpace(atom)).length;
+    if (gaps > 0) extraPerSpace = free / gaps;
+  }
+
+  const links: { uri: string; x0: number; x1: number }[] = [];
+  for (const { atom, x: atomX } of line.atoms) {
+    const ax = left + offset + atomX;
+    const atomWidth = atom.width + (isSpace(atom) ? extraPerSpace : 0);
+    if (isSpace(atom)) offset += extraPerSpace;
+    if (atom.kind === 'image') {
+      page.drawImage(atom.image, { x: ax, y: baseline, width: atom.width, height: atom.height });
+    } else {
+      const { size, color } = atom.style;
+      const y = baseline + atom.style.rise;
+      const thickness = Math.max(size / 18, 0.5);
+      if (!atom.space) page.drawText(atom.text, { x: ax, y, size, font: atom.font, color });
+      if (atom.style.underline) page.drawLine({ start: { x: ax, y: y - size * 0.12 }, end: { x: ax + atomWidth, y: y - size * 0.12 }, thickness, color });
+      if (atom.style.strike) page.drawLine({ start: { x: ax, y: y + size * 0.28 }, end: { x: ax + atomWidth, y: y + size * 0.28 }, thickness, color });
+    }
+    const uri = atom.style.link;
+    if (uri) {
+      const previous = links[links.length - 1];
+      if (previous?.uri === uri && Math.abs(previous.x1 - ax) < 0.5) previous.x1 = ax + atomWidth;
+      else links.push({ uri, x0: ax, x1: ax + atomWidth });
+    }
+  }
+  for (const link of links) addLinkAnnotation(page, link.uri, [link.x0, baseline - line.below, link.x1, baseline + line.above]);
+};
+
+const layoutParagraph = (block: ParagraphBlock, width: number, ctx: LayoutContext): FlowItem[] => {
+  const indent = Math.min(block.indent, Math.max(width - 72, 0)); // Deep nesting must leave room for text
+  const available = Math.max(width - indent - block.rightIndent, 1);
+  const lines = breakLines(toAtoms(block, available, ctx), available, block.style);
+  return lines.map((line, index) => ({
+    height: line.above + line.below,
+    spaceBefore: 0,
+    keepWithNext: block.keepWithNext,
+    draw: (page, x, top) => drawLine(page, block, line, index === 0, ctx, x, x + indent, available, top),
+  }));
+};
+
+const ruleItem = (block: RuleBlock, width: number): FlowItem => ({
+  height: 1,
+  spaceBefore: 0,
+  draw: (page, x, top) => {
+    const y = page.getHeight() - top - 0.5;
+    page.drawLine({ start: { x: x + block.indent, y }, end: { x: x + width, y }, thickness: 0.75, color: RULE_COLOR });
+  },
+});
+
+const stackHeight = (items: FlowItem[]) => items.reduce((height, item, i) => height + (i > 0 ? item.spaceBefore : 0) + item.height, 0);
+
+const drawStack = (items: FlowItem[], page: PDFPage, x: number, top: number) => {
+  let y = top;
+  items.forEach((item, i) => {
+    if (i > 0) y += item.spaceBefore;
+    item.draw(page, x, y);
+    y += item.height;
+  });
+};
+
+// Takes as many items as fit in room, splitting the first one that does not fit if it can be split
+const takeItems = (items: FlowItem[], room: number): [FlowItem[], FlowItem[]] => {
+  const taken: FlowItem[] = [];
+  let height = 0;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const gap = taken.length > 0 ? item.spaceBefore : 0;
+    if (height + gap + item.height <= room) {
+      taken.push(item);
+      height += gap + item.height;
+      continue;
+    }
+    const parts = item.split?.(room - height - gap);
+    return parts ? [[...taken, parts[0]], [parts[1], ...items.slice(i + 1)]] : [taken, items.slice(i)];
+  }
+  return [taken, []];
+};
+
+interface CellSlice {
+  x: number;
+  width: number;
+  items: FlowItem[];
+}
+
+// A table row; rows taller than the space left on a page continue on the next one
+const rowItem = (cells: CellSlice[], minHeight: number): FlowItem => {
+  const height = Math.max(minHeight, ...cells.map(cell => stackHeight(cell.items) + 2 * CELL_PADDING));
+  return {
+    height,
+    spaceBefore: 0,
+    draw: (page, x, top) => cells.forEach(cell => {
+      page.drawRectangle({ x: x + cell.x, y: page.getHeight() - top - height, width: cell.width, height, borderColor: TABLE_BORDER_COLOR, borderWidth: 0.5 });
+      drawStack(cell.items, page, x + cell.x + CELL_PADDING, top + CELL_PADDING);
+    }),
+    split: room => {
+      const parts = cells.map(cell => takeItems(cell.items, room - 2 * CELL_PADDING));
+      if (parts.every(([taken]) => taken.length === 0)) return undefined;
+      return [
+        rowItem(cells.map((cell, i) => ({ ...cell, items: parts[i][0] })), 0),
+        rowItem(cells.map((cell, i) => ({ ...cell, items: parts[i][1] })), minHeight),
+      ];
+    },
+  };
+};
+
+// Assigns cells to grid columns, skipping columns still covered by cells spanning rows above
+const placeCells = (rows: TableCell[][]) => {
+  const coveredRows: number[] = [];
+  let columnCount = 0;
+  const placed = rows.map(row => {
+    let column = 0;
+    const cells = row.map(cell => {
+      while (coveredRows[column] > 0) column++;
+      const placedCell = { cell, column };
+      for (let c = column; c < column + cell.colSpan; c++) coveredRows[c] = cell.rowSpan;
+      column += cell.colSpan;
+      columnCount = Math.max(columnCount, column);
+      return placedCell;
+    });
+    for (let c = 0; c < coveredRows.length; c++) coveredRows[c] = Math.max((coveredRows[c] ?? 0) - 1, 0);
+    return cells;
+  });
+  return { placed, columnCount };
+};
+
+const columnRanges = (placed: { cell: TableCell; column: number }[][], columnCount: number, ctx: LayoutContext): WidthRange[] => {
+  const ranges = Array.from({ length: columnCount }, () => ({ min: 0, max: 0 }));
+  const spanning: { column: number; span: number; range: WidthRange }[] = [];
+  for (const { cell, column } of placed.flat()) {
+    const content = measureBlocks(cell.blocks, ctx);
+    const range = { min: content.min + 2 * CELL_PADDING, max: content.max + 2 * CELL_PADDING };
+    if (cell.colSpan > 1) {
+      spanning.push({ column, span: cell.colSpan, range });
+    } else {
+      ranges[column].min = Math.max(ranges[column].min, range.min);
+      ranges[column].max = Math.max(ranges[column].max, range.max);
+    }
+  }
+  // Cells spanning columns widen those columns evenly if they need more room than the columns give
+  for (const { column, span, range } of spanning) {
+    const columns = ranges.slice(column, column + span);
+    const minTotal = columns.reduce((sum, r) => sum + r.min, 0);
+    const maxTotal = columns.reduce((sum, r) => sum + r.max, 0);
+    columns.forEach(r => {
+      if (range.min > minTotal) r.min += (range.min - minTotal) / span;
+      if (range.max > maxTotal) r.max += (range.max - maxTotal) / span;
+    });
+  }
+  ranges.forEach(r => { r.max = Math.max(r.max, r.min); });
+  return ranges;
+};
+
+// Fills the width like Word's "AutoFit to window". If the content does not fit unwrapped, columns
+// whose content fits in a fair share keep their natural width and the others share the rest, none
+// narrower than its longest word if avoidable.
+const fitColumns = (ranges: WidthRange[], width: number): number[] => {
+  const maxTotal = ranges.reduce((sum, r) => sum + r.max, 0);
+  if (maxTotal <= width) return ranges.map(r => (maxTotal > 0 ? r.max * width / maxTotal : width / ranges.length));
+
+  // Some column always stays open, as the open columns' natural widths add up to more than what remains
+  const widths: (number | undefined)[] = ranges.map(() => undefined);
+  let remaining = width;
+  for (let changed = true; changed;) {
+    changed = false;
+    const fairShare = remaining / widths.filter(w => w === undefined).length;
+    ranges.forEach((r, i) => {
+      if (widths[i] === undefined && r.max <= fairShare) {
+        widths[i] = r.max;
+        remaining -= r.max;
+        changed = true;
+      }
+    });
+  }
+  const open = ranges.filter((_, i) => widths[i] === undefined);
+  const openMin = open.reduce((sum, r) => sum + r.min, 0);
+  const openMax = open.reduce((sum, r) => sum + r.max, 0);
+  return ranges.map((r, i) => widths[i] ?? (openMin >= remaining
+    ? (openMin > 0 ? r.min * remaining / openMin : remaining / open.length)
+    : r.min + (r.max - r.min) * (remaining - openMin) / (openMax - openMin)));
+};
+
+const layoutTable = (block: TableBlock, width: number, ctx: LayoutContext): FlowItem[] => {
+  const { placed, columnCount } = placeCells(block.rows);
+  if (columnCount === 0) return [];
+  const indent = Math.min(block.indent, width / 2);
+  const widths = fitColumns(columnRanges(placed, columnCount, ctx), width - indent);
+  const offsets = widths.reduce<number[]>((acc, w) => [...acc, acc[acc.length - 1] + w], [indent]);
+  const minHeight = ctx.baseSize * LINE_HEIGHT + 2 * CELL_PADDING;
+  return placed.map(row => rowItem(row.map(({ cell, column }) => {
+    const cellWidth = offsets[column + cell.colSpan] - offsets[column];
+    return { x: offsets[column], width: cellWidth, items: layoutBlocks(cell.blocks, Math.max(cellWidth - 2 * CELL_PADDING, 1), ctx) };
+  }), minHeight));
+};
+
+// The narrowest width a block fits without breaking words, and the width it takes without wrapping
+const measureBlock = (block: Block, ctx: LayoutContext): WidthRange => {
+  if (block.kind === 'paragraph') {
+    let min = 0;
+    let max = 0;
+    let lineWidth = 0;
+    let wordWidth = 0;
+    for (const atom of toAtoms(block, Infinity, ctx)) {
+      if (atom.kind === 'break' || isSpace(atom)) {
+        min = Math.max(min, wordWidth);
+        wordWidth = 0;
+      }
+      if (atom.kind === 'break') {
+        max = Math.max(max, lineWidth);
+        lineWidth = 0;
+        continue;
+      }
+      lineWidth += atom.width;
+      if (!isSpace(atom)) wordWidth += atom.width;
+    }
+    const extra = block.indent + block.rightIndent;
+    return { min: Math.max(min, wordWidth) + extra, max: Math.max(max, lineWidth) + extra };
+  }
+  if (block.kind === 'table') {
+    const { placed, columnCount } = placeCells(block.rows);
+    return columnRanges(placed, columnCount, ctx).reduce(
+      (total, r) => ({ min: total.min + r.min, max: total.max + r.max }),
+      { min: block.indent, max: block.indent }
+    );
+  }
+  return { min: 0, max: 0 };
+};
+
+const measureBlocks = (blocks: Block[], ctx: LayoutContext): WidthRange =>
+  blocks.reduce((range, block) => {
+    const blockRange = measureBlock(block, ctx);
+    return { min: Math.max(range.min, blockRange.min), max: Math.max(range.max, blockRange.max) };
+  }, { min: 0, max: 0 });
+
+// Lays out blocks in a column of the given width; the larger of adjacent spacings applies, as with CSS margins
+const layoutBlocks = (blocks: Block[], width: number, ctx: LayoutContext): FlowItem[] => {
+  const items: FlowItem[] = [];
+  let spaceAfter = 0;
+  for (const block of blocks) {
+    if (block.kind === 'pageBreak') {
+      items.push({ height: 0, spaceBefore: 0, pageBreak: true, draw: () => {} });
+      spaceAfter = 0;
+      continue;
+    }
+    const blockItems = block.kind === 'paragraph' ? layoutParagraph(block, width, ctx)
+      : block.kind === 'table' ? layoutTable(block, width, ctx)
+      : [ruleItem(block, width)];
+    if (blockItems.length === 0) continue;
+    blockItems[0].spaceBefore = Math.max(spaceAfter, block.spaceBefore);
+    items.push(...blockItems);
+    spaceAfter = block.spaceAfter;
+  }
+  return items;
+};
+
+const paginate = (items: FlowItem[], pdfDoc: PDFDocument, { width, height, margins }: HtmlPageSetup, lineHeight: number) => {
+  const bottom = height - margins.bottom;
+  let page = pdfDoc.addPage([width, height]);
+  let y = margins.top;
+  let pageHasContent = false;
+  const newPage = () => {
+    page = pdfDoc.addPage([width, height]);
+    y = margins.top;
+    pageHasContent = false;
+  };
+
+  const queue = [...items];
+  for (let i = 0; i < queue.length; i++) {
+    const item = queue[i];
+    if (item.pageBreak) {
+      newPage();
+      continue;
+    }
+    const atTop = y === margins.top;
+    const gap = atTop ? 0 : item.spaceBefore;
+    const room = bottom - y - gap;
+    let needed = item.height;
+    const next = queue[i + 1];
+    if (item.keepWithNext && next && !next.pageBreak) {
+      // Keep headings with at least the start of what follows
+      needed += next.spaceBefore + (next.split ? Math.min(next.height, 2 * lineHeight) : next.height);
+    }
+    if (needed > room) {
+      const parts = item.keepWithNext ? undefined : item.split?.(room);
+      if (parts) {
+        parts[0].draw(page, margins.left, y + gap);
+        newPage();
+        queue[i] = parts[1];
+        i--;
+        continue;
+      }
+      if (!atTop) {
+        newPage();
+        i--;
+        continue;
+      }
+    }
+    item.draw(page, margins.left, y + gap);
+    y += gap + item.height;
+    pageHasContent = true;
+  }
+  if (!pageHasContent && pdfDoc.getPageCount() > 1) pdfDoc.removePage(pdfDoc.getPageCount() - 1); // Left by a final page break
+};
+
+// Relative sources, such as those in a Markdown file, can only refer to image files supplied with the document
+const readImageSource = async (src: string, imageFiles: File[]): Promise<Uint8Array> => {
+  if (/^(data|blob|https?):/i.test(src)) {
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const name = decodeURIComponent(src.split(/[?#]/)[0].split(/[\\/]/).pop() ?? '');
+  const file = imageFiles.find(f => f.name.toLowerCase() === name.toLowerCase());
+  if (!file) throw new Error(`"${name}" was not provided`);
+  return new Uint8Array(await file.arrayBuffer());
+};
+
+const loadImage = async (pdfDoc: PDFDocument, src: string, imageFiles: File[]): Promise<PDFImage> => {
+  const bytes = await readImageSource(src, imageFiles);
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return pdfDoc.embedPng(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return pdfDoc.embedJpg(bytes);
+  // Other formats, such as GIF, BMP and WebP, go through the browser's decoder
+  const bitmap = await createImageBitmap(new Blob([bytes]));
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  get2dContext(canvas).drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return pdfDoc.embedPng(await canvasToPng(canvas));
+};
+
+// Draws the header and footer centred in the top and bottom margins, shrunk if too long for the line
+const drawPageMarks = (pdfDoc: PDFDocument, ctx: LayoutContext, { page: { margins }, header, footer, fontFamily }: HtmlToPdfOptions) => {
+  const style: TextStyle = { family: fontFamily ?? 'sans', bold: false, italic: false, underline: false, strike: false, size: ctx.baseSize * PAGE_MARK_SCALE, color: PAGE_MARK_COLOR, rise: 0 };
+  const pages = pdfDoc.getPages();
+  pages.forEach((page, index) => {
+    const { width, height } = page.getSize();
+    const available = width - margins.left - margins.right;
+    const draw = (template: string | undefined, middle: number) => {
+      if (!template?.trim()) return;
+      const runs = toTextRuns(template.replace(/\{page\}/g, String(index + 1)).replace(/\{pages\}/g, String(pages.length)), style, ctx);
+      const size = Math.min(style.size, style.size * available / Math.max(widthOfRuns(runs, style.size), 1));
+      const x = margins.left + (available - widthOfRuns(runs, size)) / 2;
+      drawRuns(page, runs, x, middle - size * 0.3, size, style.color);
+    };
+    draw(header, height - margins.top / 2);
+    draw(footer, margins.bottom / 2);
+  });
+};
+
+/**
+ * Lays out an HTML document on pages of the given size, with text as real, selectable text.
+ * Images that cannot be loaded or decoded (e.g. Windows metafiles) are left out, or shown by their alt text.
+ * @returns The PDF bytes.
+ * @throws Error naming the characters that none of the fonts have.
+ */
+export const renderHtmlToPdf = async (html: string, options: HtmlToPdfOptions): Promise<Uint8Array> => {
+  const { width, height, margins } = options.page;
+  const contentWidth = width - margins.left - margins.right;
+  const contentHeight = height - margins.top - margins.bottom;
+  if (contentWidth < 72 || contentHeight < 72) {
+    throw new Error("The page margins leave too little room for content.");
+  }
+
+  const baseSize = options.fontSize ?? 11;
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const images = new Set<string>();
+  const blocks = parseBlocks(document.body, {
+    style: { family: options.fontFamily ?? 'sans', bold: false, italic: false, underline: false, strike: false, size: baseSize, color: rgb(0, 0, 0), rise: 0 },
+    indent: 0,
+    align: 'left',
+    listLevel: 0,
+    quoteRules: [],
+    preformatted: false,
+    baseSize,
+    paragraphSpacing: baseSize * PARAGRAPH_SPACING,
+    images,
+  });
+
+  const pdfDoc = await PDFDocument.create();
+  const embed = async (font: FontInput): Promise<EmbeddedFont> => {
+    const embedded = await embedFontFile(pdfDoc, font);
+    return { font: embedded, characters: new Set(embedded.getCharacterSet()) };
+  };
+  const ctx: LayoutContext = {
+    pdfDoc,
+    fonts: new Map(),
+    bodyFamily: options.fontFamily ?? 'sans',
+    customFont: options.customFont && await embed(options.customFont),
+    fallbackFont: options.fallbackFont && await embed(options.fallbackFont),
+    missingCharacters: new Set(),
+    images: new Map(),
+    maxImageHeight: contentHeight,
+    baseSize,
+  };
+  for (const src of images) {
+    try {
+      ctx.images.set(src, await loadImage(pdfDoc, src, options.imageFiles ?? []));
+    } catch (e) {
+      console.warn(`Could not embed an image, so it is left out. Error: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  paginate(layoutBlocks(blocks, contentWidth, ctx), pdfDoc, options.page, baseSize * LINE_HEIGHT);
+  drawPageMarks(pdfDoc, ctx, options);
+  if (ctx.missingCharacters.size > 0) {
+    throw new Error(`The fonts can't show ${describeCharacters(Array.from(ctx.missingCharacters))}. Please choose a TrueType or OpenType font that has these characters.`);
+  }
+  const title = document.title.trim() || options.title;
+  if (title) pdfDoc.setTitle(title);
+  return pdfDoc.save();
+};
@@ -1,70 +1,59 @@
 
 
 import { PDFDocument, PageSizes, PDFImage } from 'pdf-lib'; 
-import { ImageToPdfOptions } from '../types';
+import { ImageToPdfOptions, ProgressCallback } from '../types';
+
+// An image held in memory, e.g. read from a file
+export interface ImageInput {
+  name: string;
+  type: string; // MIME type, e.g. "image/png"
+  data: Uint8Array | ArrayBuffer;
+}
 
 export const convertImagesToPdf = async (
-  imageFiles: File[],
-  options?: ImageToPdfOptions // Currently basic options, defaults to A4 portrait
+  images: ImageInput[],
+  options?: ImageToPdfOptions, // Currently basic options, defaults to A4 portrait
+  onProgress?: ProgressCallback
 ): Promise<Uint8Array> => {
-  if (imageFiles.length === 0) {
+  if (images.length === 0) {
     throw new Error('No image files provided.');
   }
 
   const pdfDoc = await PDFDocument.create();
 
-  for (const imageFile of imageFiles) {
-    const imageBytes = await imageFile.arrayBuffer();
+  for (const [imageIndex, image] of images.entries()) {
+    onProgress?.(imageIndex, images.length);
+    const imageBytes = image.data;
     let pdfImage: PDFImage; 
 
     // Try to embed based on common types
-    const fileType = imageFile.type.toLowerCase();
+    const fileType = image.type.toLowerCase();
     if (fileType === 'image/jpeg' || fileType === 'image/jpg') {
       pdfImage = await pdfDoc.embedJpg(imageBytes);
     } else if (fileType === 'image/png') {
       pdfImage = await pdfDoc.embedPng(imageBytes);
     } else if (fileType === 'image/webp') { // Added WebP basic support (pdf-lib might need specific handling or it might work via embedPng/Jpg if browser decodes it first)
-        // For WebP, pdf-lib doesn't have a direct embedWebP.
-        // A common approach is to convert WebP to PNG/JPG on client-side first
-        // using a canvas, then embed. For simplicity here, we'll try to embed as PNG
-        // as a fallback, which might work if the ArrayBuffer is already a decodable format.
-        // This part might need a more robust WebP to PNG/JPG conversion step for wider compatibility.
+        // For WebP, pdf-lib doesn't have a direct embedWebP, so the browser decodes it and we re-encode as PNG.
+        // createImageBitmap and OffscreenCanvas also work inside a Web Worker, unlike <img> and <canvas>.
         try {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            const img = document.createElement('img');
-            
-            await new Promise<void>((resolve, reject) => {
-                img.onload = () => {
-                    canvas.width = img.naturalWidth;
-                    canvas.height = img.naturalHeight;
-                    ctx?.drawImage(img, 0, 0);
-                    canvas.toBlob(async (blob) => {
-                        if (blob) {
-                            const pngBytes = await blob.arrayBuffer();
-                            pdfImage = await pdfDoc.embedPng(pngBytes);
-                            resolve();
-                        } else {
-                            reject(new Error('Canvas toBlob failed for WebP.'));
-                        }
-                    }, 'image/png');
-                };
-                img.onerror = () => reject(new Error(`Failed to load WebP image: ${imageFile.name}`));
-                img.src = URL.createObjectURL(new Blob([imageBytes], {type: imageFile.type}));
-            });
-             URL.revokeObjectURL(img.src); // Clean up object URL
+            const bitmap = await createImageBitmap(new Blob([imageBytes], { type: image.type }));
+            const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+            canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+            bitmap.close();
+            const pngBlob = await canvas.convertToBlob({ type: 'image/png' });
+            pdfImage = await pdfDoc.embedPng(await pngBlob.arrayBuffer());
         } catch (e) {
-            console.warn(`Could not convert WebP ${imageFile.name} to PNG for PDF embedding. Skipping. Error: ${e instanceof Error ? e.message : e}`);
+            console.warn(`Could not convert WebP ${image.name} to PNG for PDF embedding. Skipping. Error: ${e instanceof Error ? e.message : e}`);
             continue;
         }
 
     } else {
-      console.warn(`Unsupported image type: ${imageFile.type} for file ${imageFile.name}. Skipping.`);
+      console.warn(`Unsupported image type: ${image.type} for file ${image.name}. Skipping.`);
       continue;
     }
     
     if (!pdfImage!) { // Ensure pdfImage was successfully created, especially for WebP. Added non-null assertion as it should be assigned in try/catch or previous blocks.
-        console.warn(`Failed to create PDF image for ${imageFile.name}. Skipping.`);
+        console.warn(`Failed to create PDF image for ${image.name}. Skipping.`);
         continue;
     }
 
@@ -123,9 +112,11 @@ export const convertImagesToPdf = async (
     });
   }
 
+  onProgress?.(images.length, images.length);
+
   if (pdfDoc.getPageCount() === 0) {
     throw new Error("No images could be converted. Check image formats (JPEG, PNG, WebP supported with conversion).");
   }
 
   return pdfDoc.save();
-};
\ No newline at end of file
+};
@@ -0,0 +1,349 @@
+// Converts Markdown to HTML for the page layout. Covers CommonMark's block and inline syntax, and GitHub's
+// tables, task lists, strikethrough and bare URLs. Raw HTML is passed through unchanged.
+
+interface LinkReference {
+  url: string;
+  title?: string;
+}
+
+type References = Map<string, LinkReference>;
+
+interface RenderedBlock {
+  html: string;
+  inlineHtml?: string; // Set for paragraphs, which tight lists show without <p>
+  blankBefore: boolean; // Separated from the previous block by a blank line, which makes a list loose
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?[ \t]*$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const BLOCK_QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const HTML_BLOCK = /^ {0,3}<(?:!--|\/?(?:address|article|aside|blockquote|caption|center|dd|details|div|dl|dt|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|script|section|style|summary|table|tbody|td|tfoot|th|thead|tr|ul)(?=[\s/>]|$))/i;
+
+const INLINE_LINK = /(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*(?:<([^<>\n]*)>|([^\s()]*(?:\([^\s()]*\)[^\s()]*)*))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*\)/g;
+const REFERENCE_LINK = /(!?)\[((?:[^[\]]|\[[^\]]*\])*)\](?:\[([^\]]*)\])?/g;
+const CODE_SPAN = /(`+)([\s\S]*?[^`])\1(?!`)/g;
+const RAW_HTML = /<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<!--[\s\S]*?-->/g;
+const ESCAPABLE = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g;
+const BARE_URL = /(^|[\s(*_~])((?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?*_~])/g;
+
+const isBlank = (line: string) => !/\S/.test(line);
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Leaves entity references such as &copy; alone, as Markdown does
+const escapeHtml = (text: string) =>
+  text.replace(/&(?!#?\w+;)/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Tabs only matter for indentation, so only leading ones are expanded, to stops every 4 columns
+const expandTabs = (line: string) =>
+  line.replace(/^[ \t]+/, indent => {
+    let expanded = '';
+    for (const char of indent) expanded += char === '\t' ? ' '.repeat(4 - (expanded.length % 4)) : char;
+    return expanded;
+  });
+
+const isListItemStart = (line: string, interruptingParagraph: boolean) => {
+  const match = line.match(LIST_ITEM);
+  if (!match || THEMATIC_BREAK.test(line)) return false;
+  // Only non-empty items, and ordered lists starting at 1, may interrupt a paragraph
+  return !interruptingParagraph || (!!match[4]?.trim() && (/^[-+*]$/.test(match[2]) || parseInt(match[2], 10) === 1));
+};
+
+// Whether a line ends a paragraph by starting another block
+const startsBlock = (line: string) =>
+  ATX_HEADING.test(line) || FENCE.test(line) || THEMATIC_BREAK.test(line) || BLOCK_QUOTE.test(line) ||
+  HTML_BLOCK.test(line) || isListItemStart(line, true);
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  i + 1 < lines.length && lines[i].includes('|') && TABLE_DELIMITER.test(lines[i + 1]) &&
+  splitTableRow(lines[i]).length === splitTableRow(lines[i + 1]).length;
+
+// --- Inlines ---
+
+const renderInlines = (source: string, refs: References): string => {
+  // Finished HTML is set aside behind placeholders so later steps neither escape nor reformat it
+  const held: string[] = [];
+  const hold = (html: string) => `\uE000${held.push(html) - 1}\uE001`;
+  const restore = (text: string): string => {
+    while (/\uE000/.test(text)) text = text.replace(/\uE000(\d+)\uE001/g, (_, i) => held[Number(i)]);
+    return text;
+  };
+
+  const link = (image: boolean, label: string, url: string, title: string | undefined) => {
+    const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+    if (image) {
+      const alt = restore(label).replace(/<[^>]*>/g, '').replace(/[*_~]/g, '');
+      return hold(`<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}"${titleAttribute}>`);
+    }
+    return hold(`<a href="${escapeHtml(url)}"${titleAttribute}>${format(label)}</a>`);
+  };
+
+  const format = (text: string): string => {
+    text = text
+      .replace(INLINE_LINK, (_, bang, label, bracketedUrl, url, title1, title2, title3) =>
+        link(!!bang, label, bracketedUrl ?? url ?? '', title1 ?? title2 ?? title3))
+      .replace(REFERENCE_LINK, (match, bang, label, refLabel) => {
+        const ref = refs.get(normalizeLabel(refLabel || label));
+        return ref ? link(!!bang, label, ref.url, ref.title) : match;
+      })
+      .replace(BARE_URL, (_, before, url) => before + hold(`<a href="${escapeHtml(url.startsWith('www.') ? `http://${url}` : url)}">${escapeHtml(url)}</a>`));
+    return escapeHtml(text)
+      .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<strong><em>$1</em></strong>')
+      .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+      .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+      .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+      .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+      .replace(/ {2,}\n/g, '<br>\n');
+  };
+
+  const text = source
+    .replace(CODE_SPAN, (_, _fence, code: string) => {
+      const content = code.replace(/\n/g, ' ');
+      return hold(`<code>${escapeHtml(/^ .*[^ ].* $/.test(content) ? content.slice(1, -1) : content)}</code>`);
+    })
+    .replace(/<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/g, (_, url) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`))
+    .replace(/<([^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)>/g, (_, email) => hold(`<a href="mailto:${escapeHtml(email)}">${escapeHtml(email)}</a>`))
+    .replace(RAW_HTML, tag => hold(tag))
+    .replace(ESCAPABLE, (_, char) => hold(escapeHtml(char)))
+    .replace(/\\\n/g, () => hold('<br>\n'));
+  return restore(format(text));
+};
+
+// --- Blocks ---
+
+// Removes link reference definitions, which may appear anywhere in the document, outside code blocks
+const extractReferences = (lines: string[]): { lines: string[]; refs: References } => {
+  const refs: References = new Map();
+  const kept: string[] = [];
+  let fence: string | undefined;
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch && (!fence || fenceMatch[2].startsWith(fence))) fence = fence ? undefined : fenceMatch[2];
+    const definition = !fence && (kept.length === 0 || isBlank(kept[kept.length - 1]) || LINK_DEFINITION.test(kept[kept.length - 1]))
+      ? line.match(LINK_DEFINITION) : null;
+    if (definition) {
+      const label = normalizeLabel(definition[1]);
+      if (!refs.has(label)) refs.set(label, { url: definition[2], title: definition[3] ?? definition[4] ?? definition[5] });
+      kept.push(''); // Keeps a following line from joining the paragraph before
+    } else {
+      kept.push(line);
+    }
+  }
+  return { lines: kept, refs };
+};
+
+const renderTable = (lines: string[], refs: References): string => {
+  const aligns = splitTableRow(lines[1]).map(cell =>
+    cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : undefined);
+  const renderRow = (line: string, tag: 'th' | 'td') => {
+    const cells = splitTableRow(line);
+    return `<tr>${aligns.map((align, i) =>
+      `<${tag}${align ? ` style="text-align: ${align}"` : ''}>${renderInlines(cells[i] ?? '', refs)}</${tag}>`).join('')}</tr>`;
+  };
+  const body = lines.slice(2).map(line => renderRow(line, 'td')).join('\n');
+  return `<table>\n<thead>${renderRow(lines[0], 'th')}</thead>\n${body ? `<tbody>\n${body}\n</tbody>\n` : ''}</table>`;
+};
+
+const renderList = (lines: string[], start: number, refs: References): { html: string; end: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  // Items continue the list while they use the same bullet, or numbers with the same delimiter
+  const continuesList = (line: string) => {
+    const match = line.match(LIST_ITEM);
+    return !!match && !THEMATIC_BREAK.test(line) && /\d/.test(match[2]) === ordered && match[2].slice(-1) === delimiter;
+  };
+  const items: RenderedBlock[][] = [];
+  let loose = false;
+  let i = start;
+  while (i < lines.length && continuesList(lines[i])) {
+    const match = lines[i].match(LIST_ITEM)!;
+
+    // Content lines up with the first character after the marker, unless that starts indented code
+    const spaces = match[3] ?? '';
+    const content = match[4] ?? '';
+    const wideGap = spaces.length > 4 || !content;
+    const contentIndent = match[1].length + match[2].length + (wideGap ? 1 : spaces.length);
+    const itemLines = [wideGap && content ? ' '.repeat(spaces.length - 1) + content : content];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const line = lines[j];
+      if (isBlank(line)) {
+        itemLines.push('');
+      } else if (leadingSpaces(line) >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!isBlank(lines[j - 1]) && !startsBlock(line) && !isListItemStart(line, false)) {
+        itemLines.push(line); // Lazy continuation of a paragraph
+      } else {
+        break;
+      }
+    }
+    let trailingBlanks = 0;
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop();
+      trailingBlanks++;
+    }
+
+    const blocks = renderBlocks(itemLines, refs);
+    if (blocks.slice(1).some(block => block.blankBefore)) loose = true;
+    items.push(blocks);
+    i = j;
+    if (trailingBlanks > 0 && i < lines.length && continuesList(lines[i])) loose = true;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = parseInt(first[2], 10);
+  const startAttribute = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  const html = items.map(blocks => {
+    const body = blocks.map(block => (!loose && block.inlineHtml !== undefined ? block.inlineHtml : block.html)).join('\n');
+    return `<li>${body}</li>`;
+  }).join('\n');
+  return { html: `<${tag}${startAttribute}>\n${html}\n</${tag}>`, end: i };
+};
+
+const renderBlocks = (lines: string[], refs: References): RenderedBlock[] => {
+  const blocks: RenderedBlock[] = [];
+  let blankBefore = false;
+  const push = (html: string, inlineHtml?: string) => {
+    blocks.push({ html, inlineHtml, blankBefore });
+    blankBefore = false;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      blankBefore = blocks.length > 0;
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, indent, marker, language] = fence;
+      const code: string[] = [];
+      for (i++; i < lines.length; i++) {
+        const closing = lines[i].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+          i++;
+          break;
+        }
+        code.push(lines[i].slice(Math.min(indent.length, leadingSpaces(lines[i]))));
+      }
+      const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+      push(`<pre><code${languageClass}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (leadingSpaces(line) >= 4) {
+      const code: string[] = [];
+      for (; i < lines.length && (isBlank(lines[i]) || leadingSpaces(lines[i]) >= 4); i++) code.push(lines[i].slice(4));
+      while (isBlank(code[code.length - 1])) code.pop();
+      push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const text = (heading[2] ?? '').replace(/(^|[ \t]+)#+$/, '');
+      push(`<h${level}>${renderInlines(text, refs)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (BLOCK_QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length; i++) {
+        if (BLOCK_QUOTE.test(lines[i])) quoted.push(lines[i].replace(BLOCK_QUOTE, ''));
+        else if (!isBlank(lines[i]) && !isBlank(quoted[quoted.length - 1]) && !startsBlock(lines[i])) quoted.push(lines[i]);
+        else break;
+      }
+      push(`<blockquote>\n${renderBlocks(quoted, refs).map(block => block.html).join('\n')}\n</blockquote>`);
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      // Comments and raw text elements end at their closing tag, other HTML at a blank line
+      const closing = /^ {0,3}<!--/.test(line) ? /-->/ : /^ {0,3}<(pre|script|style)\b/i.test(line) ? /<\/(pre|script|style)>/i : undefined;
+      const html: string[] = [];
+      for (; i < lines.length; i++) {
+        if (!closing && isBlank(lines[i])) break;
+        html.push(lines[i]);
+        if (closing?.test(lines[i])) {
+          i++;
+          break;
+        }
+      }
+      push(html.join('\n'));
+      continue;
+    }
+
+    if (isListItemStart(line, false)) {
+      const list = renderList(lines, i, refs);
+      push(list.html);
+      i = list.end;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows = [lines[i], lines[i + 1]];
+      for (i += 2; i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i]); i++) rows.push(lines[i]);
+      push(renderTable(rows, refs));
+      continue;
+    }
+
+    // A paragraph, or a setext heading if its lines are underlined with = or -
+    const text: string[] = [];
+    let level = 0;
+    for (; i < lines.length && !isBlank(lines[i]); i++) {
+      const underline = text.length > 0 ? lines[i].match(SETEXT_UNDERLINE) : null;
+      if (underline) {
+        level = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (text.length > 0 && (startsBlock(lines[i]) || isTableStart(lines, i))) break;
+      text.push(lines[i].trimStart());
+    }
+    const inlineHtml = renderInlines(text.join('\n').trimEnd(), refs);
+    if (level > 0) push(`<h${level}>${inlineHtml}</h${level}>`);
+    else push(`<p>${inlineHtml}</p>`, inlineHtml);
+  }
+  return blocks;
+};
+
+const withTaskCheckboxes = (html: string) =>
+  html.replace(/<li>(<p>)?\[([ xX])\][ \t]/g, (_, p, mark) => `<li>${p ?? ''}<input type="checkbox" disabled${mark === ' ' ? '' : ' checked'}> `);
+
+/**
+ * Converts a Markdown document to an HTML fragment. YAML front matter is skipped.
+ */
+export const markdownToHtml = (markdown: string): string => {
+  let lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+  if (lines[0] === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && (line === '---' || line === '...'));
+    if (end > 0) lines = lines.slice(end + 1);
+  }
+  const extracted = extractReferences(lines);
+  return withTaskCheckboxes(renderBlocks(extracted.lines, extracted.refs).map(block => block.html).join('\n'));
+};
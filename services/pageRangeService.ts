@@ -0,0 +1,139 @@
+// Page selections typed by the user, e.g. "1-3, 5", "odd", "1-20 !7-9" or "last-1" (all pages, backwards).
+//
+// Terms are separated by commas or spaces:
+//   7          a single page; "last" or "z" is the last page
+//   2-5        a range; "5-" runs to the last page, "-3" from the first. "10-1" runs backwards
+//   odd, even  every odd or even page
+//   !3, !7-9   leaves pages out. A selection made only of exclusions starts from all pages
+
+export interface PageRangeOptions {
+  // Keep pages in the order written, with repeats, instead of sorting and removing duplicates
+  keepOrder?: boolean;
+}
+
+interface PageTerm {
+  exclude: boolean;
+  pages: number[]; // 1-indexed
+}
+
+const PAGE_PATTERN = '(\\d+|last|z)';
+const RANGE_REGEX = new RegExp(`^${PAGE_PATTERN}?\\s*-\\s*${PAGE_PATTERN}?`, 'i');
+const PAGE_REGEX = new RegExp(`^${PAGE_PATTERN}`, 'i');
+const KEYWORD_REGEX = /^(odd|even)/i;
+const SEPARATOR_REGEX = /[\s,]/;
+
+const HELP = 'Use page numbers, ranges like 2-5, odd, even, last, or !N to leave pages out.';
+
+const rangeError = (message: string, position: number, rangeStr: string) =>
+  new Error(`${message} (at character ${position + 1} of "${rangeStr}")`);
+
+const parseTerms = (rangeStr: string, maxPage: number): PageTerm[] => {
+  const terms: PageTerm[] = [];
+  let pos = 0;
+
+  const rawPageNumber = (token: string) => (/^(last|z)$/i.test(token) ? maxPage : parseInt(token, 10));
+
+  // Resolves a page token to a 1-indexed page number, checking it exists
+  const pageNumber = (token: string, tokenPos: number, capAtEnd: boolean): number => {
+    const page = rawPageNumber(token);
+    if (page < 1) throw rangeError('Pages start at 1', tokenPos, rangeStr);
+    if (page > maxPage) {
+      // The far end of a range may overshoot, e.g. "1-100" for a 10 page document
+      if (capAtEnd) return maxPage;
+      throw rangeError(`Page ${page} is past the end of the document (${maxPage} pages)`, tokenPos, rangeStr);
+    }
+    return page;
+  };
+
+  while (pos < rangeStr.length) {
+    if (SEPARATOR_REGEX.test(rangeStr[pos])) { pos++; continue; }
+
+    const termStart = pos;
+    const exclude = rangeStr[pos] === '!';
+    if (exclude) {
+      pos++;
+      while (pos < rangeStr.length && /\s/.test(rangeStr[pos])) pos++;
+      if (pos >= rangeStr.length || rangeStr[pos] === ',') throw rangeError('"!" must be followed by the pages to leave out', termStart, rangeStr);
+    }
+
+    const rest = rangeStr.slice(pos);
+    let pages: number[];
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(KEYWORD_REGEX))) {
+      const first = match[1].toLowerCase() === 'odd' ? 1 : 2;
+      pages = [];
+      for (let page = first; page <= maxPage; page += 2) pages.push(page);
+    } else if ((match = rest.match(RANGE_REGEX))) {
+      const [, startToken, endToken] = match;
+      if (!startToken && !endToken) throw rangeError('A range needs a page number on at least one side of "-"', pos, rangeStr);
+      const endPos = pos + match[0].length - (endToken?.length ?? 0);
+      // Open ranges run forwards, so "5-" needs page 5 to exist
+      const descending = !!startToken && !!endToken && rawPageNumber(endToken) < rawPageNumber(startToken);
+      // Only the higher end of a range may run past the last page
+      const start = startToken ? pageNumber(startToken, pos, descending) : 1;
+      const end = endToken ? pageNumber(endToken, endPos, !descending) : maxPage;
+      pages = [];
+      if (start <= end) for (let page = start; page <= end; page++) pages.push(page);
+      else for (let page = start; page >= end; page--) pages.push(page);
+    } else if ((match = rest.match(PAGE_REGEX))) {
+      pages = [pageNumber(match[1], pos, false)];
+    } else {
+      throw rangeError(`Unexpected "${rest[0]}". ${HELP}`, pos, rangeStr);
+    }
+
+    pos += match[0].length;
+    if (pos < rangeStr.length && !SEPARATOR_REGEX.test(rangeStr[pos])) {
+      throw rangeError(`Unexpected "${rangeStr[pos]}". ${HELP}`, pos, rangeStr);
+    }
+    terms.push({ exclude, pages });
+  }
+  return terms;
+};
+
+/**
+ * Parses a page selection such as "1-3, 5", "odd" or "1-20 !7-9" (see the top of this file) into
+ * 0-indexed page numbers for use with pdf-lib. Pages are sorted without duplicates unless
+ * keepOrder is set.
+ * @param rangeStr The input string. Empty selects no pages.
+ * @param maxPage The total number of pages in the document.
+ * @throws Error naming the position of the first problem in the input.
+ */
+export const parsePageRanges = (rangeStr: string, maxPage: number, options: PageRangeOptions = {}): number[] => {
+  if (!rangeStr.trim()) return [];
+  const terms = parseTerms(rangeStr, maxPage);
+
+  const excluded = new Set(terms.filter(term => term.exclude).flatMap(term => term.pages));
+  const includeTerms = terms.filter(term => !term.exclude);
+  const included = includeTerms.length > 0
+    ? includeTerms.flatMap(term => term.pages)
+    : Array.from({ length: maxPage }, (_, i) => i + 1);
+
+  const pages = included.filter(page => !excluded.has(page));
+  const result = options.keepOrder ? pages : Array.from(new Set(pages)).sort((a, b) => a - b);
+  return result.map(page => page - 1);
+};
+
+/**
+ * Splits the ranges of the Split tool into one selection per output file, e.g.
+ * "1-2, 3, 4-20 !7" into ["1-2", "3", "4-20 !7"].
+ */
+export const splitPageRangeSegments = (rangesStr: string): string[] =>
+  rangesStr.split(',').map(segment => segment.trim()).filter(segment => segment);
+
+/**
+ * Describes 0-indexed pages as 1-indexed runs in their order, e.g. [0, 1, 2, 4] as ["1-3", "5"].
+ */
+export const formatPageRuns = (pageIndices: number[]): string[] => {
+  const runs: string[] = [];
+  for (let i = 0; i < pageIndices.length; i++) {
+    const start = pageIndices[i];
+    const step = pageIndices[i + 1] - start;
+    let end = i;
+    if (step === 1 || step === -1) {
+      while (end + 1 < pageIndices.length && pageIndices[end + 1] - pageIndices[end] === step) end++;
+    }
+    runs.push(end > i ? `${start + 1}-${pageIndices[end] + 1}` : `${start + 1}`);
+    i = end;
+  }
+  return runs;
+};
@@ -0,0 +1,368 @@
+
+import {
+  PDFDocument, PDFArray, PDFDict, PDFName, PDFNumber, PDFObject, PDFRawStream, PDFRef, PDFStream, PDFContext,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { CompressionLevel, ImageCompressionInfo, ProgressCallback } from '../types';
+import { bytesEqual, getPageContentBytes, parseContentStream, visitXObjects } from './pdfContentStreamService';
+
+interface CompressionPreset {
+  targetDpi: number; // Images drawn at a higher resolution are downsampled to this
+  jpegQuality: number; // 0-1, passed to the canvas JPEG encoder
+}
+
+export const COMPRESSION_PRESETS: Record<CompressionLevel, CompressionPreset> = {
+  [CompressionLevel.Extreme]: { targetDpi: 72, jpegQuality: 0.4 },
+  [CompressionLevel.Recommended]: { targetDpi: 144, jpegQuality: 0.7 },
+  [CompressionLevel.Low]: { targetDpi: 220, jpegQuality: 0.85 },
+};
+
+export interface CompressPdfResult {
+  pdfBytes: Uint8Array;
+  images: ImageCompressionInfo[];
+  removedObjects: number; // Objects no longer referenced from the document
+  mergedDuplicateStreams: number;
+}
+
+type DrawingCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// OffscreenCanvas where available so this also works off the main thread
+export const createCanvas = (width: number, height: number): DrawingCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const get2dContext = (canvas: DrawingCanvas) => {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  return ctx;
+};
+
+export const canvasToJpeg = async (canvas: DrawingCanvas, quality: number): Promise<Uint8Array> => {
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: 'image/jpeg', quality })
+    : await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) throw new Error('JPEG encoding failed.');
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+export const canvasToPng = async (canvas: DrawingCanvas): Promise<Uint8Array> => {
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: 'image/png' })
+    : await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNG encoding failed.');
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+// Number of colour components for the colour spaces we can re-encode, or undefined if unsupported
+export const getColorComponents = (colorSpace: PDFObject | undefined, context: PDFContext): 1 | 3 | undefined => {
+  if (colorSpace === PDFName.of('DeviceGray')) return 1;
+  if (colorSpace === PDFName.of('DeviceRGB')) return 3;
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = context.lookup(colorSpace.get(1));
+    const n = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of('N')) : undefined;
+    if (n instanceof PDFNumber && (n.asNumber() === 1 || n.asNumber() === 3)) return n.asNumber() as 1 | 3;
+  }
+  return undefined;
+};
+
+// Reverses PNG row predictors (Predictor >= 10 in DecodeParms)
+const undoPngPredictor = (data: Uint8Array, bytesPerPixel: number, columns: number): Uint8Array => {
+  const rowLength = bytesPerPixel * columns;
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i];
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[dst - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[dst - rowLength + i - bytesPerPixel] : 0;
+      let value: number;
+      switch (filter) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+/**
+ * Decodes an image XObject into something a canvas can draw, or returns a reason why it can't be.
+ */
+export const decodeImage = async (
+  stream: PDFRawStream,
+  width: number,
+  height: number,
+  context: PDFContext
+): Promise<{ source: CanvasImageSource } | { skippedReason: string }> => {
+  const { dict } = stream;
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filterName = filter instanceof PDFArray && filter.size() === 1 ? filter.lookup(0) : filter;
+
+  if (dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true') return { skippedReason: 'Stencil mask' };
+  if (dict.has(PDFName.of('Mask'))) return { skippedReason: 'Uses a colour-key mask' };
+  if (dict.has(PDFName.of('Decode'))) return { skippedReason: 'Uses a custom Decode array' };
+  const components = getColorComponents(dict.lookup(PDFName.of('ColorSpace')), context);
+  if (!components) return { skippedReason: 'Unsupported colour space (e.g. CMYK or indexed)' };
+
+  if (filterName === PDFName.of('DCTDecode')) {
+    const bitmap = await createImageBitmap(new Blob([stream.getContents()], { type: 'image/jpeg' }));
+    return { source: bitmap };
+  }
+
+  const bitsPerComponent = dict.lookup(PDFName.of('BitsPerComponent'));
+  if (!(bitsPerComponent instanceof PDFNumber) || bitsPerComponent.asNumber() !== 8) {
+    return { skippedReason: 'Not 8 bits per component' };
+  }
+  let pixels: Uint8Array;
+  try {
+    pixels = decodePDFRawStream(stream).decode();
+  } catch {
+    return { skippedReason: `Unsupported filter ${filterName?.toString() || ''}`.trim() };
+  }
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  const predictor = params instanceof PDFDict ? params.lookup(PDFName.of('Predictor')) : undefined;
+  if (predictor instanceof PDFNumber && predictor.asNumber() >= 10) {
+    pixels = undoPngPredictor(pixels, components, width);
+  } else if (predictor instanceof PDFNumber && predictor.asNumber() > 1) {
+    return { skippedReason: 'Unsupported TIFF predictor' };
+  }
+  if (pixels.length < width * height * components) return { skippedReason: 'Image data is truncated' };
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < width * height; i++, j += components) {
+    rgba[i * 4] = pixels[j];
+    rgba[i * 4 + 1] = components === 3 ? pixels[j + 1] : pixels[j];
+    rgba[i * 4 + 2] = components === 3 ? pixels[j + 2] : pixels[j];
+    rgba[i * 4 + 3] = 255;
+  }
+  const canvas = createCanvas(width, height);
+  get2dContext(canvas).putImageData(new ImageData(rgba, width, height), 0, 0);
+  return { source: canvas };
+};
+
+// Largest size (in points) each image is drawn at across all pages, keyed by the image stream
+const collectImageDisplaySizes = (pdfDoc: PDFDocument) => {
+  const sizes = new Map<PDFStream, { name: string; width: number; height: number }>();
+  for (const page of pdfDoc.getPages()) {
+    let operations;
+    try {
+      operations = parseContentStream(getPageContentBytes(page));
+    } catch (e) {
+      console.warn('Could not parse page content, images on this page are left unchanged:', e);
+      continue;
+    }
+    visitXObjects(operations, page.node.Resources(), ({ name, xObject, ctm }) => {
+      if (xObject.dict.lookup(PDFName.of('Subtype')) !== PDFName.of('Image')) return;
+      const width = Math.hypot(ctm[0], ctm[1]);
+      const height = Math.hypot(ctm[2], ctm[3]);
+      const previous = sizes.get(xObject);
+      sizes.set(xObject, {
+        name,
+        width: Math.max(width, previous?.width || 0),
+        height: Math.max(height, previous?.height || 0),
+      });
+    });
+  }
+  return sizes;
+};
+
+const recompressImages = async (pdfDoc: PDFDocument, preset: CompressionPreset, onProgress?: ProgressCallback): Promise<ImageCompressionInfo[]> => {
+  const context = pdfDoc.context;
+  const refsByObject = new Map<PDFObject, PDFRef>();
+  for (const [ref, object] of context.enumerateIndirectObjects()) refsByObject.set(object, ref);
+
+  const report: ImageCompressionInfo[] = [];
+  const canvasAvailable = typeof OffscreenCanvas !== 'undefined' || typeof document !== 'undefined';
+  const displaySizes = collectImageDisplaySizes(pdfDoc);
+  for (const [index, [stream, display]] of Array.from(displaySizes).entries()) {
+    onProgress?.(index, displaySizes.size); // Reported up front, as most images leave the loop early
+    const ref = refsByObject.get(stream);
+    if (!ref || !(stream instanceof PDFRawStream)) continue;
+    const width = stream.dict.lookup(PDFName.of('Width'), PDFNumber).asNumber();
+    const height = stream.dict.lookup(PDFName.of('Height'), PDFNumber).asNumber();
+    const originalBytes = stream.getContentsSize();
+    // Resolution as drawn: pixels per inch along the less dense axis
+    const effectiveDpi = display.width > 0 && display.height > 0
+      ? Math.min(width / (display.width / 72), height / (display.height / 72))
+      : undefined;
+    const info: ImageCompressionInfo = {
+      name: `${display.name} (obj ${ref.objectNumber})`,
+      originalWidth: width, originalHeight: height, newWidth: width, newHeight: height,
+      originalBytes, newBytes: originalBytes,
+      effectiveDpi: effectiveDpi && Math.round(effectiveDpi),
+    };
+    report.push(info);
+    if (!canvasAvailable) { info.skippedReason = 'No canvas to re-encode images with (e.g. in Node)'; continue; }
+
+    try {
+      const decoded = await decodeImage(stream, width, height, context);
+      if ('skippedReason' in decoded) { info.skippedReason = decoded.skippedReason; continue; }
+
+      const scale = effectiveDpi && effectiveDpi > preset.targetDpi ? preset.targetDpi / effectiveDpi : 1;
+      const newWidth = Math.max(1, Math.round(width * scale));
+      const newHeight = Math.max(1, Math.round(height * scale));
+      const canvas = createCanvas(newWidth, newHeight);
+      const ctx = get2dContext(canvas);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(decoded.source, 0, 0, newWidth, newHeight);
+      if ('close' in decoded.source) decoded.source.close(); // Free ImageBitmap memory early
+      const jpegBytes = await canvasToJpeg(canvas, preset.jpegQuality);
+
+      if (jpegBytes.length >= originalBytes) {
+        info.skippedReason = 'Already smaller than the re-encoded version';
+        continue;
+      }
+
+      const newDict: Record<string, PDFObject | string | number> = {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: newWidth,
+        Height: newHeight,
+        ColorSpace: 'DeviceRGB', // Canvas JPEGs are always RGB
+        BitsPerComponent: 8,
+        Filter: 'DCTDecode',
+      };
+      // A soft mask may have a different resolution than its image, so it can be kept as is
+      for (const key of ['SMask', 'Interpolate', 'Intent']) {
+        const value = stream.dict.get(PDFName.of(key));
+        if (value) newDict[key] = value;
+      }
+      context.assign(ref, context.stream(jpegBytes, newDict));
+      Object.assign(info, { newWidth, newHeight, newBytes: jpegBytes.length });
+    } catch (e) {
+      console.warn(`Could not recompress image ${info.name}:`, e);
+      info.skippedReason = 'Could not be decoded';
+    }
+  }
+  onProgress?.(displaySizes.size, displaySizes.size);
+  return report;
+};
+
+// Cheap content fingerprint; equal fingerprints are confirmed byte by byte
+const fnv1a = (bytes: Uint8Array): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Replaces references throughout an object tree (direct objects only; indirect ones are visited separately)
+const replaceRefs = (object: PDFObject, replacements: Map<PDFRef, PDFRef>) => {
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      if (value instanceof PDFRef && replacements.has(value)) object.set(key, replacements.get(value)!);
+      else replaceRefs(value, replacements);
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      const value = object.get(i);
+      if (value instanceof PDFRef && replacements.has(value)) object.set(i, replacements.get(value)!);
+      else replaceRefs(value, replacements);
+    }
+  } else if (object instanceof PDFStream) {
+    replaceRefs(object.dict, replacements);
+  }
+};
+
+const mergeDuplicateStreams = (context: PDFContext): number => {
+  const seen = new Map<string, { ref: PDFRef; contents: Uint8Array }[]>();
+  const replacements = new Map<PDFRef, PDFRef>();
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const contents = object.getContents();
+    const key = `${object.dict.toString()}|${contents.length}|${fnv1a(contents)}`;
+    const candidates = seen.get(key) || [];
+    const match = candidates.find(candidate => bytesEqual(candidate.contents, contents));
+    if (match) {
+      replacements.set(ref, match.ref);
+    } else {
+      candidates.push({ ref, contents });
+      seen.set(key, candidates);
+    }
+  }
+  if (replacements.size === 0) return 0;
+  for (const [, object] of context.enumerateIndirectObjects()) replaceRefs(object, replacements);
+  replacements.forEach((_, ref) => context.delete(ref));
+  return replacements.size;
+};
+
+// Deletes objects that can't be reached from the trailer (leftovers from edits or incremental updates)
+export const removeUnusedObjects = (context: PDFContext): number => {
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info]
+    .filter((object): object is PDFObject => !!object);
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+};
+
+/**
+ * Downsamples and re-encodes a document's images as JPEG, merges identical streams and drops
+ * unreferenced objects. Save the document with object streams to compress the remaining objects.
+ */
+export const compressPdfDocument = async (
+  pdfDoc: PDFDocument,
+  level: CompressionLevel = CompressionLevel.Recommended,
+  onProgress?: ProgressCallback
+): Promise<Omit<CompressPdfResult, 'pdfBytes'>> => {
+  await pdfDoc.flush(); // Fonts and images embedded by earlier edits are only written out on flush
+  const images = await recompressImages(pdfDoc, COMPRESSION_PRESETS[level], onProgress);
+  const mergedDuplicateStreams = mergeDuplicateStreams(pdfDoc.context);
+  const removedObjects = removeUnusedObjects(pdfDoc.context);
+  return { images, removedObjects, mergedDuplicateStreams };
+};
+
+/**
+ * Compresses a PDF by downsampling and re-encoding embedded images as JPEG, merging identical
+ * streams, dropping unreferenced objects and saving with object streams.
+ */
+export const compressPdf = async (
+  pdfBytes: Uint8Array | ArrayBuffer,
+  level: CompressionLevel = CompressionLevel.Recommended,
+  onProgress?: ProgressCallback
+): Promise<CompressPdfResult> => {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const result = await compressPdfDocument(pdfDoc, level, onProgress);
+
+  // Object streams compress the remaining non-stream objects
+  return { pdfBytes: await pdfDoc.save({ useObjectStreams: true }), ...result };
+};
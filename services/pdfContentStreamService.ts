@@ -0,0 +1,432 @@
+
+import { PDFArray, PDFDict, PDFFlateStream, PDFName, PDFPage, PDFRawStream, PDFStream, decodePDFRawStream } from 'pdf-lib';
+
+// Operands as they appear in a content stream. Kept deliberately simpler than pdf-lib's object model,
+// since content streams cannot contain indirect references.
+export interface ContentName { kind: 'name'; value: string }
+export interface ContentString { kind: 'string'; bytes: Uint8Array; hex: boolean }
+export interface ContentDict { kind: 'dict'; entries: Map<string, ContentOperand> }
+export type ContentOperand = number | boolean | null | ContentName | ContentString | ContentDict | ContentOperand[];
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  inlineImageData?: Uint8Array; // Raw bytes between ID and EI for inline images (operator "BI")
+}
+
+// A transformation matrix [a b c d e f] as used by the cm operator
+export type Matrix = [number, number, number, number, number, number];
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]); // ( ) < > [ ] { } / %
+
+const isRegular = (byte: number) => !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+
+/**
+ * Multiplies two matrices; multiplyMatrices(m, ctm) is the new CTM after "m cm".
+ */
+export const multiplyMatrices = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+];
+
+export const transformPoint = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+export const invertMatrix = ([a, b, c, d, e, f]: Matrix): Matrix | undefined => {
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-12) return undefined;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+};
+
+class ContentTokenizer {
+  private pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  isAtEnd(): boolean {
+    this.skipWhitespaceAndComments();
+    return this.pos >= this.bytes.length;
+  }
+
+  private skipWhitespaceAndComments() {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) { // % comment runs to end of line
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Reads the next operand, or returns an operator keyword as { operator }.
+   */
+  next(): ContentOperand | { operator: string } {
+    this.skipWhitespaceAndComments();
+    const { bytes } = this;
+    const byte = bytes[this.pos];
+
+    if (byte === 0x2f) return this.readName();
+    if (byte === 0x28) return this.readLiteralString();
+    if (byte === 0x5b) {
+      this.pos++;
+      const items: ContentOperand[] = [];
+      while (!this.isAtEnd() && bytes[this.pos] !== 0x5d) {
+        const item = this.next();
+        if (isOperator(item)) throw new Error(`Unexpected operator "${item.operator}" inside array at byte ${this.pos}.`);
+        items.push(item);
+      }
+      this.pos++; // ]
+      return items;
+    }
+    if (byte === 0x3c) {
+      if (bytes[this.pos + 1] === 0x3c) return this.readDict();
+      return this.readHexString();
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x29 || byte === 0x7b || byte === 0x7d) {
+      this.pos++; // Stray delimiter, skip it as viewers do
+      return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const token = String.fromCharCode(...Array.from(bytes.subarray(start, this.pos)));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return parseFloat(token);
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return { operator: token };
+  }
+
+  private readName(): ContentName {
+    const { bytes } = this;
+    this.pos++; // /
+    let value = '';
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) {
+      if (bytes[this.pos] === 0x23 && this.pos + 2 < bytes.length) { // #xx escape
+        value += String.fromCharCode(parseInt(String.fromCharCode(bytes[this.pos + 1], bytes[this.pos + 2]), 16));
+        this.pos += 3;
+      } else {
+        value += String.fromCharCode(bytes[this.pos++]);
+      }
+    }
+    return { kind: 'name', value };
+  }
+
+  private readLiteralString(): ContentString {
+    const { bytes } = this;
+    this.pos++; // (
+    const out: number[] = [];
+    let depth = 1;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+      if (byte === 0x5c) { // backslash escape
+        const next = bytes[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d: if (bytes[this.pos] === 0x0a) this.pos++; break; // Line continuation
+          case 0x0a: break;
+          default:
+            if (next >= 0x30 && next <= 0x37) { // Octal, up to 3 digits
+              let code = next - 0x30;
+              for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+                code = code * 8 + (bytes[this.pos++] - 0x30);
+              }
+              out.push(code & 0xff);
+            } else {
+              out.push(next);
+            }
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        out.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        out.push(byte);
+      } else {
+        out.push(byte);
+      }
+    }
+    return { kind: 'string', bytes: Uint8Array.from(out), hex: false };
+  }
+
+  private readHexString(): ContentString {
+    const { bytes } = this;
+    this.pos++; // <
+    let hex = '';
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const byte = bytes[this.pos++];
+      if (!WHITESPACE.has(byte)) hex += String.fromCharCode(byte);
+    }
+    this.pos++; // >
+    if (hex.length % 2) hex += '0';
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.substr(i * 2, 2), 16) || 0;
+    return { kind: 'string', bytes: out, hex: true };
+  }
+
+  private readDict(): ContentDict {
+    const { bytes } = this;
+    this.pos += 2; // <<
+    const entries = new Map<string, ContentOperand>();
+    while (!this.isAtEnd()) {
+      if (bytes[this.pos] === 0x3e && bytes[this.pos + 1] === 0x3e) { this.pos += 2; break; }
+      const key = this.next();
+      if (isOperator(key) || !isName(key)) throw new Error(`Invalid dictionary key at byte ${this.pos}.`);
+      const value = this.next();
+      if (isOperator(value)) throw new Error(`Unexpected operator "${value.operator}" inside dictionary at byte ${this.pos}.`);
+      entries.set(key.value, value);
+    }
+    return { kind: 'dict', entries };
+  }
+
+  /**
+   * Reads the inline image dictionary and data following a BI operator.
+   */
+  readInlineImage(): { dict: ContentDict; data: Uint8Array } {
+    const { bytes } = this;
+    const entries = new Map<string, ContentOperand>();
+    while (!this.isAtEnd()) {
+      const key = this.next();
+      if (isOperator(key)) {
+        if (key.operator === 'ID') break;
+        throw new Error(`Unexpected operator "${key.operator}" in inline image at byte ${this.pos}.`);
+      }
+      if (!isName(key)) throw new Error(`Invalid inline image key at byte ${this.pos}.`);
+      const value = this.next();
+      if (isOperator(value)) throw new Error(`Unexpected operator "${value.operator}" in inline image at byte ${this.pos}.`);
+      entries.set(key.value, value);
+    }
+    this.pos++; // Single whitespace after ID
+    const dataStart = this.pos;
+    // The data ends at "EI" surrounded by whitespace. Binary data may contain "EI", so also require
+    // that what follows looks like the end of the data.
+    while (this.pos < bytes.length) {
+      if (bytes[this.pos] === 0x45 && bytes[this.pos + 1] === 0x49 &&
+          (this.pos === dataStart || WHITESPACE.has(bytes[this.pos - 1])) &&
+          (this.pos + 2 >= bytes.length || WHITESPACE.has(bytes[this.pos + 2]) || DELIMITERS.has(bytes[this.pos + 2]))) {
+        break;
+      }
+      this.pos++;
+    }
+    let dataEnd = this.pos;
+    if (dataEnd > dataStart && WHITESPACE.has(bytes[dataEnd - 1])) dataEnd--;
+    const data = bytes.slice(dataStart, dataEnd);
+    this.pos += 2; // EI
+    return { dict: { kind: 'dict', entries }, data };
+  }
+}
+
+const isOperator = (token: ContentOperand | { operator: string }): token is { operator: string } =>
+  typeof token === 'object' && token !== null && !Array.isArray(token) && 'operator' in token;
+
+export const isName = (operand: ContentOperand | undefined): operand is ContentName =>
+  typeof operand === 'object' && operand !== null && !Array.isArray(operand) && operand.kind === 'name';
+
+export const isContentString = (operand: ContentOperand | undefined): operand is ContentString =>
+  typeof operand === 'object' && operand !== null && !Array.isArray(operand) && operand.kind === 'string';
+
+/**
+ * Parses decoded content stream bytes into a flat list of operations.
+ * @throws Error on malformed syntax that cannot be recovered from.
+ */
+export const parseContentStream = (bytes: Uint8Array): ContentOperation[] => {
+  const tokenizer = new ContentTokenizer(bytes);
+  const operations: ContentOperation[] = [];
+  let operands: ContentOperand[] = [];
+
+  while (!tokenizer.isAtEnd()) {
+    const token = tokenizer.next();
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+    if (token.operator === 'BI') {
+      const { dict, data } = tokenizer.readInlineImage();
+      operations.push({ operator: 'BI', operands: [dict], inlineImageData: data });
+    } else if (token.operator) {
+      operations.push({ operator: token.operator, operands });
+    }
+    operands = [];
+  }
+  return operations;
+};
+
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Returns the decoded bytes of a content stream or of a Form XObject.
+ */
+export const decodeStreamBytes = (stream: PDFStream): Uint8Array => {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  if (stream instanceof PDFFlateStream) {
+    return stream.getUnencodedContents(); // Streams created by pdf-lib in this session
+  }
+  return stream.getContents();
+};
+
+/**
+ * Returns the page's content streams concatenated, as viewers interpret them.
+ */
+export const getPageContentBytes = (page: PDFPage): Uint8Array => {
+  const contents = page.node.Contents();
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+  const parts = streams.map(decodeStreamBytes);
+  const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+    result[offset++] = 0x0a; // Streams are separated by whitespace
+  }
+  return result;
+};
+
+export interface XObjectVisit {
+  name: string;
+  xObject: PDFStream;
+  ctm: Matrix; // CTM at the Do operator; maps the unit square to the drawn area for images
+}
+
+/**
+ * Walks a content stream tracking the graphics state, and reports every XObject drawn, recursing into
+ * Form XObjects with their own resources and matrix.
+ */
+export const visitXObjects = (
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  onXObject: (visit: XObjectVisit) => void,
+  initialCtm: Matrix = IDENTITY_MATRIX,
+  depth = 0
+) => {
+  if (depth > 10) return; // Guard against cyclic forms
+  const stack: Matrix[] = [];
+  let ctm = initialCtm;
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+
+  for (const op of operations) {
+    switch (op.operator) {
+      case 'q': stack.push(ctm); break;
+      case 'Q': ctm = stack.pop() || ctm; break;
+      case 'cm':
+        if (op.operands.length === 6 && op.operands.every(o => typeof o === 'number')) {
+          ctm = multiplyMatrices(op.operands as Matrix, ctm);
+        }
+        break;
+      case 'Do': {
+        const name = op.operands[0];
+        if (!isName(name) || !xObjects) break;
+        const xObject = xObjects.lookup(PDFName.of(name.value));
+        if (!(xObject instanceof PDFStream)) break;
+        onXObject({ name: name.value, xObject, ctm });
+        if (xObject.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form')) {
+          const matrixArray = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+          const formMatrix = matrixArray
+            ? (matrixArray.asArray().map(n => Number(n.toString())) as Matrix)
+            : IDENTITY_MATRIX;
+          const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || resources;
+          try {
+            const formOps = parseContentStream(decodeStreamBytes(xObject));
+            visitXObjects(formOps, formResources, onXObject, multiplyMatrices(formMatrix, ctm), depth + 1);
+          } catch (e) {
+            console.warn(`Could not parse form XObject ${name.value}:`, e);
+          }
+        }
+        break;
+      }
+    }
+  }
+};
+
+const formatNumber = (value: number) => {
+  if (Number.isInteger(value)) return String(value);
+  const fixed = value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+  return fixed === '-0' ? '0' : fixed;
+};
+
+const serializeName = (value: string) =>
+  '/' + Array.from(value, char => {
+    const code = char.charCodeAt(0);
+    return code < 0x21 || code > 0x7e || code === 0x23 || DELIMITERS.has(code)
+      ? `#${code.toString(16).padStart(2, '0')}`
+      : char;
+  }).join('');
+
+const serializeString = (operand: ContentString) => {
+  if (operand.hex) {
+    return `<${Array.from(operand.bytes, byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+  }
+  let out = '(';
+  for (const byte of operand.bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`;
+    else if (byte === 0x0a) out += '\\n';
+    else if (byte === 0x0d) out += '\\r';
+    else if (byte < 0x20 || byte > 0x7e) out += `\\${byte.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return `${out})`;
+};
+
+const serializeOperand = (operand: ContentOperand): string => {
+  if (typeof operand === 'number') return formatNumber(operand);
+  if (typeof operand === 'boolean') return String(operand);
+  if (operand === null) return 'null';
+  if (Array.isArray(operand)) return `[${operand.map(serializeOperand).join(' ')}]`;
+  if (operand.kind === 'name') return serializeName(operand.value);
+  if (operand.kind === 'string') return serializeString(operand);
+  return `<<${Array.from(operand.entries, ([key, value]) => `${serializeName(key)} ${serializeOperand(value)}`).join(' ')}>>`;
+};
+
+/**
+ * Writes operations back to content stream bytes; the inverse of parseContentStream.
+ */
+export const serializeContentStream = (operations: ContentOperation[]): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  const encodeLatin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+  for (const op of operations) {
+    if (op.operator === 'BI') {
+      const dict = op.operands[0] as ContentDict;
+      const entries = Array.from(dict.entries, ([key, value]) => `${serializeName(key)} ${serializeOperand(value)}`);
+      parts.push(encodeLatin1(`BI ${entries.join(' ')} ID `));
+      parts.push(op.inlineImageData ?? new Uint8Array());
+      parts.push(encodeLatin1('\nEI\n'));
+    } else {
+      const operands = op.operands.map(serializeOperand);
+      parts.push(encodeLatin1(`${[...operands, op.operator].join(' ')}\n`));
+    }
+  }
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
@@ -0,0 +1,406 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFObject, PDFStream, StandardFontEmbedder, StandardFonts } from 'pdf-lib';
+import { decodeStreamBytes } from './pdfContentStreamService';
+
+// Font decoding for text extraction and redaction: splitting shown strings into character codes,
+// mapping codes to Unicode (ISO 32000-2, section 9.10) and to glyph widths (section 9.2.4).
+
+export interface DecodedGlyph {
+  code: number;
+  bytes: Uint8Array; // The code's bytes as they appear in the shown string
+  unicode: string; // '' if the font gives no way to map the code
+  width: number; // Horizontal advance in text space units, i.e. before scaling by the font size
+}
+
+export interface PdfFontInfo {
+  decode: (bytes: Uint8Array) => DecodedGlyph[];
+  ascent: number; // Above the baseline, in text space units
+  descent: number; // Negative, in text space units
+  exact: boolean; // false if code lengths or widths had to be guessed
+}
+
+interface CMapData {
+  codespaces: { length: number; low: number[]; high: number[] }[];
+  unicode: Map<number, string>;
+  cids: Map<number, number>;
+  cidRanges: { low: number; high: number; cid: number }[];
+}
+
+const bytesToNumber = (bytes: number[]) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+const hexToBytes = (hex: string): number[] => {
+  const clean = hex.replace(/\s+/g, '');
+  const padded = clean.length % 2 ? `${clean}0` : clean;
+  const bytes: number[] = [];
+  for (let i = 0; i < padded.length; i += 2) bytes.push(parseInt(padded.substr(i, 2), 16));
+  return bytes;
+};
+
+const utf16ToString = (bytes: number[]) => {
+  const units: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) units.push((bytes[i] << 8) | bytes[i + 1]);
+  return String.fromCharCode(...units);
+};
+
+/**
+ * Parses the parts of a CMap (embedded encoding or ToUnicode) needed to split and map codes.
+ */
+const parseCMap = (bytes: Uint8Array): CMapData => {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const tokens = text.match(/<[0-9A-Fa-f\s]*>|\[|\]|\/[^\s/[\]<>(){}%]+|-?\d+(?:\.\d+)?|[A-Za-z_][\w.]*|\([^)]*\)/g) || [];
+  const data: CMapData = { codespaces: [], unicode: new Map(), cids: new Map(), cidRanges: [] };
+  const isHex = (token: string | undefined) => !!token && token.startsWith('<');
+  const hex = (token: string) => hexToBytes(token.slice(1, -1));
+  const toUnicode = (token: string) => (token.startsWith('/') ? glyphNameToUnicode(token.slice(1)) : utf16ToString(hex(token)));
+
+  for (let i = 0; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case 'begincodespacerange':
+        for (i++; isHex(tokens[i]) && isHex(tokens[i + 1]); i += 2) {
+          const low = hex(tokens[i]);
+          data.codespaces.push({ length: low.length, low, high: hex(tokens[i + 1]) });
+        }
+        break;
+      case 'beginbfchar':
+        for (i++; isHex(tokens[i]) && tokens[i + 1] && tokens[i + 1] !== 'endbfchar'; i += 2) {
+          data.unicode.set(bytesToNumber(hex(tokens[i])), toUnicode(tokens[i + 1]));
+        }
+        break;
+      case 'beginbfrange':
+        for (i++; isHex(tokens[i]) && isHex(tokens[i + 1]); ) {
+          const low = bytesToNumber(hex(tokens[i]));
+          const high = bytesToNumber(hex(tokens[i + 1]));
+          i += 2;
+          if (tokens[i] === '[') {
+            for (let code = low, j = i + 1; tokens[j] !== ']' && j < tokens.length; j++, code++) {
+              data.unicode.set(code, toUnicode(tokens[j]));
+              i = j;
+            }
+            i += 2; // Past "]"
+          } else if (isHex(tokens[i])) {
+            // Consecutive codes map to consecutive values of the destination's last character
+            const start = utf16ToString(hex(tokens[i]));
+            const prefix = start.slice(0, -1);
+            const last = start.charCodeAt(start.length - 1);
+            for (let code = low; code <= high && code - low < 0x10000; code++) {
+              data.unicode.set(code, prefix + String.fromCharCode(last + code - low));
+            }
+            i++;
+          } else {
+            i++;
+          }
+        }
+        break;
+      case 'begincidchar':
+        for (i++; isHex(tokens[i]) && tokens[i + 1] !== undefined && /^\d+$/.test(tokens[i + 1]); i += 2) {
+          data.cids.set(bytesToNumber(hex(tokens[i])), parseInt(tokens[i + 1], 10));
+        }
+        break;
+      case 'begincidrange':
+        for (i++; isHex(tokens[i]) && isHex(tokens[i + 1]) && /^\d+$/.test(tokens[i + 2] || ''); i += 3) {
+          data.cidRanges.push({ low: bytesToNumber(hex(tokens[i])), high: bytesToNumber(hex(tokens[i + 1])), cid: parseInt(tokens[i + 2], 10) });
+        }
+        break;
+    }
+  }
+  return data;
+};
+
+// Splits a string into codes using the codespace ranges; unmatched bytes use the shortest code length
+const splitCodes = (bytes: Uint8Array, codespaces: CMapData['codespaces']): number[][] => {
+  const lengths = [...new Set(codespaces.map(range => range.length))].sort((a, b) => a - b);
+  const fallbackLength = lengths[0] || 1;
+  const codes: number[][] = [];
+  let pos = 0;
+  while (pos < bytes.length) {
+    let matchedLength = 0;
+    for (const length of lengths) {
+      if (pos + length > bytes.length) break;
+      const candidate = bytes.subarray(pos, pos + length);
+      const inRange = codespaces.some(range =>
+        range.length === length && range.low.every((low, k) => candidate[k] >= low && candidate[k] <= range.high[k]));
+      if (inRange) { matchedLength = length; break; }
+    }
+    const length = Math.min(matchedLength || fallbackLength, bytes.length - pos);
+    codes.push(Array.from(bytes.subarray(pos, pos + length)));
+    pos += length;
+  }
+  return codes;
+};
+
+// Glyph names (Adobe Glyph List subset) for characters that are not their own name
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&', quotesingle: "'",
+  parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|',
+  braceright: '}', asciitilde: '~', quoteleft: '‘', quoteright: '’', quotedblleft: '“',
+  quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„', endash: '–', emdash: '—',
+  bullet: '•', ellipsis: '…', dagger: '†', daggerdbl: '‡', perthousand: '‰',
+  guillemotleft: '«', guillemotright: '»', guilsinglleft: '‹', guilsinglright: '›',
+  exclamdown: '¡', questiondown: '¿', cent: '¢', sterling: '£', yen: '¥', Euro: '€',
+  currency: '¤', florin: 'ƒ', section: '§', paragraph: '¶', copyright: '©',
+  registered: '®', trademark: '™', degree: '°', plusminus: '±', multiply: '×',
+  divide: '÷', minus: '−', fraction: '⁄', periodcentered: '·', ordfeminine: 'ª',
+  ordmasculine: 'º', onehalf: '½', onequarter: '¼', threequarters: '¾', mu: 'µ',
+  germandbls: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø',
+  lslash: 'ł', Lslash: 'Ł', dotlessi: 'ı', eth: 'ð', Eth: 'Ð', thorn: 'þ',
+  Thorn: 'Þ', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', nbspace: '\u00A0', sfthyphen: '\u00AD',
+  brokenbar: '¦', logicalnot: '¬', macron: '¯', acute: '´', cedilla: '¸',
+  dieresis: '¨', circumflex: 'ˆ', tilde: '˜', ring: '˚', caron: 'ˇ', breve: '˘',
+  dotaccent: '˙', hungarumlaut: '˝', ogonek: '˛', onesuperior: '¹', twosuperior: '²',
+  threesuperior: '³',
+};
+
+// Accented letters are named after the letter and accent, e.g. "eacute"; composed with Unicode normalization
+const COMBINING_ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', dieresis: '\u0308', tilde: '\u0303', ring: '\u030A',
+  cedilla: '\u0327', caron: '\u030C', macron: '\u0304', breve: '\u0306', ogonek: '\u0328', dotaccent: '\u0307',
+  hungarumlaut: '\u030B',
+};
+
+export const glyphNameToUnicode = (glyphName: string): string => {
+  const name = glyphName.split('.')[0]; // Drop variant suffixes such as ".sc"
+  if (name.includes('_')) return name.split('_').map(glyphNameToUnicode).join(''); // Ligatures, e.g. "f_f_i"
+  if (/^[A-Za-z]$/.test(name)) return name;
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  const uni = name.match(/^uni((?:[0-9A-F]{4})+)$/);
+  if (uni) return String.fromCharCode(...(uni[1].match(/.{4}/g) || []).map(unit => parseInt(unit, 16)));
+  const u = name.match(/^u([0-9A-F]{4,6})$/);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+  const accented = name.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron|breve|ogonek|dotaccent|hungarumlaut)$/);
+  if (accented) return (accented[1] + COMBINING_ACCENTS[accented[2]]).normalize('NFC');
+  return '';
+};
+
+// Base encodings as code -> Unicode, for the codes where they differ from ISO Latin-1
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘',
+  0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜',
+  0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø¿¡¬√ƒ≈∆«»…\u00A0ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uF8FFÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+const STANDARD_HIGH: Record<number, string> = {
+  0x27: '’', 0x60: '‘', 0xa1: '¡', 0xa2: '¢', 0xa3: '£', 0xa4: '⁄', 0xa5: '¥', 0xa6: 'ƒ', 0xa7: '§', 0xa8: '¤',
+  0xa9: "'", 0xaa: '“', 0xab: '«', 0xac: '‹', 0xad: '›', 0xae: 'ﬁ', 0xaf: 'ﬂ', 0xb1: '–', 0xb2: '†', 0xb3: '‡',
+  0xb4: '·', 0xb6: '¶', 0xb7: '•', 0xb8: '‚', 0xb9: '„', 0xba: '”', 0xbb: '»', 0xbc: '…', 0xbd: '‰', 0xbf: '¿',
+  0xc1: '`', 0xc2: '´', 0xc3: 'ˆ', 0xc4: '˜', 0xc5: '¯', 0xc6: '˘', 0xc7: '˙', 0xc8: '¨', 0xca: '˚', 0xcb: '¸',
+  0xcd: '˝', 0xce: '˛', 0xcf: 'ˇ', 0xd0: '—', 0xe1: 'Æ', 0xe3: 'ª', 0xe8: 'Ł', 0xe9: 'Ø', 0xea: 'Œ', 0xeb: 'º',
+  0xf1: 'æ', 0xf5: 'ı', 0xf8: 'ł', 0xf9: 'ø', 0xfa: 'œ', 0xfb: 'ß',
+};
+
+const baseEncodingUnicode = (encoding: string, code: number): string => {
+  if (encoding === 'MacRomanEncoding' && code >= 0x80) return MAC_ROMAN_HIGH[code - 0x80] || '';
+  if (encoding === 'StandardEncoding') {
+    if (STANDARD_HIGH[code] !== undefined) return STANDARD_HIGH[code];
+    return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : '';
+  }
+  if (encoding === 'WinAnsiEncoding' && WIN_ANSI_HIGH[code] !== undefined) return WIN_ANSI_HIGH[code];
+  return code >= 0x20 && code !== 0x7f && (code < 0x80 || code >= 0xa0) ? String.fromCharCode(code) : '';
+};
+
+// Maps a font name to one of the standard 14 fonts, whose widths pdf-lib knows
+const standardFontFor = (baseFont: string): StandardFonts | undefined => {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '').toLowerCase().replace(/[-,\s]|ps|mt$/g, '');
+  const bold = name.includes('bold');
+  const italic = name.includes('italic') || name.includes('oblique');
+  if (name.includes('courier')) {
+    return bold ? (italic ? StandardFonts.CourierBoldOblique : StandardFonts.CourierBold) : italic ? StandardFonts.CourierOblique : StandardFonts.Courier;
+  }
+  if (name.includes('times')) {
+    return bold ? (italic ? StandardFonts.TimesRomanBoldItalic : StandardFonts.TimesRomanBold) : italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman;
+  }
+  if (name.includes('helvetica') || name.includes('arial')) {
+    return bold ? (italic ? StandardFonts.HelveticaBoldOblique : StandardFonts.HelveticaBold) : italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica;
+  }
+  if (name === 'symbol') return StandardFonts.Symbol;
+  if (name === 'zapfdingbats') return StandardFonts.ZapfDingbats;
+  return undefined;
+};
+
+const numberOf = (object: PDFObject | undefined, fallback = 0) => (object instanceof PDFNumber ? object.asNumber() : fallback);
+
+const numbersOf = (array: PDFArray | undefined) => array?.asArray().map(item => numberOf(item)) ?? [];
+
+const getFontMetrics = (descriptor: PDFDict | undefined, scale: number, fontBBox?: number[]) => {
+  let ascent = numberOf(descriptor?.lookup(PDFName.of('Ascent'))) * scale;
+  let descent = numberOf(descriptor?.lookup(PDFName.of('Descent'))) * scale;
+  const bbox = fontBBox ?? numbersOf(descriptor?.lookupMaybe(PDFName.of('FontBBox'), PDFArray));
+  if (ascent <= 0 && bbox.length === 4) ascent = bbox[3] * scale;
+  if (descent >= 0 && bbox.length === 4) descent = bbox[1] * scale;
+  return { ascent: ascent > 0 ? ascent : 0.8, descent: descent < 0 ? descent : -0.2 };
+};
+
+const readToUnicode = (font: PDFDict): Map<number, string> | undefined => {
+  const toUnicode = font.lookup(PDFName.of('ToUnicode'));
+  if (!(toUnicode instanceof PDFStream)) return undefined;
+  try {
+    return parseCMap(decodeStreamBytes(toUnicode)).unicode;
+  } catch {
+    return undefined;
+  }
+};
+
+const loadSimpleFont = (font: PDFDict, subtype: string): PdfFontInfo => {
+  const toUnicode = readToUnicode(font);
+  const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+  const isType3 = subtype === 'Type3';
+  const fontMatrix = isType3 ? numbersOf(font.lookupMaybe(PDFName.of('FontMatrix'), PDFArray)) : [];
+  const widthScale = isType3 && fontMatrix.length === 6 ? fontMatrix[0] : 0.001;
+  const verticalScale = isType3 && fontMatrix.length === 6 ? fontMatrix[3] || fontMatrix[0] : 0.001;
+  const fontBBox = isType3 ? numbersOf(font.lookupMaybe(PDFName.of('FontBBox'), PDFArray)) : undefined;
+
+  // Encoding: base encoding plus Differences
+  const encoding = font.lookup(PDFName.of('Encoding'));
+  const differences = new Map<number, string>();
+  let baseEncoding = subtype === 'TrueType' ? 'WinAnsiEncoding' : 'StandardEncoding';
+  if (encoding instanceof PDFName) baseEncoding = encoding.decodeText();
+  if (encoding instanceof PDFDict) {
+    const base = encoding.lookup(PDFName.of('BaseEncoding'));
+    if (base instanceof PDFName) baseEncoding = base.decodeText();
+    let code = 0;
+    encoding.lookupMaybe(PDFName.of('Differences'), PDFArray)?.asArray().forEach(item => {
+      if (item instanceof PDFNumber) code = item.asNumber();
+      else if (item instanceof PDFName) differences.set(code++, item.decodeText());
+    });
+  }
+  const unicodeFor = (code: number) => {
+    const mapped = toUnicode?.get(code);
+    if (mapped !== undefined) return mapped;
+    const glyphName = differences.get(code);
+    return glyphName !== undefined ? glyphNameToUnicode(glyphName) : baseEncodingUnicode(baseEncoding, code);
+  };
+
+  // Widths: the Widths array, else the standard 14 font metrics
+  const firstChar = numberOf(font.lookup(PDFName.of('FirstChar')));
+  const widths = numbersOf(font.lookupMaybe(PDFName.of('Widths'), PDFArray));
+  const missingWidth = numberOf(descriptor?.lookup(PDFName.of('MissingWidth')));
+  const baseFont = font.lookup(PDFName.of('BaseFont'));
+  const standardFont = widths.length === 0 && baseFont instanceof PDFName ? standardFontFor(baseFont.decodeText()) : undefined;
+  const standardMetrics = standardFont ? StandardFontEmbedder.for(standardFont as unknown as Parameters<typeof StandardFontEmbedder.for>[0]) : undefined;
+  const widthFor = (code: number) => {
+    if (widths.length > 0) {
+      const width = widths[code - firstChar];
+      return (width !== undefined ? width : missingWidth) * widthScale;
+    }
+    if (standardMetrics) {
+      try {
+        return standardMetrics.widthOfTextAtSize(unicodeFor(code) || ' ', 1);
+      } catch {
+        return 0.5; // Character outside the font's encoding
+      }
+    }
+    return 0.5;
+  };
+
+  const cache = new Map<number, DecodedGlyph>();
+  return {
+    decode: bytes => Array.from(bytes, code => {
+      let glyph = cache.get(code);
+      if (!glyph) {
+        glyph = { code, bytes: Uint8Array.of(code), unicode: unicodeFor(code), width: widthFor(code) };
+        cache.set(code, glyph);
+      }
+      return glyph;
+    }),
+    ...getFontMetrics(descriptor, isType3 ? verticalScale : 0.001, fontBBox),
+    exact: widths.length > 0 || !!standardMetrics,
+  };
+};
+
+const loadCompositeFont = (font: PDFDict): PdfFontInfo => {
+  const toUnicode = readToUnicode(font);
+  const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+  const cidFont = descendant instanceof PDFDict ? descendant : undefined;
+  const descriptor = cidFont?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+
+  // Encoding CMap: Identity, embedded, or a predefined CMap we can only approximate
+  const encoding = font.lookup(PDFName.of('Encoding'));
+  let cmap: CMapData | undefined;
+  let exact = true;
+  let unicodeFromCode = false;
+  if (encoding instanceof PDFStream) {
+    try {
+      cmap = parseCMap(decodeStreamBytes(encoding));
+    } catch {
+      exact = false;
+    }
+  } else {
+    const name = encoding instanceof PDFName ? encoding.decodeText() : '';
+    if (!name.startsWith('Identity-') || name.endsWith('-V')) exact = false; // Vertical text is positioned as horizontal
+    unicodeFromCode = /UCS2|UTF16/.test(name);
+  }
+  const codespaces = cmap && cmap.codespaces.length > 0 ? cmap.codespaces : [{ length: 2, low: [0, 0], high: [0xff, 0xff] }];
+  const cidFor = (code: number) => {
+    if (!cmap) return code;
+    const cid = cmap.cids.get(code);
+    if (cid !== undefined) return cid;
+    const range = cmap.cidRanges.find(r => code >= r.low && code <= r.high);
+    return range ? range.cid + code - range.low : 0;
+  };
+
+  // Widths: W array of "c [w1 w2 ...]" and "cFirst cLast w" entries, DW for the rest
+  const defaultWidth = numberOf(cidFont?.lookup(PDFName.of('DW')), 1000);
+  const cidWidths = new Map<number, number>();
+  const w = cidFont?.lookupMaybe(PDFName.of('W'), PDFArray);
+  if (w) {
+    const items = w.asArray().map(item => cidFont!.context.lookup(item));
+    for (let i = 0; i < items.length; ) {
+      const first = numberOf(items[i]);
+      const next = items[i + 1];
+      if (next instanceof PDFArray) {
+        numbersOf(next).forEach((width, k) => cidWidths.set(first + k, width));
+        i += 2;
+      } else {
+        const last = numberOf(next);
+        const width = numberOf(items[i + 2]);
+        for (let cid = first; cid <= last && cid - first < 0x10000; cid++) cidWidths.set(cid, width);
+        i += 3;
+      }
+    }
+  }
+
+  const cache = new Map<string, DecodedGlyph>();
+  return {
+    decode: bytes => splitCodes(bytes, codespaces).map(codeBytes => {
+      const key = codeBytes.join(',');
+      let glyph = cache.get(key);
+      if (!glyph) {
+        const code = bytesToNumber(codeBytes);
+        const cid = cidFor(code);
+        const unicode = toUnicode?.get(code) ?? (unicodeFromCode ? utf16ToString(codeBytes) : '');
+        glyph = { code, bytes: Uint8Array.from(codeBytes), unicode, width: (cidWidths.get(cid) ?? defaultWidth) / 1000 };
+        cache.set(key, glyph);
+      }
+      return glyph;
+    }),
+    ...getFontMetrics(descriptor, 0.001),
+    exact,
+  };
+};
+
+const fontCache = new WeakMap<PDFDict, PdfFontInfo>();
+
+/**
+ * Returns decoding information for a font dictionary from a page's resources.
+ */
+export const loadPdfFont = (font: PDFDict): PdfFontInfo => {
+  let info = fontCache.get(font);
+  if (!info) {
+    const subtype = font.lookup(PDFName.of('Subtype'));
+    const subtypeName = subtype instanceof PDFName ? subtype.decodeText() : 'Type1';
+    info = subtypeName === 'Type0' ? loadCompositeFont(font) : loadSimpleFont(font, subtypeName);
+    fontCache.set(font, info);
+  }
+  return info;
+};
+
+// Used when a Tf operator names a font that isn't in the resources
+export const UNKNOWN_FONT: PdfFontInfo = {
+  decode: bytes => Array.from(bytes, code => ({ code, bytes: Uint8Array.of(code), unicode: '', width: 0.5 })),
+  ascent: 0.8,
+  descent: -0.2,
+  exact: false,
+};
@@ -0,0 +1,316 @@
+import {
+  PDFArray, PDFCheckBox, PDFDict, PDFDocument, PDFDropdown, PDFField, PDFForm, PDFHexString, PDFName, PDFObject, PDFOptionList,
+  PDFParser, PDFRadioGroup, PDFSignature, PDFString, PDFTextField,
+} from 'pdf-lib';
+import { PdfFormField, PdfFormValue, PdfFormValues } from '../types';
+import { escapeXml, unescapeXml } from './pdfMetadataService';
+
+// AcroForm filling (ISO 32000-2, section 12.7) and field value exchange as JSON, FDF and XFDF (section 12.7.8)
+
+const toFormField = (field: PDFField): PdfFormField | undefined => {
+  const common = { name: field.getName(), readOnly: field.isReadOnly() };
+  if (field instanceof PDFTextField) {
+    return { ...common, type: 'text', value: field.getText() ?? '', multiline: field.isMultiline(), maxLength: field.getMaxLength() };
+  }
+  if (field instanceof PDFCheckBox) {
+    return { ...common, type: 'checkbox', value: field.isChecked(), onValue: field.acroField.getOnValue()?.decodeText() ?? 'Yes' };
+  }
+  if (field instanceof PDFRadioGroup) {
+    return { ...common, type: 'radio', value: field.getSelected() ?? '', options: field.getOptions() };
+  }
+  if (field instanceof PDFDropdown) {
+    return { ...common, type: 'dropdown', value: field.getSelected(), options: field.getOptions(), multiSelect: field.isMultiselect(), editable: field.isEditable() };
+  }
+  if (field instanceof PDFOptionList) {
+    return { ...common, type: 'list', value: field.getSelected(), options: field.getOptions(), multiSelect: field.isMultiselect() };
+  }
+  if (field instanceof PDFSignature) {
+    return { ...common, type: 'signature', value: '' };
+  }
+  return undefined; // Push buttons have no value
+};
+
+/**
+ * Lists the document's fillable AcroForm fields with their current values.
+ */
+export const readPdfFormFields = async (pdfFile: File): Promise<PdfFormField[]> => {
+  const pdfDoc = await PDFDocument.load(await pdfFile.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+  return pdfDoc.getForm().getFields()
+    .map(toFormField)
+    .filter((field): field is PdfFormField => !!field);
+};
+
+// Flattens every field except signature fields, which stay so the document can still be signed.
+// PDFForm.flatten would also fail on them, since unsigned signature fields often have no appearance.
+const flattenFields = (form: PDFForm) => {
+  const detached = form.getFields()
+    .filter((field): field is PDFSignature => field instanceof PDFSignature)
+    .map(signature => {
+      const siblings = signature.acroField.getParent()?.Kids() ?? form.acroForm.Fields();
+      const index = siblings?.indexOf(signature.ref);
+      if (siblings && index !== undefined) siblings.remove(index);
+      return { siblings, ref: signature.ref };
+    });
+  form.flatten();
+  detached.forEach(({ siblings, ref }) => siblings?.push(ref));
+};
+
+const asStrings = (value: PdfFormValue): string[] =>
+  Array.isArray(value) ? value : typeof value === 'boolean' ? [String(value)] : value ? [value] : [];
+
+// Checkbox values arrive as booleans (JSON) or as the on-state name / "Off" (FDF, XFDF)
+const isCheckedValue = (value: PdfFormValue) =>
+  value === true || (typeof value === 'string' && !['', 'off', 'false'].includes(value.toLowerCase()));
+
+/**
+ * Writes the values into the form fields, then either keeps them editable or flattens them into
+ * page content. Read-only, signature and unknown fields are left alone.
+ */
+export const fillPdfForm = async (pdfFile: File, values: PdfFormValues, flatten: boolean): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(await pdfFile.arrayBuffer(), { ignoreEncryption: true });
+  const form = pdfDoc.getForm();
+  const font = form.getDefaultFont();
+
+  for (const field of form.getFields()) {
+    const name = field.getName();
+    const value = values[name];
+    if (value === undefined || field.isReadOnly()) continue;
+    try {
+      if (field instanceof PDFTextField) {
+        const text = asStrings(value).join(', ');
+        font.encodeText(text); // Fails early, with the field name, on characters the form font can't show
+        if (text) field.setText(text);
+        else field.setText(undefined);
+      } else if (field instanceof PDFCheckBox) {
+        if (isCheckedValue(value)) field.check();
+        else field.uncheck();
+      } else if (field instanceof PDFRadioGroup) {
+        const option = asStrings(value)[0];
+        if (option) field.select(option);
+        else field.clear();
+      } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+        const selected = asStrings(value);
+        selected.forEach(option => font.encodeText(option));
+        if (selected.length > 0) field.select(selected);
+        else field.clear();
+      }
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(`Could not fill the field "${name}": ${reason}`);
+    }
+  }
+
+  if (flatten) flattenFields(form);
+  return pdfDoc.save();
+};
+
+/**
+ * Applies imported values to the fields, converting them to each field's value type. Returns the
+ * updated fields and the imported names that match no field.
+ */
+export const applyFormValues = (fields: PdfFormField[], values: PdfFormValues) => {
+  const known = new Set(fields.map(field => field.name));
+  const updated = fields.map((field): PdfFormField => {
+    const value = values[field.name];
+    if (value === undefined || field.type === 'signature') return field;
+    switch (field.type) {
+      case 'text':
+        return { ...field, value: asStrings(value).join(', ') };
+      case 'checkbox':
+        return { ...field, value: isCheckedValue(value) };
+      case 'radio': {
+        let option = asStrings(value)[0] ?? '';
+        // FDF exports of fields with an /Opt array name the selected widget by index
+        if (option && !field.options?.includes(option) && /^\d+$/.test(option)) option = field.options?.[+option] ?? option;
+        return { ...field, value: option };
+      }
+      default:
+        return { ...field, value: asStrings(value) };
+    }
+  });
+  return { fields: updated, unmatched: Object.keys(values).filter(name => !known.has(name)) };
+};
+
+const exportableFields = (fields: PdfFormField[]) => fields.filter(field => field.type !== 'signature');
+
+// JSON: a flat object of field names and values
+
+export const formValuesToJson = (fields: PdfFormField[]): string =>
+  JSON.stringify(Object.fromEntries(exportableFields(fields).map(field => [field.name, field.value])), null, 2);
+
+const parseJsonValues = (text: string): PdfFormValues => {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error("The JSON file must contain an object of field names and values.");
+  const values: PdfFormValues = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (typeof value === 'string' || typeof value === 'boolean') values[name] = value;
+    else if (typeof value === 'number') values[name] = String(value);
+    else if (Array.isArray(value)) values[name] = value.map(String);
+    else if (value !== null) throw new Error(`Unsupported value for the field "${name}".`);
+  }
+  return values;
+};
+
+interface FieldNode {
+  children: Map<string, FieldNode>;
+  field?: PdfFormField;
+}
+
+// FDF and XFDF nest fields by the dot-separated parts of their names
+const buildFieldTree = (fields: PdfFormField[]): FieldNode => {
+  const root: FieldNode = { children: new Map() };
+  for (const field of exportableFields(fields)) {
+    let node = root;
+    for (const part of field.name.split('.')) {
+      if (!node.children.has(part)) node.children.set(part, { children: new Map() });
+      node = node.children.get(part)!;
+    }
+    node.field = field;
+  }
+  return root;
+};
+
+const toFdfValue = (field: PdfFormField): string => {
+  if (field.type === 'checkbox') return PDFName.of(field.value ? field.onValue ?? 'Yes' : 'Off').toString();
+  if (field.type === 'radio') return field.value ? PDFName.of(field.value as string).toString() : PDFName.of('Off').toString();
+  if (Array.isArray(field.value)) {
+    return field.value.length === 1 ? PDFHexString.fromText(field.value[0]).toString() : `[${field.value.map(v => PDFHexString.fromText(v).toString()).join(' ')}]`;
+  }
+  return PDFHexString.fromText(String(field.value)).toString();
+};
+
+export const formValuesToFdf = (fields: PdfFormField[], pdfFileName?: string): Uint8Array => {
+  const writeNodes = (nodes: Map<string, FieldNode>): string =>
+    [...nodes].map(([part, node]) => {
+      const entries = [`/T ${PDFHexString.fromText(part).toString()}`];
+      if (node.field) entries.push(`/V ${toFdfValue(node.field)}`);
+      if (node.children.size > 0) entries.push(`/Kids [${writeNodes(node.children)}]`);
+      return `<< ${entries.join(' ')} >>`;
+    }).join('\n');
+
+  const file = pdfFileName ? ` /F ${PDFHexString.fromText(pdfFileName).toString()}` : '';
+  const text = [
+    '%FDF-1.2',
+    '%âãÏÓ',
+    '1 0 obj',
+    `<< /FDF << /Fields [\n${writeNodes(buildFieldTree(fields).children)}\n]${file} >> >>`,
+    'endobj',
+    'trailer',
+    '<< /Root 1 0 R >>',
+    '%%EOF',
+    '',
+  ].join('\n');
+  return Uint8Array.from(text, char => char.charCodeAt(0)); // All non-ASCII text is hex encoded
+};
+
+const parseFdfValues = async (bytes: Uint8Array): Promise<PdfFormValues> => {
+  // FDF uses PDF syntax; only the header differs, so pdf-lib's parser can read it
+  const headerIndex = new TextDecoder('latin1').decode(bytes.subarray(0, 1024)).indexOf('%FDF-');
+  if (headerIndex < 0) throw new Error("This is not an FDF file.");
+  const pdfBytes = bytes.slice();
+  pdfBytes.set([0x25, 0x50, 0x44, 0x46, 0x2d], headerIndex); // %PDF-
+  const context = await PDFParser.forBytesWithOptions(pdfBytes).parseDocument();
+
+  const root = context.lookup(context.trailerInfo.Root);
+  const fdf = root instanceof PDFDict ? root.lookup(PDFName.of('FDF')) : undefined;
+  const fieldsArray = fdf instanceof PDFDict ? fdf.lookup(PDFName.of('Fields')) : undefined;
+  if (!(fieldsArray instanceof PDFArray)) throw new Error("The FDF file has no form fields.");
+
+  const decodeValue = (object: PDFObject | undefined): PdfFormValue | undefined => {
+    const value = context.lookup(object);
+    if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+    if (value instanceof PDFName) return value.decodeText();
+    if (value instanceof PDFArray) return value.asArray().map(decodeValue).filter((v): v is string => typeof v === 'string');
+    return undefined;
+  };
+
+  const values: PdfFormValues = {};
+  const visited = new Set<PDFDict>();
+  const readFields = (array: PDFArray, prefix: string) => {
+    for (const item of array.asArray()) {
+      const field = context.lookup(item);
+      if (!(field instanceof PDFDict) || visited.has(field)) continue;
+      visited.add(field);
+      const title = field.lookup(PDFName.of('T'));
+      const part = title instanceof PDFString || title instanceof PDFHexString ? title.decodeText() : '';
+      const name = prefix && part ? `${prefix}.${part}` : prefix || part;
+      const value = decodeValue(field.get(PDFName.of('V')));
+      if (value !== undefined && name) values[name] = value;
+      const kids = field.lookup(PDFName.of('Kids'));
+      if (kids instanceof PDFArray) readFields(kids, name);
+    }
+  };
+  readFields(fieldsArray, '');
+  return values;
+};
+
+export const formValuesToXfdf = (fields: PdfFormField[], pdfFileName?: string): string => {
+  const toXfdfValues = (field: PdfFormField): string[] => {
+    if (field.type === 'checkbox') return [field.value ? field.onValue ?? 'Yes' : 'Off'];
+    if (field.type === 'radio') return [(field.value as string) || 'Off'];
+    return asStrings(field.value);
+  };
+  const writeNodes = (nodes: Map<string, FieldNode>, indent: string): string[] =>
+    [...nodes].flatMap(([part, node]) => [
+      `${indent}<field name="${escapeXml(part)}">`,
+      ...(node.field ? toXfdfValues(node.field).map(value => `${indent}  <value>${escapeXml(value)}</value>`) : []),
+      ...writeNodes(node.children, `${indent}  `),
+      `${indent}</field>`,
+    ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+    '  <fields>',
+    ...writeNodes(buildFieldTree(fields).children, '    '),
+    '  </fields>',
+    ...(pdfFileName ? [`  <f href="${escapeXml(pdfFileName)}"/>`] : []),
+    '</xfdf>',
+    '',
+  ].join('\n');
+};
+
+const parseXfdfValues = (xml: string): PdfFormValues => {
+  if (!/<xfdf[\s>]/.test(xml)) throw new Error("This is not an XFDF file.");
+  const values: PdfFormValues = {};
+  const fieldValues = new Map<string, string[]>();
+  const names: string[] = [];
+  const tag = /<(\/?)(field|value)(\s[^>]*?)?(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(xml))) {
+    const [, closing, element, attributes = '', selfClosing] = match;
+    if (element === 'field') {
+      if (closing) { names.pop(); continue; }
+      const name = attributes.match(/name\s*=\s*(["'])([\s\S]*?)\1/);
+      if (!selfClosing) names.push(name ? unescapeXml(name[2]) : '');
+    } else if (!closing) {
+      const fullName = names.filter(Boolean).join('.');
+      let text = '';
+      if (!selfClosing) {
+        const end = xml.indexOf('</value>', tag.lastIndex);
+        if (end < 0) throw new Error("The XFDF file is malformed.");
+        text = unescapeXml(xml.slice(tag.lastIndex, end));
+        tag.lastIndex = end + '</value>'.length;
+      }
+      if (fullName) fieldValues.set(fullName, [...(fieldValues.get(fullName) ?? []), text]);
+    }
+  }
+  fieldValues.forEach((list, name) => { values[name] = list.length === 1 ? list[0] : list; });
+  return values;
+};
+
+/**
+ * Reads field values from a JSON, FDF or XFDF file, detected from its contents.
+ */
+export const parseFormValuesFile = async (file: File): Promise<PdfFormValues> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const start = new TextDecoder().decode(bytes.subarray(0, 1024)).replace(/^\uFEFF/, '').trimStart();
+  try {
+    if (start.startsWith('%FDF-') || start.includes('%FDF-')) return await parseFdfValues(bytes);
+    if (start.startsWith('<')) return parseXfdfValues(new TextDecoder().decode(bytes));
+    return parseJsonValues(new TextDecoder().decode(bytes));
+  } catch (e) {
+    if (e instanceof SyntaxError) throw new Error(`${file.name} is not valid JSON, FDF or XFDF.`);
+    throw e;
+  }
+};
@@ -0,0 +1,150 @@
+import { PDFDocument, degrees, rgb } from 'pdf-lib';
+import { BatesOptions, HeaderFooterOptions, HeaderFooterSlot, PageNumberStyle, ProgressCallback } from '../types';
+import { invertMatrix, transformPoint } from './pdfContentStreamService';
+import { embedTextFont } from './fontEmbeddingService';
+import { hexToRgb, PdfInput } from './pdfManipulatorService';
+import { parsePageRanges } from './pageRangeService';
+import { getPageDisplayTransform } from './pdfTextService';
+
+// Headers, footers and Bates numbers: up to three text slots at the top and bottom of each page,
+// placed on the page as displayed, so rotated pages get upright text along their visible edges.
+
+export const HEADER_FOOTER_SLOTS: HeaderFooterSlot[] = ['topLeft', 'topCenter', 'topRight', 'bottomLeft', 'bottomCenter', 'bottomRight'];
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+const toRoman = (n: number): string => {
+  if (n < 1 || n > 3999) return String(n); // No roman numeral for these
+  let result = '';
+  for (const [value, numeral] of ROMAN_NUMERALS) {
+    for (; n >= value; n -= value) result += numeral;
+  }
+  return result;
+};
+
+// a, b, ..., z, aa, ab, ... as in spreadsheet columns
+const toAlpha = (n: number): string => {
+  if (n < 1) return String(n);
+  let result = '';
+  for (; n > 0; n = Math.floor((n - 1) / 26)) result = String.fromCharCode(97 + ((n - 1) % 26)) + result;
+  return result;
+};
+
+/**
+ * Writes a page number in the given style, e.g. 4 as "iv" (romanLower) or "D" (alphaUpper).
+ */
+export const formatPageNumber = (n: number, style: PageNumberStyle): string => {
+  switch (style) {
+    case 'romanLower': return toRoman(n);
+    case 'romanUpper': return toRoman(n).toUpperCase();
+    case 'alphaLower': return toAlpha(n);
+    case 'alphaUpper': return toAlpha(n).toUpperCase();
+    default: return String(n);
+  }
+};
+
+/**
+ * Writes a Bates number, e.g. "ACME000042".
+ */
+export const formatBatesNumber = (n: number, bates: BatesOptions): string =>
+  `${bates.prefix}${String(n).padStart(bates.digits, '0')}${bates.suffix}`;
+
+const formatDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const validateOptions = (options: HeaderFooterOptions) => {
+  const texts = HEADER_FOOTER_SLOTS.map(slot => options.slots[slot] ?? '');
+  if (texts.every(text => !text.trim())) throw new Error("Enter the text of at least one header or footer.");
+  if (!(options.fontSize > 0)) throw new Error("Font size must be greater than 0.");
+  if (!Number.isInteger(options.startNumber)) throw new Error("The first page number must be a whole number.");
+  if (!Number.isInteger(options.skipFirstPages) || options.skipFirstPages < 0) throw new Error("Pages to skip must be a whole number of 0 or more.");
+  if (options.marginX < 0 || options.marginY < 0) throw new Error("Margins can't be negative.");
+  if (options.bates) {
+    const { startNumber, digits } = options.bates;
+    if (!Number.isInteger(startNumber) || startNumber < 0) throw new Error("The first Bates number must be a whole number of 0 or more.");
+    if (!Number.isInteger(digits) || digits < 1 || digits > 20) throw new Error("Bates numbers must have between 1 and 20 digits.");
+  } else if (texts.some(text => text.includes('{bates}'))) {
+    throw new Error("Turn on Bates numbering to use {bates}.");
+  }
+};
+
+/**
+ * Stamps headers and footers on the selected pages. Page numbers (%p, %t) and Bates numbers count
+ * the stamped pages only, starting from startNumber and bates.startNumber.
+ * @param fileName Replaces {filename}.
+ * @returns The Bates number for the page after the last one stamped, to continue with the next
+ *   document of a production; undefined without Bates numbering.
+ */
+export const addHeaderFooterToDocument = async (
+  pdfDoc: PDFDocument,
+  options: HeaderFooterOptions,
+  fileName: string,
+  onProgress?: ProgressCallback
+): Promise<number | undefined> => {
+  validateOptions(options);
+  const pages = pdfDoc.getPages();
+  const pageIndices = (options.pageRange.trim() ? parsePageRanges(options.pageRange, pages.length) : pdfDoc.getPageIndices())
+    .filter(pageIndex => pageIndex >= options.skipFirstPages);
+  if (pageIndices.length === 0) {
+    throw new Error("No pages to stamp. Check the page range and the number of pages to skip.");
+  }
+
+  const lastPageNumber = formatPageNumber(options.startNumber + pageIndices.length - 1, options.numberStyle);
+  const date = formatDate(new Date());
+  const slotTexts = pageIndices.map((_, stampIndex) => {
+    const batesNumber = options.bates ? formatBatesNumber(options.bates.startNumber + stampIndex, options.bates) : '';
+    const pageNumber = formatPageNumber(options.startNumber + stampIndex, options.numberStyle);
+    return HEADER_FOOTER_SLOTS
+      .filter(slot => (options.slots[slot] ?? '').trim())
+      .map(slot => ({
+        slot,
+        // Replacer functions keep "$&" and the like in file names and Bates prefixes literal
+        text: options.slots[slot]
+          .replace(/%p/g, () => pageNumber)
+          .replace(/%t/g, () => lastPageNumber)
+          .replace(/\{date\}/g, () => date)
+          .replace(/\{filename\}/g, () => fileName)
+          .replace(/\{bates\}/g, () => batesNumber),
+      }));
+  });
+
+  const font = await embedTextFont(pdfDoc, options, slotTexts.flat().map(({ text }) => text).join(''));
+  const { r, g, b } = hexToRgb(options.colorHex);
+  const ascent = font.heightAtSize(options.fontSize, { descender: false });
+
+  for (const [stampIndex, pageIndex] of pageIndices.entries()) {
+    const page = pages[pageIndex];
+    const { matrix, width, height } = getPageDisplayTransform(page);
+    const toUserSpace = invertMatrix(matrix)!; // Display transforms are rotations and flips, always invertible
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+
+    for (const { slot, text } of slotTexts[stampIndex]) {
+      // Baseline position on the displayed page, measured from its top-left corner
+      const textWidth = font.widthOfTextAtSize(text, options.fontSize);
+      const displayX = slot.endsWith('Left') ? options.marginX
+        : slot.endsWith('Right') ? width - options.marginX - textWidth
+        : (width - textWidth) / 2;
+      const displayY = slot.startsWith('top') ? options.marginY + ascent : height - options.marginY;
+      const [x, y] = transformPoint(toUserSpace, displayX, displayY);
+
+      page.drawText(text, { x, y, size: options.fontSize, font, color: rgb(r, g, b), rotate: degrees(rotation) });
+    }
+    onProgress?.(stampIndex + 1, pageIndices.length);
+  }
+  return options.bates ? options.bates.startNumber + pageIndices.length : undefined;
+};
+
+export const addHeaderFooterToPdf = async (
+  input: PdfInput,
+  options: HeaderFooterOptions,
+  onProgress?: ProgressCallback
+): Promise<{ pdfBytes: Uint8Array; nextBatesNumber?: number }> => {
+  const pdfDoc = await PDFDocument.load(input.data, { ignoreEncryption: true });
+  const nextBatesNumber = await addHeaderFooterToDocument(pdfDoc, options, input.name, onProgress);
+  return { pdfBytes: await pdfDoc.save(), nextBatesNumber };
+};
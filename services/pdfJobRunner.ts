@@ -0,0 +1,66 @@
+import { PDFDocument } from 'pdf-lib';
+import { ProgressCallback } from '../types';
+import { convertImagesToPdf } from './imageConverterService';
+import { compressPdf } from './pdfCompressionService';
+import { addHeaderFooterToPdf } from './pdfHeaderFooterService';
+import {
+  addPageNumbersToPdf,
+  addWatermarkToPdf,
+  extractPagesFromPdf,
+  mergePdfs,
+  organizePdfPages,
+  planPdfSplit,
+  rotatePdfPages,
+  savePdfParts,
+  splitPdfDocumentBySize,
+} from './pdfManipulatorService';
+import { PdfJob, PdfJobOutput } from './pdfWorkerProtocol';
+
+// Carries out a PdfJob. Runs inside the PDF workers, or on the main thread where workers are unavailable.
+
+// Transfers need a whole ArrayBuffer, not a view into a larger one
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes.buffer as ArrayBuffer : bytes.slice().buffer;
+
+const singleOutput = (pdfBytes: Uint8Array): PdfJobOutput[] => [{ name: '', data: toArrayBuffer(pdfBytes) }];
+
+/**
+ * Runs the job and returns its output files: one PDF, or the parts of a split.
+ * Progress counts the files, pages or images of the job.
+ */
+export const runPdfJob = async (job: PdfJob, onProgress: ProgressCallback = () => {}): Promise<PdfJobOutput[]> => {
+  switch (job.type) {
+    case 'merge':
+      return singleOutput(await mergePdfs(job.sources, job.options, onProgress));
+    case 'extractPages':
+      return singleOutput(await extractPagesFromPdf(job.source.data, job.pageRange, job.keepOrder));
+    case 'split': {
+      const pdfDoc = await PDFDocument.load(job.source.data, { ignoreEncryption: true });
+      const fileNameBase = job.source.name.substring(0, job.source.name.lastIndexOf('.')) || job.source.name;
+      // Size-limited splits are measured as they go, so they run as a single shard
+      const results = job.options.mode === 'maxSize'
+        ? await splitPdfDocumentBySize(pdfDoc, job.options.maxBytes ?? 0, fileNameBase, onProgress)
+        : await savePdfParts(pdfDoc, planPdfSplit(pdfDoc, job.options, fileNameBase)
+          .filter((_, index) => index % job.shardCount === job.shardIndex), onProgress);
+      return results.map(({ filename, pdfBytes, oversized }) => ({ name: filename, data: toArrayBuffer(pdfBytes), oversized }));
+    }
+    case 'rotate':
+      return singleOutput(await rotatePdfPages(job.source.data, job.options, onProgress));
+    case 'pageNumbers':
+      return singleOutput(await addPageNumbersToPdf(job.source.data, job.options, onProgress));
+    case 'watermark':
+      return singleOutput(await addWatermarkToPdf(job.source.data, job.options, onProgress));
+    case 'headerFooter': {
+      const { pdfBytes, nextBatesNumber } = await addHeaderFooterToPdf(job.source, job.options, onProgress);
+      return [{ name: '', data: toArrayBuffer(pdfBytes), nextBatesNumber }];
+    }
+    case 'organize':
+      return singleOutput(await organizePdfPages(job.sources, job.pages, onProgress));
+    case 'imagesToPdf':
+      return singleOutput(await convertImagesToPdf(job.images, job.options, onProgress));
+    case 'compress': {
+      const { pdfBytes, images } = await compressPdf(job.source.data, job.level, onProgress);
+      return [{ name: '', data: toArrayBuffer(pdfBytes), imageReport: images }];
+    }
+  }
+};
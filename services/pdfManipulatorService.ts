@@ -1,67 +1,90 @@
 
 
-import { PDFDocument, StandardFonts, rgb, degrees, PDFFont, RotationTypes } from 'pdf-lib'; // Added RotationTypes for potential future use, degrees is key
-import { PageNumberPosition, StandardPdfFonts, PageNumberOptions } from '../types';
+import { PDFDocument, PDFPage, rgb, degrees, PDFFont, PDFImage, PDFOperator, RotationTypes, drawImage, drawText, pushGraphicsState, popGraphicsState } from 'pdf-lib'; // Added RotationTypes for potential future use, degrees is key
+import { PageNumberPosition, PageNumberOptions, WatermarkOptions, WatermarkLayout, ProgressCallback } from '../types';
+import { embedTextFont } from './fontEmbeddingService';
+import { PdfOutlineItem, readPdfOutline, writePdfOutline } from './pdfOutlineService';
+import { parsePageRanges, splitPageRangeSegments } from './pageRangeService';
+import { getPageContentBytes, parseContentStream } from './pdfContentStreamService';
 
 // getPdfLib function is removed as we now directly import from 'pdf-lib'
 
-export const mergePdfs = async (files: File[]): Promise<Uint8Array> => {
+export interface MergePdfOptions {
+  preserveBookmarks?: boolean; // Carry each file's outline into the merged document (default true)
+  bookmarkPerFile?: boolean; // Add a top-level bookmark per input file, named after the file
+}
+
+// A PDF held in memory. The name is used for bookmarks and output file names.
+export interface PdfInput {
+  name: string;
+  data: Uint8Array | ArrayBuffer;
+}
+
+const loadPdf = (pdfBytes: Uint8Array | ArrayBuffer) => PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+
+export interface NamedPdfDocument {
+  name: string; // File name, used for the bookmark added per file
+  pdfDoc: PDFDocument;
+}
+
+/**
+ * Combines documents into a new one, in the given order.
+ */
+export const mergePdfDocuments = async (sources: NamedPdfDocument[], options: MergePdfOptions = {}, onProgress?: ProgressCallback): Promise<PDFDocument> => {
+  const { preserveBookmarks = true, bookmarkPerFile = false } = options;
   const mergedPdf = await PDFDocument.create();
+  const outline: PdfOutlineItem[] = [];
 
-  for (const file of files) {
-    const pdfBytes = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  for (const [index, { name, pdfDoc }] of sources.entries()) {
+    const firstPageIndex = mergedPdf.getPageCount();
     const copiedPages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
     copiedPages.forEach((page) => mergedPdf.addPage(page));
+
+    // Source page indices become indices into the merged document
+    const shiftPages = (items: PdfOutlineItem[]): PdfOutlineItem[] => items.map(item => ({
+      ...item,
+      pageIndex: item.pageIndex !== undefined ? item.pageIndex + firstPageIndex : undefined,
+      children: shiftPages(item.children),
+    }));
+    const fileOutline = preserveBookmarks ? shiftPages(readPdfOutline(pdfDoc)) : [];
+    if (bookmarkPerFile) {
+      outline.push({
+        title: name.replace(/\.pdf$/i, ''),
+        pageIndex: copiedPages.length > 0 ? firstPageIndex : undefined,
+        open: false,
+        children: fileOutline,
+      });
+    } else {
+      outline.push(...fileOutline);
+    }
+    onProgress?.(index + 1, sources.length);
   }
-  return mergedPdf.save();
+  writePdfOutline(mergedPdf, outline);
+  return mergedPdf;
 };
 
 /**
- * Parses a page range string (e.g., "1-3, 5, 7-9") into an array of page numbers.
- * Page numbers are 0-indexed for use with pdf-lib.
- * @param rangeStr The input string.
- * @param maxPage The total number of pages in the document (1-indexed).
- * @returns Array of 0-indexed page numbers.
- * @throws Error if range is invalid or out of bounds.
+ * Merges PDFs in the given order.
+ * Progress counts reading the files as the first half of the work and copying their pages as the second.
  */
-const parsePageRanges = (rangeStr: string, maxPage: number): number[] => {
-  const resultPages: Set<number> = new Set();
-  if (!rangeStr.trim()) return [];
-
-  const parts = rangeStr.split(',');
-  for (const part of parts) {
-    const trimmedPart = part.trim();
-    if (trimmedPart.includes('-')) {
-      const [startStr, endStr] = trimmedPart.split('-');
-      let start = parseInt(startStr, 10);
-      let end = parseInt(endStr, 10);
-
-      if (isNaN(start) || isNaN(end) || start < 1 || end < start || start > maxPage ) { // end can be > maxPage if it's a range like "1-100" for a 10 page doc
-        throw new Error(`Invalid page range: "${trimmedPart}". Check format and ensure page numbers are within 1-${maxPage}.`);
-      }
-      end = Math.min(end, maxPage); // Cap end at maxPage
-      for (let i = start; i <= end; i++) {
-        resultPages.add(i - 1); // 0-indexed
-      }
-    } else {
-      const pageNum = parseInt(trimmedPart, 10);
-      if (isNaN(pageNum) || pageNum < 1 || pageNum > maxPage) {
-        throw new Error(`Invalid page number: "${trimmedPart}". Page must be between 1 and ${maxPage}.`);
-      }
-      resultPages.add(pageNum - 1); // 0-indexed
-    }
+export const mergePdfs = async (inputs: PdfInput[], options: MergePdfOptions = {}, onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const total = inputs.length * 2;
+  const sources: NamedPdfDocument[] = [];
+  for (const input of inputs) {
+    sources.push({ name: input.name, pdfDoc: await loadPdf(input.data) });
+    onProgress?.(sources.length, total);
   }
-  return Array.from(resultPages).sort((a, b) => a - b); // Sorted
+  const mergedPdf = await mergePdfDocuments(sources, options, done => onProgress?.(inputs.length + done, total));
+  return mergedPdf.save();
 };
 
-
-export const extractPagesFromPdf = async (pdfFile: File, pageRangesStr: string): Promise<Uint8Array> => {
-  const existingPdfBytes = await pdfFile.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
-  
+/**
+ * Copies the selected pages into a new document. With keepOrder, pages come in the order
+ * written and may repeat, e.g. "3, 1-2, 1".
+ */
+export const extractPagesFromDocument = async (pdfDoc: PDFDocument, pageRangesStr: string, keepOrder = false): Promise<PDFDocument> => {
   const totalPages = pdfDoc.getPageCount();
-  const pagesToExtractIndices = parsePageRanges(pageRangesStr, totalPages);
+  const pagesToExtractIndices = parsePageRanges(pageRangesStr, totalPages, { keepOrder });
 
   if (pagesToExtractIndices.length === 0) {
     throw new Error("No valid pages selected for extraction. Please check your input (e.g., 1-3, 5).");
@@ -70,67 +93,208 @@ export const extractPagesFromPdf = async (pdfFile: File, pageRangesStr: string):
   const newPdfDoc = await PDFDocument.create();
   const copiedPages = await newPdfDoc.copyPages(pdfDoc, pagesToExtractIndices);
   copiedPages.forEach(page => newPdfDoc.addPage(page));
+  return newPdfDoc;
+};
 
+export const extractPagesFromPdf = async (pdfBytes: Uint8Array | ArrayBuffer, pageRangesStr: string, keepOrder = false): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfBytes);
+  const newPdfDoc = await extractPagesFromDocument(pdfDoc, pageRangesStr, keepOrder);
   return newPdfDoc.save();
 };
 
 export interface SplitPdfOptions {
-  mode: 'all' | 'ranges';
-  rangesStr?: string; // e.g., "1-2, 3, 4-5"
+  // all: one file per page; ranges: one per selection; everyNPages: fixed-size chunks;
+  // maxSize: chunks under maxBytes; bookmarks: at each top-level bookmark; blankPages: at blank separator pages
+  mode: 'all' | 'ranges' | 'everyNPages' | 'maxSize' | 'bookmarks' | 'blankPages';
+  rangesStr?: string; // e.g., "1-2, 3, 4-5"; one file per comma-separated selection
+  pagesPerFile?: number; // For everyNPages
+  maxBytes?: number; // For maxSize. A single page larger than this still gets a file of its own, marked oversized
 }
 
-export const splitPdf = async (pdfFile: File, options: SplitPdfOptions): Promise<{blob: Blob, filename: string}[]> => {
-  const existingPdfBytes = await pdfFile.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
-  const totalPages = pdfDoc.getPageCount();
-  const originalFileNameBase = pdfFile.name.substring(0, pdfFile.name.lastIndexOf('.')) || pdfFile.name;
-  const results: {blob: Blob, filename: string}[] = [];
+export interface PdfSplitPart {
+  filename: string;
+  pageIndices: number[]; // 0-indexed
+}
+
+type SplitResult = {
+  filename: string;
+  pdfBytes: Uint8Array;
+  oversized?: boolean; // maxSize splits: a single page that is over the limit on its own
+}[];
+
+// Operators that put something on the page; a content stream without any of them draws nothing
+const PAINTING_OPERATORS = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'sh', 'Do', 'BI', 'Tj', 'TJ', "'", '"']);
+
+/**
+ * True for a page whose content stream is empty or only sets up graphics state, such as the
+ * separator sheets a scanning station inserts between documents.
+ */
+export const isBlankPage = (page: PDFPage): boolean => {
+  try {
+    return !parseContentStream(getPageContentBytes(page)).some(operation => PAINTING_OPERATORS.has(operation.operator));
+  } catch {
+    return false; // Unreadable content is assumed to show something
+  }
+};
+
+const pageRangeLabel = (pageIndices: number[]) =>
+  pageIndices.length === 1 ? `${pageIndices[0] + 1}` : `${pageIndices[0] + 1}-${pageIndices[pageIndices.length - 1] + 1}`;
+
+const indicesBetween = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+// File names made from bookmark titles: without characters file systems reject, and unique
+const bookmarkFileNames = (titles: string[], fallbackBase: string): string[] => {
+  const used = new Set<string>();
+  return titles.map((title, index) => {
+    const base = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || `${fallbackBase}_part_${index + 1}`;
+    let name = base;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) name = `${base} (${copy})`;
+    used.add(name.toLowerCase());
+    return `${name}.pdf`;
+  });
+};
 
+/**
+ * Works out which pages go into each output file of a split, and the file names.
+ * Not for maxSize splits, which depend on the saved sizes; see splitPdfDocumentBySize.
+ */
+export const planPdfSplit = (pdfDoc: PDFDocument, options: SplitPdfOptions, fileNameBase: string): PdfSplitPart[] => {
+  const totalPages = pdfDoc.getPageCount();
+  const parts: PdfSplitPart[] = [];
   if (options.mode === 'all') {
     for (let i = 0; i < totalPages; i++) {
-      const newPdfDoc = await PDFDocument.create();
-      const [copiedPage] = await newPdfDoc.copyPages(pdfDoc, [i]);
-      newPdfDoc.addPage(copiedPage);
-      const pdfBytes = await newPdfDoc.save();
-      results.push({
-        blob: new Blob([pdfBytes], { type: 'application/pdf' }),
-        filename: `${originalFileNameBase}_page_${i + 1}.pdf`
-      });
+      parts.push({ filename: `${fileNameBase}_page_${i + 1}.pdf`, pageIndices: [i] });
     }
   } else if (options.mode === 'ranges' && options.rangesStr) {
-    const rangeSegments = options.rangesStr.split(',').map(s => s.trim()).filter(s => s);
+    const rangeSegments = splitPageRangeSegments(options.rangesStr);
     if(rangeSegments.length === 0) throw new Error("No ranges provided for splitting.");
 
     for (const segment of rangeSegments) {
       const pagesToExtractIndices = parsePageRanges(segment, totalPages);
       if (pagesToExtractIndices.length === 0) continue; // Skip empty or invalid segments
-
-      const newPdfDoc = await PDFDocument.create();
-      const copiedPages = await newPdfDoc.copyPages(pdfDoc, pagesToExtractIndices);
-      copiedPages.forEach(page => newPdfDoc.addPage(page));
-      const pdfBytes = await newPdfDoc.save();
-      
       const segmentName = segment.replace(/[^0-9a-zA-Z-]/g, '_'); // Sanitize segment for filename
-      results.push({
-        blob: new Blob([pdfBytes], { type: 'application/pdf' }),
-        filename: `${originalFileNameBase}_split_${segmentName}.pdf`
-      });
+      parts.push({ filename: `${fileNameBase}_split_${segmentName}.pdf`, pageIndices: pagesToExtractIndices });
+    }
+  } else if (options.mode === 'everyNPages') {
+    const pagesPerFile = options.pagesPerFile ?? 0;
+    if (!Number.isInteger(pagesPerFile) || pagesPerFile < 1) throw new Error("Pages per file must be a whole number of at least 1.");
+    for (let start = 0; start < totalPages; start += pagesPerFile) {
+      const pageIndices = indicesBetween(start, Math.min(start + pagesPerFile, totalPages));
+      parts.push({ filename: `${fileNameBase}_pages_${pageRangeLabel(pageIndices)}.pdf`, pageIndices });
     }
+  } else if (options.mode === 'bookmarks') {
+    // Each top-level bookmark starts a file; pages before the first one go into the first file
+    const starts: { title: string; pageIndex: number }[] = [];
+    for (const item of readPdfOutline(pdfDoc)) {
+      if (item.pageIndex === undefined || starts.some(start => start.pageIndex === item.pageIndex)) continue;
+      starts.push({ title: item.title, pageIndex: item.pageIndex });
+    }
+    if (starts.length === 0) throw new Error("This PDF has no bookmarks that point to its pages.");
+    starts.sort((a, b) => a.pageIndex - b.pageIndex);
+    const fileNames = bookmarkFileNames(starts.map(start => start.title), fileNameBase);
+    starts.forEach((start, index) => {
+      const from = index === 0 ? 0 : start.pageIndex;
+      const to = index + 1 < starts.length ? starts[index + 1].pageIndex : totalPages;
+      parts.push({ filename: fileNames[index], pageIndices: indicesBetween(from, to) });
+    });
+  } else if (options.mode === 'blankPages') {
+    // Blank pages separate the documents and are left out
+    const blank = pdfDoc.getPages().map(isBlankPage);
+    if (!blank.includes(true)) throw new Error("No blank pages were found to split at.");
+    let current: number[] = [];
+    const finishPart = () => {
+      if (current.length > 0) parts.push({ filename: `${fileNameBase}_document_${parts.length + 1}.pdf`, pageIndices: current });
+      current = [];
+    };
+    blank.forEach((isBlank, pageIndex) => (isBlank ? finishPart() : current.push(pageIndex)));
+    finishPart();
   } else {
     throw new Error("Invalid split mode or missing ranges string.");
   }
-  if(results.length === 0) throw new Error("No PDFs were generated. Check your split criteria and PDF content.");
+  if(parts.length === 0) throw new Error("No PDFs were generated. Check your split criteria and PDF content.");
+  return parts;
+};
+
+const savePages = async (pdfDoc: PDFDocument, pageIndices: number[]): Promise<Uint8Array> => {
+  const newPdfDoc = await PDFDocument.create();
+  const copiedPages = await newPdfDoc.copyPages(pdfDoc, pageIndices);
+  copiedPages.forEach(page => newPdfDoc.addPage(page));
+  return newPdfDoc.save();
+};
+
+/**
+ * Saves each part of a split as its own PDF.
+ */
+export const savePdfParts = async (pdfDoc: PDFDocument, parts: PdfSplitPart[], onProgress?: ProgressCallback): Promise<SplitResult> => {
+  const results: SplitResult = [];
+  for (const [index, part] of parts.entries()) {
+    results.push({ filename: part.filename, pdfBytes: await savePages(pdfDoc, part.pageIndices) });
+    onProgress?.(index + 1, parts.length);
+  }
   return results;
 };
 
+/**
+ * Splits into consecutive chunks that each stay under maxBytes once saved, e.g. for email
+ * attachment limits. Fonts and images shared between pages make sizes hard to predict, so
+ * chunk sizes are measured: the chunk is doubled until it gets too big, then narrowed down.
+ * A page that is over the limit on its own gets a part of its own, marked oversized.
+ */
+export const splitPdfDocumentBySize = async (pdfDoc: PDFDocument, maxBytes: number, fileNameBase: string, onProgress?: ProgressCallback): Promise<SplitResult> => {
+  if (!(maxBytes > 0)) throw new Error("Maximum file size must be greater than 0.");
+  const totalPages = pdfDoc.getPageCount();
+  const results: SplitResult = [];
+  let start = 0;
+  while (start < totalPages) {
+    // Largest end (exclusive) known to fit, and a smallest one known not to
+    let fits = start + 1;
+    let fitsBytes = await savePages(pdfDoc, [start]);
+    let tooBig = totalPages + 1;
+    if (fitsBytes.length <= maxBytes) {
+      for (let size = 2; fits < totalPages; size *= 2) {
+        const end = Math.min(start + size, totalPages);
+        const bytes = await savePages(pdfDoc, indicesBetween(start, end));
+        if (bytes.length > maxBytes) { tooBig = end; break; }
+        fits = end;
+        fitsBytes = bytes;
+      }
+      while (tooBig - fits > 1) {
+        const end = Math.floor((fits + tooBig) / 2);
+        const bytes = await savePages(pdfDoc, indicesBetween(start, end));
+        if (bytes.length > maxBytes) tooBig = end;
+        else { fits = end; fitsBytes = bytes; }
+      }
+    }
+    const pageIndices = indicesBetween(start, fits);
+    results.push({
+      filename: `${fileNameBase}_pages_${pageRangeLabel(pageIndices)}.pdf`,
+      pdfBytes: fitsBytes,
+      oversized: fitsBytes.length > maxBytes || undefined,
+    });
+    start = fits;
+    onProgress?.(start, totalPages);
+  }
+  return results;
+};
+
+/**
+ * Splits a PDF into several, named after the input, e.g. "report_page_3.pdf", or after the
+ * bookmarks when splitting at them.
+ */
+export const splitPdf = async (input: PdfInput, options: SplitPdfOptions, onProgress?: ProgressCallback): Promise<SplitResult> => {
+  const pdfDoc = await loadPdf(input.data);
+  const originalFileNameBase = input.name.substring(0, input.name.lastIndexOf('.')) || input.name;
+  if (options.mode === 'maxSize') return splitPdfDocumentBySize(pdfDoc, options.maxBytes ?? 0, originalFileNameBase, onProgress);
+  const parts = planPdfSplit(pdfDoc, options, originalFileNameBase);
+  return savePdfParts(pdfDoc, parts, onProgress);
+};
+
 export interface RotatePdfOptions {
   pageRangesStr: string; // e.g., "1, 3-5, 7"
   angle: 90 | 180 | 270;
 }
 
-export const rotatePdfPages = async (pdfFile: File, options: RotatePdfOptions): Promise<Uint8Array> => {
-  const existingPdfBytes = await pdfFile.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
+export const rotateDocumentPages = (pdfDoc: PDFDocument, options: RotatePdfOptions, onProgress?: ProgressCallback) => {
   const totalPages = pdfDoc.getPageCount();
 
   const pagesToRotateIndices = parsePageRanges(options.pageRangesStr, totalPages);
@@ -154,18 +318,82 @@ export const rotatePdfPages = async (pdfFile: File, options: RotatePdfOptions):
       throw new Error(`Invalid rotation angle specified: ${options.angle}. Must be 90, 180, or 270.`);
   }
 
-  pagesToRotateIndices.forEach(pageIndex => {
+  pagesToRotateIndices.forEach((pageIndex, i) => {
     const page = pdfDoc.getPage(pageIndex);
     const currentRotation = page.getRotation().angle; // e.g. 0, 90, 180, 270
     const newRotationAngle = (currentRotation + options.angle) % 360;
     page.setRotation(degrees(newRotationAngle));
+    onProgress?.(i + 1, pagesToRotateIndices.length);
   });
+};
 
+export const rotatePdfPages = async (pdfBytes: Uint8Array | ArrayBuffer, options: RotatePdfOptions, onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfBytes);
+  rotateDocumentPages(pdfDoc, options, onProgress);
   return pdfDoc.save();
 };
 
+export interface OrganizePageItem {
+  file: File; // Source PDF
+  pageIndex: number; // 0-indexed page in the source
+  rotation: 0 | 90 | 180 | 270; // Extra clockwise rotation on top of the page's own rotation
+}
+
+export interface OrganizeDocumentPage {
+  sourceIndex: number; // Index into the source documents
+  pageIndex: number; // 0-indexed page in the source
+  rotation: 0 | 90 | 180 | 270; // Extra clockwise rotation on top of the page's own rotation
+}
+
+/**
+ * Builds one document from pages of one or more source documents, in the given order.
+ * The same source page may appear several times (duplicates).
+ */
+export const organizePdfDocuments = async (sources: NamedPdfDocument[], pages: OrganizeDocumentPage[], onProgress?: ProgressCallback): Promise<PDFDocument> => {
+  if (pages.length === 0) {
+    throw new Error("No pages left to export. Add files or restore some pages.");
+  }
+
+  const newPdfDoc = await PDFDocument.create();
+  for (const item of pages) {
+    const { name, pdfDoc: sourceDoc } = sources[item.sourceIndex];
+    if (item.pageIndex < 0 || item.pageIndex >= sourceDoc.getPageCount()) {
+      throw new Error(`Page ${item.pageIndex + 1} does not exist in ${name}.`);
+    }
+  }
+
+  // One copyPages call per source, so fonts and images shared between its pages are copied once
+  const copiedPages: PDFPage[] = [];
+  for (const sourceIndex of new Set(pages.map(item => item.sourceIndex))) {
+    const positions = pages.flatMap((item, position) => (item.sourceIndex === sourceIndex ? [position] : []));
+    const copies = await newPdfDoc.copyPages(sources[sourceIndex].pdfDoc, positions.map(position => pages[position].pageIndex));
+    positions.forEach((position, i) => { copiedPages[position] = copies[i]; });
+  }
+
+  for (const [index, item] of pages.entries()) {
+    const copiedPage = copiedPages[index];
+    if (item.rotation !== 0) {
+      const currentRotation = copiedPage.getRotation().angle;
+      copiedPage.setRotation(degrees((currentRotation + item.rotation) % 360));
+    }
+    newPdfDoc.addPage(copiedPage);
+    onProgress?.(index + 1, pages.length);
+  }
+  return newPdfDoc;
+};
 
-const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
+/**
+ * Builds one PDF from pages of one or more source PDFs, in the given order.
+ */
+export const organizePdfPages = async (inputs: PdfInput[], pages: OrganizeDocumentPage[], onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const sources: NamedPdfDocument[] = [];
+  for (const input of inputs) sources.push({ name: input.name, pdfDoc: await loadPdf(input.data) });
+  const newPdfDoc = await organizePdfDocuments(sources, pages, onProgress);
+  return newPdfDoc.save();
+};
+
+
+export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
     const shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
     hex = hex.replace(shorthandRegex, (m, r, g, b) => r + r + g + g + b + b);
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -177,31 +405,21 @@ const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
 };
 
 
-export const addPageNumbersToPdf = async (pdfFile: File, options: PageNumberOptions): Promise<Uint8Array> => {
-  const existingPdfBytes = await pdfFile.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
+export const addPageNumbersToDocument = async (pdfDoc: PDFDocument, options: PageNumberOptions, onProgress?: ProgressCallback) => {
   const totalPages = pdfDoc.getPageCount();
   const pages = pdfDoc.getPages();
 
-  let fontToEmbed: PDFFont;
-  // Map StandardPdfFonts enum to pdf-lib StandardFonts
-  switch(options.font) {
-    case StandardPdfFonts.Helvetica: fontToEmbed = await pdfDoc.embedFont(StandardFonts.Helvetica); break;
-    case StandardPdfFonts.HelveticaBold: fontToEmbed = await pdfDoc.embedFont(StandardFonts.HelveticaBold); break;
-    case StandardPdfFonts.TimesRoman: fontToEmbed = await pdfDoc.embedFont(StandardFonts.TimesRoman); break;
-    case StandardPdfFonts.TimesRomanBold: fontToEmbed = await pdfDoc.embedFont(StandardFonts.TimesRomanBold); break;
-    case StandardPdfFonts.Courier: fontToEmbed = await pdfDoc.embedFont(StandardFonts.Courier); break;
-    default: fontToEmbed = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  }
+  const pageNumberTexts = pages.map((_, i) => options.format
+    .replace('%p', (i + 1).toString())
+    .replace('%t', totalPages.toString()));
+  const fontToEmbed = await embedTextFont(pdfDoc, options, pageNumberTexts.join(''));
 
   const fontColorRgb = hexToRgb(options.colorHex);
 
   for (let i = 0; i < totalPages; i++) {
     const page = pages[i];
     const { width, height } = page.getSize();
-    const pageNumStr = options.format
-      .replace('%p', (i + 1).toString())
-      .replace('%t', totalPages.toString());
+    const pageNumStr = pageNumberTexts[i];
 
     const textWidth = fontToEmbed.widthOfTextAtSize(pageNumStr, options.fontSize);
     const textHeight = fontToEmbed.heightAtSize(options.fontSize); // Corrected: use font's height method
@@ -226,14 +444,118 @@ export const addPageNumbersToPdf = async (pdfFile: File, options: PageNumberOpti
       font: fontToEmbed,
       color: rgb(fontColorRgb.r, fontColorRgb.g, fontColorRgb.b),
     });
+    onProgress?.(i + 1, totalPages);
   }
+};
+
+export const addPageNumbersToPdf = async (pdfBytes: Uint8Array | ArrayBuffer, options: PageNumberOptions, onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfBytes);
+  await addPageNumbersToDocument(pdfDoc, options, onProgress);
   return pdfDoc.save();
 };
 
-export const compressPdf = async (pdfFile: File): Promise<Uint8Array> => {
-  const existingPdfBytes = await pdfFile.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
-  // Enabling object streams can reduce file size by compressing objects.
-  // Advanced compression (image re-encoding, font subsetting beyond default) is complex.
-  return pdfDoc.save({ useObjectStreams: true });
-};
\ No newline at end of file
+/**
+ * Stamps a text or image watermark on the selected pages.
+ * The watermark is drawn into its own content stream, which is placed before the existing
+ * page content (behind) or after it (above).
+ */
+export const addWatermarkToDocument = async (pdfDoc: PDFDocument, options: WatermarkOptions, onProgress?: ProgressCallback) => {
+  const pages = pdfDoc.getPages();
+
+  const pageIndices = options.pageRange.trim()
+    ? parsePageRanges(options.pageRange, pages.length)
+    : pdfDoc.getPageIndices();
+  if (pageIndices.length === 0) {
+    throw new Error("No valid pages selected for the watermark. Please check your input (e.g., 1-3, 5).");
+  }
+
+  let font: PDFFont | undefined;
+  let image: PDFImage | undefined;
+  if (options.type === 'text') {
+    if (!options.text.trim()) throw new Error("Please enter the watermark text.");
+    font = await embedTextFont(pdfDoc, options, options.text);
+  } else {
+    if (!options.imageFile) throw new Error("Please choose a watermark image.");
+    const imageBytes = await options.imageFile.arrayBuffer();
+    if (options.imageFile.type === 'image/png') image = await pdfDoc.embedPng(imageBytes);
+    else if (options.imageFile.type === 'image/jpeg') image = await pdfDoc.embedJpg(imageBytes);
+    else throw new Error("The watermark image must be a PNG or JPEG file.");
+  }
+  const color = hexToRgb(options.colorHex);
+
+  // Shared wrappers that isolate the existing content's graphics state from a watermark drawn above it
+  const saveStateRef = pdfDoc.context.register(pdfDoc.context.contentStream([pushGraphicsState()]));
+  const restoreStateRef = pdfDoc.context.register(pdfDoc.context.contentStream([popGraphicsState()]));
+
+  for (const [done, pageIndex] of pageIndices.entries()) {
+    const page = pages[pageIndex];
+    const box = page.getCropBox();
+    // Work in the orientation the page is displayed in
+    const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const sideways = pageRotation % 180 !== 0;
+    const visibleWidth = sideways ? box.height : box.width;
+    const visibleHeight = sideways ? box.width : box.height;
+
+    const itemWidth = font ? font.widthOfTextAtSize(options.text, options.fontSize) : visibleWidth * options.imageScale;
+    const itemHeight = font
+      ? font.heightAtSize(options.fontSize, { descender: false })
+      : itemWidth * (image!.height / image!.width);
+    const visibleAngle = options.layout === WatermarkLayout.Diagonal
+      ? Math.atan2(visibleHeight, visibleWidth) * 180 / Math.PI
+      : options.rotation;
+    const angle = visibleAngle + pageRotation; // /Rotate turns the page clockwise when displayed
+    const radians = angle * Math.PI / 180;
+    const cos = Math.cos(radians), sin = Math.sin(radians);
+
+    // The watermark gets a content stream of its own. page.drawText would add to the stream pdf-lib
+    // keeps per page, which also holds anything else drawn on the page in this session.
+    const operators: PDFOperator[] = [];
+    const graphicsState = page.node.newExtGState('GS', pdfDoc.context.obj({ Type: 'ExtGState', ca: options.opacity }));
+    const fontKey = font && page.node.newFontDictionary(font.name, font.ref);
+    const imageKey = image && page.node.newXObject('Image', image.ref);
+    const drawCenteredAt = (centerX: number, centerY: number) => {
+      // Offset the origin (bottom-left corner) so the rotated item is centred on the point
+      const x = centerX - (itemWidth / 2 * cos - itemHeight / 2 * sin);
+      const y = centerY - (itemWidth / 2 * sin + itemHeight / 2 * cos);
+      const placement = { x, y, rotate: degrees(angle), xSkew: degrees(0), ySkew: degrees(0), graphicsState };
+      if (font && fontKey) {
+        operators.push(...drawText(font.encodeText(options.text), { ...placement, font: fontKey, size: options.fontSize, color: rgb(color.r, color.g, color.b) }));
+      } else if (imageKey) {
+        operators.push(...drawImage(imageKey, { ...placement, width: itemWidth, height: itemHeight }));
+      }
+    };
+
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    if (options.layout === WatermarkLayout.Tiled) {
+      // Grid spaced by the rotated bounding box, with every other row shifted by half a step
+      const gap = Math.max(itemHeight * 2, 40);
+      const stepX = Math.abs(itemWidth * cos) + Math.abs(itemHeight * sin) + gap;
+      const stepY = Math.abs(itemWidth * sin) + Math.abs(itemHeight * cos) + gap;
+      for (let row = 0, y = box.y; y < box.y + box.height + stepY; row++, y += stepY) {
+        for (let x = box.x - (row % 2 === 1 ? stepX / 2 : 0); x < box.x + box.width + stepX; x += stepX) {
+          drawCenteredAt(x, y);
+        }
+      }
+    } else {
+      drawCenteredAt(centerX, centerY);
+    }
+
+    const watermarkRef = pdfDoc.context.register(pdfDoc.context.contentStream([pushGraphicsState(), ...operators, popGraphicsState()]));
+    const contents = page.node.normalizedEntries().Contents!;
+    if (options.behindContent) {
+      contents.insert(0, watermarkRef);
+    } else {
+      contents.insert(0, saveStateRef);
+      contents.push(restoreStateRef);
+      contents.push(watermarkRef);
+    }
+    onProgress?.(done + 1, pageIndices.length);
+  }
+};
+
+export const addWatermarkToPdf = async (pdfBytes: Uint8Array | ArrayBuffer, options: WatermarkOptions, onProgress?: ProgressCallback): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfBytes);
+  await addWatermarkToDocument(pdfDoc, options, onProgress);
+  return pdfDoc.save();
+};
@@ -0,0 +1,234 @@
+import { PDFDocument, PDFDict, PDFHexString, PDFName, PDFObject, PDFRef, PDFStream, PDFString } from 'pdf-lib';
+import { PdfCustomMetadataEntry, PdfMetadata } from '../types';
+import { decodeStreamBytes } from './pdfContentStreamService';
+
+// Document information dictionary (ISO 32000-2, section 14.3.3) and XMP metadata (section 14.3.2)
+
+// Info keys with a dedicated field in PdfMetadata; anything else is a custom entry
+const TEXT_KEYS = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer',
+} as const;
+const DATE_KEYS = { creationDate: 'CreationDate', modificationDate: 'ModDate' } as const;
+const STANDARD_KEYS = new Set<string>([...Object.values(TEXT_KEYS), ...Object.values(DATE_KEYS), 'Trapped']);
+
+const loadPdf = async (pdfFile: File) =>
+  PDFDocument.load(await pdfFile.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+
+const decodeText = (object: PDFObject | undefined): string | undefined =>
+  object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : undefined;
+
+// Parses a PDF date string, e.g. "D:20240131154500+01'00'". Omitted fields take their earliest value.
+const parsePdfDate = (text: string | undefined): Date | null => {
+  const match = text?.trim().match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?'?)?/);
+  if (!match) return null;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const offset = sign === '+' || sign === '-' ? (sign === '-' ? -1 : 1) * (+offsetHours * 60 + +offsetMinutes) : 0;
+  const date = new Date(utc - offset * 60000);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const parseXmpDate = (text: string | undefined): Date | null => {
+  const date = text ? new Date(text) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const toXmpDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+// Also used for XFDF form data (see pdfFormService)
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const unescapeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const getMetadataStream = (pdfDoc: PDFDocument): PDFStream | undefined => {
+  const metadata = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+  return metadata instanceof PDFStream ? metadata : undefined;
+};
+
+const readXmp = (pdfDoc: PDFDocument): string | undefined => {
+  const stream = getMetadataStream(pdfDoc);
+  if (!stream) return undefined;
+  try {
+    return new TextDecoder().decode(decodeStreamBytes(stream));
+  } catch {
+    return undefined; // Unsupported filter; the Info dictionary is still used
+  }
+};
+
+// Reads a simple XMP property, written either as an attribute or as an element.
+// Arrays (rdf:Alt, rdf:Seq, rdf:Bag) are joined with "; ".
+const getXmpProperty = (xmp: string, property: string): string | undefined => {
+  const attribute = xmp.match(new RegExp(`\\s${property}\\s*=\\s*(["'])([\\s\\S]*?)\\1`));
+  if (attribute) return unescapeXml(attribute[2]);
+  const element = xmp.match(new RegExp(`<${property}(?:\\s[^>]*)?>([\\s\\S]*?)</${property}>`));
+  if (!element) return undefined;
+  const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map(item => unescapeXml(item[1].trim()));
+  return items.length > 0 ? items.join('; ') : unescapeXml(element[1].trim());
+};
+
+// Custom keys that can be written as XMP element names in the pdfx namespace, as Acrobat does
+const isXmlName = (key: string) => /^[A-Za-z_][\w.-]*$/.test(key);
+
+const buildXmp = (metadata: PdfMetadata, previousXmp: string | undefined): string => {
+  // Carry over identifiers that should survive an edit: the PDF/A claim and the document ID
+  const pdfaPart = previousXmp && getXmpProperty(previousXmp, 'pdfaid:part');
+  const pdfaConformance = previousXmp && getXmpProperty(previousXmp, 'pdfaid:conformance');
+  const documentId = (previousXmp && getXmpProperty(previousXmp, 'xmpMM:DocumentID')) || `uuid:${crypto.randomUUID()}`;
+
+  const element = (name: string, value: string) => `      <${name}>${escapeXml(value)}</${name}>`;
+  const properties: string[] = [];
+  if (metadata.title) properties.push(`      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>`);
+  if (metadata.author) properties.push(`      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  if (metadata.subject) properties.push(`      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.subject)}</rdf:li></rdf:Alt></dc:description>`);
+  if (metadata.keywords) properties.push(element('pdf:Keywords', metadata.keywords));
+  if (metadata.producer) properties.push(element('pdf:Producer', metadata.producer));
+  if (metadata.creator) properties.push(element('xmp:CreatorTool', metadata.creator));
+  if (metadata.creationDate) properties.push(element('xmp:CreateDate', toXmpDate(metadata.creationDate)));
+  if (metadata.modificationDate) properties.push(element('xmp:ModifyDate', toXmpDate(metadata.modificationDate)));
+  properties.push(element('xmp:MetadataDate', toXmpDate(new Date())));
+  properties.push(element('xmpMM:DocumentID', documentId));
+  properties.push(element('xmpMM:InstanceID', `uuid:${crypto.randomUUID()}`));
+  if (pdfaPart) properties.push(element('pdfaid:part', pdfaPart));
+  if (pdfaConformance) properties.push(element('pdfaid:conformance', pdfaConformance));
+  for (const { key, value } of metadata.custom) {
+    if (isXmlName(key)) properties.push(element(`pdfx:${key}`, value));
+  }
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '    <rdf:Description rdf:about=""',
+    '        xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '        xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '        xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"',
+    '        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    '        xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/">',
+    ...properties,
+    '    </rdf:Description>',
+    '  </rdf:RDF>',
+    '</x:xmpmeta>',
+    // Padding lets other tools edit the packet in place
+    ...Array.from({ length: 20 }, () => ' '.repeat(99)),
+    '<?xpacket end="w"?>',
+  ].join('\n');
+};
+
+/**
+ * Reads the document information dictionary. Fields missing from it are taken from the XMP
+ * metadata, which is where some producers (and PDF 2.0) keep them.
+ */
+export const readPdfMetadata = async (pdfFile: File): Promise<PdfMetadata> => {
+  const pdfDoc = await loadPdf(pdfFile);
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info);
+  const infoDict = info instanceof PDFDict ? info : undefined;
+  const xmp = readXmp(pdfDoc);
+  const getInfo = (key: string) => decodeText(infoDict?.lookup(PDFName.of(key)));
+  const fromXmp = (property: string) => (xmp ? getXmpProperty(xmp, property) : undefined);
+
+  const custom: PdfCustomMetadataEntry[] = [];
+  infoDict?.entries().forEach(([name, value]) => {
+    const key = name.decodeText();
+    const text = decodeText(infoDict.context.lookup(value));
+    if (!STANDARD_KEYS.has(key) && text !== undefined) custom.push({ key, value: text });
+  });
+
+  return {
+    title: getInfo(TEXT_KEYS.title) ?? fromXmp('dc:title') ?? '',
+    author: getInfo(TEXT_KEYS.author) ?? fromXmp('dc:creator') ?? '',
+    subject: getInfo(TEXT_KEYS.subject) ?? fromXmp('dc:description') ?? '',
+    keywords: getInfo(TEXT_KEYS.keywords) ?? fromXmp('pdf:Keywords') ?? '',
+    creator: getInfo(TEXT_KEYS.creator) ?? fromXmp('xmp:CreatorTool') ?? '',
+    producer: getInfo(TEXT_KEYS.producer) ?? fromXmp('pdf:Producer') ?? '',
+    creationDate: parsePdfDate(getInfo(DATE_KEYS.creationDate)) ?? parseXmpDate(fromXmp('xmp:CreateDate')),
+    modificationDate: parsePdfDate(getInfo(DATE_KEYS.modificationDate)) ?? parseXmpDate(fromXmp('xmp:ModifyDate')),
+    custom,
+  };
+};
+
+/**
+ * Replaces the document's metadata. The Info dictionary and a freshly written XMP packet get the
+ * same values; empty fields are removed. Nothing else (such as pdf-lib's default Producer) is added.
+ */
+export const writePdfMetadata = async (pdfFile: File, metadata: PdfMetadata): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfFile);
+  const { context } = pdfDoc;
+
+  const customKeys = new Set<string>();
+  for (const { key } of metadata.custom) {
+    if (!key.trim()) throw new Error("Custom metadata entries need a name.");
+    if (STANDARD_KEYS.has(key)) throw new Error(`"${key}" is a standard field; edit it above instead of as a custom entry.`);
+    if (customKeys.has(key)) throw new Error(`The custom entry "${key}" appears more than once.`);
+    customKeys.add(key);
+  }
+  for (const date of [metadata.creationDate, metadata.modificationDate]) {
+    if (date && isNaN(date.getTime())) throw new Error("Invalid date in metadata.");
+  }
+
+  const info = context.obj({});
+  // Keep entries the editor doesn't show, such as Trapped or non-text custom values
+  const previousInfo = context.lookup(context.trailerInfo.Info);
+  if (previousInfo instanceof PDFDict) {
+    previousInfo.entries().forEach(([name, value]) => {
+      const key = name.decodeText();
+      const isText = decodeText(context.lookup(value)) !== undefined;
+      if (key === 'Trapped' || (!STANDARD_KEYS.has(key) && !isText)) info.set(name, value);
+    });
+  }
+  (Object.keys(TEXT_KEYS) as (keyof typeof TEXT_KEYS)[]).forEach(field => {
+    if (metadata[field]) info.set(PDFName.of(TEXT_KEYS[field]), PDFHexString.fromText(metadata[field]));
+  });
+  (Object.keys(DATE_KEYS) as (keyof typeof DATE_KEYS)[]).forEach(field => {
+    const date = metadata[field];
+    if (date) info.set(PDFName.of(DATE_KEYS[field]), PDFString.fromDate(date));
+  });
+  for (const { key, value } of metadata.custom) info.set(PDFName.of(key), PDFHexString.fromText(value));
+
+  if (context.trailerInfo.Info instanceof PDFRef) context.assign(context.trailerInfo.Info, info);
+  else context.trailerInfo.Info = context.register(info);
+
+  const xmpStream = context.stream(new TextEncoder().encode(buildXmp(metadata, readXmp(pdfDoc))), { Type: 'Metadata', Subtype: 'XML' });
+  const previousXmpRef = pdfDoc.catalog.get(PDFName.of('Metadata'));
+  if (previousXmpRef instanceof PDFRef) context.delete(previousXmpRef);
+  pdfDoc.catalog.set(PDFName.of('Metadata'), context.register(xmpStream));
+
+  return pdfDoc.save();
+};
+
+/**
+ * Removes the Info dictionary and every XMP metadata stream (document, page and image level),
+ * along with application private data (PieceInfo).
+ */
+export const stripPdfMetadata = async (pdfFile: File): Promise<Uint8Array> => {
+  const pdfDoc = await loadPdf(pdfFile);
+  const { context } = pdfDoc;
+
+  const orphans: PDFRef[] = [];
+  if (context.trailerInfo.Info instanceof PDFRef) orphans.push(context.trailerInfo.Info);
+  context.trailerInfo.Info = undefined;
+
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    if (!dict) continue;
+    for (const key of ['Metadata', 'PieceInfo']) {
+      const value = dict.get(PDFName.of(key));
+      if (value === undefined) continue;
+      dict.delete(PDFName.of(key));
+      if (value instanceof PDFRef) orphans.push(value);
+    }
+  }
+  orphans.forEach(ref => context.delete(ref));
+
+  return pdfDoc.save();
+};
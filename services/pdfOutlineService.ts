@@ -0,0 +1,153 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNull, PDFNumber, PDFObject, PDFRef, PDFString } from 'pdf-lib';
+
+// Document outline, a.k.a. bookmarks (ISO 32000-2, section 12.3.3)
+
+export interface PdfOutlineItem {
+  title: string;
+  pageIndex?: number; // 0-indexed target page; undefined if the item has no in-document destination
+  view?: PDFObject[]; // Rest of the destination array, e.g. [/XYZ left top zoom]; only numbers, names and null
+  open: boolean;
+  color?: [number, number, number]; // RGB, 0-1
+  flags?: number; // 1 italic, 2 bold
+  children: PdfOutlineItem[];
+}
+
+const decodeText = (object: PDFObject | undefined): string | undefined =>
+  object instanceof PDFString || object instanceof PDFHexString ? object.decodeText() : undefined;
+
+// Collects named destinations from the Names tree (PDF 1.2+) and the older catalog Dests dictionary
+const collectNamedDestinations = (pdfDoc: PDFDocument): Map<string, PDFObject> => {
+  const destinations = new Map<string, PDFObject>();
+  const visited = new Set<PDFDict>();
+  const walkNameTree = (node: PDFObject | undefined) => {
+    if (!(node instanceof PDFDict) || visited.has(node)) return;
+    visited.add(node);
+    const names = node.lookup(PDFName.of('Names'));
+    if (names instanceof PDFArray) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const key = decodeText(names.lookup(i));
+        if (key !== undefined) destinations.set(key, names.get(i + 1));
+      }
+    }
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) kids.asArray().forEach(kid => walkNameTree(pdfDoc.context.lookup(kid)));
+  };
+  const namesDict = pdfDoc.catalog.lookup(PDFName.of('Names'));
+  if (namesDict instanceof PDFDict) walkNameTree(namesDict.lookup(PDFName.of('Dests')));
+
+  const dests = pdfDoc.catalog.lookup(PDFName.of('Dests'));
+  if (dests instanceof PDFDict) {
+    dests.entries().forEach(([name, value]) => destinations.set(name.decodeText(), value));
+  }
+  return destinations;
+};
+
+/**
+ * Reads the outline tree, resolving each item's destination (direct, named or through a GoTo
+ * action) to a page index. Items pointing elsewhere, such as web links, keep their title only.
+ */
+export const readPdfOutline = (pdfDoc: PDFDocument): PdfOutlineItem[] => {
+  const { context } = pdfDoc;
+  const outlines = pdfDoc.catalog.lookup(PDFName.of('Outlines'));
+  if (!(outlines instanceof PDFDict)) return [];
+
+  const pageIndices = new Map<PDFRef, number>();
+  pdfDoc.getPages().forEach((page, index) => pageIndices.set(page.ref, index));
+  let namedDestinations: Map<string, PDFObject> | undefined;
+
+  const resolveDestination = (destination: PDFObject | undefined): PDFArray | undefined => {
+    let resolved = context.lookup(destination);
+    if (resolved instanceof PDFName || resolved instanceof PDFString || resolved instanceof PDFHexString) {
+      namedDestinations ??= collectNamedDestinations(pdfDoc);
+      resolved = context.lookup(namedDestinations.get(resolved.decodeText()));
+    }
+    if (resolved instanceof PDFDict) resolved = resolved.lookup(PDFName.of('D')); // Named destinations may be wrapped
+    return resolved instanceof PDFArray ? resolved : undefined;
+  };
+
+  const visited = new Set<PDFDict>(); // Guards against cycles in malformed files
+  const readItems = (first: PDFObject | undefined): PdfOutlineItem[] => {
+    const items: PdfOutlineItem[] = [];
+    let node = context.lookup(first);
+    while (node instanceof PDFDict && !visited.has(node)) {
+      visited.add(node);
+      let destination = node.get(PDFName.of('Dest'));
+      const action = node.lookup(PDFName.of('A'));
+      if (!destination && action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+        destination = action.get(PDFName.of('D'));
+      }
+      const destArray = resolveDestination(destination);
+      const target = destArray?.get(0);
+      const pageIndex = target instanceof PDFRef ? pageIndices.get(target) : undefined;
+
+      const color = node.lookup(PDFName.of('C'));
+      const rgbColor = color instanceof PDFArray && color.size() === 3 ? color.asArray().map(c => (c instanceof PDFNumber ? c.asNumber() : 0)) : undefined;
+      const flags = node.lookup(PDFName.of('F'));
+      const count = node.lookup(PDFName.of('Count'));
+
+      items.push({
+        title: decodeText(node.lookup(PDFName.of('Title'))) ?? '',
+        pageIndex,
+        view: pageIndex !== undefined ? destArray!.asArray().slice(1).filter(o => o instanceof PDFName || o instanceof PDFNumber || o === PDFNull) : undefined,
+        open: count instanceof PDFNumber && count.asNumber() > 0,
+        color: rgbColor as [number, number, number] | undefined,
+        flags: flags instanceof PDFNumber && flags.asNumber() !== 0 ? flags.asNumber() : undefined,
+        children: readItems(node.get(PDFName.of('First'))),
+      });
+      node = context.lookup(node.get(PDFName.of('Next')));
+    }
+    return items;
+  };
+
+  return readItems(outlines.get(PDFName.of('First')));
+};
+
+/**
+ * Replaces the document's outline with the given items. Page indices refer to pages of pdfDoc.
+ */
+export const writePdfOutline = (pdfDoc: PDFDocument, items: PdfOutlineItem[]) => {
+  const { context } = pdfDoc;
+  const pages = pdfDoc.getPages();
+
+  // Writes the items as siblings under parentRef; returns the number of entries visible when the parent is open
+  const writeItems = (parentRef: PDFRef, siblings: PdfOutlineItem[], parent: PDFDict) => {
+    const refs = siblings.map(() => context.nextRef());
+    let visibleCount = 0;
+    siblings.forEach((item, i) => {
+      const dict = context.obj({});
+      dict.set(PDFName.of('Title'), PDFHexString.fromText(item.title));
+      dict.set(PDFName.of('Parent'), parentRef);
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < refs.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+      const page = item.pageIndex !== undefined ? pages[item.pageIndex] : undefined;
+      if (page) {
+        const view = item.view && item.view.length > 0 ? item.view : [PDFName.of('XYZ'), PDFNull, PDFNull, PDFNull];
+        dict.set(PDFName.of('Dest'), context.obj([page.ref, ...view]));
+      }
+      if (item.color) dict.set(PDFName.of('C'), context.obj(item.color));
+      if (item.flags) dict.set(PDFName.of('F'), PDFNumber.of(item.flags));
+
+      const descendants = item.children.length > 0 ? writeItems(refs[i], item.children, dict) : 0;
+      if (descendants > 0) dict.set(PDFName.of('Count'), PDFNumber.of(item.open ? descendants : -descendants));
+      visibleCount += 1 + (item.open ? descendants : 0);
+      context.assign(refs[i], dict);
+    });
+    if (refs.length > 0) {
+      parent.set(PDFName.of('First'), refs[0]);
+      parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+    }
+    return visibleCount;
+  };
+
+  if (items.length === 0) {
+    pdfDoc.catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+  const outlinesRef = context.nextRef();
+  const outlines = context.obj({ Type: 'Outlines' });
+  const visibleCount = writeItems(outlinesRef, items, outlines);
+  outlines.set(PDFName.of('Count'), PDFNumber.of(visibleCount));
+  context.assign(outlinesRef, outlines);
+  pdfDoc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines')); // Open with the bookmarks panel shown
+};
@@ -0,0 +1,228 @@
+import { PDFDocument } from 'pdf-lib';
+import { CompressionLevel, FontInput, PageNumberPosition, PdfRecipe, PipelineStep, PipelineStepType, StandardPdfFonts, WatermarkLayout } from '../types';
+import { compressPdfDocument } from './pdfCompressionService';
+import {
+  NamedPdfDocument,
+  addPageNumbersToDocument,
+  addWatermarkToDocument,
+  extractPagesFromDocument,
+  mergePdfDocuments,
+  rotateDocumentPages,
+} from './pdfManipulatorService';
+
+// Runs a chain of operations on one in-memory document, and stores chains as named recipes in
+// local storage or as JSON files that can be shared.
+
+const RECIPES_STORAGE_KEY = 'lovpdf.recipes';
+const RECIPE_FORMAT = 'lovpdf-recipe';
+const RECIPE_VERSION = 1;
+
+export const PIPELINE_STEP_LABELS: Record<PipelineStepType, string> = {
+  merge: 'Merge files',
+  extractPages: 'Keep pages',
+  rotate: 'Rotate pages',
+  pageNumbers: 'Add page numbers',
+  watermark: 'Add watermark',
+  compress: 'Compress',
+};
+
+/**
+ * Creates a step with default settings, matching the defaults of the single tools.
+ */
+export const createPipelineStep = (type: PipelineStepType): PipelineStep => {
+  switch (type) {
+    case 'merge': return { type, preserveBookmarks: true, bookmarkPerFile: false };
+    case 'extractPages': return { type, pageRange: '' };
+    case 'rotate': return { type, pageRange: '', angle: 90 };
+    case 'pageNumbers': return { type, format: '%p / %t', position: PageNumberPosition.BottomCenter, font: StandardPdfFonts.Helvetica, customFontName: '', fontSize: 12, colorHex: '#000000' };
+    case 'watermark': return {
+      type,
+      text: 'CONFIDENTIAL',
+      font: StandardPdfFonts.HelveticaBold,
+      customFontName: '',
+      fontSize: 60,
+      colorHex: '#FF0000',
+      opacity: 0.3,
+      rotation: 45,
+      layout: WatermarkLayout.Diagonal,
+      behindContent: false,
+      pageRange: '',
+    };
+    case 'compress': return { type, level: CompressionLevel.Recommended };
+  }
+};
+
+/**
+ * One-line summary of a step's settings, e.g. "Rotate pages 2-3 by 90°".
+ */
+export const describePipelineStep = (step: PipelineStep): string => {
+  switch (step.type) {
+    case 'merge': return 'Merge the uploaded files in order';
+    case 'extractPages': return `Keep pages ${step.pageRange || '(none selected)'}`;
+    case 'rotate': return `Rotate pages ${step.pageRange || '(none selected)'} by ${step.angle}°`;
+    case 'pageNumbers': return `Add page numbers "${step.format}"`;
+    case 'watermark': return `Add watermark "${step.text}"${step.behindContent ? ' behind the content' : ''}${step.pageRange.trim() ? ` on pages ${step.pageRange}` : ''}`;
+    case 'compress': return `Compress (${step.level})`;
+  }
+};
+
+/**
+ * Applies the steps in order to the uploaded PDFs and saves the result once at the end.
+ * Several files must be combined by a merge step, which can only come first.
+ * @param fallbackFont For page numbers and watermarks the standard fonts can't show.
+ * @param uploadedFonts The fonts that steps name in customFontName.
+ * @returns The PDF bytes.
+ */
+export const runPipeline = async (files: File[], steps: PipelineStep[], fallbackFont?: FontInput, uploadedFonts: FontInput[] = []): Promise<Uint8Array> => {
+  if (files.length === 0) throw new Error("Please upload at least one PDF.");
+  if (steps.length === 0) throw new Error("Add at least one step to the pipeline.");
+  if (steps.some((step, i) => step.type === 'merge' && i > 0)) throw new Error("Merging combines the uploaded files, so it can only be the first step.");
+  if (files.length > 1 && steps[0].type !== 'merge') throw new Error("Start the pipeline with a merge step to combine several files, or upload a single PDF.");
+
+  const sources: NamedPdfDocument[] = [];
+  for (const file of files) {
+    const pdfBytes = await file.arrayBuffer();
+    sources.push({ name: file.name, pdfDoc: await PDFDocument.load(pdfBytes, { ignoreEncryption: true }) });
+  }
+
+  const fontsOf = ({ customFontName }: { customFontName: string }) => {
+    const customFont = customFontName ? uploadedFonts.find(font => font.name === customFontName) : undefined;
+    if (customFontName && !customFont) throw new Error(`The font "${customFontName}" is not uploaded. Upload it again or choose another font.`);
+    return { customFont, fallbackFont };
+  };
+
+  let pdfDoc = sources[0].pdfDoc;
+  let compressed = false;
+  for (const [index, step] of steps.entries()) {
+    try {
+      switch (step.type) {
+        case 'merge': pdfDoc = await mergePdfDocuments(sources, step); break;
+        case 'extractPages': pdfDoc = await extractPagesFromDocument(pdfDoc, step.pageRange); break;
+        case 'rotate': rotateDocumentPages(pdfDoc, { pageRangesStr: step.pageRange, angle: step.angle }); break;
+        case 'pageNumbers': await addPageNumbersToDocument(pdfDoc, { ...step, ...fontsOf(step) }); break;
+        // A watermark behind the content also stays under page numbers stamped by an earlier step.
+        case 'watermark': await addWatermarkToDocument(pdfDoc, { ...step, type: 'text', imageScale: 0, ...fontsOf(step) }); break;
+        case 'compress':
+          await compressPdfDocument(pdfDoc, step.level);
+          compressed = true;
+          break;
+      }
+    } catch (err) {
+      throw new Error(`Step ${index + 1} (${PIPELINE_STEP_LABELS[step.type]}): ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return pdfDoc.save({ useObjectStreams: compressed });
+};
+
+// --- Recipes ---
+
+// Values that fields with a fixed set of choices may take
+const ALLOWED_VALUES: Record<string, readonly unknown[]> = {
+  angle: [90, 180, 270],
+  position: Object.values(PageNumberPosition),
+  font: Object.values(StandardPdfFonts),
+  layout: Object.values(WatermarkLayout),
+  level: Object.values(CompressionLevel),
+};
+
+// Fields missing from a step keep their defaults, so recipes written by older versions still load
+const parseStep = (value: unknown, index: number): PipelineStep => {
+  const fields = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const type = fields.type as PipelineStepType;
+  if (typeof type !== 'string' || !Object.keys(PIPELINE_STEP_LABELS).includes(type)) {
+    throw new Error(`Step ${index + 1} of the recipe has an unknown type${typeof type === 'string' ? ` "${type}"` : ''}.`);
+  }
+  const step: Record<string, unknown> = { ...createPipelineStep(type) };
+  for (const key of Object.keys(step)) {
+    const field = fields[key];
+    if (field === undefined || key === 'type') continue;
+    if (typeof field !== typeof step[key] || (ALLOWED_VALUES[key] && !ALLOWED_VALUES[key].includes(field))) {
+      throw new Error(`Step ${index + 1} of the recipe (${PIPELINE_STEP_LABELS[type]}) has an invalid ${key}: ${JSON.stringify(field)}.`);
+    }
+    step[key] = field;
+  }
+  return step as PipelineStep;
+};
+
+const readRecipe = (value: unknown): PdfRecipe => {
+  const recipe = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  if (!Array.isArray(recipe.steps)) throw new Error("The recipe has no steps.");
+  if (typeof recipe.version === 'number' && recipe.version > RECIPE_VERSION) {
+    throw new Error("The recipe was made by a newer version of LovPdf.");
+  }
+  return {
+    name: typeof recipe.name === 'string' && recipe.name.trim() ? recipe.name.trim() : 'Imported recipe',
+    steps: recipe.steps.map(parseStep),
+  };
+};
+
+/**
+ * Serializes a recipe for sharing as a .json file.
+ */
+export const recipeToJson = (recipe: PdfRecipe): string =>
+  JSON.stringify({ format: RECIPE_FORMAT, version: RECIPE_VERSION, name: recipe.name, steps: recipe.steps }, null, 2);
+
+/**
+ * Reads a recipe exported by recipeToJson, checking every step.
+ */
+export const parseRecipeJson = (text: string): PdfRecipe => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("The recipe file is not valid JSON.");
+  }
+  if ((parsed as Record<string, unknown> | null)?.format !== RECIPE_FORMAT) throw new Error("The file is not a LovPdf recipe.");
+  return readRecipe(parsed);
+};
+
+/**
+ * Recipes saved in this browser, sorted by name. Entries that no longer parse are skipped.
+ */
+export const loadSavedRecipes = (): PdfRecipe[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(RECIPES_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  const recipes: PdfRecipe[] = [];
+  for (const entry of stored) {
+    try {
+      recipes.push(readRecipe(entry));
+    } catch (e) {
+      console.warn("Skipping a saved recipe that could not be read:", e);
+    }
+  }
+  return recipes.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const storeRecipes = (recipes: PdfRecipe[]) => {
+  try {
+    localStorage.setItem(RECIPES_STORAGE_KEY, JSON.stringify(recipes.map(({ name, steps }) => ({ version: RECIPE_VERSION, name, steps }))));
+  } catch {
+    throw new Error("The recipe could not be saved. Browser storage may be full or disabled.");
+  }
+};
+
+/**
+ * Saves a recipe in local storage, replacing one with the same name.
+ * @returns The saved recipes, sorted by name.
+ */
+export const saveRecipe = (recipe: PdfRecipe): PdfRecipe[] => {
+  const name = recipe.name.trim();
+  if (!name) throw new Error("Please enter a name for the recipe.");
+  if (recipe.steps.length === 0) throw new Error("Add at least one step before saving the recipe.");
+  storeRecipes([...loadSavedRecipes().filter(saved => saved.name !== name), { name, steps: recipe.steps }]);
+  return loadSavedRecipes();
+};
+
+/**
+ * Removes a recipe from local storage.
+ * @returns The remaining recipes, sorted by name.
+ */
+export const deleteSavedRecipe = (name: string): PdfRecipe[] => {
+  storeRecipes(loadSavedRecipes().filter(saved => saved.name !== name));
+  return loadSavedRecipes();
+};
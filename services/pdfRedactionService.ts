@@ -0,0 +1,661 @@
+import {
+  PDFArray, PDFContext, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFPage, PDFRawStream, PDFRef,
+  PDFStream, PDFString,
+} from 'pdf-lib';
+import { RedactionArea, RedactionReport, RedactionSearchOptions, RedactionSearchPreset, RedactPdfOptions } from '../types';
+import {
+  ContentOperand, ContentOperation, getPageContentBytes, IDENTITY_MATRIX, invertMatrix, isName, Matrix, parseContentStream,
+  serializeContentStream, transformPoint,
+} from './pdfContentStreamService';
+import { canvasToJpeg, createCanvas, decodeImage, get2dContext, getColorComponents, removeUnusedObjects } from './pdfCompressionService';
+import {
+  boundsOf, DrawnInlineImage, DrawnXObject, getPageDisplayTransform, getPageGlyphs, glyphsToText, isFormXObject,
+  openFormXObject, PageRect, PositionedGlyph, rectsIntersect, TextShowOperation, walkContent,
+} from './pdfTextService';
+
+// Redaction removes what lies under the marked areas from the file itself: text is cut out of the
+// content streams, image pixels are blacked out and overlapping annotations are deleted. Black boxes
+// are then drawn over the areas.
+
+export interface RedactPdfResult {
+  pdfBytes: Uint8Array;
+  report: RedactionReport;
+}
+
+export const REDACTION_PRESET_PATTERNS: Record<RedactionSearchPreset, RegExp> = {
+  [RedactionSearchPreset.Email]: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  [RedactionSearchPreset.Iban]: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+  [RedactionSearchPreset.AccountNumber]: /\b\d(?:[ -]?\d){7,}\b/g,
+};
+
+// Glyphs at least this much covered by an area are removed; less covered neighbours are kept
+const MIN_COVERED_FRACTION = 0.2;
+
+// Marked content properties that hold a replacement or alternate text for the content they enclose
+const MARKED_CONTENT_TEXT_KEYS = ['ActualText', 'Alt', 'E'];
+
+interface RedactionState {
+  context: PDFContext;
+  report: RedactionReport;
+  replacedXObjects: Set<PDFStream>; // Originals of redacted images and forms
+}
+
+interface RedactedContent {
+  operations: ContentOperation[];
+  resources?: PDFDict; // Set if the resources had to change
+  changed: boolean;
+}
+
+/**
+ * Converts an area on the displayed page to a rectangle in the page's user space.
+ */
+export const displayAreaToPageRect = (page: PDFPage, area: RedactionArea): PageRect => {
+  const { matrix, width, height } = getPageDisplayTransform(page);
+  const toUserSpace = invertMatrix(matrix)!; // Display transforms are rotations and flips, always invertible
+  return boundsOf([
+    transformPoint(toUserSpace, area.x * width, area.y * height),
+    transformPoint(toUserSpace, (area.x + area.width) * width, (area.y + area.height) * height),
+  ]);
+};
+
+/**
+ * Converts a rectangle in the page's user space to an area on the displayed page.
+ */
+export const pageRectToDisplayArea = (page: PDFPage, pageIndex: number, rect: PageRect): RedactionArea => {
+  const { matrix, width, height } = getPageDisplayTransform(page);
+  const bounds = boundsOf([transformPoint(matrix, rect.x0, rect.y0), transformPoint(matrix, rect.x1, rect.y1)]);
+  return { pageIndex, x: bounds.x0 / width, y: bounds.y0 / height, width: (bounds.x1 - bounds.x0) / width, height: (bounds.y1 - bounds.y0) / height };
+};
+
+/**
+ * Returns the size of each page as displayed, i.e. its CropBox with the page rotation applied.
+ */
+export const getDisplayedPageSizes = async (file: File): Promise<{ width: number; height: number }[]> => {
+  const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  return pdfDoc.getPages().map(page => {
+    const { width, height } = getPageDisplayTransform(page);
+    return { width, height };
+  });
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildSearchPatterns = (search: RedactionSearchOptions | undefined): RegExp[] => {
+  if (!search) return [];
+  const patterns = search.presets.map(preset => REDACTION_PRESET_PATTERNS[preset]);
+  const query = search.query.trim();
+  if (query) {
+    const source = search.useRegex ? query : escapeRegExp(query).replace(/\s+/g, '\\s+'); // Matches across line breaks too
+    try {
+      patterns.push(new RegExp(source, search.caseSensitive ? 'gu' : 'giu'));
+    } catch (e) {
+      throw new Error(`Invalid regular expression: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return patterns;
+};
+
+// Rectangles covering each match, one per line the match spans
+const findMatchRects = (glyphs: PositionedGlyph[], patterns: RegExp[]): { count: number; rects: PageRect[] } => {
+  const { text, glyphIndices } = glyphsToText(glyphs);
+  const startsLine = new Set<number>(); // Glyphs preceded by a line break
+  glyphIndices.forEach((glyphIndex, position) => { if (glyphIndex >= 0 && text[position - 1] === '\n') startsLine.add(glyphIndex); });
+  const rects: PageRect[] = [];
+  let count = 0;
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      if (!match[0]) continue;
+      count++;
+      const start = match.index ?? 0;
+      const matched = [...new Set(glyphIndices.slice(start, start + match[0].length).filter(index => index >= 0))];
+      let line: PositionedGlyph[] = [];
+      const flushLine = () => {
+        if (line.length > 0) rects.push(boundsOf(line.flatMap(g => [[g.box.x0, g.box.y0], [g.box.x1, g.box.y1]] as [number, number][])));
+        line = [];
+      };
+      matched.forEach((glyphIndex, i) => {
+        if (i > 0 && startsLine.has(glyphIndex)) flushLine();
+        line.push(glyphs[glyphIndex]);
+      });
+      flushLine();
+    }
+  }
+  return { count, rects };
+};
+
+const coveredFraction = (box: PageRect, rect: PageRect) => {
+  const width = Math.min(box.x1, rect.x1) - Math.max(box.x0, rect.x0);
+  const height = Math.min(box.y1, rect.y1) - Math.max(box.y0, rect.y0);
+  if (width < 0 || height < 0) return 0;
+  const area = (box.x1 - box.x0) * (box.y1 - box.y0);
+  return area > 0 ? (width * height) / area : 1; // Zero-size glyphs count as covered if they touch the area
+};
+
+const isGlyphRedacted = (glyph: PositionedGlyph, rects: PageRect[]) =>
+  rects.some(rect => coveredFraction(glyph.box, rect) >= MIN_COVERED_FRACTION);
+
+const unitSquareBounds = (ctm: Matrix) =>
+  boundsOf([[0, 0], [1, 0], [1, 1], [0, 1]].map(([x, y]) => transformPoint(ctm, x, y)));
+
+/**
+ * Rewrites a text-showing operation as TJ without the removed glyphs. Each removed glyph becomes a
+ * position adjustment of its width, so the remaining text stays where it was.
+ */
+const rewriteTextShow = (
+  op: ContentOperation,
+  show: TextShowOperation,
+  shouldRemove: (glyph: PositionedGlyph) => boolean
+): { operations: ContentOperation[]; removed: number } => {
+  const items: ContentOperand[] = [];
+  let removed = 0;
+  const pushAdjustment = (value: number) => {
+    const last = items[items.length - 1];
+    if (typeof last === 'number') items[items.length - 1] = last + value;
+    else items.push(value);
+  };
+  for (const element of show.elements) {
+    if (typeof element === 'number') {
+      pushAdjustment(element);
+      continue;
+    }
+    let run: number[] = [];
+    const flushRun = () => {
+      if (run.length > 0) items.push({ kind: 'string', bytes: Uint8Array.from(run), hex: true });
+      run = [];
+    };
+    for (const glyph of element) {
+      if (shouldRemove(glyph)) {
+        flushRun();
+        removed++;
+        pushAdjustment(show.fontSize ? (-glyph.advance / show.fontSize) * 1000 : 0);
+      } else {
+        run.push(...glyph.bytes);
+      }
+    }
+    flushRun();
+  }
+
+  const textShow: ContentOperation = { operator: 'TJ', operands: [items] };
+  const nextLine: ContentOperation = { operator: 'T*', operands: [] };
+  switch (op.operator) {
+    case "'": return { operations: [nextLine, textShow], removed };
+    case '"': return {
+      operations: [
+        { operator: 'Tw', operands: [op.operands[0]] },
+        { operator: 'Tc', operands: [op.operands[1]] },
+        nextLine,
+        textShow,
+      ],
+      removed,
+    };
+    default: return { operations: [textShow], removed };
+  }
+};
+
+// For each operation, the index of the innermost BDC or BMC enclosing it, or -1
+const getEnclosingMarkedContent = (operations: ContentOperation[]) => {
+  const stack: number[] = [];
+  return operations.map((op, index) => {
+    if (op.operator === 'EMC') stack.pop();
+    const enclosing = stack.length > 0 ? stack[stack.length - 1] : -1;
+    if (op.operator === 'BDC' || op.operator === 'BMC') stack.push(index);
+    return enclosing;
+  });
+};
+
+const stripMarkedContentText = (op: ContentOperation): ContentOperation => {
+  const properties = op.operands[1];
+  if (op.operator !== 'BDC' || typeof properties !== 'object' || properties === null || Array.isArray(properties) || properties.kind !== 'dict') {
+    return op;
+  }
+  const entries = new Map(properties.entries);
+  MARKED_CONTENT_TEXT_KEYS.forEach(key => entries.delete(key));
+  return { ...op, operands: [op.operands[0], { kind: 'dict', entries }] };
+};
+
+// Copies a soft mask with the given pixel rectangles made opaque, so the redacted shape can't be read from it
+const redactSoftMask = async (
+  mask: PDFRawStream,
+  pixelRects: PageRect[],
+  scaleX: number,
+  scaleY: number,
+  context: PDFContext
+): Promise<PDFStream | undefined> => {
+  const width = mask.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = mask.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+  if (width <= 0 || height <= 0) return undefined;
+  const decoded = await decodeImage(mask, width, height, context);
+  if ('skippedReason' in decoded) return undefined;
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(decoded.source, 0, 0);
+  if ('close' in decoded.source) decoded.source.close();
+  ctx.fillStyle = '#ffffff';
+  pixelRects.forEach(r => ctx.fillRect(r.x0 * scaleX, r.y0 * scaleY, (r.x1 - r.x0) * scaleX, (r.y1 - r.y0) * scaleY));
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = rgba[i * 4];
+  return context.flateStream(gray, {
+    Type: 'XObject', Subtype: 'Image', Width: width, Height: height, ColorSpace: 'DeviceGray', BitsPerComponent: 8,
+  });
+};
+
+/**
+ * Returns a copy of an image with the given pixel rectangles painted black, or undefined if the image
+ * can't be decoded and re-encoded here.
+ */
+const redactImage = async (image: PDFStream, pixelRects: PageRect[], context: PDFContext): Promise<PDFStream | undefined> => {
+  if (!(image instanceof PDFRawStream)) return undefined;
+  const { dict } = image;
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+  if (width <= 0 || height <= 0) return undefined;
+  const decoded = await decodeImage(image, width, height, context);
+  if ('skippedReason' in decoded) return undefined;
+
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(decoded.source, 0, 0);
+  if ('close' in decoded.source) decoded.source.close();
+  ctx.fillStyle = '#000000';
+  pixelRects.forEach(r => ctx.fillRect(r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0));
+
+  const newDict: Record<string, PDFObject | string | number> = {
+    Type: 'XObject', Subtype: 'Image', Width: width, Height: height, BitsPerComponent: 8,
+  };
+  for (const key of ['Interpolate', 'Intent']) {
+    const value = dict.get(PDFName.of(key));
+    if (value) newDict[key] = value;
+  }
+  const softMask = dict.lookup(PDFName.of('SMask'));
+  if (softMask instanceof PDFStream) {
+    if (!(softMask instanceof PDFRawStream)) return undefined;
+    const maskWidth = softMask.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? width;
+    const maskHeight = softMask.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? height;
+    const newMask = await redactSoftMask(softMask, pixelRects, maskWidth / width, maskHeight / height, context);
+    if (!newMask) return undefined;
+    newDict.SMask = context.register(newMask);
+  }
+
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filterName = filter instanceof PDFArray && filter.size() === 1 ? filter.lookup(0) : filter;
+  if (filterName === PDFName.of('DCTDecode')) {
+    return context.stream(await canvasToJpeg(canvas, 0.92), { ...newDict, ColorSpace: 'DeviceRGB', Filter: 'DCTDecode' });
+  }
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const components = getColorComponents(colorSpace, context) ?? 3;
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const pixels = new Uint8Array(width * height * components);
+  for (let i = 0, j = 0; i < width * height; i++) {
+    pixels[j++] = rgba[i * 4];
+    if (components === 3) {
+      pixels[j++] = rgba[i * 4 + 1];
+      pixels[j++] = rgba[i * 4 + 2];
+    }
+  }
+  return context.flateStream(pixels, { ...newDict, ColorSpace: dict.get(PDFName.of('ColorSpace')) ?? 'DeviceRGB' });
+};
+
+// The parts of an image drawn with the given CTM that fall under the rectangles, in pixels from the top-left
+const getImagePixelRects = (image: PDFStream, ctm: Matrix, rects: PageRect[]): PageRect[] => {
+  const inverse = invertMatrix(ctm);
+  const width = image.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = image.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+  if (!inverse || width <= 0 || height <= 0) return [];
+  const pixelRects: PageRect[] = [];
+  for (const rect of rects) {
+    const corners = [[rect.x0, rect.y0], [rect.x1, rect.y0], [rect.x1, rect.y1], [rect.x0, rect.y1]];
+    const unit = boundsOf(corners.map(([x, y]) => transformPoint(inverse, x, y)));
+    const x0 = Math.max(0, Math.floor(unit.x0 * width));
+    const x1 = Math.min(width, Math.ceil(unit.x1 * width));
+    const y0 = Math.max(0, Math.floor((1 - unit.y1) * height)); // Image rows run top to bottom
+    const y1 = Math.min(height, Math.ceil((1 - unit.y0) * height));
+    if (x1 > x0 && y1 > y0) pixelRects.push({ x0, y0, x1, y1 });
+  }
+  return pixelRects;
+};
+
+const usedXObjectNames = (operations: ContentOperation[]) => {
+  const names = new Set<string>();
+  operations.forEach(op => {
+    const name = op.operands[0];
+    if (op.operator === 'Do' && isName(name)) names.add(name.value);
+  });
+  return names;
+};
+
+/**
+ * Removes everything under the rectangles from a content stream, recursing into Form XObjects.
+ */
+const redactContent = async (
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  ctm: Matrix,
+  rects: PageRect[],
+  state: RedactionState,
+  depth: number
+): Promise<RedactedContent> => {
+  const { context, report } = state;
+  const shows: TextShowOperation[] = [];
+  const drawnXObjects: DrawnXObject[] = [];
+  const inlineImages: DrawnInlineImage[] = [];
+  walkContent(operations, resources, {
+    onText: show => shows.push(show),
+    onXObject: drawn => drawnXObjects.push(drawn),
+    onInlineImage: drawn => inlineImages.push(drawn),
+  }, ctm);
+
+  const replacements = new Map<number, ContentOperation[]>();
+  const enclosingMarkedContent = getEnclosingMarkedContent(operations);
+  const strippedMarkedContent = new Set<number>();
+
+  for (const show of shows) {
+    const glyphs = show.elements.flatMap(element => (typeof element === 'number' ? [] : element));
+    if (!glyphs.some(glyph => isGlyphRedacted(glyph, rects))) continue;
+    // Without reliable codes or widths, cutting single glyphs could leave parts of them behind
+    const removeAll = !show.font.exact;
+    const rewritten = rewriteTextShow(operations[show.operationIndex], show, glyph => removeAll || isGlyphRedacted(glyph, rects));
+    replacements.set(show.operationIndex, rewritten.operations);
+    report.charactersRemoved += rewritten.removed;
+    for (let i = enclosingMarkedContent[show.operationIndex]; i >= 0; i = enclosingMarkedContent[i]) strippedMarkedContent.add(i);
+  }
+
+  // New XObjects go into a copy of the resources, so other pages and forms sharing them are unaffected
+  let newResources: PDFDict | undefined;
+  let newXObjects: PDFDict | undefined;
+  const addXObject = (stream: PDFStream): string => {
+    if (!newResources || !newXObjects) {
+      newResources = resources ? resources.clone(context) : context.obj({});
+      const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+      newXObjects = xObjects ? xObjects.clone(context) : context.obj({});
+      newResources.set(PDFName.of('XObject'), newXObjects);
+    }
+    let n = 1;
+    while (newXObjects.has(PDFName.of(`Rd${n}`))) n++;
+    newXObjects.set(PDFName.of(`Rd${n}`), context.register(stream));
+    return `Rd${n}`;
+  };
+  const drawInstead = (operationIndex: number, name: string) =>
+    replacements.set(operationIndex, [{ operator: 'Do', operands: [{ kind: 'name', value: name }] }]);
+
+  for (const drawn of drawnXObjects) {
+    const { xObject, operationIndex } = drawn;
+    if (isFormXObject(xObject)) {
+      if (depth >= 10) continue; // Guard against cyclic forms
+      let form: ReturnType<typeof openFormXObject>;
+      try {
+        form = openFormXObject(xObject, resources, drawn.ctm);
+      } catch (e) {
+        console.warn(`Could not parse form XObject ${drawn.name}:`, e);
+        const bbox = xObject.dict.lookupMaybe(PDFName.of('BBox'), PDFArray)?.asArray().map(n => Number(n.toString()));
+        const bounds = bbox?.length === 4 ? boundsOf([[bbox[0], bbox[1]], [bbox[2], bbox[3]]]) : undefined;
+        if (!bounds || rects.some(rect => rectsIntersect(rect, bounds))) {
+          replacements.set(operationIndex, []);
+          report.imagesRemoved++;
+        }
+        continue;
+      }
+      const redacted = await redactContent(form.operations, form.resources, form.ctm, rects, state, depth + 1);
+      if (!redacted.changed) continue;
+      const formDict: Record<string, PDFObject> = {};
+      for (const [key, value] of xObject.dict.entries()) {
+        if (!['Length', 'Filter', 'DecodeParms'].includes(key.decodeText())) formDict[key.decodeText()] = value;
+      }
+      if (redacted.resources) formDict.Resources = redacted.resources;
+      drawInstead(operationIndex, addXObject(context.flateStream(serializeContentStream(redacted.operations), formDict)));
+      state.replacedXObjects.add(xObject);
+    } else if (xObject.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image')) {
+      const bounds = unitSquareBounds(drawn.ctm);
+      if (!rects.some(rect => rectsIntersect(rect, bounds))) continue;
+      const pixelRects = getImagePixelRects(xObject, drawn.ctm, rects);
+      if (pixelRects.length === 0) continue;
+      let redactedImage: PDFStream | undefined;
+      try {
+        redactedImage = await redactImage(xObject, pixelRects, context);
+      } catch (e) {
+        console.warn(`Could not redact image ${drawn.name}:`, e);
+      }
+      if (redactedImage) {
+        drawInstead(operationIndex, addXObject(redactedImage));
+        report.imagesRedacted++;
+      } else {
+        replacements.set(operationIndex, []); // Can't black out its pixels, so the image goes entirely
+        report.imagesRemoved++;
+      }
+      state.replacedXObjects.add(xObject);
+    }
+  }
+
+  for (const drawn of inlineImages) {
+    const bounds = unitSquareBounds(drawn.ctm);
+    if (rects.some(rect => rectsIntersect(rect, bounds))) {
+      replacements.set(drawn.operationIndex, []);
+      report.imagesRemoved++;
+    }
+  }
+
+  if (replacements.size === 0) return { operations, changed: false };
+  const output: ContentOperation[] = [];
+  operations.forEach((op, index) => {
+    const replacement = replacements.get(index);
+    if (replacement) output.push(...replacement);
+    else output.push(strippedMarkedContent.has(index) ? stripMarkedContentText(op) : op);
+  });
+  if (newXObjects) {
+    // Drop the originals from the copied resources so they are no longer reachable from here
+    const used = usedXObjectNames(output);
+    newXObjects.keys().forEach(key => { if (!used.has(key.decodeText())) newXObjects!.delete(key); });
+  }
+  return { operations: output, resources: newResources, changed: true };
+};
+
+const textMatches = (text: string | undefined, patterns: RegExp[]) =>
+  !!text && patterns.some(pattern => text.search(pattern) >= 0);
+
+// Removes a widget's field from the AcroForm, along with parent fields left without kids
+const removeFormField = (pdfDoc: PDFDocument, widgetRef: PDFRef, widget: PDFDict) => {
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) return;
+  let childRef = widgetRef;
+  let node = widget;
+  for (let depth = 0; depth < 32; depth++) {
+    const parentRef = node.get(PDFName.of('Parent'));
+    const parent = node.lookupMaybe(PDFName.of('Parent'), PDFDict);
+    const siblings = parent
+      ? parent.lookupMaybe(PDFName.of('Kids'), PDFArray)
+      : acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    if (!siblings) return;
+    const index = siblings.indexOf(childRef);
+    if (index !== undefined) siblings.remove(index);
+    if (!parent || !(parentRef instanceof PDFRef) || siblings.size() > 0) return;
+    childRef = parentRef;
+    node = parent;
+  }
+};
+
+/**
+ * Deletes annotations that overlap the rectangles or whose text matches the search, along with their
+ * pop-ups and form fields.
+ */
+const removeAnnotations = (pdfDoc: PDFDocument, page: PDFPage, rects: PageRect[], patterns: RegExp[]): number => {
+  const annots = page.node.Annots();
+  if (!annots) return 0;
+  const removed = new Set<PDFObject>();
+  annots.asArray().forEach(entry => {
+    const annot = pdfDoc.context.lookup(entry);
+    if (!(annot instanceof PDFDict)) return;
+    const rect = annot.lookupMaybe(PDFName.of('Rect'), PDFArray)?.asArray().map(n => Number(n.toString()));
+    const bounds = rect?.length === 4 ? boundsOf([[rect[0], rect[1]], [rect[2], rect[3]]]) : undefined;
+    const contents = annot.lookup(PDFName.of('Contents'));
+    const text = contents instanceof PDFString || contents instanceof PDFHexString ? contents.decodeText() : undefined;
+    if ((bounds && rects.some(r => rectsIntersect(r, bounds))) || textMatches(text, patterns)) {
+      removed.add(entry);
+      removed.add(annot);
+      if (entry instanceof PDFRef && annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+        removeFormField(pdfDoc, entry, annot);
+      }
+    }
+  });
+  // Pop-ups belong to the annotation they were opened from
+  annots.asArray().forEach(entry => {
+    const annot = pdfDoc.context.lookup(entry);
+    if (annot instanceof PDFDict && removed.has(annot.get(PDFName.of('Parent')) as PDFObject)) removed.add(entry);
+  });
+  const kept = annots.asArray().filter(entry => !removed.has(entry));
+  const count = annots.size() - kept.length;
+  if (count > 0) page.node.set(PDFName.of('Annots'), pdfDoc.context.obj(kept));
+  return count;
+};
+
+const redactPage = async (pdfDoc: PDFDocument, page: PDFPage, rects: PageRect[], patterns: RegExp[], state: RedactionState) => {
+  const operations = parseContentStream(getPageContentBytes(page));
+  const redacted = await redactContent(operations, page.node.Resources(), IDENTITY_MATRIX, rects, state, 0);
+
+  // Close any graphics states the content leaves open, so the boxes are drawn in default user space
+  let openStates = 0;
+  redacted.operations.forEach(op => {
+    if (op.operator === 'q') openStates++;
+    else if (op.operator === 'Q') openStates = Math.max(0, openStates - 1);
+  });
+  const op = (operator: string, ...operands: ContentOperand[]): ContentOperation => ({ operator, operands });
+  const content = serializeContentStream([
+    op('q'),
+    ...redacted.operations,
+    ...Array.from({ length: openStates }, () => op('Q')),
+    op('Q'),
+    op('q'),
+    op('g', 0),
+    ...rects.map(r => op('re', r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0)),
+    op('f'),
+    op('Q'),
+  ]);
+  page.node.set(PDFName.of('Contents'), pdfDoc.context.register(pdfDoc.context.flateStream(content)));
+  if (redacted.resources) page.node.set(PDFName.of('Resources'), redacted.resources);
+  state.report.annotationsRemoved += removeAnnotations(pdfDoc, page, rects, patterns);
+};
+
+// Unlinks replaced images and forms from pages that list them without drawing them, e.g. through shared resources
+const unlinkReplacedXObjects = (pdfDoc: PDFDocument, replaced: Set<PDFStream>) => {
+  for (const page of pdfDoc.getPages()) {
+    const resources = page.node.Resources();
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!resources || !xObjects) continue;
+    const replacedNames = xObjects.keys().filter(key => replaced.has(xObjects.lookup(key) as PDFStream));
+    if (replacedNames.length === 0) continue;
+    let used: Set<string>;
+    try {
+      used = usedXObjectNames(parseContentStream(getPageContentBytes(page)));
+    } catch {
+      continue;
+    }
+    const unused = replacedNames.filter(key => !used.has(key.decodeText()));
+    if (unused.length === 0) continue;
+    const newResources = resources.clone(pdfDoc.context);
+    const newXObjects = xObjects.clone(pdfDoc.context);
+    unused.forEach(key => newXObjects.delete(key));
+    newResources.set(PDFName.of('XObject'), newXObjects);
+    page.node.set(PDFName.of('Resources'), newResources);
+  }
+};
+
+// Text strings anywhere in the document's objects, e.g. metadata, bookmarks and form values
+const collectDocumentStrings = (pdfDoc: PDFDocument): string[] => {
+  const strings: string[] = [];
+  const visit = (object: PDFObject | undefined) => {
+    if (object instanceof PDFString || object instanceof PDFHexString) strings.push(object.decodeText());
+    else if (object instanceof PDFDict) object.values().forEach(visit);
+    else if (object instanceof PDFArray) object.asArray().forEach(visit);
+    else if (object instanceof PDFStream) visit(object.dict);
+  };
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) visit(object);
+  return strings;
+};
+
+/**
+ * Re-reads redacted output the way a text extractor would, and lists anything still extractable
+ * from the redacted areas or still matching the search.
+ */
+const verifyRedaction = async (pdfBytes: Uint8Array, pageRects: PageRect[][], patterns: RegExp[]): Promise<string[]> => {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const problems: string[] = [];
+  pdfDoc.getPages().forEach((page, index) => {
+    const glyphs = getPageGlyphs(page);
+    const leftover = glyphs.filter(glyph => isGlyphRedacted(glyph, pageRects[index]));
+    if (leftover.length > 0) {
+      problems.push(`Page ${index + 1}: ${leftover.length} character(s) can still be extracted from the redacted areas.`);
+    }
+    const matches = patterns.length > 0 ? findMatchRects(glyphs, patterns).count : 0;
+    if (matches > 0) problems.push(`Page ${index + 1}: ${matches} search match(es) can still be extracted.`);
+  });
+  if (patterns.length > 0) {
+    const matchingStrings = collectDocumentStrings(pdfDoc).filter(text => textMatches(text, patterns));
+    if (matchingStrings.length > 0) {
+      problems.push(`${matchingStrings.length} text string(s) outside the page content, such as metadata, bookmarks or form values, still match the search.`);
+    }
+  }
+  return problems;
+};
+
+/**
+ * Finds the search matches on every page, as areas for previewing before redaction.
+ */
+export const findRedactionMatches = async (file: File, search: RedactionSearchOptions): Promise<RedactionArea[]> => {
+  const patterns = buildSearchPatterns(search);
+  if (patterns.length === 0) return [];
+  const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  return pdfDoc.getPages().flatMap((page, index) =>
+    findMatchRects(getPageGlyphs(page), patterns).rects.map(rect => pageRectToDisplayArea(page, index, rect)));
+};
+
+/**
+ * Redacts the marked areas and every search match: text, image pixels and annotations under them are
+ * removed from the file and black boxes are drawn in their place. The result is then verified by
+ * extracting its text again.
+ */
+export const redactPdf = async (file: File, options: RedactPdfOptions): Promise<RedactPdfResult> => {
+  const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pages = pdfDoc.getPages();
+  const patterns = buildSearchPatterns(options.search);
+  const report: RedactionReport = {
+    areasRedacted: 0, matchesFound: 0, charactersRemoved: 0, imagesRedacted: 0, imagesRemoved: 0, annotationsRemoved: 0, problems: [],
+  };
+
+  const pageRects: PageRect[][] = pages.map(() => []);
+  for (const area of options.areas) {
+    const page = pages[area.pageIndex];
+    if (!page) throw new Error(`Page ${area.pageIndex + 1} does not exist in this PDF.`);
+    if (area.width > 0 && area.height > 0) pageRects[area.pageIndex].push(displayAreaToPageRect(page, area));
+  }
+  if (patterns.length > 0) {
+    pages.forEach((page, index) => {
+      let matches: { count: number; rects: PageRect[] };
+      try {
+        matches = findMatchRects(getPageGlyphs(page), patterns);
+      } catch (e) {
+        throw new Error(`Could not read the text of page ${index + 1}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      report.matchesFound += matches.count;
+      pageRects[index].push(...matches.rects);
+    });
+  }
+  report.areasRedacted = pageRects.reduce((sum, rects) => sum + rects.length, 0);
+  if (report.areasRedacted === 0) {
+    throw new Error(patterns.length > 0 ? 'No matches were found, so there is nothing to redact.' : 'Mark at least one area to redact.');
+  }
+
+  const state: RedactionState = { context: pdfDoc.context, report, replacedXObjects: new Set() };
+  for (let i = 0; i < pages.length; i++) {
+    if (pageRects[i].length === 0) continue;
+    try {
+      await redactPage(pdfDoc, pages[i], pageRects[i], patterns, state);
+    } catch (e) {
+      throw new Error(`Could not redact page ${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  unlinkReplacedXObjects(pdfDoc, state.replacedXObjects);
+  removeUnusedObjects(pdfDoc.context); // So the original content doesn't linger in the file
+
+  const pdfBytes = await pdfDoc.save();
+  report.problems = await verifyRedaction(pdfBytes, pageRects, patterns);
+  return { pdfBytes, report };
+};
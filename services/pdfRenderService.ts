@@ -0,0 +1,122 @@
+
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import pdfjsWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { JobControl, PdfToImagesOptions } from '../types';
+import { parsePageRanges } from './pageRangeService';
+
+// PDF.js is bundled with the app; its worker is served as a separate asset by Vite.
+GlobalWorkerOptions.workerSrc = pdfjsWorkerUrl;
+
+export type PdfSource = Blob | string; // A File/Blob, or an object URL such as ProcessedFileInfo.url
+
+/**
+ * Opens a PDF with PDF.js for rendering. The caller owns the returned document and should
+ * call destroy() on it when done.
+ */
+export const loadPdfForRendering = async (source: PdfSource): Promise<PDFDocumentProxy> => {
+  const data = typeof source === 'string'
+    ? await (await fetch(source)).arrayBuffer()
+    : await source.arrayBuffer();
+  return getDocument({ data: new Uint8Array(data) }).promise;
+};
+
+/**
+ * Renders a page (1-indexed) into the given canvas.
+ * @param targetWidth Width in CSS pixels; the page is scaled to fit it and rendered at device resolution.
+ * @param signal Cancels the render. PDF.js allows one render per canvas at a time, so abort the
+ *   previous render before starting another on the same canvas.
+ */
+export const renderPageToCanvas = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  targetWidth: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  const page = await pdf.getPage(pageNumber);
+  signal?.throwIfAborted();
+  const unscaledViewport = page.getViewport({ scale: 1 });
+  const scale = targetWidth / unscaledViewport.width;
+  const outputScale = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: scale * outputScale });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`;
+  canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`;
+
+  const task = page.render({ canvas, viewport });
+  const cancel = () => task.cancel();
+  signal?.addEventListener('abort', cancel);
+  try {
+    await task.promise;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    page.cleanup();
+  }
+};
+
+/**
+ * Renders a page (1-indexed) at the given resolution and encodes it as PNG or JPEG.
+ * @param quality JPEG quality between 0 and 1; ignored for PNG.
+ */
+export const renderPageToImage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  dpi: number,
+  format: 'png' | 'jpeg',
+  quality = 0.92
+): Promise<Blob> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: dpi / 72 }); // PDF units are 1/72 inch
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  try {
+    // PDF.js paints a white page background, so JPEG output has no transparency to lose
+    await page.render({ canvas, viewport }).promise;
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, `image/${format}`, quality));
+    if (!blob) throw new Error(`Page ${pageNumber} is too large to render at ${dpi} DPI. Try a lower resolution.`);
+    return blob;
+  } finally {
+    page.cleanup();
+    canvas.width = 0; // Release the canvas memory right away
+    canvas.height = 0;
+  }
+};
+
+/**
+ * Renders the selected pages of a PDF to PNG or JPEG images, one per page.
+ * Images are named after the PDF, e.g. "report_page-03.png".
+ * Rendering needs a DOM canvas, so this runs on the main thread (PDF.js parses in its own worker);
+ * it reports progress and checks for cancellation after every page.
+ */
+export const convertPdfToImages = async (
+  pdfFile: File,
+  options: PdfToImagesOptions,
+  control: JobControl = {}
+): Promise<{ name: string; blob: Blob }[]> => {
+  const pdf = await loadPdfForRendering(pdfFile);
+  try {
+    const pageIndices = options.pageRange.trim()
+      ? parsePageRanges(options.pageRange, pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, i) => i);
+    if (pageIndices.length === 0) {
+      throw new Error("No valid pages selected. Please check your input (e.g., 1-3, 5).");
+    }
+
+    const baseName = pdfFile.name.substring(0, pdfFile.name.lastIndexOf('.')) || pdfFile.name;
+    const digits = String(pdf.numPages).length;
+    const extension = options.format === 'png' ? 'png' : 'jpg';
+    const images: { name: string; blob: Blob }[] = [];
+    for (const pageIndex of pageIndices) {
+      control.signal?.throwIfAborted();
+      const blob = await renderPageToImage(pdf, pageIndex + 1, options.dpi, options.format, options.jpegQuality);
+      images.push({ name: `${baseName}_page-${String(pageIndex + 1).padStart(digits, '0')}.${extension}`, blob });
+      control.onProgress?.(images.length / pageIndices.length);
+    }
+    return images;
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,495 @@
+
+import {
+  PDFDocument, PDFArray, PDFBool, PDFContext, PDFDict, PDFHexString, PDFHeader, PDFInvalidObject, PDFName, PDFNumber, PDFObject,
+  PDFObjectParser, PDFObjectStreamParser, PDFParser, PDFRawStream, PDFRef, PDFStream, PDFStreamWriter, PDFString,
+} from 'pdf-lib';
+import forge from 'node-forge';
+import { PdfEncryptionAlgorithm, PdfPermissions, ProtectPdfOptions } from '../types';
+import { bytesEqual } from './pdfContentStreamService';
+
+// Standard Security Handler (ISO 32000-2, section 7.6.4)
+
+// Padding string used to bring passwords up to 32 bytes (revisions 2-4)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const bytesToHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const int32LittleEndian = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff]);
+
+const md5 = (data: Uint8Array): Uint8Array => {
+  const digest = forge.md.md5.create();
+  digest.update(forge.util.binary.raw.encode(data));
+  return forge.util.binary.raw.decode(digest.digest().getBytes());
+};
+
+const sha = async (bits: 256 | 384 | 512, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(`SHA-${bits}`, data));
+
+const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) state[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+};
+
+/**
+ * AES-CBC encryption through Web Crypto, which always adds PKCS#7 padding.
+ * Without padding (data must be a multiple of 16 bytes), the extra padding block is dropped.
+ */
+const aesCbcEncrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Promise<Uint8Array> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-CBC', false, ['encrypt']);
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, cryptoKey, data));
+  return padding ? encrypted : encrypted.subarray(0, data.length);
+};
+
+/**
+ * AES-CBC decryption through Web Crypto, which rejects data that doesn't end in valid PKCS#7 padding.
+ * A block that decrypts to a full padding block is appended first, then the PDF's own padding (if any)
+ * is removed leniently, since some writers get it wrong.
+ */
+const aesCbcDecrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Promise<Uint8Array> => {
+  const ciphertext = data.subarray(0, data.length - (data.length % 16));
+  if (ciphertext.length === 0) return new Uint8Array(0);
+  const paddingBlock = await aesCbcEncrypt(key, ciphertext.subarray(ciphertext.length - 16), new Uint8Array(16).fill(16), false);
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-CBC', false, ['decrypt']);
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, cryptoKey, concatBytes(ciphertext, paddingBlock)));
+  if (!padding) return plaintext;
+  const padLength = plaintext[plaintext.length - 1];
+  return padLength >= 1 && padLength <= 16 ? plaintext.subarray(0, plaintext.length - padLength) : plaintext;
+};
+
+// Passwords for revisions 2-4 are PDFDocEncoded; Latin-1 covers all printable characters they share
+const encodeLegacyPassword = (password: string): Uint8Array => {
+  const bytes = new Uint8Array(password.length);
+  for (let i = 0; i < password.length; i++) {
+    const code = password.charCodeAt(i);
+    if (code > 0xff) throw new Error("AES-128 and RC4 passwords can only contain Latin characters. Use AES-256 for other characters.");
+    bytes[i] = code;
+  }
+  return bytes;
+};
+
+const padPassword = (password: Uint8Array): Uint8Array =>
+  concatBytes(password.subarray(0, 32), PASSWORD_PADDING.subarray(0, Math.max(0, 32 - password.length)));
+
+// Revision 6 passwords are UTF-8 (after SASLprep, approximated by NFKC), at most 127 bytes
+const encodeUnicodePassword = (password: string): Uint8Array =>
+  new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+
+/** Computes the /P value. Bits 7-8 and 13-32 are reserved and must be set. */
+const computePermissionFlags = (permissions: PdfPermissions): number => {
+  let flags = 0xfffff0c0;
+  flags |= 1 << 9; // Bit 10: extracting text for accessibility is always allowed
+  if (permissions.printing) flags |= (1 << 2) | (1 << 11); // Bits 3 and 12: print, high-quality print
+  if (permissions.editing) flags |= (1 << 3) | (1 << 5) | (1 << 10); // Bits 4, 6 and 11: modify, annotate, assemble
+  if (permissions.copying) flags |= 1 << 4; // Bit 5: copy
+  if (permissions.fillingForms) flags |= 1 << 8; // Bit 9: fill in form fields
+  return flags | 0; // Signed 32-bit integer
+};
+
+// Steps (a)-(d) of algorithm 3: the RC4 key derived from the owner password
+const computeLegacyOwnerKey = (ownerPassword: Uint8Array, revision: number, keyLength: number): Uint8Array => {
+  let hash = md5(padPassword(ownerPassword));
+  if (revision >= 3) for (let i = 0; i < 50; i++) hash = md5(hash);
+  return hash.subarray(0, keyLength);
+};
+
+// Algorithm 3: the /O value for revisions 2-4
+const computeLegacyOwnerValue = (ownerPassword: Uint8Array, userPassword: Uint8Array, revision = 3, keyLength = 16): Uint8Array => {
+  const key = computeLegacyOwnerKey(ownerPassword, revision, keyLength);
+  let result = rc4(key, padPassword(userPassword));
+  if (revision >= 3) for (let i = 1; i <= 19; i++) result = rc4(key.map(byte => byte ^ i), result);
+  return result;
+};
+
+// Algorithm 7: recovers the padded user password from /O using the owner password
+const recoverLegacyUserPassword = (ownerPassword: Uint8Array, ownerValue: Uint8Array, revision: number, keyLength: number): Uint8Array => {
+  const key = computeLegacyOwnerKey(ownerPassword, revision, keyLength);
+  if (revision === 2) return rc4(key, ownerValue);
+  let result = ownerValue;
+  for (let i = 19; i >= 0; i--) result = rc4(key.map(byte => byte ^ i), result);
+  return result;
+};
+
+// Algorithm 2: the file encryption key for revisions 2-4
+const computeLegacyFileKey = (
+  userPassword: Uint8Array,
+  ownerValue: Uint8Array,
+  permissionFlags: number,
+  documentId: Uint8Array,
+  revision = 3,
+  keyLength = 16,
+  encryptMetadata = true
+): Uint8Array => {
+  const metadataFlag = revision >= 4 && !encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0);
+  let hash = md5(concatBytes(padPassword(userPassword), ownerValue, int32LittleEndian(permissionFlags), documentId, metadataFlag));
+  if (revision >= 3) for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+  return hash.subarray(0, keyLength);
+};
+
+// Algorithms 4 and 5: the /U value for revisions 2-4
+const computeLegacyUserValue = (fileKey: Uint8Array, documentId: Uint8Array, revision = 3): Uint8Array => {
+  if (revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+  let result = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, documentId)));
+  for (let i = 1; i <= 19; i++) result = rc4(fileKey.map(byte => byte ^ i), result);
+  return concatBytes(result, new Uint8Array(16)); // Padded to 32 bytes with arbitrary bytes
+};
+
+// Algorithm 2.B: the password hash for revision 6
+const computeHashR6 = async (password: Uint8Array, salt: Uint8Array, userValue: Uint8Array): Promise<Uint8Array> => {
+  let k = await sha(256, concatBytes(password, salt, userValue));
+  let e = new Uint8Array(0);
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, k, userValue);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+    e = await aesCbcEncrypt(k.subarray(0, 16), k.subarray(16, 32), k1, false);
+    // The first 16 bytes of E as a big-endian number, modulo 3
+    const remainder = e.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    k = await sha(remainder === 0 ? 256 : remainder === 1 ? 384 : 512, e);
+  }
+  return k.subarray(0, 32);
+};
+
+// Object key for revisions 3 and 4 (algorithm 1)
+const computeObjectKey = (fileKey: Uint8Array, ref: PDFRef, aes: boolean): Uint8Array => {
+  const { objectNumber, generationNumber } = ref;
+  const salt = aes ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0); // "sAlT"
+  const hash = md5(concatBytes(
+    fileKey,
+    new Uint8Array([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff, generationNumber & 0xff, (generationNumber >> 8) & 0xff]),
+    salt,
+  ));
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+type ObjectEncryptor = (data: Uint8Array, ref: PDFRef) => Promise<Uint8Array>;
+
+const createObjectEncryptor = (algorithm: PdfEncryptionAlgorithm, fileKey: Uint8Array): ObjectEncryptor => {
+  switch (algorithm) {
+    case PdfEncryptionAlgorithm.RC4_128:
+      return async (data, ref) => rc4(computeObjectKey(fileKey, ref, false), data);
+    case PdfEncryptionAlgorithm.AES128:
+      return async (data, ref) => {
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesCbcEncrypt(computeObjectKey(fileKey, ref, true), iv, data));
+      };
+    default: {
+      // AES-256 uses the file key for every object
+      return async data => {
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesCbcEncrypt(fileKey, iv, data));
+      };
+    }
+  }
+};
+
+// Encrypts or decrypts the strings of a direct object tree in place (nested indirect objects are visited on their own)
+const transformStrings = async (object: PDFObject, transform: (data: Uint8Array) => Promise<Uint8Array>): Promise<PDFObject> => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(bytesToHex(await transform(object.asBytes())));
+  }
+  if (object instanceof PDFDict) {
+    const isSignature = object.lookup(PDFName.of('Type')) === PDFName.of('Sig');
+    for (const [key, value] of object.entries()) {
+      if (isSignature && key === PDFName.of('Contents')) continue; // Signature values are never encrypted
+      object.set(key, await transformStrings(value, transform));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) object.set(i, await transformStrings(object.get(i), transform));
+  }
+  return object;
+};
+
+const getDocumentId = (pdfDoc: PDFDocument): Uint8Array => {
+  const context = pdfDoc.context;
+  const existingId = context.lookup(context.trailerInfo.ID);
+  if (existingId instanceof PDFArray) {
+    const first = existingId.lookup(0);
+    if (first instanceof PDFString || first instanceof PDFHexString) return first.asBytes();
+  }
+  const id = randomBytes(16);
+  context.trailerInfo.ID = context.obj([PDFHexString.of(bytesToHex(id)), PDFHexString.of(bytesToHex(id))]);
+  return id;
+};
+
+/**
+ * Encrypts a PDF with the Standard Security Handler: AES-256 (revision 6), AES-128 (revision 4)
+ * or RC4-128 (revision 3), with a user (open) password, an owner password and permission flags.
+ */
+export const protectPdf = async (pdfFile: File, options: ProtectPdfOptions): Promise<Uint8Array> => {
+  const existingPdfBytes = await pdfFile.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
+  if (pdfDoc.isEncrypted) {
+    throw new Error("This PDF is already encrypted. Remove its password first, then protect it again.");
+  }
+  const context = pdfDoc.context;
+  const { algorithm } = options;
+  // Without an owner password anyone could lift the restrictions, so use one nobody knows
+  const ownerPassword = options.ownerPassword || bytesToHex(randomBytes(16));
+  const permissionFlags = computePermissionFlags(options.permissions);
+
+  let fileKey: Uint8Array;
+  let encryptDict: PDFDict;
+  if (algorithm === PdfEncryptionAlgorithm.AES256) {
+    fileKey = randomBytes(32);
+    const userPassword = encodeUnicodePassword(options.userPassword);
+    const owner = encodeUnicodePassword(ownerPassword);
+    const [userValidationSalt, userKeySalt, ownerValidationSalt, ownerKeySalt] = [randomBytes(8), randomBytes(8), randomBytes(8), randomBytes(8)];
+    const zeroIv = new Uint8Array(16);
+
+    const userValue = concatBytes(await computeHashR6(userPassword, userValidationSalt, new Uint8Array(0)), userValidationSalt, userKeySalt);
+    const userEncryptedKey = await aesCbcEncrypt(await computeHashR6(userPassword, userKeySalt, new Uint8Array(0)), zeroIv, fileKey, false);
+    const ownerValue = concatBytes(await computeHashR6(owner, ownerValidationSalt, userValue), ownerValidationSalt, ownerKeySalt);
+    const ownerEncryptedKey = await aesCbcEncrypt(await computeHashR6(owner, ownerKeySalt, userValue), zeroIv, fileKey, false);
+    // Encrypted copy of the permissions so readers can detect tampering with /P
+    const permsBlock = concatBytes(int32LittleEndian(permissionFlags), new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]), randomBytes(4));
+    const perms = await aesCbcEncrypt(fileKey, zeroIv, permsBlock, false);
+
+    encryptDict = context.obj({
+      Filter: 'Standard', V: 5, R: 6, Length: 256, P: permissionFlags,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } }, StmF: 'StdCF', StrF: 'StdCF',
+      O: PDFHexString.of(bytesToHex(ownerValue)), U: PDFHexString.of(bytesToHex(userValue)),
+      OE: PDFHexString.of(bytesToHex(ownerEncryptedKey)), UE: PDFHexString.of(bytesToHex(userEncryptedKey)),
+      Perms: PDFHexString.of(bytesToHex(perms)),
+    });
+    // AES-256 is part of Adobe's extension level 8 to PDF 1.7
+    pdfDoc.catalog.set(PDFName.of('Extensions'), context.obj({ ADBE: { BaseVersion: PDFName.of('1.7'), ExtensionLevel: 8 } }));
+  } else {
+    const userPassword = encodeLegacyPassword(options.userPassword);
+    const documentId = getDocumentId(pdfDoc);
+    const ownerValue = computeLegacyOwnerValue(encodeLegacyPassword(ownerPassword), userPassword);
+    fileKey = computeLegacyFileKey(userPassword, ownerValue, permissionFlags, documentId);
+    const userValue = computeLegacyUserValue(fileKey, documentId);
+
+    encryptDict = algorithm === PdfEncryptionAlgorithm.AES128
+      ? context.obj({
+          Filter: 'Standard', V: 4, R: 4, Length: 128, P: permissionFlags,
+          CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: 16 } }, StmF: 'StdCF', StrF: 'StdCF',
+          O: PDFHexString.of(bytesToHex(ownerValue)), U: PDFHexString.of(bytesToHex(userValue)),
+        })
+      : context.obj({
+          Filter: 'Standard', V: 2, R: 3, Length: 128, P: permissionFlags,
+          O: PDFHexString.of(bytesToHex(ownerValue)), U: PDFHexString.of(bytesToHex(userValue)),
+        });
+  }
+  getDocumentId(pdfDoc); // Every encrypted file needs an /ID, even when the key doesn't depend on it
+
+  const encrypt = createObjectEncryptor(algorithm, fileKey);
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      await transformStrings(object.dict, data => encrypt(data, ref));
+      context.assign(ref, PDFRawStream.of(object.dict, await encrypt(object.getContents(), ref)));
+    } else {
+      const encrypted = await transformStrings(object, data => encrypt(data, ref));
+      if (encrypted !== object) context.assign(ref, encrypted);
+    }
+  }
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+
+  // AES needs PDF 1.6+, so raise older headers to 1.7
+  const version = /%PDF-(\d+)\.(\d+)/.exec(context.header.toString());
+  if (algorithm !== PdfEncryptionAlgorithm.RC4_128 && (!version || Number(version[1]) < 2 && Number(version[2]) < 7)) {
+    context.header = PDFHeader.forVersion(1, 7);
+  }
+
+  // Strings inside object streams must not be encrypted individually, so write plain objects.
+  // Field appearances are left alone, as regenerating them would add unencrypted objects.
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false, addDefaultPage: false });
+};
+
+/** Thrown by decryptPdf when the password doesn't open the document. */
+export class PdfPasswordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfPasswordError';
+  }
+}
+
+type CryptMethod = 'none' | 'rc4' | 'aes';
+
+// How strings (StrF) or streams (StmF) are encrypted, from the crypt filters of V4/V5 handlers
+const getCryptMethod = (encryptDict: PDFDict, filterKey: 'StrF' | 'StmF'): CryptMethod => {
+  const version = encryptDict.lookup(PDFName.of('V'));
+  if (!(version instanceof PDFNumber) || version.asNumber() < 4) return 'rc4';
+  const filterName = encryptDict.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+  const cryptFilters = encryptDict.lookup(PDFName.of('CF'));
+  const filter = cryptFilters instanceof PDFDict ? cryptFilters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('AESV2') || method === PDFName.of('AESV3')) return 'aes';
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('None')) return 'none';
+  throw new Error(`This PDF uses an unsupported encryption method (${method?.toString() || 'unknown'}).`);
+};
+
+const getStringBytes = (dict: PDFDict, key: string): Uint8Array => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+};
+
+const getTrailerDocumentId = (context: PDFContext): Uint8Array => {
+  const id = context.lookup(context.trailerInfo.ID);
+  const first = id instanceof PDFArray ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString ? first.asBytes() : new Uint8Array(0);
+};
+
+/**
+ * Checks the password against the user and owner entries (algorithms 6, 7, 11 and 12) and returns
+ * the file encryption key, or undefined if the password is wrong.
+ */
+const authenticatePassword = async (encryptDict: PDFDict, documentId: Uint8Array, password: string): Promise<Uint8Array | undefined> => {
+  const numberEntry = (key: string, fallback: number) => {
+    const value = encryptDict.lookup(PDFName.of(key));
+    return value instanceof PDFNumber ? value.asNumber() : fallback;
+  };
+  const revision = numberEntry('R', 2);
+  const ownerValue = getStringBytes(encryptDict, 'O');
+  const userValue = getStringBytes(encryptDict, 'U');
+
+  if (revision >= 5) {
+    const passwordBytes = encodeUnicodePassword(password);
+    // Revision 5 (a deprecated Adobe extension) used a single SHA-256 instead of algorithm 2.B
+    const hash = (salt: Uint8Array, extra: Uint8Array) => revision === 5
+      ? sha(256, concatBytes(passwordBytes, salt, extra))
+      : computeHashR6(passwordBytes, salt, extra);
+    const zeroIv = new Uint8Array(16);
+    const noUserData = new Uint8Array(0);
+    if (bytesEqual(await hash(userValue.subarray(32, 40), noUserData), userValue.subarray(0, 32))) {
+      return aesCbcDecrypt(await hash(userValue.subarray(40, 48), noUserData), zeroIv, getStringBytes(encryptDict, 'UE'), false);
+    }
+    const userData = userValue.subarray(0, 48);
+    if (bytesEqual(await hash(ownerValue.subarray(32, 40), userData), ownerValue.subarray(0, 32))) {
+      return aesCbcDecrypt(await hash(ownerValue.subarray(40, 48), userData), zeroIv, getStringBytes(encryptDict, 'OE'), false);
+    }
+    return undefined;
+  }
+
+  let passwordBytes: Uint8Array;
+  try {
+    passwordBytes = encodeLegacyPassword(password);
+  } catch {
+    return undefined; // Can't match a Latin-1 password
+  }
+  const keyLength = numberEntry('V', 0) === 1 ? 5 : Math.min(16, Math.max(5, numberEntry('Length', 40) / 8));
+  const permissionFlags = numberEntry('P', 0);
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const owner = ownerValue.subarray(0, 32);
+  const tryUserPassword = (userPassword: Uint8Array) => {
+    const fileKey = computeLegacyFileKey(userPassword, owner, permissionFlags, documentId, revision, keyLength, encryptMetadata);
+    // Only the first 16 bytes of /U are defined for revisions 3 and 4
+    const compareLength = revision === 2 ? 32 : 16;
+    const expected = computeLegacyUserValue(fileKey, documentId, revision).subarray(0, compareLength);
+    return bytesEqual(expected, userValue.subarray(0, compareLength)) ? fileKey : undefined;
+  };
+  return tryUserPassword(passwordBytes) || tryUserPassword(recoverLegacyUserPassword(passwordBytes, owner, revision, keyLength));
+};
+
+const createObjectDecryptor = (method: CryptMethod, fileKey: Uint8Array, revision: number): ObjectEncryptor => {
+  return async (data, ref) => {
+    if (method === 'none') return data;
+    // Revisions 5 and 6 use the file key for every object
+    const key = revision >= 5 ? fileKey : computeObjectKey(fileKey, ref, method === 'aes');
+    return method === 'rc4' ? rc4(key, data) : aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16));
+  };
+};
+
+export const isPdfEncrypted = async (pdfFile: File): Promise<boolean> => {
+  const existingPdfBytes = await pdfFile.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  return pdfDoc.isEncrypted;
+};
+
+/**
+ * Decrypts a PDF protected with the Standard Security Handler (RC4 40/128-bit, AES-128 or AES-256)
+ * using either its user or owner password, and returns an unencrypted copy.
+ * Throws PdfPasswordError if the password is wrong (try an empty password first: many files only
+ * have an owner password).
+ */
+export const decryptPdf = async (pdfFile: File, password: string): Promise<Uint8Array> => {
+  const existingPdfBytes = new Uint8Array(await pdfFile.arrayBuffer());
+  // Parse without PDFDocument, whose catalog may live in a still-encrypted object stream
+  const context = await PDFParser.forBytesWithOptions(existingPdfBytes).parseDocument();
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encryptDict = context.lookup(encryptRef);
+  if (!(encryptDict instanceof PDFDict)) throw new Error("This PDF is not password-protected.");
+  if (encryptDict.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error("This PDF uses a security handler that is not supported (e.g. certificate-based encryption).");
+  }
+
+  const fileKey = await authenticatePassword(encryptDict, getTrailerDocumentId(context), password);
+  if (!fileKey) throw new PdfPasswordError(password ? "Incorrect password." : "This PDF requires a password to open.");
+
+  const revisionEntry = encryptDict.lookup(PDFName.of('R'));
+  const revision = revisionEntry instanceof PDFNumber ? revisionEntry.asNumber() : 2;
+  const decryptString = createObjectDecryptor(getCryptMethod(encryptDict, 'StrF'), fileKey, revision);
+  const decryptStream = createObjectDecryptor(getCryptMethod(encryptDict, 'StmF'), fileKey, revision);
+  const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  const objectStreams: [PDFRef, PDFRawStream][] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+    let target: PDFObject = object;
+    if (object instanceof PDFInvalidObject) {
+      // Encrypted object streams can't be unpacked while parsing, so pdf-lib keeps them as raw bytes
+      const rawBytes = new Uint8Array(object.sizeInBytes());
+      object.copyBytesInto(rawBytes, 0);
+      try {
+        target = PDFObjectParser.forBytes(rawBytes, context).parseObject();
+      } catch {
+        continue;
+      }
+    }
+
+    if (target instanceof PDFRawStream) {
+      const { dict } = target;
+      await transformStrings(dict, data => decryptString(data, ref));
+      const filters = dict.lookup(PDFName.of('Filter'));
+      const usesCryptFilter = filters === PDFName.of('Crypt') || (filters instanceof PDFArray && filters.asArray().includes(PDFName.of('Crypt')));
+      const isPlainMetadata = !encryptMetadata && dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata');
+      // Streams with their own crypt filter are almost always /Identity (unencrypted)
+      const contents = usesCryptFilter || isPlainMetadata ? target.getContents() : await decryptStream(target.getContents(), ref);
+      const decrypted = PDFRawStream.of(dict, contents);
+      if (dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')) objectStreams.push([ref, decrypted]);
+      else context.assign(ref, decrypted);
+    } else if (!(target instanceof PDFInvalidObject)) {
+      const decrypted = await transformStrings(target, data => decryptString(data, ref));
+      if (decrypted !== object) context.assign(ref, decrypted);
+    }
+  }
+
+  // Objects inside object streams aren't encrypted individually, so unpack them after decryption
+  for (const [ref, stream] of objectStreams) {
+    await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+    context.delete(ref);
+  }
+
+  context.trailerInfo.Encrypt = undefined;
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  return PDFStreamWriter.forContext(context, 50).serializeToBuffer();
+};
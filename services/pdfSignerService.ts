@@ -0,0 +1,451 @@
+
+import {
+  PDFDocument, PDFPage, degrees, rgb,
+  PDFArray, PDFDict, PDFHexString, PDFImage, PDFName, PDFNumber, PDFString,
+} from 'pdf-lib';
+import forge from 'node-forge';
+import { PageNumberPosition, SignatureStampOptions, SignaturePlacement, SignatureVerificationResult } from '../types';
+import { embedTextFont } from './fontEmbeddingService';
+import { invertMatrix, transformPoint } from './pdfContentStreamService';
+import { getPageDisplayTransform } from './pdfTextService';
+
+const INITIALS_MARGIN = 20; // Margin from the page edge in points, same as page numbers
+
+// Boxes below are on the page as displayed, after cropping and rotation: points from the
+// top-left corner, y pointing down, as in the UI.
+interface DisplayBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Converts a placement expressed as fractions of the displayed page into a box in points.
+ */
+const placementToDisplayBox = (page: PDFPage, placement: SignaturePlacement): DisplayBox => {
+  const { width: pageWidth, height: pageHeight } = getPageDisplayTransform(page);
+  return {
+    x: placement.x * pageWidth,
+    y: placement.y * pageHeight,
+    width: placement.width * pageWidth,
+    height: placement.height * pageHeight,
+  };
+};
+
+const cornerBox = (page: PDFPage, position: PageNumberPosition, width: number, height: number): DisplayBox => {
+  const { width: pageWidth, height: pageHeight } = getPageDisplayTransform(page);
+  const bottom = pageHeight - height - INITIALS_MARGIN;
+  switch (position) {
+    case PageNumberPosition.TopLeft: return { x: INITIALS_MARGIN, y: INITIALS_MARGIN, width, height };
+    case PageNumberPosition.TopCenter: return { x: (pageWidth - width) / 2, y: INITIALS_MARGIN, width, height };
+    case PageNumberPosition.TopRight: return { x: pageWidth - width - INITIALS_MARGIN, y: INITIALS_MARGIN, width, height };
+    case PageNumberPosition.BottomLeft: return { x: INITIALS_MARGIN, y: bottom, width, height };
+    case PageNumberPosition.BottomCenter: return { x: (pageWidth - width) / 2, y: bottom, width, height };
+    case PageNumberPosition.BottomRight:
+    default: return { x: pageWidth - width - INITIALS_MARGIN, y: bottom, width, height };
+  }
+};
+
+/**
+ * Returns the pdf-lib origin and rotation that draw an item upright with its bottom-left corner
+ * at the given point of the displayed page.
+ */
+const displayPointToDrawing = (page: PDFPage, displayX: number, displayY: number) => {
+  const toUserSpace = invertMatrix(getPageDisplayTransform(page).matrix)!; // Rotations and flips, always invertible
+  const [x, y] = transformPoint(toUserSpace, displayX, displayY);
+  return { x, y, rotate: degrees(((page.getRotation().angle % 360) + 360) % 360) };
+};
+
+const drawImageInBox = (page: PDFPage, image: PDFImage, box: DisplayBox) => {
+  page.drawImage(image, { ...displayPointToDrawing(page, box.x, box.y + box.height), width: box.width, height: box.height });
+};
+
+/**
+ * Stamps a visual signature (a PNG data URL produced by SignaturePad) onto a PDF.
+ * Optionally adds initials to the corner of every page and a date line under the signature.
+ */
+export const stampSignatureOnPdf = async (pdfFile: File, options: SignatureStampOptions): Promise<Uint8Array> => {
+  const existingPdfBytes = await pdfFile.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
+  const totalPages = pdfDoc.getPageCount();
+
+  if (options.pageIndex < 0 || options.pageIndex >= totalPages) {
+    throw new Error(`Invalid signature page: ${options.pageIndex + 1}. Page must be between 1 and ${totalPages}.`);
+  }
+
+  const signatureImage = await pdfDoc.embedPng(options.signatureDataUrl);
+  const signaturePage = pdfDoc.getPage(options.pageIndex);
+  const box = placementToDisplayBox(signaturePage, options.placement);
+  drawImageInBox(signaturePage, signatureImage, box);
+
+  if (options.date && options.date.text.trim()) {
+    const dateText = options.date.text.trim();
+    const font = await embedTextFont(pdfDoc, options.date, dateText);
+    const textHeight = font.heightAtSize(options.date.fontSize);
+    // Put the date just under the signature, or above it when the signature sits at the bottom edge.
+    let baseline = box.y + box.height + 4 + textHeight;
+    if (baseline > getPageDisplayTransform(signaturePage).height) baseline = box.y - 4;
+    signaturePage.drawText(dateText, {
+      ...displayPointToDrawing(signaturePage, box.x, baseline),
+      size: options.date.fontSize,
+      font,
+      color: rgb(0, 0, 0),
+    });
+  }
+
+  if (options.initials) {
+    const initialsImage = await pdfDoc.embedPng(options.initials.imageDataUrl);
+    const width = options.initials.width;
+    const height = width * (initialsImage.height / initialsImage.width);
+    pdfDoc.getPages().forEach((page, index) => {
+      if (options.initials!.skipSignaturePage && index === options.pageIndex) return;
+      drawImageInBox(page, initialsImage, cornerBox(page, options.initials!.position, width, height));
+    });
+  }
+
+  return pdfDoc.save();
+};
+
+// --- Cryptographic (PKCS#7 / CMS) signatures ---
+
+// Bytes reserved for the DER-encoded CMS signature. Generous enough for a certificate chain.
+const SIGNATURE_CONTENTS_LENGTH = 16384;
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+export interface SigningCredentials {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  chain: forge.pki.Certificate[]; // Intermediate certificates included in the .p12, if any
+  signerName: string;
+}
+
+export interface DigitalSignatureOptions {
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+}
+
+const bytesToBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  const chunkSize = 0x8000; // Avoid "too many arguments" for large files
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return result;
+};
+
+const binaryStringToBytes = (str: string): Uint8Array => {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const getCommonName = (attributes: forge.pki.CertificateField[]): string => {
+  const cn = attributes.find(attr => attr.shortName === 'CN' || attr.name === 'commonName');
+  if (cn) return String(cn.value);
+  return attributes.map(attr => `${attr.shortName || attr.name}=${attr.value}`).join(', ') || 'Unknown';
+};
+
+/**
+ * Reads a .p12/.pfx file in the browser and extracts the RSA private key and its certificate.
+ * @throws Error if the password is wrong or the file holds no usable key/certificate pair.
+ */
+export const loadSigningCertificate = async (p12File: File, password: string): Promise<SigningCredentials> => {
+  const p12Der = bytesToBinaryString(new Uint8Array(await p12File.arrayBuffer()));
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(p12Der), password);
+  } catch (e) {
+    console.error("Error reading certificate:", e);
+    throw new Error('Could not open the certificate. Check the password and that the file is a valid .p12/.pfx.');
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || []),
+  ];
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+  const keyBag = keyBags.find(bag => bag.key);
+  if (!keyBag || !keyBag.key) {
+    throw new Error('The certificate file does not contain a private key.');
+  }
+  const privateKey = keyBag.key as forge.pki.rsa.PrivateKey;
+  if (!privateKey.n) {
+    throw new Error('Only RSA keys are supported for signing.');
+  }
+
+  // The signing certificate is the one whose public key matches the private key
+  const certificate = certificates.find(cert => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return publicKey.n && publicKey.n.equals(privateKey.n);
+  });
+  if (!certificate) {
+    throw new Error('No certificate matching the private key was found in the file.');
+  }
+
+  return {
+    privateKey,
+    certificate,
+    chain: certificates.filter(cert => cert !== certificate),
+    signerName: getCommonName(certificate.subject.attributes),
+  };
+};
+
+/**
+ * Adds an invisible signature field holding a detached PKCS#7 signature (adbe.pkcs7.detached).
+ * The document is rewritten by pdf-lib, so any signatures already in the file will no longer validate.
+ */
+export const signPdfWithCertificate = async (
+  pdfFile: File,
+  credentials: SigningCredentials,
+  options: DigitalSignatureOptions = {}
+): Promise<Uint8Array> => {
+  const existingPdfBytes = await pdfFile.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(existingPdfBytes, { ignoreEncryption: true });
+  const context = pdfDoc.context;
+  const signingTime = new Date();
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'adbe.pkcs7.detached',
+    ByteRange: [0, PDFName.of(BYTE_RANGE_PLACEHOLDER), PDFName.of(BYTE_RANGE_PLACEHOLDER), PDFName.of(BYTE_RANGE_PLACEHOLDER)],
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_CONTENTS_LENGTH * 2)),
+    M: PDFString.fromDate(signingTime),
+    Name: PDFString.of(credentials.signerName),
+  });
+  if (options.reason) signatureDict.set(PDFName.of('Reason'), PDFHexString.fromText(options.reason));
+  if (options.location) signatureDict.set(PDFName.of('Location'), PDFHexString.fromText(options.location));
+  if (options.contactInfo) signatureDict.set(PDFName.of('ContactInfo'), PDFHexString.fromText(options.contactInfo));
+  const signatureRef = context.register(signatureDict);
+
+  // Invisible widget on the first page, as most signing tools do
+  const acroForm = pdfDoc.catalog.getOrCreateAcroForm();
+  const firstPage = pdfDoc.getPage(0);
+  const fieldName = `Signature${acroForm.getAllFields().length + 1}`;
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: [0, 0, 0, 0],
+    V: signatureRef,
+    T: PDFString.of(fieldName),
+    F: 132, // Print + Locked
+    P: firstPage.ref,
+  }));
+  firstPage.node.addAnnot(widgetRef);
+  acroForm.addField(widgetRef);
+  acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3)); // SignaturesExist + AppendOnly
+
+  // Object streams would compress the placeholder, so they must stay off
+  const pdfBytes = await pdfDoc.save({ useObjectStreams: false });
+  const pdfString = bytesToBinaryString(pdfBytes);
+
+  const contentsPlaceholder = `<${'0'.repeat(SIGNATURE_CONTENTS_LENGTH * 2)}>`;
+  const contentsStart = pdfString.indexOf(contentsPlaceholder);
+  if (contentsStart < 0) throw new Error('Could not reserve space for the signature.');
+  const contentsEnd = contentsStart + contentsPlaceholder.length;
+
+  const byteRangeMatch = /\[\s*0\s+\/\*{10}\s+\/\*{10}\s+\/\*{10}\s*\]/.exec(pdfString);
+  if (!byteRangeMatch) throw new Error('Could not reserve space for the signature byte range.');
+  const byteRange = [0, contentsStart, contentsEnd, pdfBytes.length - contentsEnd];
+  const byteRangeText = `[${byteRange.join(' ')}]`.padEnd(byteRangeMatch[0].length, ' ');
+  if (byteRangeText.length > byteRangeMatch[0].length) throw new Error('Document is too large to sign.');
+  pdfBytes.set(binaryStringToBytes(byteRangeText), byteRangeMatch.index);
+
+  // Everything except the /Contents hex string is signed
+  const signedData = new Uint8Array(byteRange[1] + byteRange[3]);
+  signedData.set(pdfBytes.subarray(0, byteRange[1]), 0);
+  signedData.set(pdfBytes.subarray(byteRange[2]), byteRange[1]);
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(bytesToBinaryString(signedData));
+  p7.addCertificate(credentials.certificate);
+  credentials.chain.forEach(cert => p7.addCertificate(cert));
+  p7.addSigner({
+    key: credentials.privateKey,
+    certificate: credentials.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest }, // Computed by forge
+      { type: forge.pki.oids.signingTime, value: signingTime.toISOString() }, // Same time as /M
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const signatureHex = forge.util.bytesToHex(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  if (signatureHex.length > SIGNATURE_CONTENTS_LENGTH * 2) {
+    throw new Error('The signature is larger than the reserved space. The certificate chain may be too long.');
+  }
+  pdfBytes.set(binaryStringToBytes(signatureHex), contentsStart + 1); // Trailing zeros remain as padding
+
+  return pdfBytes;
+};
+
+// The part of forge's raw capture of a parsed SignedData message that is read below
+interface CapturedSignedData {
+  rawCapture: { signerInfos?: forge.asn1.Asn1[] };
+}
+
+const DIGEST_ALGORITHMS: Record<string, { subtle: string; forge: () => forge.md.MessageDigest }> = {
+  [forge.pki.oids.sha1]: { subtle: 'SHA-1', forge: () => forge.md.sha1.create() },
+  [forge.pki.oids.sha256]: { subtle: 'SHA-256', forge: () => forge.md.sha256.create() },
+  [forge.pki.oids.sha384]: { subtle: 'SHA-384', forge: () => forge.md.sha384.create() },
+  [forge.pki.oids.sha512]: { subtle: 'SHA-512', forge: () => forge.md.sha512.create() },
+};
+
+// The /Contents string is zero padded after the DER structure; keep only the structure itself.
+const stripDerPadding = (der: Uint8Array): Uint8Array => {
+  if (der.length < 2) return der;
+  const lengthByte = der[1];
+  if (lengthByte < 0x80) return der.subarray(0, 2 + lengthByte);
+  const lengthBytes = lengthByte & 0x7f;
+  let length = 0;
+  for (let i = 0; i < lengthBytes; i++) length = length * 256 + der[2 + i];
+  return der.subarray(0, 2 + lengthBytes + length);
+};
+
+const getPdfText = (dict: PDFDict, key: string): string | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+};
+
+const verifySignatureDict = async (
+  pdfBytes: Uint8Array,
+  sigDict: PDFDict,
+  fieldName: string | undefined
+): Promise<SignatureVerificationResult> => {
+  const subFilter = sigDict.lookup(PDFName.of('SubFilter'))?.toString().replace(/^\//, '') || 'unknown';
+  const result: SignatureVerificationResult = {
+    fieldName,
+    signerName: getPdfText(sigDict, 'Name') || 'Unknown',
+    reason: getPdfText(sigDict, 'Reason'),
+    location: getPdfText(sigDict, 'Location'),
+    subFilter,
+    integrityValid: false,
+    signatureValid: false,
+    coversWholeDocument: false,
+  };
+  const signingTimeString = sigDict.lookup(PDFName.of('M'));
+  if (signingTimeString instanceof PDFString || signingTimeString instanceof PDFHexString) {
+    try { result.signingTime = signingTimeString.decodeDate(); } catch { /* Malformed date, leave unset */ }
+  }
+
+  try {
+    const byteRangeArray = sigDict.lookup(PDFName.of('ByteRange'));
+    const contents = sigDict.lookup(PDFName.of('Contents'));
+    if (!(byteRangeArray instanceof PDFArray) || !(contents instanceof PDFHexString || contents instanceof PDFString)) {
+      throw new Error('Signature is missing its ByteRange or Contents.');
+    }
+    const byteRange = byteRangeArray.asArray().map(n => (n instanceof PDFNumber ? n.asNumber() : NaN));
+    if (byteRange.length !== 4 || byteRange.some(isNaN) || byteRange[2] + byteRange[3] > pdfBytes.length) {
+      throw new Error('Signature has an invalid ByteRange.');
+    }
+    // Bytes appended after the signed range (other than trailing whitespace) mean a later revision
+    const trailing = pdfBytes.subarray(byteRange[2] + byteRange[3]);
+    result.coversWholeDocument = trailing.every(b => b === 0x0a || b === 0x0d || b === 0x20 || b === 0x00);
+
+    if (subFilter !== 'adbe.pkcs7.detached' && subFilter !== 'ETSI.CAdES.detached') {
+      throw new Error(`Signature type ${subFilter} is not supported for verification.`);
+    }
+
+    const signedData = new Uint8Array(byteRange[1] + byteRange[3]);
+    signedData.set(pdfBytes.subarray(byteRange[0], byteRange[0] + byteRange[1]), 0);
+    signedData.set(pdfBytes.subarray(byteRange[2], byteRange[2] + byteRange[3]), byteRange[1]);
+
+    const cmsAsn1 = forge.asn1.fromDer(bytesToBinaryString(stripDerPadding(contents.asBytes())));
+    const message = forge.pkcs7.messageFromAsn1(cmsAsn1) as forge.pkcs7.PkcsSignedData & CapturedSignedData;
+    const signerInfo = message.rawCapture.signerInfos?.[0];
+    if (!signerInfo) throw new Error('Signature contains no signer information.');
+
+    // SignerInfo: version, sid, digestAlgorithm, [0] signedAttrs?, signatureAlgorithm, signature, [1] unsignedAttrs?
+    const signerFields = signerInfo.value as forge.asn1.Asn1[];
+    const digestOid = forge.asn1.derToOid((signerFields[2].value as forge.asn1.Asn1[])[0].value as string);
+    const signedAttrs = signerFields.find(f => f.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && f.type === 0);
+    const encryptedDigest = signerFields.find(f => f.tagClass === forge.asn1.Class.UNIVERSAL && f.type === forge.asn1.Type.OCTETSTRING);
+    const digestAlgorithm = DIGEST_ALGORITHMS[digestOid];
+    if (!digestAlgorithm) throw new Error(`Unsupported digest algorithm (${digestOid}).`);
+    if (!encryptedDigest) throw new Error('Signature value is missing.');
+
+    const contentDigest = bytesToBinaryString(new Uint8Array(await crypto.subtle.digest(digestAlgorithm.subtle, signedData)));
+
+    // Find the signer certificate by issuer and serial number
+    const sid = signerFields[1].value as forge.asn1.Asn1[];
+    const serialHex = forge.util.bytesToHex(sid[1].value as string).replace(/^(00)+(?=.)/, '');
+    const certificate = message.certificates.find(cert => cert.serialNumber.replace(/^(00)+(?=.)/, '') === serialHex) || message.certificates[0];
+    if (!certificate) throw new Error('Signer certificate is not embedded in the signature.');
+    result.signerName = getCommonName(certificate.subject.attributes);
+    result.issuerName = getCommonName(certificate.issuer.attributes);
+    result.selfSigned = certificate.isIssuer(certificate);
+
+    const md = digestAlgorithm.forge();
+    if (signedAttrs) {
+      const attributes = signedAttrs.value as forge.asn1.Asn1[];
+      for (const attribute of attributes) {
+        const [typeAsn1, valuesAsn1] = attribute.value as forge.asn1.Asn1[];
+        const type = forge.asn1.derToOid(typeAsn1.value as string);
+        const value = (valuesAsn1.value as forge.asn1.Asn1[])[0];
+        if (type === forge.pki.oids.messageDigest) {
+          result.integrityValid = value.value === contentDigest;
+        } else if (type === forge.pki.oids.signingTime) {
+          result.signingTime = value.type === forge.asn1.Type.UTCTIME
+            ? forge.asn1.utcTimeToDate(value.value as string)
+            : forge.asn1.generalizedTimeToDate(value.value as string);
+        }
+      }
+      // The signature covers the DER encoding of the attributes as a SET, not as the [0] implicit tag
+      const attributesSet = forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, attributes);
+      md.update(forge.asn1.toDer(attributesSet).getBytes());
+    } else {
+      result.integrityValid = true; // Checked through the signature itself below
+      md.update(bytesToBinaryString(signedData));
+    }
+
+    const publicKey = certificate.publicKey as forge.pki.rsa.PublicKey;
+    if (!publicKey.verify) throw new Error('Only RSA signatures can be verified.');
+    try {
+      result.signatureValid = publicKey.verify(md.digest().bytes(), encryptedDigest.value as string);
+    } catch {
+      result.signatureValid = false;
+    }
+    if (!signedAttrs && !result.signatureValid) result.integrityValid = false;
+
+    const checkTime = result.signingTime || new Date();
+    result.certificateValidAtSigning = checkTime >= certificate.validity.notBefore && checkTime <= certificate.validity.notAfter;
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : 'Could not verify signature.';
+  }
+  return result;
+};
+
+/**
+ * Reports every signature dictionary found in a PDF: who signed, when, and whether the signed bytes are intact.
+ * Certificates are not checked against trusted roots, only for self-consistency and validity period.
+ */
+export const verifyPdfSignatures = async (pdfFile: File): Promise<SignatureVerificationResult[]> => {
+  const pdfBytes = new Uint8Array(await pdfFile.arrayBuffer());
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+  // Map signature dictionaries to the name of the field that references them
+  const fieldNames = new Map<PDFDict, string>();
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFDict && object.lookup(PDFName.of('FT')) === PDFName.of('Sig')) {
+      const value = object.lookup(PDFName.of('V'));
+      const name = getPdfText(object, 'T');
+      if (value instanceof PDFDict && name) fieldNames.set(value, name);
+    }
+  }
+
+  const results: SignatureVerificationResult[] = [];
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFDict && object.has(PDFName.of('ByteRange')) && object.has(PDFName.of('Contents'))) {
+      results.push(await verifySignatureDict(pdfBytes, object, fieldNames.get(object)));
+    }
+  }
+  return results;
+};
@@ -0,0 +1,295 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfToTextOptions } from '../types';
+import { Matrix, transformPoint } from './pdfContentStreamService';
+import { parsePageRanges } from './pageRangeService';
+import { baselineGap, boundsOf, getPageDisplayTransform, getPageGlyphs, PageRect, PositionedGlyph } from './pdfTextService';
+
+// Positions are in points on the page as displayed, with the origin at the top-left and y pointing down.
+export interface PdfTextLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+}
+
+export interface PdfTextBlock extends PdfTextLine {
+  lines: PdfTextLine[];
+}
+
+export interface PdfTextPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  blocks: PdfTextBlock[]; // In reading order
+}
+
+// A run of glyphs drawn one after another on the same baseline
+interface TextFragment {
+  text: string;
+  box: PageRect;
+  baseline: number;
+  fontSize: number;
+}
+
+// A vertical gap this many times the body font size, running the full height of a region, separates columns
+const COLUMN_GAP = 1.5;
+// A horizontal gap this many times the body font size separates blocks
+const BLOCK_GAP = 0.8;
+// Columns must hold runs of text, not just e.g. bullets or line numbers in a margin
+const MIN_COLUMN_FRAGMENT_LENGTH = 5;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDisplayGlyph = (glyph: PositionedGlyph, matrix: Matrix): PositionedGlyph => {
+  const { x0, y0, x1, y1 } = glyph.box;
+  return {
+    ...glyph,
+    box: boundsOf([[x0, y0], [x1, y0], [x1, y1], [x0, y1]].map(([x, y]) => transformPoint(matrix, x, y))),
+    origin: transformPoint(matrix, ...glyph.origin),
+    end: transformPoint(matrix, ...glyph.end),
+  };
+};
+
+// Splits glyphs, in content order, into fragments wherever the text jumps to another line or far along it
+const buildFragments = (glyphs: PositionedGlyph[]): TextFragment[] => {
+  const fragments: TextFragment[] = [];
+  let run: PositionedGlyph[] = [];
+  let text = '';
+  const flush = () => {
+    const inked = run.filter(glyph => /\S/.test(glyph.unicode));
+    if (inked.length > 0) {
+      fragments.push({
+        text: text.trim(),
+        box: boundsOf(inked.flatMap(g => [[g.box.x0, g.box.y0], [g.box.x1, g.box.y1]] as [number, number][])),
+        baseline: inked[0].origin[1],
+        fontSize: Math.max(...inked.map(g => g.fontSize)),
+      });
+    }
+    run = [];
+    text = '';
+  };
+
+  for (const glyph of glyphs) {
+    const unicode = glyph.unicode.replace(/[\u0000-\u001f]/g, ''); // Broken ToUnicode maps produce control characters
+    if (!unicode) continue;
+    const previous = run[run.length - 1];
+    if (previous) {
+      const size = Math.max(previous.fontSize, glyph.fontSize, 1);
+      const { along, across } = baselineGap(previous, glyph);
+      if (Math.abs(across) > size * 0.5 || along > size * COLUMN_GAP || along < -size * 0.5) {
+        flush();
+      } else if (along > size * 0.2 && !/\s$/.test(text) && !/^\s/.test(unicode)) {
+        text += ' ';
+      }
+    }
+    run.push(glyph);
+    text += unicode;
+  }
+  flush();
+  return fragments;
+};
+
+// Groups items whose extents along one axis are separated by at least minGap
+const splitByGaps = (
+  fragments: TextFragment[],
+  start: (f: TextFragment) => number,
+  end: (f: TextFragment) => number,
+  minGap: number
+): TextFragment[][] => {
+  const groups: TextFragment[][] = [];
+  let reach = -Infinity;
+  for (const fragment of [...fragments].sort((a, b) => start(a) - start(b))) {
+    if (groups.length === 0 || start(fragment) - reach >= minGap) {
+      groups.push([fragment]);
+      reach = end(fragment);
+    } else {
+      groups[groups.length - 1].push(fragment);
+      reach = Math.max(reach, end(fragment));
+    }
+  }
+  return groups;
+};
+
+/**
+ * Orders fragments for reading by recursive XY-cut: a region is split into columns at vertical gaps
+ * running its full height, otherwise into blocks at wide horizontal gaps.
+ */
+const xyCut = (fragments: TextFragment[], bodySize: number): TextFragment[][] => {
+  if (fragments.length <= 1) return [fragments];
+  const columns = splitByGaps(fragments, f => f.box.x0, f => f.box.x1, bodySize * COLUMN_GAP);
+  const averageLength = (group: TextFragment[]) => group.reduce((sum, f) => sum + f.text.length, 0) / group.length;
+  if (columns.length > 1 && columns.every(column => averageLength(column) >= MIN_COLUMN_FRAGMENT_LENGTH)) {
+    return columns.flatMap(column => xyCut(column, bodySize));
+  }
+  const bands = splitByGaps(fragments, f => f.box.y0, f => f.box.y1, bodySize * BLOCK_GAP);
+  if (bands.length > 1) return bands.flatMap(band => xyCut(band, bodySize));
+  return [fragments];
+};
+
+const toLine = (parts: { text: string; box: PageRect; fontSize: number }[], text: string): PdfTextLine => {
+  const box = boundsOf(parts.flatMap(p => [[p.box.x0, p.box.y0], [p.box.x1, p.box.y1]] as [number, number][]));
+  return {
+    text,
+    x: round(box.x0),
+    y: round(box.y0),
+    width: round(box.x1 - box.x0),
+    height: round(box.y1 - box.y0),
+    fontSize: round(Math.max(...parts.map(p => p.fontSize))),
+  };
+};
+
+// Arranges a block's fragments into lines, top to bottom and left to right
+const groupLines = (fragments: TextFragment[]): PdfTextLine[] => {
+  const lines: TextFragment[][] = [];
+  for (const fragment of [...fragments].sort((a, b) => a.baseline - b.baseline || a.box.x0 - b.box.x0)) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(fragment.baseline - line[0].baseline) <= Math.max(fragment.fontSize, line[0].fontSize) * 0.5) {
+      line.push(fragment);
+    } else {
+      lines.push([fragment]);
+    }
+  }
+  return lines.map(line => {
+    line.sort((a, b) => a.box.x0 - b.box.x0);
+    const text = line.reduce((joined, f, i) => {
+      if (i === 0) return f.text;
+      return joined + (f.box.x0 - line[i - 1].box.x1 > f.fontSize * 0.2 ? ' ' : '') + f.text;
+    }, '');
+    return toLine(line, text);
+  });
+};
+
+// Splits lines where the font size changes noticeably, e.g. between a heading and the text below it
+const groupBlocks = (lines: PdfTextLine[]): PdfTextBlock[] => {
+  const blocks: PdfTextLine[][] = [];
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    const ratio = previous ? Math.max(line.fontSize, previous.fontSize) / Math.max(Math.min(line.fontSize, previous.fontSize), 0.01) : 0;
+    if (!previous || ratio > 1.15) blocks.push([line]);
+    else blocks[blocks.length - 1].push(line);
+  });
+  return blocks.map(blockLines => ({
+    ...toLine(blockLines.map(l => ({ text: l.text, box: { x0: l.x, y0: l.y, x1: l.x + l.width, y1: l.y + l.height }, fontSize: l.fontSize })), ''),
+    text: blockLines.map(l => l.text).join('\n'),
+    lines: blockLines,
+  }));
+};
+
+// Font size used by most of the text, weighted by the number of characters
+const bodyFontSize = (items: { text: string; fontSize: number }[]): number => {
+  const sorted = [...items].sort((a, b) => a.fontSize - b.fontSize);
+  const total = sorted.reduce((sum, item) => sum + item.text.length, 0);
+  let count = 0;
+  for (const item of sorted) {
+    count += item.text.length;
+    if (count >= total / 2) return item.fontSize;
+  }
+  return 0;
+};
+
+/**
+ * Extracts the text of the selected pages in reading order, grouped into blocks of lines.
+ */
+export const extractPdfText = async (file: File, pageRange = ''): Promise<PdfTextPage[]> => {
+  const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pages = pdfDoc.getPages();
+  const pageIndices = pageRange.trim() ? parsePageRanges(pageRange, pages.length) : pages.map((_, i) => i);
+  if (pageIndices.length === 0) {
+    throw new Error("No valid pages selected. Please check your input (e.g., 1-3, 5).");
+  }
+
+  return pageIndices.map(pageIndex => {
+    const page = pages[pageIndex];
+    const { matrix, width, height } = getPageDisplayTransform(page);
+    let glyphs: PositionedGlyph[];
+    try {
+      glyphs = getPageGlyphs(page).map(glyph => toDisplayGlyph(glyph, matrix));
+    } catch (e) {
+      throw new Error(`Could not read the text of page ${pageIndex + 1}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const fragments = buildFragments(glyphs);
+    const bodySize = bodyFontSize(fragments) || 10;
+    const blocks = xyCut(fragments, bodySize)
+      .filter(group => group.length > 0)
+      .flatMap(group => groupBlocks(groupLines(group)));
+    return { pageNumber: pageIndex + 1, width: round(width), height: round(height), blocks };
+  });
+};
+
+const pageToPlainText = (page: PdfTextPage) => page.blocks.map(block => block.text).join('\n\n');
+
+/**
+ * Plain text with blocks separated by blank lines and pages by a form feed, as pdftotext does.
+ */
+export const formatPdfTextAsPlainText = (pages: PdfTextPage[]): string =>
+  pages.map(pageToPlainText).join('\n\f') + '\n';
+
+const BULLET = /^(?:[•◦▪▫‣⁃●○■□]\s*|[-*–]\s+)/;
+const NUMBERED = /^(\d{1,3})[.)]\s+/;
+
+// Joins wrapped lines into one, undoing hyphenation at line ends
+const joinWrappedLines = (lines: string[]): string =>
+  lines.reduce((joined, line) => {
+    if (!joined) return line;
+    if (/\p{L}-$/u.test(joined) && /^\p{Ll}/u.test(line)) return joined.slice(0, -1) + line;
+    return `${joined} ${line}`;
+  }, '');
+
+// Escapes text that Markdown would otherwise read as a heading, quote or list
+const escapeMarkdownLineStart = (text: string) => text.replace(/^(#{1,6}\s|>|[-+*]\s|\d+[.)]\s)/, '\\$1');
+
+const blockToMarkdown = (block: PdfTextBlock, bodySize: number): string => {
+  const lines = block.lines.map(line => line.text);
+  const text = joinWrappedLines(lines);
+  const ratio = bodySize > 0 ? block.fontSize / bodySize : 1;
+  if (lines.length <= 3 && text.length <= 200 && ratio >= 1.15) {
+    const level = ratio >= 1.6 ? 1 : ratio >= 1.3 ? 2 : 3;
+    return `${'#'.repeat(level)} ${text}`;
+  }
+  if (BULLET.test(lines[0]) || NUMBERED.test(lines[0])) {
+    const items: string[][] = [];
+    for (const line of lines) {
+      const numbered = line.match(NUMBERED);
+      if (numbered) items.push([`${numbered[1]}.`, line.slice(numbered[0].length)]);
+      else if (BULLET.test(line)) items.push(['-', line.replace(BULLET, '')]);
+      else items[items.length - 1].push(line); // Continuation of a wrapped item
+    }
+    return items.map(([marker, ...itemLines]) => `${marker} ${joinWrappedLines(itemLines)}`).join('\n');
+  }
+  return escapeMarkdownLineStart(text);
+};
+
+/**
+ * Markdown with headings guessed from font sizes, lists from bullet and number markers, and
+ * paragraphs with wrapped lines joined.
+ */
+export const formatPdfTextAsMarkdown = (pages: PdfTextPage[]): string => {
+  const bodySize = bodyFontSize(pages.flatMap(page => page.blocks.flatMap(block => block.lines)));
+  return pages
+    .map(page => [`<!-- Page ${page.pageNumber} -->`, ...page.blocks.map(block => blockToMarkdown(block, bodySize))].join('\n\n'))
+    .join('\n\n') + '\n';
+};
+
+export const formatPdfTextAsJson = (pages: PdfTextPage[], sourceName: string): string =>
+  JSON.stringify({
+    source: sourceName,
+    pages: pages.map(({ blocks, ...page }) => ({ ...page, text: pageToPlainText({ ...page, blocks }), blocks })),
+  }, null, 2);
+
+/**
+ * Extracts text from a PDF in the requested format.
+ * @throws Error if the selected pages contain no text, e.g. because they are scanned images.
+ */
+export const convertPdfToText = async (file: File, options: PdfToTextOptions): Promise<string> => {
+  const pages = await extractPdfText(file, options.pageRange);
+  if (pages.every(page => page.blocks.length === 0)) {
+    throw new Error("No text was found. The PDF may contain only scanned images, whose text can't be extracted without OCR.");
+  }
+  switch (options.format) {
+    case 'markdown': return formatPdfTextAsMarkdown(pages);
+    case 'json': return formatPdfTextAsJson(pages, file.name);
+    default: return formatPdfTextAsPlainText(pages);
+  }
+};
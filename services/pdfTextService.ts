@@ -0,0 +1,307 @@
+import { PDFArray, PDFDict, PDFName, PDFPage, PDFStream } from 'pdf-lib';
+import {
+  ContentOperand,
+  ContentOperation,
+  decodeStreamBytes,
+  getPageContentBytes,
+  IDENTITY_MATRIX,
+  isContentString,
+  isName,
+  Matrix,
+  multiplyMatrices,
+  parseContentStream,
+  transformPoint,
+} from './pdfContentStreamService';
+import { DecodedGlyph, loadPdfFont, PdfFontInfo, UNKNOWN_FONT } from './pdfFontService';
+
+// Text positioning as described in ISO 32000-2, section 9.4.4
+
+// Axis-aligned rectangle in default user space (origin at the bottom-left of the MediaBox)
+export interface PageRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface PositionedGlyph extends DecodedGlyph {
+  box: PageRect; // From descent to ascent, across the glyph's width
+  origin: [number, number]; // Baseline start
+  end: [number, number]; // Baseline end, before character and word spacing
+  fontSize: number; // As rendered, in user space units
+  advance: number; // Horizontal displacement in unscaled text space, including character and word spacing
+}
+
+// A string's glyphs, or a TJ adjustment in thousandths of a text space unit
+export type TextShowElement = PositionedGlyph[] | number;
+
+export interface TextShowOperation {
+  operationIndex: number;
+  operator: string; // Tj, TJ, ' or "
+  elements: TextShowElement[];
+  font: PdfFontInfo;
+  fontSize: number; // Tf operand
+}
+
+export interface DrawnXObject {
+  operationIndex: number;
+  name: string;
+  xObject: PDFStream;
+  ctm: Matrix; // Maps the unit square to the drawn area for images
+}
+
+export interface DrawnInlineImage {
+  operationIndex: number;
+  ctm: Matrix;
+}
+
+export interface ContentWalkHandlers {
+  onText?: (show: TextShowOperation) => void;
+  onXObject?: (drawn: DrawnXObject) => void;
+  onInlineImage?: (drawn: DrawnInlineImage) => void;
+}
+
+interface TextState {
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScaling: number; // Fraction, Tz / 100
+  leading: number;
+  font: PdfFontInfo;
+  fontSize: number;
+  rise: number;
+}
+
+const translation = (tx: number, ty: number): Matrix => [1, 0, 0, 1, tx, ty];
+
+export const boundsOf = (points: [number, number][]): PageRect => ({
+  x0: Math.min(...points.map(p => p[0])),
+  y0: Math.min(...points.map(p => p[1])),
+  x1: Math.max(...points.map(p => p[0])),
+  y1: Math.max(...points.map(p => p[1])),
+});
+
+/**
+ * Returns the page as displayed: its size after cropping and rotation, and the matrix mapping user
+ * space to display coordinates in points, with the origin at the top-left and y pointing down.
+ */
+export const getPageDisplayTransform = (page: PDFPage): { matrix: Matrix; width: number; height: number } => {
+  const { x, y, width, height } = page.getCropBox();
+  switch (((page.getRotation().angle % 360) + 360) % 360) {
+    case 90: return { matrix: [0, 1, 1, 0, -y, -x], width: height, height: width };
+    case 180: return { matrix: [-1, 0, 0, 1, x + width, -y], width, height };
+    case 270: return { matrix: [0, -1, -1, 0, y + height, x + width], width: height, height: width };
+    default: return { matrix: [1, 0, 0, -1, -x, y + height], width, height };
+  }
+};
+
+export const rectsIntersect = (a: PageRect, b: PageRect) => a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
+
+const toNumber = (operand: ContentOperand | undefined) => (typeof operand === 'number' ? operand : 0);
+
+/**
+ * Walks a content stream tracking the graphics and text state, and reports each text-showing operation
+ * with its glyphs positioned in user space, and each XObject and inline image drawn. Form XObjects are
+ * reported but not entered; see openFormXObject.
+ */
+export const walkContent = (
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  handlers: ContentWalkHandlers,
+  initialCtm: Matrix = IDENTITY_MATRIX
+) => {
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const stack: { ctm: Matrix; text: TextState }[] = [];
+  let ctm = initialCtm;
+  let text: TextState = { charSpacing: 0, wordSpacing: 0, horizontalScaling: 1, leading: 0, font: UNKNOWN_FONT, fontSize: 0, rise: 0 };
+  let textMatrix = IDENTITY_MATRIX;
+  let lineMatrix = IDENTITY_MATRIX;
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiplyMatrices(translation(tx, ty), lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (operationIndex: number, operator: string, items: ContentOperand[]) => {
+    const { font, fontSize, horizontalScaling, rise } = text;
+    const elements: TextShowElement[] = [];
+    for (const item of items) {
+      if (typeof item === 'number') {
+        textMatrix = multiplyMatrices(translation((-item / 1000) * fontSize * horizontalScaling, 0), textMatrix);
+        elements.push(item);
+        continue;
+      }
+      if (!isContentString(item)) continue;
+      const glyphs: PositionedGlyph[] = [];
+      for (const glyph of font.decode(item.bytes)) {
+        const renderMatrix = multiplyMatrices(textMatrix, ctm);
+        const width = glyph.width * fontSize * horizontalScaling;
+        const bottom = font.descent * fontSize + rise;
+        const top = font.ascent * fontSize + rise;
+        const isSpace = glyph.bytes.length === 1 && glyph.code === 32; // Word spacing applies to single-byte code 32 only
+        const advance = glyph.width * fontSize + text.charSpacing + (isSpace ? text.wordSpacing : 0);
+        glyphs.push({
+          ...glyph,
+          box: boundsOf([[0, bottom], [width, bottom], [width, top], [0, top]].map(([x, y]) => transformPoint(renderMatrix, x, y))),
+          origin: transformPoint(renderMatrix, 0, rise),
+          end: transformPoint(renderMatrix, width, rise),
+          fontSize: Math.abs(fontSize) * Math.hypot(renderMatrix[2], renderMatrix[3]),
+          advance,
+        });
+        textMatrix = multiplyMatrices(translation(advance * horizontalScaling, 0), textMatrix);
+      }
+      elements.push(glyphs);
+    }
+    handlers.onText?.({ operationIndex, operator, elements, font, fontSize });
+  };
+
+  operations.forEach((op, index) => {
+    const operands = op.operands;
+    switch (op.operator) {
+      case 'q': stack.push({ ctm, text }); break;
+      case 'Q': ({ ctm, text } = stack.pop() || { ctm, text }); break;
+      case 'cm':
+        if (operands.length === 6 && operands.every(o => typeof o === 'number')) ctm = multiplyMatrices(operands as Matrix, ctm);
+        break;
+      // The text state is replaced rather than mutated, so states saved by q stay intact
+      case 'Tc': text = { ...text, charSpacing: toNumber(operands[0]) }; break;
+      case 'Tw': text = { ...text, wordSpacing: toNumber(operands[0]) }; break;
+      case 'Tz': text = { ...text, horizontalScaling: toNumber(operands[0]) / 100 }; break;
+      case 'TL': text = { ...text, leading: toNumber(operands[0]) }; break;
+      case 'Ts': text = { ...text, rise: toNumber(operands[0]) }; break;
+      case 'Tf': {
+        const name = operands[0];
+        const fontDict = isName(name) ? fonts?.lookup(PDFName.of(name.value)) : undefined;
+        text = { ...text, font: fontDict instanceof PDFDict ? loadPdfFont(fontDict) : UNKNOWN_FONT, fontSize: toNumber(operands[1]) };
+        break;
+      }
+      case 'BT': textMatrix = lineMatrix = IDENTITY_MATRIX; break;
+      case 'Td': moveLine(toNumber(operands[0]), toNumber(operands[1])); break;
+      case 'TD':
+        text = { ...text, leading: -toNumber(operands[1]) };
+        moveLine(toNumber(operands[0]), toNumber(operands[1]));
+        break;
+      case 'Tm':
+        if (operands.length === 6 && operands.every(o => typeof o === 'number')) textMatrix = lineMatrix = operands as Matrix;
+        break;
+      case 'T*': moveLine(0, -text.leading); break;
+      case 'Tj': showText(index, op.operator, operands.slice(0, 1)); break;
+      case 'TJ': showText(index, op.operator, Array.isArray(operands[0]) ? operands[0] : []); break;
+      case "'":
+        moveLine(0, -text.leading);
+        showText(index, op.operator, operands.slice(0, 1));
+        break;
+      case '"':
+        text = { ...text, wordSpacing: toNumber(operands[0]), charSpacing: toNumber(operands[1]) };
+        moveLine(0, -text.leading);
+        showText(index, op.operator, operands.slice(2, 3));
+        break;
+      case 'Do': {
+        const name = operands[0];
+        const xObject = isName(name) ? xObjects?.lookup(PDFName.of(name.value)) : undefined;
+        if (isName(name) && xObject instanceof PDFStream) handlers.onXObject?.({ operationIndex: index, name: name.value, xObject, ctm });
+        break;
+      }
+      case 'BI': handlers.onInlineImage?.({ operationIndex: index, ctm }); break;
+    }
+  });
+};
+
+export const isFormXObject = (xObject: PDFStream) => xObject.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form');
+
+/**
+ * Parses a Form XObject drawn with the given CTM.
+ * @returns The form's operations, its resources (inherited if it has none) and the CTM its content is drawn with.
+ * @throws Error if the form's content cannot be parsed.
+ */
+export const openFormXObject = (xObject: PDFStream, parentResources: PDFDict | undefined, ctm: Matrix) => {
+  const matrixArray = xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+  const formMatrix = matrixArray && matrixArray.size() === 6
+    ? (matrixArray.asArray().map(n => Number(n.toString())) as Matrix)
+    : IDENTITY_MATRIX;
+  return {
+    operations: parseContentStream(decodeStreamBytes(xObject)),
+    resources: xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) || parentResources,
+    ctm: multiplyMatrices(formMatrix, ctm),
+  };
+};
+
+/**
+ * Collects the glyphs shown by a content stream, including those in Form XObjects, in content order.
+ */
+export const collectGlyphs = (
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  ctm: Matrix = IDENTITY_MATRIX,
+  depth = 0
+): PositionedGlyph[] => {
+  const glyphs: PositionedGlyph[] = [];
+  walkContent(operations, resources, {
+    onText: show => show.elements.forEach(element => { if (Array.isArray(element)) glyphs.push(...element); }),
+    onXObject: ({ name, xObject, ctm: formCtm }) => {
+      if (!isFormXObject(xObject) || depth >= 10) return; // Depth guard against cyclic forms
+      try {
+        const form = openFormXObject(xObject, resources, formCtm);
+        glyphs.push(...collectGlyphs(form.operations, form.resources, form.ctm, depth + 1));
+      } catch (e) {
+        console.warn(`Could not parse form XObject ${name}:`, e);
+      }
+    },
+  }, ctm);
+  return glyphs;
+};
+
+/**
+ * Returns the glyphs shown on a page, positioned in its default user space.
+ */
+export const getPageGlyphs = (page: PDFPage): PositionedGlyph[] =>
+  collectGlyphs(parseContentStream(getPageContentBytes(page)), page.node.Resources());
+
+/**
+ * Measures the gap from the end of one glyph to the start of the next, along the first glyph's
+ * baseline and across it.
+ */
+export const baselineGap = (previous: PositionedGlyph, next: PositionedGlyph): { along: number; across: number } => {
+  const dx = previous.end[0] - previous.origin[0];
+  const dy = previous.end[1] - previous.origin[1];
+  const length = Math.hypot(dx, dy);
+  const [ux, uy] = length > 0 ? [dx / length, dy / length] : [1, 0]; // Baseline direction
+  const gapX = next.origin[0] - previous.end[0];
+  const gapY = next.origin[1] - previous.end[1];
+  return { along: gapX * ux + gapY * uy, across: gapY * ux - gapX * uy };
+};
+
+/**
+ * Returns what separates two consecutive glyphs in reading order: '\n' if the second starts a new line,
+ * ' ' if there is a gap wider than a narrow space, or '' if they are adjacent.
+ */
+export const glyphSeparator = (previous: PositionedGlyph, next: PositionedGlyph): string => {
+  const size = Math.max(previous.fontSize, next.fontSize, 1);
+  const { along, across } = baselineGap(previous, next);
+  if (Math.abs(across) > size * 0.5) return '\n';
+  if (/\s$/.test(previous.unicode) || /^\s/.test(next.unicode)) return '';
+  return along > size * 0.2 || along < -size ? ' ' : '';
+};
+
+export interface GlyphText {
+  text: string;
+  glyphIndices: number[]; // Index into the glyphs for each UTF-16 code unit of text; -1 for inserted separators
+}
+
+/**
+ * Joins glyphs into searchable text, inserting spaces and line breaks where the layout implies them.
+ */
+export const glyphsToText = (glyphs: PositionedGlyph[]): GlyphText => {
+  let text = '';
+  const glyphIndices: number[] = [];
+  glyphs.forEach((glyph, index) => {
+    const separator = index > 0 ? glyphSeparator(glyphs[index - 1], glyph) : '';
+    if (separator) {
+      text += separator;
+      glyphIndices.push(-1);
+    }
+    text += glyph.unicode;
+    for (let i = 0; i < glyph.unicode.length; i++) glyphIndices.push(index);
+  });
+  return { text, glyphIndices };
+};
@@ -0,0 +1,16 @@
+import { runPdfJob } from './pdfJobRunner';
+import { PdfWorkerRequest, PdfWorkerResponse } from './pdfWorkerProtocol';
+
+// Entry point of a PDF worker (see pdfWorkerPool). Runs one job at a time.
+
+const post = (response: PdfWorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.addEventListener('message', async (event: MessageEvent<PdfWorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const outputs = await runPdfJob(job, (done, total) => post({ id, type: 'progress', done, total }));
+    post({ id, type: 'result', outputs }, outputs.map(output => output.data));
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
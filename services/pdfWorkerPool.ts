@@ -0,0 +1,245 @@
+import { CompressionLevel, HeaderFooterOptions, ImageCompressionInfo, ImageToPdfOptions, JobControl, PageNumberOptions, ProgressCallback, WatermarkOptions } from '../types';
+import { splitPageRangeSegments } from './pageRangeService';
+import { runPdfJob } from './pdfJobRunner';
+import { MergePdfOptions, OrganizePageItem, RotatePdfOptions, SplitPdfOptions } from './pdfManipulatorService';
+import { PdfJob, PdfJobOutput, PdfSourceData, PdfWorkerRequest, PdfWorkerResponse, getJobTransferables } from './pdfWorkerProtocol';
+
+// Runs PDF jobs in a small pool of Web Workers so the page stays responsive. Workers are started
+// on first use and reused. A job that is cancelled while running stops its worker, because pdf-lib
+// can't be interrupted; a fresh worker replaces it for the next job.
+
+const MAX_WORKERS = 4;
+
+export const PDF_WORKER_COUNT = typeof Worker === 'undefined'
+  ? 1
+  : Math.max(1, Math.min(MAX_WORKERS, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency || 2) - 1));
+
+interface PoolTask {
+  id: number;
+  job: PdfJob;
+  onProgress: ProgressCallback;
+  resolve: (outputs: PdfJobOutput[]) => void;
+  reject: (reason: unknown) => void;
+  worker?: Worker;
+}
+
+let nextTaskId = 1;
+let workerCount = 0;
+const idleWorkers: Worker[] = [];
+const queue: PoolTask[] = [];
+const running = new Map<number, PoolTask>();
+
+/**
+ * True for the error a job rejects with after it was cancelled through its AbortSignal.
+ */
+export const isJobCancelled = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+const dispatch = () => {
+  while (queue.length > 0 && (idleWorkers.length > 0 || workerCount < PDF_WORKER_COUNT)) {
+    const task = queue.shift()!;
+    const worker = idleWorkers.pop() ?? createWorker();
+    task.worker = worker;
+    running.set(task.id, task);
+    const request: PdfWorkerRequest = { id: task.id, job: task.job };
+    worker.postMessage(request, getJobTransferables(task.job));
+  }
+};
+
+const discardWorker = (worker: Worker) => {
+  worker.terminate();
+  workerCount--;
+  const idleIndex = idleWorkers.indexOf(worker);
+  if (idleIndex >= 0) idleWorkers.splice(idleIndex, 1);
+  dispatch();
+};
+
+const createWorker = (): Worker => {
+  const worker = new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' });
+  workerCount++;
+  worker.addEventListener('message', (event: MessageEvent<PdfWorkerResponse>) => {
+    const response = event.data;
+    const task = running.get(response.id);
+    if (!task) return; // Cancelled meanwhile
+    if (response.type === 'progress') {
+      task.onProgress(response.done, response.total);
+      return;
+    }
+    running.delete(task.id);
+    idleWorkers.push(worker);
+    if (response.type === 'result') task.resolve(response.outputs);
+    else task.reject(new Error(response.message));
+    dispatch();
+  });
+  worker.addEventListener('error', (event: ErrorEvent) => {
+    // The worker failed to load or crashed (e.g. ran out of memory)
+    event.preventDefault();
+    const task = [...running.values()].find(t => t.worker === worker);
+    if (task) {
+      running.delete(task.id);
+      task.reject(new Error(event.message || "The PDF worker stopped unexpectedly. The file may be too large."));
+    }
+    discardWorker(worker);
+  });
+  return worker;
+};
+
+const cancelTask = (task: PoolTask, reason: unknown) => {
+  const queueIndex = queue.indexOf(task);
+  if (queueIndex >= 0) queue.splice(queueIndex, 1);
+  else if (running.delete(task.id) && task.worker) discardWorker(task.worker);
+  task.reject(reason);
+};
+
+/**
+ * Queues a job for the next free worker. Its ArrayBuffers are transferred, so they can't be
+ * used again by the caller. Without Web Worker support the job runs on the main thread.
+ */
+export const runPdfJobInWorker = (job: PdfJob, onProgress: ProgressCallback = () => {}, signal?: AbortSignal): Promise<PdfJobOutput[]> => {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  if (typeof Worker === 'undefined') return runPdfJob(job, onProgress);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => cancelTask(task, signal!.reason);
+    const task: PoolTask = {
+      id: nextTaskId++,
+      job,
+      onProgress,
+      resolve: outputs => { signal?.removeEventListener('abort', onAbort); resolve(outputs); },
+      reject: reason => { signal?.removeEventListener('abort', onAbort); reject(reason); },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(task);
+    dispatch();
+  });
+};
+
+/**
+ * Runs jobs side by side and reports their combined progress, each job counting equally.
+ * If one fails, the others are cancelled.
+ */
+const runPdfJobsInParallel = async (jobs: PdfJob[], control: JobControl, progressStart = 0, progressSpan = 1): Promise<PdfJobOutput[][]> => {
+  control.signal?.throwIfAborted();
+  const fractions = jobs.map(() => 0);
+  const reportProgress = (index: number, fraction: number) => {
+    fractions[index] = fraction;
+    control.onProgress?.(progressStart + progressSpan * fractions.reduce((sum, f) => sum + f, 0) / jobs.length);
+  };
+  const controller = new AbortController();
+  const abort = () => controller.abort(control.signal?.reason);
+  control.signal?.addEventListener('abort', abort, { once: true });
+  try {
+    return await Promise.all(jobs.map(async (job, index) => {
+      try {
+        const outputs = await runPdfJobInWorker(job, (done, total) => reportProgress(index, total > 0 ? done / total : 0), controller.signal);
+        reportProgress(index, 1);
+        return outputs;
+      } catch (err) {
+        controller.abort(err);
+        throw err;
+      }
+    }));
+  } finally {
+    control.signal?.removeEventListener('abort', abort);
+  }
+};
+
+const readPdfSource = async (file: File): Promise<PdfSourceData> => ({ name: file.name, data: await file.arrayBuffer() });
+
+const runSingleJob = async (job: PdfJob, control: JobControl): Promise<Uint8Array> => {
+  const [[output]] = await runPdfJobsInParallel([job], control);
+  return new Uint8Array(output.data);
+};
+
+// --- Operations ---
+
+/**
+ * Merges PDFs. With enough files, each worker first merges a consecutive group of them,
+ * then one worker joins the groups.
+ */
+export const mergePdfsInWorkers = async (files: File[], options: MergePdfOptions, control: JobControl = {}): Promise<Uint8Array> => {
+  const groupCount = Math.min(PDF_WORKER_COUNT, Math.floor(files.length / 2));
+  if (groupCount < 2) {
+    return runSingleJob({ type: 'merge', sources: await Promise.all(files.map(readPdfSource)), options }, control);
+  }
+
+  const groupSize = Math.ceil(files.length / groupCount);
+  const groups: File[][] = [];
+  for (let start = 0; start < files.length; start += groupSize) groups.push(files.slice(start, start + groupSize));
+  const groupJobs: PdfJob[] = [];
+  for (const group of groups) groupJobs.push({ type: 'merge', sources: await Promise.all(group.map(readPdfSource)), options });
+  const groupOutputs = await runPdfJobsInParallel(groupJobs, control, 0, 0.8);
+
+  // The groups already carry the bookmarks that were asked for, so joining them only keeps those
+  return runSingleJob({
+    type: 'merge',
+    sources: groupOutputs.map(([output], index) => ({ name: `part_${index + 1}.pdf`, data: output.data })),
+    options: { preserveBookmarks: true, bookmarkPerFile: false },
+  }, { ...control, onProgress: fraction => control.onProgress?.(0.8 + 0.2 * fraction) });
+};
+
+/**
+ * Splits a PDF. Every worker reads the whole file and saves its share of the parts, except for
+ * size-limited splits, which one worker does alone. Their parts that are still over the limit are marked oversized.
+ */
+export const splitPdfInWorkers = async (file: File, options: SplitPdfOptions, control: JobControl = {}): Promise<{ blob: Blob; filename: string; oversized?: boolean }[]> => {
+  const segmentCount = options.mode === 'ranges' ? splitPageRangeSegments(options.rangesStr ?? '').length
+    : options.mode === 'maxSize' ? 1
+    : Infinity;
+  const shardCount = Math.max(1, Math.min(PDF_WORKER_COUNT, segmentCount));
+  const jobs: PdfJob[] = [];
+  for (let shardIndex = 0; shardIndex < shardCount; shardIndex++) {
+    jobs.push({ type: 'split', source: await readPdfSource(file), options, shardIndex, shardCount });
+  }
+  const shards = await runPdfJobsInParallel(jobs, control);
+
+  // Part i was saved by shard i % shardCount
+  const results: { blob: Blob; filename: string; oversized?: boolean }[] = [];
+  for (let i = 0; shards[i % shardCount][Math.floor(i / shardCount)]; i++) {
+    const { name, data, oversized } = shards[i % shardCount][Math.floor(i / shardCount)];
+    results.push({ blob: new Blob([data], { type: 'application/pdf' }), filename: name, oversized });
+  }
+  return results;
+};
+
+export const extractPagesInWorker = async (file: File, pageRange: string, keepOrder: boolean, control: JobControl = {}): Promise<Uint8Array> =>
+  runSingleJob({ type: 'extractPages', source: await readPdfSource(file), pageRange, keepOrder }, control);
+
+export const rotatePdfPagesInWorker = async (file: File, options: RotatePdfOptions, control: JobControl = {}): Promise<Uint8Array> =>
+  runSingleJob({ type: 'rotate', source: await readPdfSource(file), options }, control);
+
+export const addPageNumbersInWorker = async (file: File, options: PageNumberOptions, control: JobControl = {}): Promise<Uint8Array> =>
+  runSingleJob({ type: 'pageNumbers', source: await readPdfSource(file), options }, control);
+
+export const addWatermarkInWorker = async (file: File, options: WatermarkOptions, control: JobControl = {}): Promise<Uint8Array> =>
+  runSingleJob({ type: 'watermark', source: await readPdfSource(file), options }, control);
+
+/**
+ * Stamps headers and footers. Also returns the Bates number to continue from in the next file.
+ */
+export const addHeaderFooterInWorker = async (file: File, options: HeaderFooterOptions, control: JobControl = {}): Promise<{ pdfBytes: Uint8Array; nextBatesNumber?: number }> => {
+  const [[output]] = await runPdfJobsInParallel([{ type: 'headerFooter', source: await readPdfSource(file), options }], control);
+  return { pdfBytes: new Uint8Array(output.data), nextBatesNumber: output.nextBatesNumber };
+};
+
+export const organizePdfPagesInWorker = async (pages: OrganizePageItem[], control: JobControl = {}): Promise<Uint8Array> => {
+  const files = [...new Set(pages.map(item => item.file))];
+  return runSingleJob({
+    type: 'organize',
+    sources: await Promise.all(files.map(readPdfSource)),
+    pages: pages.map(({ file, pageIndex, rotation }) => ({ sourceIndex: files.indexOf(file), pageIndex, rotation })),
+  }, control);
+};
+
+/**
+ * Compresses a PDF's images off the main thread, with OffscreenCanvas. Also returns the per-image report.
+ */
+export const compressPdfInWorker = async (file: File, level: CompressionLevel, control: JobControl = {}): Promise<{ pdfBytes: Uint8Array; images: ImageCompressionInfo[] }> => {
+  const [[output]] = await runPdfJobsInParallel([{ type: 'compress', source: await readPdfSource(file), level }], control);
+  return { pdfBytes: new Uint8Array(output.data), images: output.imageReport ?? [] };
+};
+
+export const convertImagesToPdfInWorker = async (imageFiles: File[], options: ImageToPdfOptions, control: JobControl = {}): Promise<Uint8Array> => {
+  if (imageFiles.length === 0) throw new Error('No image files provided.');
+  const images = await Promise.all(imageFiles.map(async file => ({ name: file.name, type: file.type, data: await file.arrayBuffer() })));
+  return runSingleJob({ type: 'imagesToPdf', images, options }, control);
+};
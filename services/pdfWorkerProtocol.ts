@@ -0,0 +1,60 @@
+import { CompressionLevel, HeaderFooterOptions, ImageCompressionInfo, ImageToPdfOptions, PageNumberOptions, WatermarkOptions } from '../types';
+import { ImageInput } from './imageConverterService';
+import { MergePdfOptions, OrganizeDocumentPage, PdfInput, RotatePdfOptions, SplitPdfOptions } from './pdfManipulatorService';
+
+// Messages exchanged between the app and the PDF workers. File contents travel as ArrayBuffers,
+// which are transferred (moved, not copied) in both directions.
+
+export interface PdfSourceData extends PdfInput {
+  data: ArrayBuffer;
+}
+
+export interface ImageSourceData extends ImageInput {
+  data: ArrayBuffer;
+}
+
+export type PdfJob =
+  | { type: 'merge'; sources: PdfSourceData[]; options: MergePdfOptions }
+  | { type: 'extractPages'; source: PdfSourceData; pageRange: string; keepOrder: boolean }
+  // Each of `shardCount` workers saves every shardCount-th part, starting at `shardIndex`
+  | { type: 'split'; source: PdfSourceData; options: SplitPdfOptions; shardIndex: number; shardCount: number }
+  | { type: 'rotate'; source: PdfSourceData; options: RotatePdfOptions }
+  | { type: 'pageNumbers'; source: PdfSourceData; options: PageNumberOptions }
+  | { type: 'watermark'; source: PdfSourceData; options: WatermarkOptions }
+  | { type: 'headerFooter'; source: PdfSourceData; options: HeaderFooterOptions }
+  | { type: 'organize'; sources: PdfSourceData[]; pages: OrganizeDocumentPage[] }
+  | { type: 'compress'; source: PdfSourceData; level: CompressionLevel }
+  | { type: 'imagesToPdf'; images: ImageSourceData[]; options?: ImageToPdfOptions };
+
+export interface PdfJobOutput {
+  name: string; // File name for split parts, empty otherwise
+  data: ArrayBuffer;
+  oversized?: boolean; // Split parts over the size limit, see splitPdfDocumentBySize
+  nextBatesNumber?: number; // Header/footer jobs with Bates numbering, see addHeaderFooterToDocument
+  imageReport?: ImageCompressionInfo[]; // Compress jobs
+}
+
+export interface PdfWorkerRequest {
+  id: number;
+  job: PdfJob;
+}
+
+export type PdfWorkerResponse =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'result'; outputs: PdfJobOutput[] }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * ArrayBuffers to transfer along with a job, so the worker takes them over without a copy.
+ */
+export const getJobTransferables = (job: PdfJob): ArrayBuffer[] => {
+  switch (job.type) {
+    case 'merge':
+    case 'organize':
+      return job.sources.map(source => source.data);
+    case 'imagesToPdf':
+      return job.images.map(image => image.data);
+    default:
+      return [job.source.data];
+  }
+};
@@ -0,0 +1,232 @@
+// Streaming ZIP writer (stored entries, no compression). Used to bundle outputs that are
+// already compressed, such as images and PDFs. Entries are read one chunk at a time and
+// each CRC is computed on the fly, so the archive never has to be assembled in memory.
+// Also reads single entries from archives such as DOCX files.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, e.g. "report/report_page_1.pdf"
+  data: Blob | Uint8Array;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Continues a CRC-32 over another chunk; start with 0
+const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC32_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields used by ZIP headers
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const FLAGS = 0x0808; // Bit 3: sizes and CRC follow the data; bit 11: UTF-8 names
+const MAX_SIZE = 0xffffffff; // Without ZIP64 extensions
+
+async function* readChunks(data: Blob | Uint8Array): AsyncGenerator<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    yield data;
+    return;
+  }
+  const reader = data.stream().getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* generateZipChunks(entries: ZipEntry[], modified: Date): AsyncGenerator<Uint8Array> {
+  if (entries.length > 0xffff) throw new Error("A ZIP archive can hold at most 65535 files.");
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const centralDirectory: Uint8Array[] = [];
+  const usedNames = new Set<string>();
+  let offset = 0;
+
+  for (const entry of entries) {
+    // Duplicate paths would make most tools silently skip files, so number them instead
+    let entryName = entry.name;
+    for (let copy = 2; usedNames.has(entryName); copy++) {
+      const dot = entry.name.lastIndexOf('.');
+      entryName = dot > entry.name.lastIndexOf('/') ? `${entry.name.slice(0, dot)} (${copy})${entry.name.slice(dot)}` : `${entry.name} (${copy})`;
+    }
+    usedNames.add(entryName);
+    const name = encoder.encode(entryName);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract (2.0)
+    local.setUint16(6, FLAGS, true);
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    // CRC and sizes (offsets 14-25) stay zero; they are in the data descriptor
+    local.setUint16(26, name.length, true);
+    localHeader.set(name, 30);
+    yield localHeader;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of readChunks(entry.data)) {
+      crc = updateCrc32(crc, chunk);
+      size += chunk.length;
+      yield chunk;
+    }
+    if (size >= MAX_SIZE || offset >= MAX_SIZE) throw new Error("The ZIP archive would be larger than 4 GB.");
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, 0x08074b50, true); // Data descriptor signature
+    descriptorView.setUint32(4, crc, true);
+    descriptorView.setUint32(8, size, true); // Compressed size
+    descriptorView.setUint32(12, size, true); // Uncompressed size
+    yield descriptor;
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed to extract
+    central.setUint16(8, FLAGS, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // Offset of the local header
+    centralHeader.set(name, 46);
+    centralDirectory.push(centralHeader);
+
+    offset += localHeader.length + size + descriptor.length;
+  }
+
+  let centralSize = 0;
+  for (const header of centralDirectory) {
+    centralSize += header.length;
+    yield header;
+  }
+  if (offset >= MAX_SIZE) throw new Error("The ZIP archive would be larger than 4 GB.");
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, centralDirectory.length, true); // Entries on this disk
+  endView.setUint16(10, centralDirectory.length, true); // Total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true); // Offset of the central directory
+  yield end;
+}
+
+/**
+ * Streams a ZIP archive of the given entries. Entry data is only read when the stream is pulled.
+ */
+export const createZipStream = (entries: ZipEntry[], modified: Date = new Date()): ReadableStream<Uint8Array> => {
+  const chunks = generateZipChunks(entries, modified);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+};
+
+/**
+ * Builds a ZIP archive as a Blob. Browsers can keep large Blobs on disk, but for very large
+ * archives prefer saveZip, which writes straight to a file where supported.
+ */
+export const createZip = (entries: ZipEntry[], modified?: Date): Promise<Blob> =>
+  new Response(createZipStream(entries, modified), { headers: { 'Content-Type': 'application/zip' } }).blob();
+
+// File System Access API (Chromium); not yet part of TypeScript's DOM types
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable: () => Promise<WritableStream<Uint8Array>> }>;
+
+/**
+ * Saves a ZIP archive under the given file name. Where the browser supports it, the user picks
+ * a location and the archive is streamed directly to disk; otherwise it is built as a Blob and
+ * downloaded. Resolves to false if the user cancels the save dialog.
+ */
+export const saveZip = async (entries: ZipEntry[], fileName: string): Promise<boolean> => {
+  const showSaveFilePicker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    let fileHandle;
+    try {
+      fileHandle = await showSaveFilePicker({ suggestedName: fileName, types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }] });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return false;
+      throw e;
+    }
+    await createZipStream(entries).pipeTo(await fileHandle.createWritable());
+    return true;
+  }
+
+  const url = URL.createObjectURL(await createZip(entries));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 60000); // Give the download time to start
+  return true;
+};
+
+/**
+ * Reads one file from a ZIP archive, such as word/document.xml from a DOCX file.
+ * Resolves to undefined if the archive has no entry of that name.
+ * @throws Error if the data is not a ZIP archive or the entry uses an unsupported compression method.
+ */
+export const readZipEntry = async (archive: Uint8Array, entryName: string): Promise<Uint8Array | undefined> => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  // The end of central directory record is followed by a comment of at most 65535 bytes
+  let end = archive.length - 22;
+  const searchLimit = Math.max(0, end - 0xffff);
+  while (end >= searchLimit && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < searchLimit) throw new Error("The file is not a valid ZIP archive.");
+
+  const decoder = new TextDecoder();
+  const entryCount = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount && view.getUint32(position, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(position + 28, true);
+    const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+    if (name === entryName) {
+      const method = view.getUint16(position + 10, true);
+      const compressedSize = view.getUint32(position + 20, true);
+      const localOffset = view.getUint32(position + 42, true);
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method !== 8) throw new Error(`Unsupported compression method in ZIP entry "${entryName}".`);
+      const inflated = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(inflated).arrayBuffer());
+    }
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return undefined;
+};
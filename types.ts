@@ -1,13 +1,27 @@
 export enum AppMode {
   SELECT = 'SELECT',
   WORD_TO_PDF = 'WORD_TO_PDF',
+  TEXT_TO_PDF = 'TEXT_TO_PDF',
   MERGE_PDFS = 'MERGE_PDFS',
   EXTRACT_PAGES = 'EXTRACT_PAGES',
   SPLIT_PDF = 'SPLIT_PDF',
   ROTATE_PDF = 'ROTATE_PDF',
   ADD_PAGE_NUMBERS = 'ADD_PAGE_NUMBERS',
+  HEADER_FOOTER = 'HEADER_FOOTER',
   COMPRESS_PDF = 'COMPRESS_PDF',
+  WATERMARK_PDF = 'WATERMARK_PDF',
+  PROTECT_PDF = 'PROTECT_PDF',
+  UNLOCK_PDF = 'UNLOCK_PDF',
+  EDIT_METADATA = 'EDIT_METADATA',
+  FILL_FORM = 'FILL_FORM',
+  REDACT_PDF = 'REDACT_PDF',
+  ORGANIZE_PDF = 'ORGANIZE_PDF',
   IMAGES_TO_PDF = 'IMAGES_TO_PDF',
+  PDF_TO_IMAGES = 'PDF_TO_IMAGES',
+  PDF_TO_TEXT = 'PDF_TO_TEXT',
+  PIPELINE = 'PIPELINE',
+  SIGN_PDF = 'SIGN_PDF',
+  VERIFY_SIGNATURES = 'VERIFY_SIGNATURES',
   PRIVACY_POLICY = 'PRIVACY_POLICY', // Added
   ABOUT_US = 'ABOUT_US', // Added
 }
@@ -20,11 +34,40 @@ export interface GroundingChunk {
   // Add other chunk types if needed
 }
 
+// Reports how many of the items (pages, files or images) of an operation are done
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Progress reporting and cancellation for long-running operations
+export interface JobControl {
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
 export interface ProcessedFileInfo {
   name: string;
   url: string;
   originalSize?: number;
   processedSize?: number;
+  imageReport?: ImageCompressionInfo[]; // Per-image breakdown for Compress PDF
+}
+
+// For Compress PDF feature
+export enum CompressionLevel {
+  Extreme = 'Extreme',
+  Recommended = 'Recommended',
+  Low = 'Low',
+}
+
+export interface ImageCompressionInfo {
+  name: string; // XObject name and object number, e.g. "Im1 (obj 12)"
+  originalWidth: number;
+  originalHeight: number;
+  newWidth: number;
+  newHeight: number;
+  originalBytes: number;
+  newBytes: number;
+  effectiveDpi?: number; // Resolution as drawn on the page, before downsampling
+  skippedReason?: string; // Set when the image was left unchanged
 }
 
 // For Add Page Numbers feature
@@ -45,17 +88,275 @@ export enum StandardPdfFonts {
     Courier = 'Courier',
 }
 
-export interface PageNumberOptions {
+// A TrueType or OpenType font file
+export interface FontInput {
+  name: string;
+  data: Uint8Array | ArrayBuffer;
+}
+
+// The font of drawn text. The standard fonts only cover Western European characters (WinAnsi)
+export interface TextFontOptions {
+  font: StandardPdfFonts;
+  customFont?: FontInput; // Used instead of font, embedded with just the glyphs drawn
+  fallbackFont?: FontInput; // For text that font can't show, e.g. Greek or Cyrillic
+}
+
+export interface PageNumberOptions extends TextFontOptions {
   format: string;
   position: PageNumberPosition;
-  font: StandardPdfFonts;
   fontSize: number;
   colorHex: string;
 }
 
+// For Header & Footer feature
+export type HeaderFooterSlot = 'topLeft' | 'topCenter' | 'topRight' | 'bottomLeft' | 'bottomCenter' | 'bottomRight';
+
+export type PageNumberStyle = 'arabic' | 'romanLower' | 'romanUpper' | 'alphaLower' | 'alphaUpper';
+
+export interface BatesOptions {
+  prefix: string; // e.g. "ACME" for ACME000001
+  suffix: string;
+  startNumber: number;
+  digits: number; // Zero-padded to this many digits
+}
+
+export interface HeaderFooterOptions extends TextFontOptions {
+  // Text per slot, empty for none. Tokens: %p page number, %t last page number, {date},
+  // {filename} and {bates}
+  slots: Record<HeaderFooterSlot, string>;
+  fontSize: number;
+  colorHex: string;
+  numberStyle: PageNumberStyle; // For %p and %t
+  startNumber: number; // %p of the first stamped page
+  skipFirstPages: number; // Leave the first N pages unstamped, e.g. a cover page
+  pageRange: string; // Same syntax as parsePageRanges, empty for all pages
+  marginX: number; // Points from the left and right edges
+  marginY: number; // Points from the top and bottom edges, to the text
+  bates?: BatesOptions; // Required for {bates}; every stamped page takes the next number
+}
+
+// For Watermark PDF feature
+export enum WatermarkLayout {
+  Center = 'Center',
+  Diagonal = 'Diagonal', // Centred along the page diagonal, bottom-left to top-right
+  Tiled = 'Tiled',
+}
+
+export interface WatermarkOptions extends TextFontOptions {
+  type: 'text' | 'image';
+  text: string;
+  fontSize: number;
+  colorHex: string;
+  imageFile?: File; // PNG or JPEG, required when type is 'image'
+  imageScale: number; // Image width as a fraction (0-1) of the page width
+  opacity: number; // 0-1
+  rotation: number; // Degrees counter-clockwise; ignored for the Diagonal layout
+  layout: WatermarkLayout;
+  behindContent: boolean;
+  pageRange: string; // Same syntax as parsePageRanges, empty for all pages
+}
+
+// For Protect PDF feature
+export enum PdfEncryptionAlgorithm {
+  AES256 = 'AES-256',
+  AES128 = 'AES-128',
+  RC4_128 = 'RC4-128', // Only for very old readers
+}
+
+export interface PdfPermissions {
+  printing: boolean;
+  copying: boolean; // Copying text and images
+  editing: boolean; // Modifying content, annotations and inserting/rotating/deleting pages
+  fillingForms: boolean;
+}
+
+export interface ProtectPdfOptions {
+  userPassword: string; // Required to open the document; empty lets anyone open it with the permissions below
+  ownerPassword: string; // Grants full access; a random one is used if empty
+  algorithm: PdfEncryptionAlgorithm;
+  permissions: PdfPermissions;
+}
+
+// For Edit Metadata feature
+export interface PdfCustomMetadataEntry {
+  key: string; // Info dictionary key, e.g. "Department"
+  value: string;
+}
+
+export interface PdfMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string; // As stored in the PDF, usually comma-separated
+  creator: string; // Application that created the original document
+  producer: string; // Application that produced the PDF
+  creationDate: Date | null;
+  modificationDate: Date | null;
+  custom: PdfCustomMetadataEntry[];
+}
+
+// For Fill PDF Form feature
+export type PdfFormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'list' | 'signature';
+export type PdfFormValue = string | boolean | string[];
+export type PdfFormValues = Record<string, PdfFormValue>; // Keyed by fully qualified field name
+
+export interface PdfFormField {
+  name: string; // Fully qualified name, e.g. "applicant.address.city"
+  type: PdfFormFieldType;
+  value: PdfFormValue; // text and radio: string ('' if empty), checkbox: boolean, dropdown and list: string[]
+  options?: string[]; // Choices of radio groups, dropdowns and lists
+  onValue?: string; // Export value of a checked checkbox, usually "Yes"
+  multiline?: boolean;
+  maxLength?: number;
+  multiSelect?: boolean;
+  editable?: boolean; // Dropdown that also accepts a typed value
+  readOnly: boolean;
+}
+
 // Options for image to PDF conversion (can be expanded)
 export interface ImageToPdfOptions {
   pageSize?: 'A4' | 'Letter' | [number, number]; // Predefined or custom [width, height] in points
   orientation?: 'portrait' | 'landscape';
   // Potentially add margins, image fitting strategy (contain, cover, stretch)
-}
\ No newline at end of file
+}
+
+// Options for Word to PDF conversion
+export interface WordToPdfOptions {
+  pageSize: 'document' | 'A4' | 'Letter'; // 'document' keeps the page size set in the Word file
+  fontFamily?: 'sans' | 'serif' | 'mono'; // Body text; defaults to sans
+  customFont?: FontInput; // Used instead of the body font family, embedded with just the glyphs drawn
+  fallbackFont?: FontInput; // For characters the other fonts lack, e.g. Greek or Cyrillic
+}
+
+// Options for Markdown, HTML and plain text to PDF conversion
+export interface TextToPdfOptions {
+  pageSize: 'A4' | 'Letter';
+  orientation: 'portrait' | 'landscape';
+  margin: number; // In points, on all sides
+  fontFamily: 'sans' | 'serif' | 'mono'; // Body text; code is always monospaced
+  fontSize: number; // Body text in points
+  header: string; // Empty for none; {page} and {pages} are replaced by the page number and count
+  footer: string;
+  customFont?: FontInput; // Used instead of fontFamily for the body text, header and footer
+  fallbackFont?: FontInput; // For characters the other fonts lack, e.g. Greek or Cyrillic
+}
+
+// Options for PDF to image export
+export interface PdfToImagesOptions {
+  format: 'png' | 'jpeg';
+  dpi: number; // 72 renders pages at their size in points
+  jpegQuality: number; // 0-1
+  pageRange: string; // Same syntax as parsePageRanges, empty for all pages
+}
+
+// Options for PDF to text extraction
+export interface PdfToTextOptions {
+  format: 'txt' | 'markdown' | 'json';
+  pageRange: string; // Same syntax as parsePageRanges, empty for all pages
+}
+
+// For PDF pipelines ("recipes"): steps applied in order to one document
+export type PipelineStep =
+  | { type: 'merge'; preserveBookmarks: boolean; bookmarkPerFile: boolean } // Combines the uploaded files; first step only
+  | { type: 'extractPages'; pageRange: string }
+  | { type: 'rotate'; pageRange: string; angle: 90 | 180 | 270 }
+  // Uploaded fonts are named by file name (empty for the standard font), so recipes stay plain JSON
+  | ({ type: 'pageNumbers'; customFontName: string } & Omit<PageNumberOptions, 'customFont' | 'fallbackFont'>)
+  | ({ type: 'watermark'; customFontName: string } & Omit<WatermarkOptions, 'type' | 'imageFile' | 'imageScale' | 'customFont' | 'fallbackFont'>) // Text watermarks only
+  | { type: 'compress'; level: CompressionLevel };
+
+export type PipelineStepType = PipelineStep['type'];
+
+export interface PdfRecipe {
+  name: string;
+  steps: PipelineStep[];
+}
+
+// For batch mode (one operation applied to many files)
+export interface BatchFileStatus {
+  name: string;
+  state: 'pending' | 'processing' | 'done' | 'failed';
+  outputName?: string;
+  error?: string;
+}
+
+// For Sign PDF feature
+// Placement of the signature on a page, as fractions (0-1) of the page size with the origin at the top-left.
+export interface SignaturePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SignatureDateOptions extends TextFontOptions {
+  text: string;
+  fontSize: number;
+}
+
+export interface SignatureStampOptions {
+  signatureDataUrl: string; // PNG data URL from SignaturePad
+  pageIndex: number; // 0-indexed
+  placement: SignaturePlacement;
+  date?: SignatureDateOptions;
+  initials?: {
+    imageDataUrl: string; // PNG data URL from SignaturePad
+    position: PageNumberPosition;
+    width: number; // in points, height follows the image aspect ratio
+    skipSignaturePage?: boolean;
+  };
+}
+
+export interface SignatureVerificationResult {
+  fieldName?: string;
+  signerName: string;
+  issuerName?: string;
+  signingTime?: Date;
+  reason?: string;
+  location?: string;
+  subFilter: string; // e.g. adbe.pkcs7.detached
+  integrityValid: boolean; // The signed byte ranges match the digest in the signature
+  signatureValid: boolean; // The digest was signed by the embedded certificate
+  coversWholeDocument: boolean; // false if the document was changed after signing
+  certificateValidAtSigning?: boolean;
+  selfSigned?: boolean;
+  error?: string;
+}
+
+// For Redact PDF feature
+// Area to redact, as fractions (0-1) of the page as displayed (after cropping and rotation), with the origin at the top-left.
+export interface RedactionArea {
+  pageIndex: number; // 0-indexed
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export enum RedactionSearchPreset {
+  Email = 'Email',
+  Iban = 'Iban',
+  AccountNumber = 'AccountNumber', // Runs of 8 or more digits, optionally grouped with spaces or dashes
+}
+
+export interface RedactionSearchOptions {
+  query: string; // Empty to use only the presets
+  useRegex: boolean;
+  caseSensitive: boolean;
+  presets: RedactionSearchPreset[];
+}
+
+export interface RedactPdfOptions {
+  areas: RedactionArea[];
+  search?: RedactionSearchOptions; // Every occurrence is redacted in addition to the areas
+}
+
+export interface RedactionReport {
+  areasRedacted: number; // Marked areas plus search matches
+  matchesFound: number;
+  charactersRemoved: number;
+  imagesRedacted: number; // Images whose pixels under the areas were blacked out
+  imagesRemoved: number; // Images and graphics removed entirely because they could not be edited
+  annotationsRemoved: number;
+  problems: string[]; // Found by re-reading the result; empty if the redacted content can no longer be extracted
+}
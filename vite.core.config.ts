@@ -0,0 +1,25 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the Node package in core/ (the lovpdf library and CLI) from the shared services.
+export default defineConfig({
+  publicDir: path.resolve(__dirname, 'public/fonts'), // The fallback font and its license, next to the scripts
+  build: {
+    ssr: true,
+    target: 'node18',
+    outDir: path.resolve(__dirname, 'core/dist'),
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        index: path.resolve(__dirname, 'core/index.ts'),
+        cli: path.resolve(__dirname, 'core/cli.ts'),
+      },
+      external: ['pdf-lib', '@pdf-lib/fontkit'],
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'core.js',
+      },
+    },
+  },
+});